@@ -0,0 +1,179 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import {
+  CallPlatformAdapter,
+  WebhookRequest,
+  ZoomWebhookAdapter,
+  TeamsWebhookAdapter,
+  SharedSecretWebhookAdapter
+} from '../src/services/callPlatformAdapters';
+
+/**
+ * Replays a recorded call platform webhook from fixtures/webhooks, signed the
+ * way the platform signs it, so the verification and session flow can be
+ * exercised without a real Zoom/Teams meeting.
+ *
+ *   pnpm webhook:fixture <platform> <fixture> [--url http://localhost:3000] [--dry-run]
+ *
+ * --dry-run runs the platform adapter locally and prints the normalized events
+ * instead of posting, so no server or database is needed.
+ */
+
+dotenv.config();
+
+interface WebhookFixture {
+  description: string;
+  query?: Record<string, string>;
+  body?: any;
+}
+
+const FIXTURE_DIR = path.join(__dirname, '..', 'fixtures', 'webhooks');
+
+function usage(message?: string): never {
+  if (message) {
+    console.error(message);
+  }
+  console.error('Usage: pnpm webhook:fixture <zoom|teams|other> <fixture> [--url <server url>] [--dry-run]');
+  if (fs.existsSync(FIXTURE_DIR)) {
+    for (const platform of fs.readdirSync(FIXTURE_DIR)) {
+      const fixtures = fs.readdirSync(path.join(FIXTURE_DIR, platform)).map(file => path.basename(file, '.json'));
+      console.error(`  ${platform}: ${fixtures.join(', ')}`);
+    }
+  }
+  process.exit(1);
+}
+
+function loadFixture(platform: string, name: string): WebhookFixture {
+  const file = path.join(FIXTURE_DIR, platform, `${name.replace(/\.json$/, '')}.json`);
+  if (!fs.existsSync(file)) {
+    usage(`No fixture ${name} for ${platform}`);
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    usage(`${name} must be set to sign ${name.split('_')[0].toLowerCase()} fixtures`);
+  }
+  return value;
+}
+
+/**
+ * Builds the request the platform would send: current timestamps (so the
+ * replay window accepts it) and the platform's signature headers.
+ */
+function buildRequest(platform: string, fixture: WebhookFixture): { request: WebhookRequest; adapter: CallPlatformAdapter } {
+  const toleranceMs = parseFloat(process.env.WEBHOOK_TOLERANCE_SECONDS || '300') * 1000;
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const body = fixture.body ? JSON.parse(JSON.stringify(fixture.body)) : undefined;
+  const headers: Record<string, string> = { 'content-type': 'application/json' };
+  let adapter: CallPlatformAdapter;
+
+  switch (platform) {
+    case 'zoom': {
+      const secret = requireEnv('ZOOM_WEBHOOK_SECRET_TOKEN');
+      if (body && body.event !== 'endpoint.url_validation') {
+        body.event_ts = Date.now();
+      }
+      const rawBody = JSON.stringify(body);
+      headers['x-zm-request-timestamp'] = timestamp;
+      headers['x-zm-signature'] = ZoomWebhookAdapter.sign(secret, timestamp, rawBody);
+      adapter = new ZoomWebhookAdapter(secret, toleranceMs);
+      break;
+    }
+    case 'teams': {
+      const clientState = requireEnv('TEAMS_WEBHOOK_CLIENT_STATE');
+      for (const notification of body?.value || []) {
+        notification.clientState = clientState;
+      }
+      adapter = new TeamsWebhookAdapter(clientState);
+      break;
+    }
+    default: {
+      const secret = requireEnv('WEBHOOK_SHARED_SECRET');
+      if (body) {
+        body.timestamp = new Date().toISOString();
+      }
+      const rawBody = JSON.stringify(body);
+      headers['x-webhook-timestamp'] = timestamp;
+      headers['x-webhook-signature'] = SharedSecretWebhookAdapter.sign(secret, timestamp, rawBody);
+      adapter = new SharedSecretWebhookAdapter(platform, secret, toleranceMs);
+    }
+  }
+
+  return {
+    adapter,
+    request: {
+      headers,
+      query: fixture.query || {},
+      rawBody: Buffer.from(body ? JSON.stringify(body) : ''),
+      body
+    }
+  };
+}
+
+function dryRun(adapter: CallPlatformAdapter, request: WebhookRequest): void {
+  const challenge = adapter.getChallenge(request);
+  if (challenge) {
+    console.log(`Challenge response (${challenge.contentType}):`);
+    console.log(JSON.stringify(challenge.body, null, 2));
+    return;
+  }
+
+  adapter.verify(request);
+  console.log('Request verified');
+  console.log(JSON.stringify(adapter.normalize(request), null, 2));
+}
+
+async function send(url: string, platform: string, request: WebhookRequest): Promise<void> {
+  const target = new URL(`/webhook/external-call/${platform}`, url);
+  for (const [key, value] of Object.entries(request.query)) {
+    target.searchParams.set(key, String(value));
+  }
+
+  const response = await fetch(target, {
+    method: 'POST',
+    headers: request.headers as Record<string, string>,
+    body: request.body ? request.rawBody : undefined
+  });
+  console.log(`${response.status} ${response.statusText}`);
+  console.log(await response.text());
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const positional: string[] = [];
+  let url = `http://localhost:${process.env.PORT || 3000}`;
+  let isDryRun = false;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--dry-run') {
+      isDryRun = true;
+    } else if (args[i] === '--url') {
+      url = args[++i];
+    } else {
+      positional.push(args[i]);
+    }
+  }
+
+  const [platform, name] = positional;
+  if (!platform || !name || !url) {
+    usage();
+  }
+
+  const fixture = loadFixture(platform, name);
+  console.log(`${platform}/${name}: ${fixture.description}`);
+  const { adapter, request } = buildRequest(platform, fixture);
+
+  if (isDryRun) {
+    dryRun(adapter, request);
+  } else {
+    await send(url, platform, request);
+  }
+}
+
+main().catch(error => {
+  console.error('Failed to send webhook fixture:', error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,301 @@
+import { Request, Response } from 'express';
+import { User } from '../types';
+import { authService, AuthError, UserValidationError } from '../services/auth';
+import { externalCallMonitoringService } from '../services/externalCallMonitoring';
+import { TenantUtil } from '../utils/tenant';
+
+const STAFF_ROLES: User['role'][] = ['proctor', 'reviewer', 'admin'];
+
+export class AuthController {
+
+  login = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { email, password } = req.body;
+      if (!email || !password) {
+        res.status(400).json({ error: 'Email and password required' });
+        return;
+      }
+
+      const { user, tokens } = await authService.login(email, password);
+
+      res.status(200).json({
+        success: true,
+        user,
+        tokens
+      });
+
+    } catch (error) {
+      if (error instanceof AuthError) {
+        res.status(401).json({ error: error.message });
+        return;
+      }
+      console.error('Error signing in:', error);
+      res.status(500).json({ error: 'Failed to sign in' });
+    }
+  }
+
+  refresh = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { refreshToken } = req.body;
+      if (!refreshToken) {
+        res.status(400).json({ error: 'Refresh token required' });
+        return;
+      }
+
+      const tokens = await authService.refresh(refreshToken);
+
+      res.status(200).json({
+        success: true,
+        tokens
+      });
+
+    } catch (error) {
+      if (error instanceof AuthError) {
+        res.status(401).json({ error: error.message });
+        return;
+      }
+      console.error('Error refreshing tokens:', error);
+      res.status(500).json({ error: 'Failed to refresh tokens' });
+    }
+  }
+
+  logout = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { refreshToken } = req.body;
+      if (refreshToken) {
+        await authService.logout(refreshToken);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Signed out'
+      });
+
+    } catch (error) {
+      console.error('Error signing out:', error);
+      res.status(500).json({ error: 'Failed to sign out' });
+    }
+  }
+
+  getCurrentUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const auth = req.auth!;
+      const user = auth.role === 'candidate' ? null : await authService.getUser(auth.userId);
+
+      res.status(200).json({
+        success: true,
+        auth,
+        user
+      });
+
+    } catch (error) {
+      console.error('Error getting current user:', error);
+      res.status(500).json({ error: 'Failed to get current user' });
+    }
+  }
+
+  getJwks = async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.status(200).json(await authService.getJwks());
+
+    } catch (error) {
+      console.error('Error getting signing keys:', error);
+      res.status(500).json({ error: 'Failed to get signing keys' });
+    }
+  }
+
+  exchangeClientCredentials = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { clientId, clientSecret } = req.body;
+      if (!clientId || !clientSecret) {
+        res.status(400).json({ error: 'clientId and clientSecret required' });
+        return;
+      }
+
+      const tokens = await authService.exchangeClientCredentials(clientId, clientSecret);
+
+      res.status(200).json({
+        success: true,
+        tokens
+      });
+
+    } catch (error) {
+      if (error instanceof AuthError) {
+        res.status(401).json({ error: error.message });
+        return;
+      }
+      console.error('Error exchanging client credentials:', error);
+      res.status(500).json({ error: 'Failed to exchange client credentials' });
+    }
+  }
+
+  exchangeLtiLaunch = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { launchId } = req.body;
+      if (!launchId || typeof launchId !== 'string') {
+        res.status(400).json({ error: 'launchId is required' });
+        return;
+      }
+
+      const { userId, tokens } = await authService.exchangeLtiLaunch(launchId);
+
+      res.status(200).json({
+        success: true,
+        userId,
+        tokens
+      });
+
+    } catch (error) {
+      if (error instanceof AuthError) {
+        res.status(401).json({ error: error.message });
+        return;
+      }
+      console.error('Error exchanging LTI launch:', error);
+      res.status(500).json({ error: 'Failed to exchange LTI launch' });
+    }
+  }
+
+  issueCandidateTokens = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { userId, sessionId } = req.body;
+      if (!userId || typeof userId !== 'string') {
+        res.status(400).json({ error: 'userId is required' });
+        return;
+      }
+
+      // Tokens for a session are in its tenant (already checked to be the caller's)
+      const scopedSessionId = typeof sessionId === 'string' && sessionId ? sessionId : undefined;
+      const tokens = await authService.issueCandidateTokens(userId, {
+        sessionId: scopedSessionId,
+        tenantId: scopedSessionId
+          ? await externalCallMonitoringService.getSessionTenant(scopedSessionId)
+          : TenantUtil.resolve(req.auth, req.body.tenantId)
+      });
+      console.log(`${req.auth!.userId} issued candidate tokens for ${userId}`);
+
+      res.status(201).json({
+        success: true,
+        tokens
+      });
+
+    } catch (error) {
+      console.error('Error issuing candidate tokens:', error);
+      res.status(500).json({ error: 'Failed to issue candidate tokens' });
+    }
+  }
+
+  rotateKeys = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const kid = await authService.rotateKeys();
+
+      res.status(200).json({
+        success: true,
+        kid
+      });
+
+    } catch (error) {
+      console.error('Error rotating signing keys:', error);
+      res.status(500).json({ error: 'Failed to rotate signing keys' });
+    }
+  }
+
+  listUsers = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { role } = req.query;
+      if (role && !STAFF_ROLES.includes(String(role) as User['role'])) {
+        res.status(400).json({ error: 'Invalid role' });
+        return;
+      }
+
+      const users = await authService.listUsers({
+        tenantId: TenantUtil.resolve(req.auth, req.query.tenantId),
+        role: role ? String(role) as User['role'] : undefined
+      });
+
+      res.status(200).json({
+        success: true,
+        users,
+        count: users.length
+      });
+
+    } catch (error) {
+      console.error('Error listing users:', error);
+      res.status(500).json({ error: 'Failed to list users' });
+    }
+  }
+
+  getUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = await authService.getUser(req.params.userId);
+      if (!user) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        user
+      });
+
+    } catch (error) {
+      console.error('Error getting user:', error);
+      res.status(500).json({ error: 'Failed to get user' });
+    }
+  }
+
+  createUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { email, name, role, password, disabled } = req.body;
+      const tenantId = TenantUtil.resolve(req.auth, req.body.tenantId);
+      const user = await authService.createUser({ email, name, role, password, tenantId, disabled });
+
+      res.status(201).json({
+        success: true,
+        user
+      });
+
+    } catch (error) {
+      if (error instanceof UserValidationError) {
+        res.status(400).json({ error: 'Invalid user', details: error.errors });
+        return;
+      }
+      console.error('Error creating user:', error);
+      res.status(500).json({ error: 'Failed to create user' });
+    }
+  }
+
+  updateUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { email, name, role, password, disabled } = req.body;
+      const current = await authService.getUser(req.params.userId);
+      if (!current) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+      const tenantId = TenantUtil.resolveUpdate(req.auth, req.body.tenantId, current.tenantId);
+      const user = await authService.updateUser(
+        req.params.userId,
+        { email, name, role, password, tenantId, disabled }
+      );
+      if (!user) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        user
+      });
+
+    } catch (error) {
+      if (error instanceof UserValidationError) {
+        res.status(400).json({ error: 'Invalid user', details: error.errors });
+        return;
+      }
+      console.error('Error updating user:', error);
+      res.status(500).json({ error: 'Failed to update user' });
+    }
+  }
+}
+
+export const authController = new AuthController();
@@ -0,0 +1,269 @@
+import { Request, Response } from 'express';
+import { examService, ExamValidationError, ExamConflictError } from '../services/exam';
+import { externalCallMonitoringService } from '../services/externalCallMonitoring';
+import { ExamModel } from '../models';
+import { TenantUtil } from '../utils/tenant';
+
+export class ExamController {
+
+  listExams = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const exams = await examService.listExams({
+        tenantId: TenantUtil.resolve(req.auth, req.query.tenantId)
+      });
+
+      res.status(200).json({
+        success: true,
+        exams,
+        count: exams.length
+      });
+
+    } catch (error) {
+      console.error('Error listing exams:', error);
+      res.status(500).json({ error: 'Failed to list exams' });
+    }
+  }
+
+  getExam = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const exam = await examService.getExam(req.params.examId);
+      if (!exam) {
+        res.status(404).json({ error: 'Exam not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        exam
+      });
+
+    } catch (error) {
+      console.error('Error getting exam:', error);
+      res.status(500).json({ error: 'Failed to get exam' });
+    }
+  }
+
+  createExam = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { title, description, ruleSetId, durationMinutes } = req.body;
+      const tenantId = TenantUtil.resolve(req.auth, req.body.tenantId);
+      const exam = await examService.createExam({ title, description, tenantId, ruleSetId, durationMinutes });
+
+      res.status(201).json({
+        success: true,
+        exam
+      });
+
+    } catch (error) {
+      if (error instanceof ExamValidationError) {
+        res.status(400).json({ error: 'Invalid exam', details: error.errors });
+        return;
+      }
+      console.error('Error creating exam:', error);
+      res.status(500).json({ error: 'Failed to create exam' });
+    }
+  }
+
+  updateExam = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { title, description, ruleSetId, durationMinutes } = req.body;
+      const current = await examService.getExam(req.params.examId);
+      if (!current) {
+        res.status(404).json({ error: 'Exam not found' });
+        return;
+      }
+      const tenantId = TenantUtil.resolveUpdate(req.auth, req.body.tenantId, current.tenantId);
+      const exam = await examService.updateExam(
+        req.params.examId,
+        { title, description, tenantId, ruleSetId, durationMinutes }
+      );
+      if (!exam) {
+        res.status(404).json({ error: 'Exam not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        exam
+      });
+
+    } catch (error) {
+      if (error instanceof ExamValidationError) {
+        res.status(400).json({ error: 'Invalid exam', details: error.errors });
+        return;
+      }
+      console.error('Error updating exam:', error);
+      res.status(500).json({ error: 'Failed to update exam' });
+    }
+  }
+
+  deleteExam = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deleted = await examService.deleteExam(req.params.examId);
+      if (!deleted) {
+        res.status(404).json({ error: 'Exam not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Exam deleted'
+      });
+
+    } catch (error) {
+      if (error instanceof ExamConflictError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error('Error deleting exam:', error);
+      res.status(500).json({ error: 'Failed to delete exam' });
+    }
+  }
+
+  listSlots = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { examId } = req.params;
+      if (!(await ExamModel.exists({ examId }))) {
+        res.status(404).json({ error: 'Exam not found' });
+        return;
+      }
+
+      const slots = await examService.listSlots(examId);
+
+      res.status(200).json({
+        success: true,
+        slots,
+        count: slots.length
+      });
+
+    } catch (error) {
+      console.error('Error listing exam slots:', error);
+      res.status(500).json({ error: 'Failed to list exam slots' });
+    }
+  }
+
+  getSlot = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const slot = await examService.getSlot(req.params.examId, req.params.slotId);
+      if (!slot) {
+        res.status(404).json({ error: 'Exam slot not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        slot
+      });
+
+    } catch (error) {
+      console.error('Error getting exam slot:', error);
+      res.status(500).json({ error: 'Failed to get exam slot' });
+    }
+  }
+
+  createSlot = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { windowStart, windowEnd, candidateIds, externalCallId, callPlatform } = req.body;
+      const slot = await examService.createSlot(
+        req.params.examId,
+        { windowStart, windowEnd, candidateIds, externalCallId, callPlatform }
+      );
+      if (!slot) {
+        res.status(404).json({ error: 'Exam not found' });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        slot
+      });
+
+    } catch (error) {
+      if (error instanceof ExamValidationError) {
+        res.status(400).json({ error: 'Invalid exam slot', details: error.errors });
+        return;
+      }
+      console.error('Error creating exam slot:', error);
+      res.status(500).json({ error: 'Failed to create exam slot' });
+    }
+  }
+
+  updateSlot = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { windowStart, windowEnd, candidateIds, externalCallId, callPlatform } = req.body;
+      const slot = await examService.updateSlot(
+        req.params.examId,
+        req.params.slotId,
+        { windowStart, windowEnd, candidateIds, externalCallId, callPlatform }
+      );
+      if (!slot) {
+        res.status(404).json({ error: 'Exam slot not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        slot
+      });
+
+    } catch (error) {
+      if (error instanceof ExamValidationError) {
+        res.status(400).json({ error: 'Invalid exam slot', details: error.errors });
+        return;
+      }
+      console.error('Error updating exam slot:', error);
+      res.status(500).json({ error: 'Failed to update exam slot' });
+    }
+  }
+
+  deleteSlot = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deleted = await examService.deleteSlot(req.params.examId, req.params.slotId);
+      if (!deleted) {
+        res.status(404).json({ error: 'Exam slot not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Exam slot deleted'
+      });
+
+    } catch (error) {
+      if (error instanceof ExamConflictError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error('Error deleting exam slot:', error);
+      res.status(500).json({ error: 'Failed to delete exam slot' });
+    }
+  }
+
+  getExamSessions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { examId } = req.params;
+      const { slotId } = req.query;
+      if (!(await ExamModel.exists({ examId }))) {
+        res.status(404).json({ error: 'Exam not found' });
+        return;
+      }
+
+      const sessions = await externalCallMonitoringService.getExamSessions(
+        examId,
+        typeof slotId === 'string' ? slotId : undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        sessions,
+        count: sessions.length
+      });
+
+    } catch (error) {
+      console.error('Error getting exam sessions:', error);
+      res.status(500).json({ error: 'Failed to get exam sessions' });
+    }
+  }
+}
+
+export const examController = new ExamController();
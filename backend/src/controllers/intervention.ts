@@ -0,0 +1,109 @@
+import { Request, Response } from 'express';
+import {
+  interventionService,
+  InterventionValidationError,
+  InterventionStateError,
+  WARNING_PRESETS
+} from '../services/intervention';
+import { SessionTransitionError } from '../services/externalCallMonitoring';
+import { InterventionEvent } from '../types';
+
+export class InterventionController {
+
+  getPresets = async (req: Request, res: Response): Promise<void> => {
+    res.status(200).json({
+      success: true,
+      presets: Object.entries(WARNING_PRESETS).map(([id, text]) => ({ id, text }))
+    });
+  }
+
+  getEvents = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const events = await interventionService.getEvents(req.params.sessionId);
+
+      res.status(200).json({
+        success: true,
+        events,
+        count: events.length
+      });
+
+    } catch (error) {
+      console.error('Error getting interventions:', error);
+      res.status(500).json({ error: 'Failed to get interventions' });
+    }
+  }
+
+  sendWarning = async (req: Request, res: Response): Promise<void> => {
+    const { preset, text } = req.body || {};
+    await this.record(res, 'send warning', () =>
+      interventionService.sendWarning(req.params.sessionId, req.auth!, { preset, text })
+    );
+  }
+
+  sendMessage = async (req: Request, res: Response): Promise<void> => {
+    await this.record(res, 'send message', () =>
+      interventionService.sendMessage(req.params.sessionId, req.auth!, req.body?.text)
+    );
+  }
+
+  forcePause = async (req: Request, res: Response): Promise<void> => {
+    await this.record(res, 'pause session', () =>
+      interventionService.forcePause(req.params.sessionId, req.auth!, req.body?.reason)
+    );
+  }
+
+  forceEnd = async (req: Request, res: Response): Promise<void> => {
+    await this.record(res, 'end session', () =>
+      interventionService.forceEnd(req.params.sessionId, req.auth!, req.body?.reason)
+    );
+  }
+
+  acknowledge = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId, eventId } = req.params;
+      const event = await interventionService.acknowledge(sessionId, req.auth!, eventId);
+      if (!event) {
+        res.status(404).json({ error: 'Intervention not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        event
+      });
+
+    } catch (error) {
+      if (error instanceof InterventionStateError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error('Error acknowledging intervention:', error);
+      res.status(500).json({ error: 'Failed to acknowledge intervention' });
+    }
+  }
+
+  private async record(res: Response, action: string, apply: () => Promise<InterventionEvent>): Promise<void> {
+    try {
+      const event = await apply();
+
+      res.status(201).json({
+        success: true,
+        event
+      });
+
+    } catch (error) {
+      if (error instanceof InterventionValidationError) {
+        res.status(400).json({ error: 'Invalid intervention', details: error.errors });
+        return;
+      }
+      if (error instanceof InterventionStateError || error instanceof SessionTransitionError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error(`Error trying to ${action}:`, error);
+      res.status(500).json({ error: `Failed to ${action}` });
+    }
+  }
+}
+
+export const interventionController = new InterventionController();
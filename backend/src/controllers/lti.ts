@@ -0,0 +1,286 @@
+import { Request, Response } from 'express';
+import {
+  ltiService,
+  LtiLoginRequest,
+  LtiValidationError,
+  LtiLaunchError,
+  LtiPassbackStateError
+} from '../services/lti';
+import { TenantUtil } from '../utils/tenant';
+
+export class LtiController {
+
+  // OIDC login initiation; platforms may use either GET or a form POST
+  login = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const params = { ...req.query, ...req.body } as Record<string, unknown>;
+      const request: LtiLoginRequest = {};
+      for (const key of ['iss', 'login_hint', 'target_link_uri', 'lti_message_hint', 'client_id', 'lti_deployment_id'] as const) {
+        if (typeof params[key] === 'string') {
+          request[key] = params[key] as string;
+        }
+      }
+
+      res.redirect(302, await ltiService.initiateLogin(request));
+
+    } catch (error) {
+      if (error instanceof LtiLaunchError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      console.error('Error initiating LTI login:', error);
+      res.status(500).json({ error: 'Failed to initiate LTI login' });
+    }
+  }
+
+  launch = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id_token: idToken, state } = req.body;
+
+      // 303 so the browser follows the form POST with a GET
+      res.redirect(303, await ltiService.launch(idToken, state));
+
+    } catch (error) {
+      if (error instanceof LtiLaunchError) {
+        console.warn(`Rejected LTI launch: ${error.message}`);
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      console.error('Error handling LTI launch:', error);
+      res.status(500).json({ error: 'Failed to handle LTI launch' });
+    }
+  }
+
+  getJwks = async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.status(200).json(await ltiService.getJwks());
+
+    } catch (error) {
+      console.error('Error getting LTI tool keys:', error);
+      res.status(500).json({ error: 'Failed to get LTI tool keys' });
+    }
+  }
+
+  getConfiguration = async (req: Request, res: Response): Promise<void> => {
+    res.status(200).json({
+      success: true,
+      configuration: ltiService.getToolConfiguration()
+    });
+  }
+
+  // The launch ticket itself is the credential for the launched user
+  getLaunch = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const launch = await ltiService.getLaunch(req.params.launchId);
+      if (!launch) {
+        res.status(404).json({ error: 'LTI launch not found or expired' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        launch
+      });
+
+    } catch (error) {
+      console.error('Error getting LTI launch:', error);
+      res.status(500).json({ error: 'Failed to get LTI launch' });
+    }
+  }
+
+  getDeepLinkOptions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const options = await ltiService.getDeepLinkOptions(req.params.launchId);
+      if (!options) {
+        res.status(404).json({ error: 'LTI deep linking request not found or expired' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        ...options
+      });
+
+    } catch (error) {
+      if (error instanceof LtiLaunchError) {
+        res.status(403).json({ error: error.message });
+        return;
+      }
+      console.error('Error getting LTI deep linking options:', error);
+      res.status(500).json({ error: 'Failed to get LTI deep linking options' });
+    }
+  }
+
+  createDeepLink = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { examId, slotId, title } = req.body;
+      if (!examId || typeof examId !== 'string') {
+        res.status(400).json({ error: 'examId is required' });
+        return;
+      }
+
+      const response = await ltiService.createDeepLinkResponse(req.params.launchId, {
+        examId,
+        slotId: typeof slotId === 'string' && slotId ? slotId : undefined,
+        title: typeof title === 'string' && title ? title : undefined
+      });
+      if (!response) {
+        res.status(404).json({ error: 'LTI deep linking request not found or expired' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        ...response
+      });
+
+    } catch (error) {
+      if (error instanceof LtiLaunchError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      console.error('Error creating LTI deep link:', error);
+      res.status(500).json({ error: 'Failed to create LTI deep link' });
+    }
+  }
+
+  listPlatforms = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const platforms = await ltiService.listPlatforms({
+        tenantId: TenantUtil.resolve(req.auth, req.query.tenantId)
+      });
+
+      res.status(200).json({
+        success: true,
+        platforms,
+        count: platforms.length
+      });
+
+    } catch (error) {
+      console.error('Error listing LTI platforms:', error);
+      res.status(500).json({ error: 'Failed to list LTI platforms' });
+    }
+  }
+
+  getPlatform = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const platform = await ltiService.getPlatform(req.params.platformId);
+      if (!platform) {
+        res.status(404).json({ error: 'LTI platform not found' });
+        return;
+      }
+
+      const links = await ltiService.listResourceLinks(platform.id);
+      res.status(200).json({
+        success: true,
+        platform,
+        links
+      });
+
+    } catch (error) {
+      console.error('Error getting LTI platform:', error);
+      res.status(500).json({ error: 'Failed to get LTI platform' });
+    }
+  }
+
+  createPlatform = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { name, issuer, clientId, deploymentIds, authLoginUrl, authTokenUrl, jwksUrl } = req.body;
+      const tenantId = TenantUtil.resolve(req.auth, req.body.tenantId);
+      const platform = await ltiService.createPlatform(
+        { name, issuer, clientId, deploymentIds, authLoginUrl, authTokenUrl, jwksUrl, tenantId }
+      );
+
+      res.status(201).json({
+        success: true,
+        platform,
+        tool: ltiService.getToolConfiguration()
+      });
+
+    } catch (error) {
+      if (error instanceof LtiValidationError) {
+        res.status(400).json({ error: 'Invalid LTI platform', details: error.errors });
+        return;
+      }
+      console.error('Error creating LTI platform:', error);
+      res.status(500).json({ error: 'Failed to create LTI platform' });
+    }
+  }
+
+  updatePlatform = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { name, issuer, clientId, deploymentIds, authLoginUrl, authTokenUrl, jwksUrl } = req.body;
+      const current = await ltiService.getPlatform(req.params.platformId);
+      if (!current) {
+        res.status(404).json({ error: 'LTI platform not found' });
+        return;
+      }
+      const tenantId = TenantUtil.resolveUpdate(req.auth, req.body.tenantId, current.tenantId);
+      const platform = await ltiService.updatePlatform(
+        req.params.platformId,
+        { name, issuer, clientId, deploymentIds, authLoginUrl, authTokenUrl, jwksUrl, tenantId }
+      );
+      if (!platform) {
+        res.status(404).json({ error: 'LTI platform not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        platform
+      });
+
+    } catch (error) {
+      if (error instanceof LtiValidationError) {
+        res.status(400).json({ error: 'Invalid LTI platform', details: error.errors });
+        return;
+      }
+      console.error('Error updating LTI platform:', error);
+      res.status(500).json({ error: 'Failed to update LTI platform' });
+    }
+  }
+
+  deletePlatform = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deleted = await ltiService.deletePlatform(req.params.platformId);
+      if (!deleted) {
+        res.status(404).json({ error: 'LTI platform not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'LTI platform deleted'
+      });
+
+    } catch (error) {
+      console.error('Error deleting LTI platform:', error);
+      res.status(500).json({ error: 'Failed to delete LTI platform' });
+    }
+  }
+
+  resendVerdict = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await ltiService.resendVerdict(req.params.sessionId);
+      if (!result) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        ...result
+      });
+
+    } catch (error) {
+      if (error instanceof LtiPassbackStateError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error('Error resending LTI verdict:', error);
+      res.status(500).json({ error: 'Failed to resend LTI verdict' });
+    }
+  }
+}
+
+export const ltiController = new LtiController();
@@ -0,0 +1,215 @@
+import { Request, Response } from 'express';
+import { OutboundWebhookEventType } from '../types';
+import {
+  outboundWebhookService,
+  OUTBOUND_WEBHOOK_EVENTS,
+  WebhookSubscriptionValidationError,
+  WebhookDeliveryStateError,
+  WebhookDeliveryQuery
+} from '../services/outboundWebhook';
+import { TenantUtil } from '../utils/tenant';
+
+export class OutboundWebhookController {
+
+  listSubscriptions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const subscriptions = await outboundWebhookService.listSubscriptions({
+        tenantId: TenantUtil.resolve(req.auth, req.query.tenantId)
+      });
+
+      res.status(200).json({
+        success: true,
+        subscriptions,
+        count: subscriptions.length
+      });
+
+    } catch (error) {
+      console.error('Error listing webhook subscriptions:', error);
+      res.status(500).json({ error: 'Failed to list webhook subscriptions' });
+    }
+  }
+
+  getSubscription = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const subscription = await outboundWebhookService.getSubscription(req.params.subscriptionId);
+      if (!subscription) {
+        res.status(404).json({ error: 'Webhook subscription not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        subscription
+      });
+
+    } catch (error) {
+      console.error('Error getting webhook subscription:', error);
+      res.status(500).json({ error: 'Failed to get webhook subscription' });
+    }
+  }
+
+  createSubscription = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { url, events, secret, description, active } = req.body;
+      const tenantId = TenantUtil.resolve(req.auth, req.body.tenantId);
+      const { subscription, secret: signingSecret } = await outboundWebhookService.createSubscription(
+        { url, events, secret, tenantId, description, active }
+      );
+
+      // The only time the signing secret is returned
+      res.status(201).json({
+        success: true,
+        subscription,
+        secret: signingSecret
+      });
+
+    } catch (error) {
+      if (error instanceof WebhookSubscriptionValidationError) {
+        res.status(400).json({ error: 'Invalid webhook subscription', details: error.errors });
+        return;
+      }
+      console.error('Error creating webhook subscription:', error);
+      res.status(500).json({ error: 'Failed to create webhook subscription' });
+    }
+  }
+
+  updateSubscription = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { url, events, secret, description, active } = req.body;
+      const current = await outboundWebhookService.getSubscription(req.params.subscriptionId);
+      if (!current) {
+        res.status(404).json({ error: 'Webhook subscription not found' });
+        return;
+      }
+      const tenantId = TenantUtil.resolveUpdate(req.auth, req.body.tenantId, current.tenantId);
+      const subscription = await outboundWebhookService.updateSubscription(
+        req.params.subscriptionId,
+        { url, events, secret, tenantId, description, active }
+      );
+      if (!subscription) {
+        res.status(404).json({ error: 'Webhook subscription not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        subscription
+      });
+
+    } catch (error) {
+      if (error instanceof WebhookSubscriptionValidationError) {
+        res.status(400).json({ error: 'Invalid webhook subscription', details: error.errors });
+        return;
+      }
+      console.error('Error updating webhook subscription:', error);
+      res.status(500).json({ error: 'Failed to update webhook subscription' });
+    }
+  }
+
+  deleteSubscription = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deleted = await outboundWebhookService.deleteSubscription(req.params.subscriptionId);
+      if (!deleted) {
+        res.status(404).json({ error: 'Webhook subscription not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Webhook subscription deleted'
+      });
+
+    } catch (error) {
+      console.error('Error deleting webhook subscription:', error);
+      res.status(500).json({ error: 'Failed to delete webhook subscription' });
+    }
+  }
+
+  getDeliveries = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { subscriptionId, eventType, status } = req.query;
+      const page = parseInt(String(req.query.page || '1'));
+      const pageSize = parseInt(String(req.query.pageSize || '50'));
+
+      if (eventType && !OUTBOUND_WEBHOOK_EVENTS.includes(String(eventType) as OutboundWebhookEventType)) {
+        res.status(400).json({ error: 'Invalid event type' });
+        return;
+      }
+
+      if (status && !['pending', 'succeeded', 'failed'].includes(String(status))) {
+        res.status(400).json({ error: 'Invalid status' });
+        return;
+      }
+
+      if (isNaN(page) || page < 1 || isNaN(pageSize) || pageSize < 1 || pageSize > 200) {
+        res.status(400).json({ error: 'Invalid paging (pageSize must be 1-200)' });
+        return;
+      }
+
+      const { deliveries, total } = await outboundWebhookService.getDeliveries({
+        subscriptionId: subscriptionId ? String(subscriptionId) : undefined,
+        eventType: eventType ? String(eventType) as OutboundWebhookEventType : undefined,
+        status: status ? String(status) as WebhookDeliveryQuery['status'] : undefined,
+        tenantId: req.auth!.tenantId,
+        page,
+        pageSize
+      });
+
+      res.status(200).json({
+        success: true,
+        deliveries,
+        total,
+        page,
+        pageSize
+      });
+
+    } catch (error) {
+      console.error('Error getting webhook deliveries:', error);
+      res.status(500).json({ error: 'Failed to get webhook deliveries' });
+    }
+  }
+
+  getDelivery = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const delivery = await outboundWebhookService.getDelivery(req.params.deliveryId);
+      if (!delivery) {
+        res.status(404).json({ error: 'Webhook delivery not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        delivery
+      });
+
+    } catch (error) {
+      console.error('Error getting webhook delivery:', error);
+      res.status(500).json({ error: 'Failed to get webhook delivery' });
+    }
+  }
+
+  redeliver = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const delivery = await outboundWebhookService.redeliver(req.params.deliveryId);
+      if (!delivery) {
+        res.status(404).json({ error: 'Webhook delivery not found' });
+        return;
+      }
+
+      res.status(202).json({
+        success: true,
+        delivery
+      });
+
+    } catch (error) {
+      if (error instanceof WebhookDeliveryStateError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error('Error redelivering webhook:', error);
+      res.status(500).json({ error: 'Failed to redeliver webhook' });
+    }
+  }
+}
+
+export const outboundWebhookController = new OutboundWebhookController();
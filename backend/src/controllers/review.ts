@@ -0,0 +1,262 @@
+import { Request, Response } from 'express';
+import { reviewService, ReviewStateError } from '../services/review';
+import { ProctorSessionModel } from '../models';
+import { TenantUtil } from '../utils/tenant';
+import { IncidentVerdict, SessionVerdict, ReviewStatus } from '../types';
+
+const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'in_review', 'awaiting_second_opinion', 'completed'];
+const INCIDENT_VERDICTS: IncidentVerdict[] = ['confirmed', 'dismissed', 'second_opinion'];
+const SESSION_VERDICTS: SessionVerdict[] = ['cleared', 'violation', 'inconclusive'];
+
+export class ReviewController {
+
+  getQueue = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { status, claimedBy, overdue } = req.query;
+      if (status && !REVIEW_STATUSES.includes(String(status) as ReviewStatus)) {
+        res.status(400).json({ error: 'Invalid status' });
+        return;
+      }
+
+      const queue = await reviewService.getQueue({
+        status: status ? String(status) as ReviewStatus : undefined,
+        claimedBy: claimedBy ? String(claimedBy) : undefined,
+        overdue: overdue === 'true',
+        tenantId: TenantUtil.resolve(req.auth, req.query.tenantId)
+      });
+
+      res.status(200).json({
+        success: true,
+        queue,
+        count: queue.length
+      });
+
+    } catch (error) {
+      console.error('Error getting review queue:', error);
+      res.status(500).json({ error: 'Failed to get review queue' });
+    }
+  }
+
+  getAgreementReport = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { from, to } = req.query;
+      const fromDate = from ? new Date(String(from)) : undefined;
+      const toDate = to ? new Date(String(to)) : undefined;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        res.status(400).json({ error: 'Invalid time range' });
+        return;
+      }
+
+      const report = await reviewService.getAgreementReport({
+        from: fromDate,
+        to: toDate,
+        tenantId: TenantUtil.resolve(req.auth, req.query.tenantId)
+      });
+
+      res.status(200).json({
+        success: true,
+        report
+      });
+
+    } catch (error) {
+      console.error('Error getting agreement report:', error);
+      res.status(500).json({ error: 'Failed to get agreement report' });
+    }
+  }
+
+  getReview = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await reviewService.getReview(req.params.sessionId);
+      if (!result) {
+        res.status(404).json({ error: 'Session is not in the review queue' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        ...result
+      });
+
+    } catch (error) {
+      console.error('Error getting review:', error);
+      res.status(500).json({ error: 'Failed to get review' });
+    }
+  }
+
+  enqueue = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId } = req.params;
+      const { note } = req.body;
+      const reviewerId = req.auth!.userId;
+
+      const sessionDoc = await ProctorSessionModel.findOne({ sessionId }, { riskScore: 1 }).lean();
+      if (!sessionDoc) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+
+      // Sessions below the threshold can still be flagged by hand
+      const review = await reviewService.enqueue(sessionId, reviewerId, sessionDoc.riskScore?.score ?? 0, note);
+
+      res.status(201).json({
+        success: true,
+        review
+      });
+
+    } catch (error) {
+      if (error instanceof ReviewStateError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error('Error queueing session for review:', error);
+      res.status(500).json({ error: 'Failed to queue session for review' });
+    }
+  }
+
+  claim = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const review = await reviewService.claim(req.params.sessionId, req.auth!.userId);
+      if (!review) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        review
+      });
+
+    } catch (error) {
+      if (error instanceof ReviewStateError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error('Error claiming review:', error);
+      res.status(500).json({ error: 'Failed to claim review' });
+    }
+  }
+
+  release = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { note } = req.body;
+      const review = await reviewService.release(req.params.sessionId, req.auth!.userId, note);
+      if (!review) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        review
+      });
+
+    } catch (error) {
+      if (error instanceof ReviewStateError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error('Error releasing review:', error);
+      res.status(500).json({ error: 'Failed to release review' });
+    }
+  }
+
+  addNote = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { note, incidentId } = req.body;
+      if (!note) {
+        res.status(400).json({ error: 'Note required' });
+        return;
+      }
+
+      const event = await reviewService.addNote(req.params.sessionId, req.auth!.userId, note, incidentId);
+      if (!event) {
+        res.status(404).json({ error: 'Session or incident not found' });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        event
+      });
+
+    } catch (error) {
+      if (error instanceof ReviewStateError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error('Error adding review note:', error);
+      res.status(500).json({ error: 'Failed to add review note' });
+    }
+  }
+
+  recordIncidentVerdict = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId, incidentId } = req.params;
+      const { verdict, note } = req.body;
+      if (!verdict) {
+        res.status(400).json({ error: 'Verdict required' });
+        return;
+      }
+
+      if (!INCIDENT_VERDICTS.includes(verdict)) {
+        res.status(400).json({ error: `Verdict must be one of: ${INCIDENT_VERDICTS.join(', ')}` });
+        return;
+      }
+
+      const event = await reviewService.recordIncidentVerdict(sessionId, req.auth!.userId, incidentId, verdict, note);
+      if (!event) {
+        res.status(404).json({ error: 'Session or incident not found' });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        event
+      });
+
+    } catch (error) {
+      if (error instanceof ReviewStateError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error('Error recording incident verdict:', error);
+      res.status(500).json({ error: 'Failed to record incident verdict' });
+    }
+  }
+
+  recordFinalVerdict = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { verdict, note } = req.body;
+      if (!verdict) {
+        res.status(400).json({ error: 'Verdict required' });
+        return;
+      }
+
+      if (!SESSION_VERDICTS.includes(verdict)) {
+        res.status(400).json({ error: `Verdict must be one of: ${SESSION_VERDICTS.join(', ')}` });
+        return;
+      }
+
+      const review = await reviewService.recordFinalVerdict(req.params.sessionId, req.auth!.userId, verdict, note);
+      if (!review) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        review
+      });
+
+    } catch (error) {
+      if (error instanceof ReviewStateError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error('Error recording final verdict:', error);
+      res.status(500).json({ error: 'Failed to record final verdict' });
+    }
+  }
+}
+
+export const reviewController = new ReviewController();
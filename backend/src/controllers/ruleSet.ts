@@ -0,0 +1,172 @@
+import { Request, Response } from 'express';
+import { ruleEngineService, RuleValidationError, DEFAULT_RULES } from '../services/ruleEngine';
+import { ProctorSessionModel } from '../models';
+import { TenantUtil } from '../utils/tenant';
+
+export class RuleSetController {
+
+  listRuleSets = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { examId } = req.query;
+      const ruleSets = await ruleEngineService.listRuleSets({
+        examId: typeof examId === 'string' ? examId : undefined,
+        tenantId: TenantUtil.resolve(req.auth, req.query.tenantId),
+        // Tenant staff also see the deployment-wide rule sets their sessions can fall back to
+        includeShared: !!req.auth!.tenantId
+      });
+
+      res.status(200).json({
+        success: true,
+        ruleSets,
+        count: ruleSets.length
+      });
+
+    } catch (error) {
+      console.error('Error listing rule sets:', error);
+      res.status(500).json({ error: 'Failed to list rule sets' });
+    }
+  }
+
+  getDefaultRules = async (req: Request, res: Response): Promise<void> => {
+    res.status(200).json({
+      success: true,
+      rules: DEFAULT_RULES
+    });
+  }
+
+  getRuleSet = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const ruleSet = await ruleEngineService.getRuleSet(req.params.ruleSetId);
+      if (!ruleSet) {
+        res.status(404).json({ error: 'Rule set not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        ruleSet
+      });
+
+    } catch (error) {
+      console.error('Error getting rule set:', error);
+      res.status(500).json({ error: 'Failed to get rule set' });
+    }
+  }
+
+  createRuleSet = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { name, examId, isDefault, rules } = req.body;
+      const tenantId = TenantUtil.resolve(req.auth, req.body.tenantId);
+      const ruleSet = await ruleEngineService.createRuleSet({ name, examId, tenantId, isDefault, rules });
+
+      res.status(201).json({
+        success: true,
+        ruleSet
+      });
+
+    } catch (error) {
+      if (error instanceof RuleValidationError) {
+        res.status(400).json({ error: 'Invalid rule set', details: error.errors });
+        return;
+      }
+      console.error('Error creating rule set:', error);
+      res.status(500).json({ error: 'Failed to create rule set' });
+    }
+  }
+
+  updateRuleSet = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { name, examId, isDefault, rules } = req.body;
+      const current = await ruleEngineService.getRuleSet(req.params.ruleSetId);
+      if (!current) {
+        res.status(404).json({ error: 'Rule set not found' });
+        return;
+      }
+      const tenantId = TenantUtil.resolveUpdate(req.auth, req.body.tenantId, current.tenantId);
+      const ruleSet = await ruleEngineService.updateRuleSet(
+        req.params.ruleSetId,
+        { name, examId, tenantId, isDefault, rules }
+      );
+      if (!ruleSet) {
+        res.status(404).json({ error: 'Rule set not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        ruleSet
+      });
+
+    } catch (error) {
+      if (error instanceof RuleValidationError) {
+        res.status(400).json({ error: 'Invalid rule set', details: error.errors });
+        return;
+      }
+      console.error('Error updating rule set:', error);
+      res.status(500).json({ error: 'Failed to update rule set' });
+    }
+  }
+
+  deleteRuleSet = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deleted = await ruleEngineService.deleteRuleSet(req.params.ruleSetId);
+      if (!deleted) {
+        res.status(404).json({ error: 'Rule set not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Rule set deleted'
+      });
+
+    } catch (error) {
+      console.error('Error deleting rule set:', error);
+      res.status(500).json({ error: 'Failed to delete rule set' });
+    }
+  }
+
+  dryRun = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId, ruleSetId } = req.body;
+      let { rules } = req.body;
+
+      if (!sessionId || (!rules && !ruleSetId)) {
+        res.status(400).json({ error: 'Session ID and rules or rule set ID required' });
+        return;
+      }
+
+      if (!(await ProctorSessionModel.exists({ sessionId }))) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+
+      // A stored rule set can be replayed instead of a draft
+      if (!rules) {
+        const ruleSet = await ruleEngineService.getRuleSet(ruleSetId);
+        if (!ruleSet) {
+          res.status(404).json({ error: 'Rule set not found' });
+          return;
+        }
+        rules = ruleSet.rules;
+      }
+
+      const result = await ruleEngineService.dryRun(sessionId, rules);
+
+      res.status(200).json({
+        success: true,
+        result
+      });
+
+    } catch (error) {
+      if (error instanceof RuleValidationError) {
+        res.status(400).json({ error: 'Invalid rule set', details: error.errors });
+        return;
+      }
+      console.error('Error running rule dry run:', error);
+      res.status(500).json({ error: 'Failed to run rule dry run' });
+    }
+  }
+}
+
+export const ruleSetController = new RuleSetController();
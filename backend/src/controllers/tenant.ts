@@ -0,0 +1,176 @@
+import { Request, Response } from 'express';
+import { tenantService, TenantValidationError, TenantConflictError } from '../services/tenant';
+
+export class TenantController {
+
+  listTenants = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const tenants = await tenantService.listTenants();
+
+      res.status(200).json({
+        success: true,
+        tenants,
+        count: tenants.length
+      });
+
+    } catch (error) {
+      console.error('Error listing tenants:', error);
+      res.status(500).json({ error: 'Failed to list tenants' });
+    }
+  }
+
+  getTenant = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const tenant = await tenantService.getTenant(req.params.tenantId);
+      if (!tenant) {
+        res.status(404).json({ error: 'Tenant not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        tenant
+      });
+
+    } catch (error) {
+      console.error('Error getting tenant:', error);
+      res.status(500).json({ error: 'Failed to get tenant' });
+    }
+  }
+
+  createTenant = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, name, retention } = req.body;
+      const tenant = await tenantService.createTenant(id, { name, retention });
+
+      res.status(201).json({
+        success: true,
+        tenant
+      });
+
+    } catch (error) {
+      if (error instanceof TenantValidationError) {
+        res.status(400).json({ error: 'Invalid tenant', details: error.errors });
+        return;
+      }
+      console.error('Error creating tenant:', error);
+      res.status(500).json({ error: 'Failed to create tenant' });
+    }
+  }
+
+  updateTenant = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { name, retention } = req.body;
+      const tenant = await tenantService.updateTenant(req.params.tenantId, { name, retention });
+      if (!tenant) {
+        res.status(404).json({ error: 'Tenant not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        tenant
+      });
+
+    } catch (error) {
+      if (error instanceof TenantValidationError) {
+        res.status(400).json({ error: 'Invalid tenant', details: error.errors });
+        return;
+      }
+      console.error('Error updating tenant:', error);
+      res.status(500).json({ error: 'Failed to update tenant' });
+    }
+  }
+
+  deleteTenant = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deleted = await tenantService.deleteTenant(req.params.tenantId);
+      if (!deleted) {
+        res.status(404).json({ error: 'Tenant not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Tenant deleted'
+      });
+
+    } catch (error) {
+      if (error instanceof TenantConflictError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error('Error deleting tenant:', error);
+      res.status(500).json({ error: 'Failed to delete tenant' });
+    }
+  }
+
+  listCredentials = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { tenantId } = req.params;
+      if (!(await tenantService.exists(tenantId))) {
+        res.status(404).json({ error: 'Tenant not found' });
+        return;
+      }
+
+      const credentials = await tenantService.listCredentials(tenantId);
+
+      res.status(200).json({
+        success: true,
+        credentials,
+        count: credentials.length
+      });
+
+    } catch (error) {
+      console.error('Error listing tenant credentials:', error);
+      res.status(500).json({ error: 'Failed to list tenant credentials' });
+    }
+  }
+
+  createCredential = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { name, role } = req.body;
+      const created = await tenantService.createCredential(req.params.tenantId, { name, role });
+      if (!created) {
+        res.status(404).json({ error: 'Tenant not found' });
+        return;
+      }
+
+      // The only time the client secret is returned
+      res.status(201).json({
+        success: true,
+        credential: created.credential,
+        clientSecret: created.clientSecret
+      });
+
+    } catch (error) {
+      if (error instanceof TenantValidationError) {
+        res.status(400).json({ error: 'Invalid tenant credential', details: error.errors });
+        return;
+      }
+      console.error('Error creating tenant credential:', error);
+      res.status(500).json({ error: 'Failed to create tenant credential' });
+    }
+  }
+
+  revokeCredential = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const credential = await tenantService.revokeCredential(req.params.tenantId, req.params.clientId);
+      if (!credential) {
+        res.status(404).json({ error: 'Tenant credential not found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        credential
+      });
+
+    } catch (error) {
+      console.error('Error revoking tenant credential:', error);
+      res.status(500).json({ error: 'Failed to revoke tenant credential' });
+    }
+  }
+}
+
+export const tenantController = new TenantController();
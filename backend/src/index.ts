@@ -2,7 +2,7 @@ import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import { createServer } from 'http';
 import { createServer as createHttpsServer } from 'https';
-import { Server as SocketIOServer } from 'socket.io';
+import { Server as SocketIOServer, Socket } from 'socket.io';
 import mongoose from 'mongoose';
 import dotenv from 'dotenv';
 import fs from 'fs/promises';
@@ -11,11 +11,56 @@ import path from 'path';
 // Import routes
 import proctorSessionRoutes from './routes/proctorSession';
 import recordingRoutes from './routes/recording';
+import ruleSetRoutes from './routes/ruleSet';
+import reviewRoutes from './routes/review';
+import interventionRoutes from './routes/intervention';
+import examRoutes from './routes/exam';
+import outboundWebhookRoutes from './routes/outboundWebhook';
+import ltiRoutes from './routes/lti';
+import tenantRoutes from './routes/tenant';
+import authRoutes from './routes/auth';
 
 // Import services
-import { externalCallMonitoringService } from './services/externalCallMonitoring';
-import { gazeTrackingService } from './services/gazeTracking';
-import { audioAnalysisService } from './services/audioAnalysis';
+import { externalCallMonitoringService, SessionEndedError, SessionTransitionError } from './services/externalCallMonitoring';
+import { callWebhookService, CallWebhookResult } from './services/callWebhook';
+import { webhookVerificationService, RawBodyRequest } from './services/webhookVerification';
+import { WebhookVerificationError, WebhookPayloadError } from './services/callPlatformAdapters';
+import { analyzerRegistry } from './services/analyzerRegistry';
+import { videoProcessingService } from './services/videoProcessing';
+import { riskScoreService } from './services/riskScore';
+import { outboundWebhookService } from './services/outboundWebhook';
+import { monitoringIngestService } from './services/monitoringIngest';
+import { presenceService } from './services/presence';
+import { interventionService, InterventionValidationError, InterventionStateError } from './services/intervention';
+import { authService } from './services/auth';
+import { tenantService } from './services/tenant';
+
+// Import types
+import {
+  AuthContext,
+  CandidatePresence,
+  ExternalCallWebhook,
+  InterventionEvent,
+  RiskScore,
+  SocketAck,
+  UserRole
+} from './types';
+import { TenantUtil } from './utils/tenant';
+import { authenticateSocket, checkSessionAccess } from './middleware/auth';
+
+// Who may send each kind of socket event; session events also need access to the session
+const SOCKET_ROLES: Record<'join' | 'report' | 'heartbeat' | 'intervene' | 'chat' | 'acknowledge' | 'callEvents', UserRole[]> = {
+  join: ['candidate', 'proctor', 'reviewer', 'admin'],
+  report: ['candidate', 'proctor', 'admin'],
+  heartbeat: ['candidate'],
+  intervene: ['proctor', 'admin'],
+  chat: ['candidate', 'proctor', 'admin'],
+  acknowledge: ['candidate'],
+  callEvents: ['proctor', 'admin']
+};
+
+// Events refused because of a passing server error can be sent again after this long
+const SOCKET_RETRY_AFTER_MS = 5 * 1000;
 
 // Load environment variables
 dotenv.config();
@@ -74,7 +119,15 @@ class ExamProctorServer {
     }
 
     // Body parsing middleware
-    this.app.use(express.json({ limit: '10mb' }));
+    this.app.use(express.json({
+      limit: '10mb',
+      // Webhook signatures are computed over the exact bytes received
+      verify: (req, _res, buf) => {
+        if (req.url?.startsWith('/webhook/')) {
+          (req as RawBodyRequest).rawBody = buf;
+        }
+      }
+    }));
     this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
     // Request logging
@@ -95,11 +148,19 @@ class ExamProctorServer {
     });
 
     // API routes
+    this.app.use('/api/auth', authRoutes);
     this.app.use('/api/sessions', proctorSessionRoutes);
     this.app.use('/api/recordings', recordingRoutes);
+    this.app.use('/api/rule-sets', ruleSetRoutes);
+    this.app.use('/api/reviews', reviewRoutes);
+    this.app.use('/api/interventions', interventionRoutes);
+    this.app.use('/api/exams', examRoutes);
+    this.app.use('/api/webhooks', outboundWebhookRoutes);
+    this.app.use('/api/lti', ltiRoutes);
+    this.app.use('/api/tenants', tenantRoutes);
 
     // Webhook endpoint for external call platforms
-    this.app.post('/webhook/external-call', this.handleExternalCallWebhook);
+    this.app.post('/webhook/external-call/:platform?', this.handleExternalCallWebhook);
 
     // Error handling middleware
     this.app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
@@ -124,6 +185,31 @@ class ExamProctorServer {
       const mongoUri = process.env.MONGODB_URI || 'mongodb://localhost:27017/exam_proctor';
       await mongoose.connect(mongoUri);
       console.log('Connected to MongoDB');
+
+      // Access token signing keys (rotated when due) and the first admin account
+      await authService.start().catch((error) => {
+        console.error('Error starting auth service:', error);
+      });
+
+      // Restore sessions that were in flight before the last restart
+      await externalCallMonitoringService.rehydrateSessions().catch((error) => {
+        console.error('Error rehydrating sessions:', error);
+      });
+      await videoProcessingService.resumePendingJobs().catch((error) => {
+        console.error('Error resuming video processing jobs:', error);
+      });
+
+      // Send outbound webhooks queued or still retrying before the last restart
+      outboundWebhookService.start();
+
+      // Purge recordings and monitoring data past each tenant's retention
+      tenantService.start();
+
+      // Notice candidates who stop sending heartbeats, including those of restored sessions
+      presenceService.start();
+
+      // End sessions, restored ones too, once their exam time runs out
+      externalCallMonitoringService.start();
     } catch (error) {
       console.error('MongoDB connection error:', error);
       process.exit(1);
@@ -131,48 +217,313 @@ class ExamProctorServer {
   }
 
   private initializeWebSocket(): void {
+    // Every connection must present an access token
+    this.io.use(authenticateSocket);
+
+    // Push risk score changes to the staff watching the session
+    riskScoreService.on('score', async (riskScore: RiskScore) => {
+      try {
+        const tenantId = await externalCallMonitoringService.getSessionTenant(riskScore.sessionId);
+        this.io.to(TenantUtil.observerRoom(riskScore.sessionId, tenantId)).emit('risk-score-update', riskScore);
+      } catch (error) {
+        console.error('Error broadcasting risk score:', error);
+      }
+    });
+
+    // Tell the staff watching a session when its candidate drops out or comes back
+    presenceService.on('presence', async (presence: CandidatePresence) => {
+      try {
+        const tenantId = await externalCallMonitoringService.getSessionTenant(presence.sessionId);
+        const session = await externalCallMonitoringService.getSessionStatus(presence.sessionId);
+        this.io.to(TenantUtil.observerRoom(presence.sessionId, tenantId))
+          .emit('presence-update', { ...presence, sessionStatus: session?.status ?? 'ended' });
+      } catch (error) {
+        console.error('Error broadcasting candidate presence:', error);
+      }
+    });
+
+    // Warnings, chat and forced pauses or ends reach the candidate and staff in the session
+    interventionService.on('event', (event: InterventionEvent) => {
+      this.io.to(TenantUtil.sessionRoom(event.sessionId, event.tenantId)).emit('intervention', event);
+    });
+
     this.io.on('connection', (socket) => {
-      console.log(`Client connected: ${socket.id}`);
+      const auth: AuthContext = socket.data.auth;
+      console.log(`Client connected: ${socket.id} (${auth.role} ${auth.userId})`);
+
+      // Admin-wide broadcasts reach only admins; candidates hear about sessions started for them
+      if (auth.role === 'admin') {
+        socket.join(TenantUtil.adminRoom(auth.tenantId));
+      } else if (auth.role === 'candidate') {
+        socket.join(TenantUtil.userRoom(auth.userId, auth.tenantId));
+      }
 
-      // Handle session monitoring
-      socket.on('join-session', (sessionId: string) => {
-        socket.join(`session-${sessionId}`);
-        console.log(`Client ${socket.id} joined session ${sessionId}`);
+      // Candidates join their own session; staff also join its observer room
+      socket.on('join-session', async (sessionId: unknown, ack?: unknown) => {
+        const access = await this.authorizeSocketEvent(socket, 'join-session', sessionId, SOCKET_ROLES.join, ack);
+        if (!access) {
+          return;
+        }
+
+        socket.join(TenantUtil.sessionRoom(access.sessionId, access.tenantId));
+        if (auth.role !== 'candidate') {
+          socket.join(TenantUtil.observerRoom(access.sessionId, access.tenantId));
+        }
+        console.log(`Client ${socket.id} joined session ${access.sessionId}`);
+        this.acknowledge(ack, { success: true });
+      });
+
+      // Heartbeats from the candidate's exam tab keep them marked online
+      socket.on('heartbeat', async (sessionId: unknown, ack?: unknown) => {
+        const access = await this.authorizeSocketEvent(socket, 'heartbeat', sessionId, SOCKET_ROLES.heartbeat, ack);
+        if (!access) {
+          return;
+        }
+
+        try {
+          const monitoringData = await externalCallMonitoringService.recordHeartbeat(access.sessionId, socket.id);
+
+          // Coming back after a long outage raises a connection_lost incident
+          if (monitoringData) {
+            socket.to(TenantUtil.observerRoom(access.sessionId, access.tenantId)).emit('monitoring-update', monitoringData);
+          }
+          this.acknowledge(ack, { success: true, intervalMs: presenceService.heartbeatIntervalMs });
+        } catch (error) {
+          console.error('Error processing heartbeat:', error);
+          this.acknowledge(ack, { success: false, error: 'Failed to record heartbeat' });
+        }
       });
 
       // Handle real-time monitoring data
-      socket.on('monitoring-data', async (data) => {
+      socket.on('monitoring-data', async (data, ack?: unknown) => {
+        const access = await this.authorizeSocketEvent(socket, 'monitoring-data', data?.sessionId, SOCKET_ROLES.report, ack);
+        if (!access) {
+          return;
+        }
+
         try {
-          const { sessionId, gazeData, audioData } = data;
+          const { gazeData, audioData } = data;
           
           // Process and store monitoring data
           await externalCallMonitoringService.recordMonitoringData(
-            sessionId,
+            access.sessionId,
             gazeData,
             audioData
           );
 
-          // Broadcast to other clients in the same session
-          socket.to(`session-${sessionId}`).emit('monitoring-update', data);
+          // Broadcast to the staff watching the session
+          socket.to(TenantUtil.observerRoom(access.sessionId, access.tenantId)).emit('monitoring-update', data);
+          this.acknowledge(ack, { success: true });
         } catch (error) {
+          if (error instanceof SessionEndedError) {
+            this.acknowledge(ack, { success: false, error: 'Session is not active' });
+            return;
+          }
           console.error('Error processing monitoring data:', error);
+          this.acknowledge(ack, { success: false, error: 'Failed to record monitoring data' });
+        }
+      });
+
+      // Batched samples from the candidate's outbox; each batch is acknowledged once stored
+      socket.on('monitoring-batch', async (batch, ack?: unknown) => {
+        const access = await this.authorizeSocketEvent(socket, 'monitoring-batch', batch?.sessionId, SOCKET_ROLES.report, ack);
+        if (!access) {
+          return;
+        }
+
+        const { ack: response, stored } = await monitoringIngestService.ingest({
+          sessionId: access.sessionId,
+          samples: batch.samples
+        });
+
+        // Broadcast what was new to the staff watching the session
+        for (const monitoringData of stored) {
+          socket.to(TenantUtil.observerRoom(access.sessionId, access.tenantId)).emit('monitoring-update', monitoringData);
+        }
+        this.acknowledge(ack, response);
+      });
+
+      // Handle browser telemetry (tab visibility, focus, clipboard) from the exam tab
+      socket.on('telemetry-event', async (event, ack?: unknown) => {
+        const access = await this.authorizeSocketEvent(socket, 'telemetry-event', event?.sessionId, SOCKET_ROLES.report, ack);
+        if (!access) {
+          return;
+        }
+
+        try {
+          const monitoringData = await externalCallMonitoringService.recordTelemetryEvent(event);
+
+          if (monitoringData) {
+            socket.to(TenantUtil.observerRoom(access.sessionId, access.tenantId)).emit('monitoring-update', monitoringData);
+          }
+          this.acknowledge(ack, { success: true });
+        } catch (error) {
+          console.error('Error processing telemetry event:', error);
+          this.acknowledge(ack, { success: false, error: 'Failed to record telemetry event' });
         }
       });
 
-      // Handle external call events
-      socket.on('external-call-event', (eventData) => {
+      // Live intervention: proctors warn, pause or end; both sides chat; the candidate acknowledges
+      socket.on('proctor-warning', (payload, ack?: unknown) => {
+        this.handleIntervention(socket, 'proctor-warning', payload, SOCKET_ROLES.intervene, ack, (sessionId, sender) =>
+          interventionService.sendWarning(sessionId, sender, { preset: payload.preset, text: payload.text })
+        );
+      });
+
+      socket.on('chat-message', (payload, ack?: unknown) => {
+        this.handleIntervention(socket, 'chat-message', payload, SOCKET_ROLES.chat, ack, (sessionId, sender) =>
+          interventionService.sendMessage(sessionId, sender, payload.text)
+        );
+      });
+
+      socket.on('force-pause', (payload, ack?: unknown) => {
+        this.handleIntervention(socket, 'force-pause', payload, SOCKET_ROLES.intervene, ack, (sessionId, sender) =>
+          interventionService.forcePause(sessionId, sender, payload.reason)
+        );
+      });
+
+      socket.on('force-end', (payload, ack?: unknown) => {
+        this.handleIntervention(socket, 'force-end', payload, SOCKET_ROLES.intervene, ack, (sessionId, sender) =>
+          interventionService.forceEnd(sessionId, sender, payload.reason)
+        );
+      });
+
+      socket.on('acknowledge-intervention', (payload, ack?: unknown) => {
+        this.handleIntervention(socket, 'acknowledge-intervention', payload, SOCKET_ROLES.acknowledge, ack, (sessionId, sender) =>
+          interventionService.acknowledge(sessionId, sender, String(payload.eventId))
+        );
+      });
+
+      // Handle external call events from proctors and admins
+      socket.on('external-call-event', (eventData, ack?: unknown) => {
+        if (!SOCKET_ROLES.callEvents.includes(auth.role)) {
+          this.refuseSocketEvent(socket, 'external-call-event', 'Forbidden', ack);
+          return;
+        }
         console.log('External call event received:', eventData);
         
-        // Broadcast to all clients
-        this.io.emit('call-event', eventData);
+        // Broadcast to the admins of the sender's tenant and of the deployment
+        this.io.to([TenantUtil.adminRoom(auth.tenantId), TenantUtil.adminRoom()]).emit('call-event', eventData);
+        this.acknowledge(ack, { success: true });
       });
 
       socket.on('disconnect', () => {
         console.log(`Client disconnected: ${socket.id}`);
+        if (auth.role === 'candidate') {
+          presenceService.disconnect(socket.id);
+        }
       });
     });
   }
 
+  /**
+   * Checks a session event against the sender's role and access to the
+   * session. Refused events are acknowledged with the reason; allowed ones
+   * return the session and its tenant.
+   */
+  private async authorizeSocketEvent(
+    socket: Socket,
+    event: string,
+    sessionId: unknown,
+    roles: UserRole[],
+    ack: unknown
+  ): Promise<{ sessionId: string; tenantId?: string } | null> {
+    const auth: AuthContext = socket.data.auth;
+    if (!roles.includes(auth.role)) {
+      this.refuseSocketEvent(socket, event, 'Forbidden', ack);
+      return null;
+    }
+    if (typeof sessionId !== 'string' || !sessionId) {
+      this.refuseSocketEvent(socket, event, 'Session ID required', ack);
+      return null;
+    }
+
+    try {
+      const access = await checkSessionAccess(auth, sessionId);
+      if (!access.allowed) {
+        this.refuseSocketEvent(socket, event, access.error, ack);
+        return null;
+      }
+      return { sessionId, tenantId: access.tenantId };
+    } catch (error) {
+      console.error('Error checking session access:', error);
+      this.acknowledge(ack, { success: false, error: 'Failed to check session access', retryAfterMs: SOCKET_RETRY_AFTER_MS });
+      return null;
+    }
+  }
+
+  /**
+   * Runs an intervention sent over the socket and acknowledges it with the
+   * recorded trail entry. The entry itself reaches the session's room through
+   * the intervention service's 'event' broadcast.
+   */
+  private async handleIntervention(
+    socket: Socket,
+    event: string,
+    payload: { sessionId?: unknown } | undefined,
+    roles: UserRole[],
+    ack: unknown,
+    apply: (sessionId: string, sender: AuthContext) => Promise<InterventionEvent | null>
+  ): Promise<void> {
+    const access = await this.authorizeSocketEvent(socket, event, payload?.sessionId, roles, ack);
+    if (!access) {
+      return;
+    }
+
+    try {
+      const recorded = await apply(access.sessionId, socket.data.auth);
+      if (!recorded) {
+        this.acknowledge(ack, { success: false, error: 'Intervention not found' });
+        return;
+      }
+      this.acknowledge(ack, { success: true, event: recorded });
+    } catch (error) {
+      if (error instanceof InterventionValidationError || error instanceof InterventionStateError ||
+          error instanceof SessionTransitionError) {
+        this.acknowledge(ack, { success: false, error: error.message });
+        return;
+      }
+      console.error(`Error processing ${event}:`, error);
+      this.acknowledge(ack, { success: false, error: 'Failed to record intervention' });
+    }
+  }
+
+  private refuseSocketEvent(socket: Socket, event: string, error: string, ack: unknown): void {
+    const auth: AuthContext = socket.data.auth;
+    console.warn(`Refused ${event} from ${auth.role} ${auth.userId} (${socket.id}): ${error}`);
+    this.acknowledge(ack, { success: false, error });
+  }
+
+  // Clients that sent the event without a callback get no answer
+  private acknowledge<T extends SocketAck>(ack: unknown, response: T): void {
+    if (typeof ack === 'function') {
+      ack(response);
+    }
+  }
+
+  /**
+   * Admins hear about every call webhook in their tenant, and deployment
+   * admins about all of them. Candidates and the staff on a session only
+   * hear about the sessions it started or ended.
+   */
+  private async emitCallWebhook(event: ExternalCallWebhook): Promise<void> {
+    const adminRooms = new Set([TenantUtil.adminRoom()]);
+
+    for (const session of event.startedSessions ?? []) {
+      adminRooms.add(TenantUtil.adminRoom(session.tenantId));
+      this.io.to(TenantUtil.userRoom(session.userId, session.tenantId))
+        .emit('external-call-webhook', { ...event, participants: [], startedSessions: [session], endedSessionIds: [] });
+    }
+    for (const sessionId of event.endedSessionIds ?? []) {
+      const tenantId = await externalCallMonitoringService.getSessionTenant(sessionId);
+      adminRooms.add(TenantUtil.adminRoom(tenantId));
+      this.io.to(TenantUtil.sessionRoom(sessionId, tenantId)).except(Array.from(adminRooms))
+        .emit('external-call-webhook', { ...event, participants: [], startedSessions: [], endedSessionIds: [sessionId] });
+    }
+
+    this.io.to(Array.from(adminRooms)).emit('external-call-webhook', event);
+  }
+
   private async createUploadsDir(): Promise<void> {
     try {
       await fs.mkdir('./uploads/recordings', { recursive: true });
@@ -183,40 +534,97 @@ class ExamProctorServer {
   }
 
   private handleExternalCallWebhook = async (req: Request, res: Response): Promise<void> => {
+    // The bare path predates per-platform verification and uses the shared-secret scheme
+    const platform = req.params.platform || 'other';
+    if (!webhookVerificationService.hasAdapter(platform)) {
+      res.status(404).json({ error: `Unsupported call platform: ${platform}` });
+      return;
+    }
+
     try {
-      const webhookData = req.body;
-      console.log('External call webhook received:', webhookData);
-
-      // Process webhook data based on platform
-      const { platform, callId, eventType, participants } = webhookData;
-
-      // Emit event to connected clients
-      this.io.emit('external-call-webhook', {
-        platform,
-        callId,
-        eventType,
-        participants,
-        timestamp: new Date()
+      const outcome = await webhookVerificationService.process(platform, {
+        headers: req.headers,
+        query: req.query,
+        rawBody: (req as RawBodyRequest).rawBody || Buffer.alloc(0),
+        body: req.body
       });
 
-      // Handle different event types
-      switch (eventType) {
-        case 'call_started':
-          console.log(`Call started on ${platform}: ${callId}`);
-          break;
-        case 'call_ended':
-          console.log(`Call ended on ${platform}: ${callId}`);
-          break;
-        case 'participant_joined':
-          console.log(`Participant joined call ${callId}`);
-          break;
-        case 'participant_left':
-          console.log(`Participant left call ${callId}`);
-          break;
+      // Subscription and URL validation handshakes
+      if (outcome.challenge) {
+        res.status(200).type(outcome.challenge.contentType).send(outcome.challenge.body);
+        return;
+      }
+
+      const startedSessionIds: string[] = [];
+      const endedSessionIds: string[] = [];
+      const rejected: CallWebhookResult['rejected'] = [];
+
+      for (let i = 0; i < outcome.events.length; i++) {
+        const { platform: callPlatform, callId, eventType, participants } = outcome.events[i].webhook;
+
+        // Start or end sessions for proctored users on scheduled exam calls
+        let result: CallWebhookResult;
+        try {
+          result = await callWebhookService.handle(outcome.events[i].webhook);
+        } catch (error) {
+          // Let the platform's retry redeliver everything not yet processed
+          for (const event of outcome.events.slice(i)) {
+            await webhookVerificationService.forget(platform, event.eventId);
+          }
+          throw error;
+        }
+
+        // Emit event to the connected clients it concerns
+        await this.emitCallWebhook({
+          platform: callPlatform,
+          callId,
+          eventType,
+          participants,
+          timestamp: new Date(),
+          startedSessions: result.startedSessions,
+          endedSessionIds: result.endedSessionIds
+        });
+
+        // Handle different event types
+        switch (eventType) {
+          case 'call_started':
+            console.log(`Call started on ${callPlatform}: ${callId}`);
+            break;
+          case 'call_ended':
+            console.log(`Call ended on ${callPlatform}: ${callId}`);
+            break;
+          case 'participant_joined':
+            console.log(`Participant joined call ${callId}`);
+            break;
+          case 'participant_left':
+            console.log(`Participant left call ${callId}`);
+            break;
+        }
+
+        startedSessionIds.push(...result.startedSessions.map(session => session.id));
+        endedSessionIds.push(...result.endedSessionIds);
+        rejected.push(...result.rejected);
       }
 
-      res.status(200).json({ success: true, message: 'Webhook processed' });
+      res.status(200).json({
+        success: true,
+        message: 'Webhook processed',
+        processed: outcome.events.length,
+        duplicates: outcome.duplicates,
+        startedSessionIds,
+        endedSessionIds,
+        rejected
+      });
     } catch (error) {
+      if (error instanceof WebhookVerificationError) {
+        console.warn(`Rejected ${platform} webhook: ${error.message}`);
+        res.status(401).json({ error: 'Webhook verification failed' });
+        return;
+      }
+      if (error instanceof WebhookPayloadError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
       console.error('Webhook processing error:', error);
       res.status(500).json({ error: 'Failed to process webhook' });
     }
@@ -259,18 +667,108 @@ class ExamProctorServer {
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 🎯 API Endpoints:
+   • POST   /api/auth/login
+   • POST   /api/auth/refresh
+   • POST   /api/auth/logout
+   • GET    /api/auth/me
+   • GET    /api/auth/jwks
+   • POST   /api/auth/token
+   • POST   /api/auth/lti
+   • POST   /api/auth/candidate-tokens
+   • POST   /api/auth/keys/rotate
+   • GET    /api/auth/users
+   • POST   /api/auth/users
+   • GET    /api/auth/users/:userId
+   • PUT    /api/auth/users/:userId
    • POST   /api/sessions/start
    • POST   /api/sessions/:sessionId/end
+   • POST   /api/sessions/:sessionId/pause
+   • POST   /api/sessions/:sessionId/resume
+   • POST   /api/sessions/:sessionId/recording/start
+   • POST   /api/sessions/:sessionId/recording/stop
    • GET    /api/sessions/:sessionId/status
+   • GET    /api/sessions/:sessionId/analyzers
+   • GET    /api/sessions/:sessionId/speech-segments
+   • GET    /api/sessions/:sessionId/speakers
+   • GET    /api/sessions/:sessionId/incidents
+   • GET    /api/sessions/:sessionId/risk-score
+   • GET    /api/sessions/:sessionId/presence
+   • GET    /api/sessions/:sessionId/video-jobs
+   • GET    /api/sessions/:sessionId/video-jobs/:jobId
    • GET    /api/sessions/active
    • GET    /api/sessions/history/:userId
    • POST   /api/recordings/upload
    • GET    /api/recordings/:sessionId/:recordingType
    • GET    /api/recordings/:sessionId/info
+   • GET    /api/rule-sets
+   • GET    /api/rule-sets/defaults
+   • POST   /api/rule-sets
+   • POST   /api/rule-sets/dry-run
+   • GET    /api/rule-sets/:ruleSetId
+   • PUT    /api/rule-sets/:ruleSetId
+   • DELETE /api/rule-sets/:ruleSetId
+   • GET    /api/reviews/queue
+   • GET    /api/reviews/reports/agreement
+   • GET    /api/reviews/:sessionId
+   • POST   /api/reviews/:sessionId
+   • POST   /api/reviews/:sessionId/claim
+   • POST   /api/reviews/:sessionId/release
+   • POST   /api/reviews/:sessionId/notes
+   • POST   /api/reviews/:sessionId/incidents/:incidentId/verdict
+   • POST   /api/reviews/:sessionId/verdict
+   • GET    /api/interventions/presets
+   • GET    /api/interventions/:sessionId
+   • POST   /api/interventions/:sessionId/warnings
+   • POST   /api/interventions/:sessionId/messages
+   • POST   /api/interventions/:sessionId/pause
+   • POST   /api/interventions/:sessionId/end
+   • POST   /api/interventions/:sessionId/events/:eventId/acknowledge
+   • GET    /api/exams
+   • POST   /api/exams
+   • GET    /api/exams/:examId
+   • PUT    /api/exams/:examId
+   • DELETE /api/exams/:examId
+   • GET    /api/exams/:examId/sessions
+   • GET    /api/exams/:examId/slots
+   • POST   /api/exams/:examId/slots
+   • GET    /api/exams/:examId/slots/:slotId
+   • PUT    /api/exams/:examId/slots/:slotId
+   • DELETE /api/exams/:examId/slots/:slotId
+   • GET    /api/webhooks/subscriptions
+   • POST   /api/webhooks/subscriptions
+   • GET    /api/webhooks/subscriptions/:subscriptionId
+   • PUT    /api/webhooks/subscriptions/:subscriptionId
+   • DELETE /api/webhooks/subscriptions/:subscriptionId
+   • GET    /api/webhooks/deliveries
+   • GET    /api/webhooks/deliveries/:deliveryId
+   • POST   /api/webhooks/deliveries/:deliveryId/redeliver
+   • GET    /api/lti/platforms
+   • POST   /api/lti/platforms
+   • GET    /api/lti/platforms/:platformId
+   • PUT    /api/lti/platforms/:platformId
+   • DELETE /api/lti/platforms/:platformId
+   • POST   /api/lti/sessions/:sessionId/passback
    • DELETE /api/recordings/:sessionId/:recordingType
+   • GET    /api/tenants
+   • POST   /api/tenants
+   • GET    /api/tenants/:tenantId
+   • PUT    /api/tenants/:tenantId
+   • DELETE /api/tenants/:tenantId
+   • GET    /api/tenants/:tenantId/credentials
+   • POST   /api/tenants/:tenantId/credentials
+   • DELETE /api/tenants/:tenantId/credentials/:clientId
 
 🔗 Webhooks:
-   • POST   /webhook/external-call
+   • POST   /webhook/external-call/:platform (zoom, teams, meet, other)
+
+🎓 LTI 1.3:
+   • GET    /api/lti/config
+   • GET    /api/lti/jwks
+   • GET|POST /api/lti/login
+   • POST   /api/lti/launch
+   • GET    /api/lti/launches/:launchId
+   • GET    /api/lti/launches/:launchId/exams
+   • POST   /api/lti/launches/:launchId/deep-link
 
 Ready to monitor external calls! 👁️‍🗨️
       `);
@@ -280,9 +778,15 @@ Ready to monitor external calls! 👁️‍🗨️
     process.on('SIGINT', async () => {
       console.log('\n🛑 Shutting down gracefully...');
       
-      // Stop tracking services
-      gazeTrackingService.stopTracking();
-      audioAnalysisService.stopRealTimeAnalysis();
+      // Stop every session's analyzers
+      analyzerRegistry.stopAll();
+      
+      // Stop the outbound webhook worker, the retention sweep, presence checks and session deadlines
+      outboundWebhookService.stop();
+      tenantService.stop();
+      presenceService.stop();
+      externalCallMonitoringService.stop();
+      authService.stop();
       
       // Close database connection
       await mongoose.connection.close();
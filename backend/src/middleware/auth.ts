@@ -0,0 +1,179 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { Socket } from 'socket.io';
+import { AuthContext, UserRole } from '../types';
+import { AuthUtil } from '../utils/auth';
+import { TenantUtil } from '../utils/tenant';
+import { authService, AuthError } from '../services/auth';
+import { ProctorSessionModel } from '../models';
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
+
+export const STAFF_ROLES: UserRole[] = ['proctor', 'reviewer', 'admin'];
+
+/**
+ * Requires a valid access token for one of the given roles (any role when
+ * none are given) and exposes its identity as req.auth.
+ */
+export function requireAuth(...roles: UserRole[]): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const token = AuthUtil.extractBearerToken(req.headers.authorization);
+    if (!token) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    try {
+      req.auth = await authService.verifyAccessToken(token);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        res.status(401).json({ error: 'Unauthorized', details: [error.message] });
+        return;
+      }
+      console.error('Error verifying access token:', error);
+      res.status(500).json({ error: 'Failed to verify access token' });
+      return;
+    }
+
+    if (roles.length > 0 && !roles.includes(req.auth.role)) {
+      res.status(403).json({ error: 'Forbidden' });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Socket.IO counterpart of requireAuth: the handshake must carry a valid
+ * access token (`auth.token`, or an Authorization header), whose identity
+ * is kept as socket.data.auth for the connection's lifetime.
+ */
+export async function authenticateSocket(socket: Socket, next: (error?: Error) => void): Promise<void> {
+  const handshakeToken = socket.handshake.auth?.token;
+  const token = typeof handshakeToken === 'string' && handshakeToken
+    ? handshakeToken
+    : AuthUtil.extractBearerToken(socket.handshake.headers.authorization);
+  if (!token) {
+    next(new Error('Unauthorized'));
+    return;
+  }
+
+  try {
+    socket.data.auth = await authService.verifyAccessToken(token);
+    next();
+  } catch (error) {
+    if (!(error instanceof AuthError)) {
+      console.error('Error verifying socket access token:', error);
+    }
+    next(new Error('Unauthorized'));
+  }
+}
+
+// Outcome of checking whether a caller may act on a session
+export type SessionAccess =
+  | { allowed: true; tenantId?: string }
+  | { allowed: false; status: 403 | 404; error: string };
+
+/**
+ * Sessions in the caller's tenant are open to staff. Candidates may also
+ * only act on their own sessions, and only on the one their token is
+ * limited to if it is. Sessions outside the caller's reach are reported as
+ * not found. Shared by the REST routes and the Socket.IO events.
+ */
+export async function checkSessionAccess(auth: AuthContext, sessionId: string): Promise<SessionAccess> {
+  if (auth.role === 'candidate' && auth.sessionId && auth.sessionId !== sessionId) {
+    return { allowed: false, status: 403, error: 'Forbidden' };
+  }
+
+  const sessionDoc = await ProctorSessionModel.findOne({ sessionId }, { userId: 1, tenantId: 1 }).lean();
+  if (!sessionDoc || !TenantUtil.canAccess(auth, sessionDoc.tenantId)) {
+    return { allowed: false, status: 404, error: 'Session not found' };
+  }
+  if (auth.role === 'candidate' && sessionDoc.userId !== auth.userId) {
+    return { allowed: false, status: 403, error: 'Forbidden' };
+  }
+  return { allowed: true, tenantId: sessionDoc.tenantId };
+}
+
+/**
+ * Limits a route to sessions the caller may act on (see checkSessionAccess).
+ * Runs after requireAuth.
+ */
+export function requireSessionAccess(
+  getSessionId: (req: Request) => string | undefined = req => req.params.sessionId
+): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const auth = req.auth;
+    const sessionId = getSessionId(req);
+    if (!sessionId) {
+      // Nothing to check; the handler rejects the request
+      next();
+      return;
+    }
+    if (!auth) {
+      res.status(403).json({ error: 'Forbidden' });
+      return;
+    }
+
+    try {
+      const access = await checkSessionAccess(auth, sessionId);
+      if (!access.allowed) {
+        res.status(access.status).json({ error: access.error });
+        return;
+      }
+      next();
+    } catch (error) {
+      console.error('Error checking session access:', error);
+      res.status(500).json({ error: 'Failed to check session access' });
+    }
+  };
+}
+
+/**
+ * Limits a route to a resource in the caller's tenant; anything in another
+ * tenant is reported as not found. Resources that do not exist are left
+ * for the handler to report. Runs after requireAuth.
+ */
+export function requireTenantAccess(
+  resource: string,
+  lookup: (req: Request) => Promise<{ tenantId?: string } | null>
+): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const found = await lookup(req);
+      if (found && !TenantUtil.canAccess(req.auth, found.tenantId)) {
+        res.status(404).json({ error: `${resource} not found` });
+        return;
+      }
+      next();
+    } catch (error) {
+      console.error(`Error checking ${resource.toLowerCase()} access:`, error);
+      res.status(500).json({ error: `Failed to check ${resource.toLowerCase()} access` });
+    }
+  };
+}
+
+// Only callers without a tenant, who administer the whole deployment. Runs after requireAuth.
+export function requireDeploymentWide(req: Request, res: Response, next: NextFunction): void {
+  if (req.auth?.tenantId) {
+    res.status(403).json({ error: 'Forbidden' });
+    return;
+  }
+  next();
+}
+
+// Candidates may only act as themselves; other roles pass. Runs after requireAuth.
+export function requireSelf(getUserId: (req: Request) => string | undefined): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (req.auth?.role === 'candidate' && getUserId(req) !== req.auth.userId) {
+      res.status(403).json({ error: 'Forbidden' });
+      return;
+    }
+    next();
+  };
+}
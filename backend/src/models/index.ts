@@ -1,31 +1,200 @@
 import mongoose, { Schema, Document } from 'mongoose';
-import { ProctorSession, CallMonitoringData, VideoProcessingJob } from '../types';
+import {
+  ProctorSession,
+  CallMonitoringData,
+  VideoProcessingJob,
+  SessionSpeechSegment,
+  RecordingSpeakerAnalysis,
+  RuleSet,
+  Incident,
+  ReviewEvent,
+  InterventionEvent,
+  Exam,
+  ExamSlot,
+  WebhookSubscription,
+  WebhookDelivery,
+  LtiPlatform,
+  LtiResourceLink,
+  LtiLaunch,
+  User,
+  Tenant,
+  TenantCredential
+} from '../types';
 
 export interface IProctorSession extends Omit<ProctorSession, 'id'>, Document {
   sessionId: string;
+  updatedAt?: Date;
 }
 export interface ICallMonitoringData extends CallMonitoringData, Document {}
+export interface ISpeechSegment extends SessionSpeechSegment, Document {}
+export interface IRecordingSpeakerAnalysis extends RecordingSpeakerAnalysis, Document {}
 export interface IVideoProcessingJob extends Omit<VideoProcessingJob, 'id'>, Document {
   jobId: string;
 }
+export interface IRuleSet extends Omit<RuleSet, 'id'>, Document {
+  ruleSetId: string;
+}
+export interface IIncident extends Omit<Incident, 'id'>, Document {
+  incidentId: string;
+}
+export interface IReviewEvent extends Omit<ReviewEvent, 'id'>, Document {
+  eventId: string;
+}
+export interface IInterventionEvent extends Omit<InterventionEvent, 'id'>, Document {
+  eventId: string;
+}
+export interface IExam extends Omit<Exam, 'id'>, Document {
+  examId: string;
+}
+export interface IExamSlot extends Omit<ExamSlot, 'id'>, Document {
+  slotId: string;
+}
+export interface IWebhookSubscription extends Omit<WebhookSubscription, 'id'>, Document {
+  subscriptionId: string;
+  secret: string;
+}
+export interface IWebhookDelivery extends Omit<WebhookDelivery, 'id'>, Document {
+  deliveryId: string;
+}
+export interface ILtiPlatform extends Omit<LtiPlatform, 'id'>, Document {
+  platformId: string;
+}
+export interface ILtiResourceLink extends Omit<LtiResourceLink, 'id'>, Document {
+  linkId: string;
+}
+export interface ILtiLaunch extends Omit<LtiLaunch, 'id'>, Document {
+  launchId: string;
+  deploymentId: string;
+  ltiUserId: string;
+  deepLinkReturnUrl?: string;
+  deepLinkData?: string;
+  claimedAt?: Date; // when the ticket was traded for candidate tokens
+}
+export interface ILtiLoginState extends Document {
+  state: string;
+  nonce: string;
+  platformId: string;
+  createdAt: Date;
+}
+export interface ILtiToolKey extends Document {
+  kid: string;
+  privateKey: string; // PKCS#8 PEM
+  publicJwk: Record<string, unknown>;
+  createdAt: Date;
+}
+export interface ILtiGradeLink extends Document {
+  platformId: string;
+  resourceLinkId: string;
+  userId: string;
+  ltiUserId: string; // the platform's `sub` for the user, which AGS scores are posted against
+}
+export interface IUser extends Omit<User, 'id'>, Document {
+  userId: string;
+  passwordHash: string;
+}
+export interface IRefreshToken extends Document {
+  tokenHash: string; // SHA-256 of the token; the token itself is never stored
+  familyId: string; // every token rotated from the same login
+  userId: string;
+  role: User['role'] | 'candidate';
+  sessionId?: string;
+  tenantId?: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+export interface ITenant extends Omit<Tenant, 'id'>, Document {
+  tenantId: string;
+}
+export interface ITenantCredential extends Omit<TenantCredential, 'id'>, Document {
+  clientId: string;
+  secretHash: string; // SHA-256 of the client secret, which is only shown once
+}
+export interface IAuthSigningKey extends Document {
+  kid: string;
+  privateKey: string; // PKCS#8 PEM
+  publicJwk: Record<string, unknown>;
+  createdAt: Date;
+}
+export interface IWebhookEvent extends Document {
+  platform: string;
+  eventId: string;
+  receivedAt: Date;
+}
 
 const ProctorSessionSchema = new Schema<IProctorSession>({
   sessionId: { type: String, required: true, unique: true },
   userId: { type: String, required: true },
-  externalCallId: { type: String, required: true },
+  externalCallId: { type: String, required: true, index: true },
   callPlatform: { 
     type: String, 
     required: true, 
     enum: ['zoom', 'meet', 'teams', 'other'] 
   },
+  tenantId: { type: String, ref: 'Tenant', index: true },
+  examId: { type: String, ref: 'Exam', index: true },
+  slotId: { type: String, ref: 'ExamSlot', index: true },
   status: { 
     type: String, 
     required: true, 
     enum: ['active', 'paused', 'ended', 'recording'],
     default: 'active'
   },
+  statusHistory: [{
+    from: { type: String, enum: ['active', 'paused', 'ended', 'recording'] },
+    to: { type: String, required: true, enum: ['active', 'paused', 'ended', 'recording'] },
+    at: { type: Date, required: true },
+    reason: { type: String },
+    forced: { type: Boolean }
+  }],
+  pausedDurationMs: { type: Number, required: true, default: 0 },
+  timeLimit: {
+    durationMs: { type: Number },
+    windowEnd: { type: Date }
+  },
   startTime: { type: Date, required: true, default: Date.now },
   endTime: { type: Date },
+  riskScore: {
+    sessionId: { type: String },
+    score: { type: Number },
+    factors: [{
+      type: { type: String },
+      incidentCount: { type: Number },
+      durationMs: { type: Number },
+      points: { type: Number },
+      contribution: { type: Number }
+    }],
+    incidentCount: { type: Number },
+    calculatedAt: { type: Date }
+  },
+  review: {
+    status: {
+      type: String,
+      enum: ['pending', 'in_review', 'awaiting_second_opinion', 'completed']
+    },
+    queuedAt: { type: Date },
+    dueAt: { type: Date },
+    riskScore: { type: Number },
+    claimedBy: { type: String },
+    claimedAt: { type: Date },
+    reviewers: { type: [String], default: undefined },
+    finalVerdict: {
+      type: String,
+      enum: ['cleared', 'violation', 'inconclusive']
+    },
+    completedAt: { type: Date }
+  },
+  participants: {
+    type: [{
+      id: { type: String, required: true },
+      name: { type: String },
+      email: { type: String },
+      role: { type: String, enum: ['host', 'participant', 'proctored_user'] },
+      joinedAt: { type: Date },
+      leftAt: { type: Date }
+    }],
+    default: undefined
+  },
   recordingPaths: {
     video: { type: String },
     audio: { type: String },
@@ -34,7 +203,8 @@ const ProctorSessionSchema = new Schema<IProctorSession>({
   metadata: {
     userAgent: { type: String },
     platform: { type: String },
-    resolution: { type: String }
+    resolution: { type: String },
+    examId: { type: String }
   }
 }, {
   timestamps: true
@@ -42,54 +212,503 @@ const ProctorSessionSchema = new Schema<IProctorSession>({
 
 const CallMonitoringDataSchema = new Schema<ICallMonitoringData>({
   sessionId: { type: String, required: true, ref: 'ProctorSession' },
+  tenantId: { type: String, ref: 'Tenant', index: true },
+  seq: { type: Number },
   timestamp: { type: Date, required: true, default: Date.now },
   gazeData: {
     x: { type: Number },
     y: { type: Number },
     confidence: { type: Number },
     lookingAway: { type: Boolean },
-    duration: { type: Number }
+    duration: { type: Number },
+    timestamp: { type: Number },
+    frameIndex: { type: Number },
+    faceCount: { type: Number }
   },
   audioData: {
     volume: { type: Number },
+    peak: { type: Number },
     frequency: [{ type: Number }],
     multipleVoices: { type: Boolean },
+    multipleVoicesConfidence: { type: Number },
+    speakerCount: { type: Number },
     backgroundNoise: { type: Number }
   },
+  telemetry: [{
+    type: {
+      type: String,
+      enum: ['window_switch', 'focus_lost', 'fullscreen_exit', 'clipboard_use', 'print_attempt']
+    },
+    timestamp: { type: Date },
+    startTime: { type: Date },
+    endTime: { type: Date },
+    durationMs: { type: Number },
+    action: { type: String },
+    description: { type: String },
+    confidence: { type: Number }
+  }],
   suspiciousActivity: [{
     type: { 
       type: String, 
-      enum: ['gaze_away', 'multiple_voices', 'window_switch', 'face_not_detected'] 
+      enum: [
+        'gaze_away',
+        'multiple_voices',
+        'window_switch',
+        'focus_lost',
+        'fullscreen_exit',
+        'clipboard_use',
+        'print_attempt',
+        'face_not_detected',
+        'multiple_faces',
+        'environment_change',
+        'connection_lost'
+      ]
     },
     severity: { 
       type: String, 
       enum: ['low', 'medium', 'high'] 
     },
     timestamp: { type: Date },
+    startTime: { type: Date },
+    endTime: { type: Date },
     description: { type: String },
-    confidence: { type: Number }
+    confidence: { type: Number },
+    ruleId: { type: String }
   }]
 }, {
   timestamps: true
 });
 
+// A batched sample is stored once however often it is replayed
+CallMonitoringDataSchema.index(
+  { sessionId: 1, seq: 1 },
+  { unique: true, partialFilterExpression: { seq: { $exists: true } } }
+);
+
+const SpeechSegmentSchema = new Schema<ISpeechSegment>({
+  sessionId: { type: String, required: true, ref: 'ProctorSession', index: true },
+  source: { type: String, required: true, enum: ['audio', 'video'] },
+  recordingPath: { type: String, required: true, index: true },
+  recordingOffset: { type: Number, required: true },
+  start: { type: Number, required: true },
+  end: { type: Number, required: true },
+  energy: { type: Number, required: true },
+  speaker: { type: Number }
+}, {
+  timestamps: true
+});
+
+// One per recording, replaced when the recording is analysed again
+const RecordingSpeakerAnalysisSchema = new Schema<IRecordingSpeakerAnalysis>({
+  sessionId: { type: String, required: true, ref: 'ProctorSession', index: true },
+  source: { type: String, required: true, enum: ['audio', 'video'] },
+  recordingPath: { type: String, required: true, unique: true },
+  recordingOffset: { type: Number, required: true },
+  speakerCount: { type: Number, required: true },
+  confidence: { type: Number, required: true },
+  speakers: [{
+    speaker: { type: Number, required: true },
+    ranges: [{
+      start: { type: Number, required: true },
+      end: { type: Number, required: true }
+    }],
+    speechSeconds: { type: Number, required: true },
+    meanPitchHz: { type: Number }
+  }],
+  analyzedAt: { type: Date, required: true }
+});
+
 const VideoProcessingJobSchema = new Schema<IVideoProcessingJob>({
   jobId: { type: String, required: true, unique: true },
   sessionId: { type: String, required: true, ref: 'ProctorSession' },
+  tenantId: { type: String, ref: 'Tenant', index: true },
   filePath: { type: String, required: true },
+  type: {
+    type: String,
+    required: true,
+    enum: ['gaze_tracking'],
+    default: 'gaze_tracking'
+  },
   status: { 
     type: String, 
     required: true, 
     enum: ['pending', 'processing', 'completed', 'failed'],
     default: 'pending'
   },
+  progress: { type: Number, required: true, default: 0 },
   createdAt: { type: Date, required: true, default: Date.now },
+  startedAt: { type: Date },
   completedAt: { type: Date },
+  error: { type: String },
   results: { type: Schema.Types.Mixed }
 }, {
   timestamps: true
 });
 
+const IncidentSchema = new Schema<IIncident>({
+  incidentId: { type: String, required: true, unique: true },
+  sessionId: { type: String, required: true, ref: 'ProctorSession', index: true },
+  type: { type: String, required: true },
+  severity: {
+    type: String,
+    required: true,
+    enum: ['low', 'medium', 'high']
+  },
+  status: {
+    type: String,
+    required: true,
+    enum: ['open', 'closed'],
+    default: 'open'
+  },
+  startTime: { type: Date, required: true },
+  endTime: { type: Date, required: true },
+  peakConfidence: { type: Number, required: true },
+  description: { type: String, required: true },
+  ruleId: { type: String },
+  sampleIds: [{ type: String }]
+}, {
+  timestamps: true
+});
+
+IncidentSchema.index({ sessionId: 1, startTime: 1 });
+
+const ExamSchema = new Schema<IExam>({
+  examId: { type: String, required: true, unique: true },
+  title: { type: String, required: true },
+  description: { type: String },
+  tenantId: { type: String, index: true },
+  ruleSetId: { type: String, ref: 'RuleSet' },
+  durationMinutes: { type: Number, required: true }
+}, {
+  timestamps: true
+});
+
+const ExamSlotSchema = new Schema<IExamSlot>({
+  slotId: { type: String, required: true, unique: true },
+  examId: { type: String, required: true, ref: 'Exam', index: true },
+  windowStart: { type: Date, required: true },
+  windowEnd: { type: Date, required: true },
+  candidateIds: [{ type: String }],
+  externalCallId: { type: String, index: true },
+  callPlatform: { type: String, enum: ['zoom', 'meet', 'teams', 'other'] }
+}, {
+  timestamps: true
+});
+
+// Webhook event IDs already processed, kept long enough to reject redeliveries
+const WebhookEventSchema = new Schema<IWebhookEvent>({
+  platform: { type: String, required: true },
+  eventId: { type: String, required: true },
+  receivedAt: { type: Date, required: true, default: Date.now }
+});
+
+WebhookEventSchema.index({ platform: 1, eventId: 1 }, { unique: true });
+WebhookEventSchema.index(
+  { receivedAt: 1 },
+  { expireAfterSeconds: parseFloat(process.env.WEBHOOK_EVENT_TTL_HOURS || '24') * 60 * 60 }
+);
+
+const WebhookSubscriptionSchema = new Schema<IWebhookSubscription>({
+  subscriptionId: { type: String, required: true, unique: true },
+  url: { type: String, required: true },
+  events: [{
+    type: String,
+    enum: ['session.ended', 'incident.high_severity', 'review.incident_verdict', 'review.verdict']
+  }],
+  secret: { type: String, required: true },
+  tenantId: { type: String, index: true },
+  description: { type: String },
+  active: { type: Boolean, required: true, default: true }
+}, {
+  timestamps: true
+});
+
+const WebhookDeliverySchema = new Schema<IWebhookDelivery>({
+  deliveryId: { type: String, required: true, unique: true },
+  subscriptionId: { type: String, required: true, ref: 'WebhookSubscription' },
+  eventId: { type: String, required: true, index: true },
+  eventType: { type: String, required: true },
+  payload: { type: Schema.Types.Mixed, required: true },
+  status: {
+    type: String,
+    required: true,
+    enum: ['pending', 'succeeded', 'failed'],
+    default: 'pending'
+  },
+  attempts: [{
+    attemptedAt: { type: Date, required: true },
+    durationMs: { type: Number, required: true },
+    responseStatus: { type: Number },
+    error: { type: String }
+  }],
+  nextAttemptAt: { type: Date },
+  redeliveryOf: { type: String }
+}, {
+  timestamps: true
+});
+
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+WebhookDeliverySchema.index({ subscriptionId: 1, createdAt: -1 });
+
+const LtiPlatformSchema = new Schema<ILtiPlatform>({
+  platformId: { type: String, required: true, unique: true },
+  name: { type: String, required: true },
+  issuer: { type: String, required: true },
+  clientId: { type: String, required: true },
+  deploymentIds: [{ type: String }],
+  authLoginUrl: { type: String, required: true },
+  authTokenUrl: { type: String, required: true },
+  jwksUrl: { type: String, required: true },
+  tenantId: { type: String, index: true }
+}, {
+  timestamps: true
+});
+
+LtiPlatformSchema.index({ issuer: 1, clientId: 1 }, { unique: true });
+
+const LtiResourceLinkSchema = new Schema<ILtiResourceLink>({
+  linkId: { type: String, required: true, unique: true },
+  platformId: { type: String, required: true, ref: 'LtiPlatform' },
+  deploymentId: { type: String, required: true },
+  resourceLinkId: { type: String, required: true },
+  contextId: { type: String },
+  contextTitle: { type: String },
+  examId: { type: String, required: true, ref: 'Exam', index: true },
+  slotId: { type: String, ref: 'ExamSlot' },
+  lineItemUrl: { type: String }
+}, {
+  timestamps: true
+});
+
+LtiResourceLinkSchema.index({ platformId: 1, resourceLinkId: 1 }, { unique: true });
+
+// Launch tickets only need to outlive the redirect to the frontend
+const LtiLaunchSchema = new Schema<ILtiLaunch>({
+  launchId: { type: String, required: true, unique: true },
+  platformId: { type: String, required: true, ref: 'LtiPlatform' },
+  deploymentId: { type: String, required: true },
+  messageType: { type: String, required: true, enum: ['resource_link', 'deep_linking'] },
+  userId: { type: String, required: true },
+  ltiUserId: { type: String, required: true },
+  name: { type: String },
+  roles: [{ type: String }],
+  isInstructor: { type: Boolean, required: true, default: false },
+  examId: { type: String, ref: 'Exam' },
+  examTitle: { type: String },
+  slotId: { type: String, ref: 'ExamSlot' },
+  externalCallId: { type: String },
+  callPlatform: { type: String, enum: ['zoom', 'meet', 'teams', 'other'] },
+  returnUrl: { type: String },
+  deepLinkReturnUrl: { type: String },
+  deepLinkData: { type: String },
+  claimedAt: { type: Date },
+  createdAt: { type: Date, required: true, default: Date.now },
+  expiresAt: { type: Date, required: true }
+});
+
+LtiLaunchSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// OIDC state and nonce between login initiation and the launch
+const LtiLoginStateSchema = new Schema<ILtiLoginState>({
+  state: { type: String, required: true, unique: true },
+  nonce: { type: String, required: true },
+  platformId: { type: String, required: true, ref: 'LtiPlatform' },
+  createdAt: { type: Date, required: true, default: Date.now, expires: 10 * 60 }
+});
+
+// Our signing keys for deep linking responses and AGS token requests
+const LtiToolKeySchema = new Schema<ILtiToolKey>({
+  kid: { type: String, required: true, unique: true },
+  privateKey: { type: String, required: true },
+  publicJwk: { type: Schema.Types.Mixed, required: true },
+  createdAt: { type: Date, required: true, default: Date.now }
+});
+
+const LtiGradeLinkSchema = new Schema<ILtiGradeLink>({
+  platformId: { type: String, required: true, ref: 'LtiPlatform' },
+  resourceLinkId: { type: String, required: true },
+  userId: { type: String, required: true, index: true },
+  ltiUserId: { type: String, required: true }
+}, {
+  timestamps: true
+});
+
+LtiGradeLinkSchema.index({ platformId: 1, resourceLinkId: 1, userId: 1 }, { unique: true });
+
+const UserSchema = new Schema<IUser>({
+  userId: { type: String, required: true, unique: true },
+  email: { type: String, required: true, unique: true, lowercase: true, trim: true },
+  name: { type: String },
+  role: { type: String, required: true, enum: ['proctor', 'reviewer', 'admin'] },
+  tenantId: { type: String, index: true },
+  passwordHash: { type: String, required: true },
+  disabled: { type: Boolean, required: true, default: false }
+}, {
+  timestamps: true
+});
+
+const RefreshTokenSchema = new Schema<IRefreshToken>({
+  tokenHash: { type: String, required: true, unique: true },
+  familyId: { type: String, required: true, index: true },
+  userId: { type: String, required: true, index: true },
+  role: { type: String, required: true, enum: ['candidate', 'proctor', 'reviewer', 'admin'] },
+  sessionId: { type: String, ref: 'ProctorSession' },
+  tenantId: { type: String },
+  expiresAt: { type: Date, required: true },
+  revokedAt: { type: Date },
+  createdAt: { type: Date, required: true, default: Date.now }
+});
+
+RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const TenantSchema = new Schema<ITenant>({
+  tenantId: { type: String, required: true, unique: true },
+  name: { type: String, required: true },
+  retention: {
+    recordingDays: { type: Number },
+    monitoringDataDays: { type: Number }
+  }
+}, {
+  timestamps: true
+});
+
+const TenantCredentialSchema = new Schema<ITenantCredential>({
+  clientId: { type: String, required: true, unique: true },
+  tenantId: { type: String, required: true, ref: 'Tenant', index: true },
+  name: { type: String, required: true },
+  role: { type: String, required: true, enum: ['proctor', 'reviewer', 'admin'] },
+  secretHash: { type: String, required: true },
+  lastUsedAt: { type: Date },
+  revokedAt: { type: Date },
+  createdAt: { type: Date, required: true, default: Date.now }
+});
+
+// Access token signing keys, newest first; older ones verify tokens until they expire
+const AuthSigningKeySchema = new Schema<IAuthSigningKey>({
+  kid: { type: String, required: true, unique: true },
+  privateKey: { type: String, required: true },
+  publicJwk: { type: Schema.Types.Mixed, required: true },
+  createdAt: { type: Date, required: true, default: Date.now, index: true }
+});
+
+const ReviewEventSchema = new Schema<IReviewEvent>({
+  eventId: { type: String, required: true, unique: true },
+  sessionId: { type: String, required: true, ref: 'ProctorSession', index: true },
+  reviewerId: { type: String, required: true },
+  type: {
+    type: String,
+    required: true,
+    enum: ['queued', 'claimed', 'released', 'incident_verdict', 'note', 'second_opinion_requested', 'final_verdict']
+  },
+  incidentId: { type: String, index: true },
+  verdict: { type: String },
+  note: { type: String },
+  createdAt: { type: Date, required: true, default: Date.now }
+});
+
+// Review events are an audit trail: they can be added but never changed or removed
+ReviewEventSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  function () {
+    throw new Error('Review events are immutable');
+  }
+);
+
+const InterventionEventSchema = new Schema<IInterventionEvent>({
+  eventId: { type: String, required: true, unique: true },
+  sessionId: { type: String, required: true, ref: 'ProctorSession' },
+  tenantId: { type: String, ref: 'Tenant', index: true },
+  type: {
+    type: String,
+    required: true,
+    enum: ['warning', 'message', 'paused', 'ended', 'acknowledged']
+  },
+  senderId: { type: String, required: true },
+  senderRole: {
+    type: String,
+    required: true,
+    enum: ['candidate', 'proctor', 'reviewer', 'admin']
+  },
+  preset: { type: String },
+  text: { type: String },
+  requiresAck: { type: Boolean, required: true, default: false },
+  acknowledgesId: { type: String },
+  createdAt: { type: Date, required: true, default: Date.now }
+});
+
+InterventionEventSchema.index({ sessionId: 1, createdAt: 1 });
+// An entry is acknowledged at most once
+InterventionEventSchema.index(
+  { acknowledgesId: 1 },
+  { unique: true, partialFilterExpression: { acknowledgesId: { $exists: true } } }
+);
+
+// Interventions are evidence: they can be added but never changed or removed
+InterventionEventSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  function () {
+    throw new Error('Intervention events are immutable');
+  }
+);
+
+const DetectionRuleSchema = new Schema({
+  id: { type: String, required: true },
+  name: { type: String, required: true },
+  enabled: { type: Boolean, required: true, default: true },
+  activityType: { type: String, required: true },
+  conditions: [{
+    field: { type: String, required: true },
+    operator: {
+      type: String,
+      required: true,
+      enum: ['eq', 'neq', 'gt', 'gte', 'lt', 'lte']
+    },
+    value: { type: Schema.Types.Mixed, required: true }
+  }],
+  windowMs: { type: Number, required: true, default: 0 },
+  cooldownMs: { type: Number, required: true, default: 0 },
+  severity: {
+    type: String,
+    required: true,
+    enum: ['low', 'medium', 'high']
+  },
+  confidence: { type: Number },
+  description: { type: String }
+}, { _id: false });
+
+const RuleSetSchema = new Schema<IRuleSet>({
+  ruleSetId: { type: String, required: true, unique: true },
+  name: { type: String, required: true },
+  examId: { type: String, index: true },
+  tenantId: { type: String, index: true },
+  isDefault: { type: Boolean, required: true, default: false },
+  rules: [DetectionRuleSchema]
+}, {
+  timestamps: true
+});
+
 export const ProctorSessionModel = mongoose.model<IProctorSession>('ProctorSession', ProctorSessionSchema);
 export const CallMonitoringDataModel = mongoose.model<ICallMonitoringData>('CallMonitoringData', CallMonitoringDataSchema);
+export const SpeechSegmentModel = mongoose.model<ISpeechSegment>('SpeechSegment', SpeechSegmentSchema);
+export const RecordingSpeakerAnalysisModel = mongoose.model<IRecordingSpeakerAnalysis>('RecordingSpeakerAnalysis', RecordingSpeakerAnalysisSchema);
 export const VideoProcessingJobModel = mongoose.model<IVideoProcessingJob>('VideoProcessingJob', VideoProcessingJobSchema);
+export const RuleSetModel = mongoose.model<IRuleSet>('RuleSet', RuleSetSchema);
+export const IncidentModel = mongoose.model<IIncident>('Incident', IncidentSchema);
+export const ReviewEventModel = mongoose.model<IReviewEvent>('ReviewEvent', ReviewEventSchema);
+export const InterventionEventModel = mongoose.model<IInterventionEvent>('InterventionEvent', InterventionEventSchema);
+export const ExamModel = mongoose.model<IExam>('Exam', ExamSchema);
+export const ExamSlotModel = mongoose.model<IExamSlot>('ExamSlot', ExamSlotSchema);
+export const WebhookEventModel = mongoose.model<IWebhookEvent>('WebhookEvent', WebhookEventSchema);
+export const WebhookSubscriptionModel = mongoose.model<IWebhookSubscription>('WebhookSubscription', WebhookSubscriptionSchema);
+export const WebhookDeliveryModel = mongoose.model<IWebhookDelivery>('WebhookDelivery', WebhookDeliverySchema);
+export const LtiPlatformModel = mongoose.model<ILtiPlatform>('LtiPlatform', LtiPlatformSchema);
+export const LtiResourceLinkModel = mongoose.model<ILtiResourceLink>('LtiResourceLink', LtiResourceLinkSchema);
+export const LtiLaunchModel = mongoose.model<ILtiLaunch>('LtiLaunch', LtiLaunchSchema);
+export const LtiLoginStateModel = mongoose.model<ILtiLoginState>('LtiLoginState', LtiLoginStateSchema);
+export const LtiToolKeyModel = mongoose.model<ILtiToolKey>('LtiToolKey', LtiToolKeySchema);
+export const LtiGradeLinkModel = mongoose.model<ILtiGradeLink>('LtiGradeLink', LtiGradeLinkSchema);
+export const UserModel = mongoose.model<IUser>('User', UserSchema);
+export const RefreshTokenModel = mongoose.model<IRefreshToken>('RefreshToken', RefreshTokenSchema);
+export const AuthSigningKeyModel = mongoose.model<IAuthSigningKey>('AuthSigningKey', AuthSigningKeySchema);
+export const TenantModel = mongoose.model<ITenant>('Tenant', TenantSchema);
+export const TenantCredentialModel = mongoose.model<ITenantCredential>('TenantCredential', TenantCredentialSchema);
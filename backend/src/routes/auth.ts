@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import { authController } from '../controllers/auth';
+import { authService } from '../services/auth';
+import { requireAuth, requireDeploymentWide, requireSessionAccess, requireTenantAccess } from '../middleware/auth';
+
+const router: Router = Router();
+
+// Tenant admins manage only their own tenant's accounts
+const userAdmin = [requireAuth('admin'), requireTenantAccess('User', req => authService.getUser(req.params.userId))];
+
+// Staff sign-in with email and password
+router.post('/login', authController.login);
+
+// Trade a refresh token for a new token pair; each refresh token works once
+router.post('/refresh', authController.refresh);
+
+// Revoke a refresh token and every token rotated from the same sign-in
+router.post('/logout', authController.logout);
+
+// Who the access token belongs to
+router.get('/me', requireAuth(), authController.getCurrentUser);
+
+// Public keys that verify access tokens
+router.get('/jwks', authController.getJwks);
+
+// Trade a tenant's API client credentials for an access token
+router.post('/token', authController.exchangeClientCredentials);
+
+// Trade a learner's LTI launch ticket for candidate tokens
+router.post('/lti', authController.exchangeLtiLaunch);
+
+// Issue tokens for a candidate in the caller's tenant, optionally limited to one session
+router.post(
+  '/candidate-tokens',
+  requireAuth('proctor', 'admin'),
+  requireSessionAccess(req => req.body.sessionId),
+  authController.issueCandidateTokens
+);
+
+// Start signing with a new key; the keys are shared by every tenant
+router.post('/keys/rotate', requireAuth('admin'), requireDeploymentWide, authController.rotateKeys);
+
+// Staff accounts
+router.get('/users', requireAuth('admin'), authController.listUsers);
+router.post('/users', requireAuth('admin'), authController.createUser);
+router.get('/users/:userId', userAdmin, authController.getUser);
+router.put('/users/:userId', userAdmin, authController.updateUser);
+
+export default router;
@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import { examController } from '../controllers/exam';
+import { examService } from '../services/exam';
+import { requireAuth, requireTenantAccess, STAFF_ROLES } from '../middleware/auth';
+
+const router: Router = Router();
+
+// Staff can look exams up and only admins schedule them, both within their own tenant
+const staff = requireAuth(...STAFF_ROLES);
+const admin = requireAuth('admin');
+const inTenant = requireTenantAccess('Exam', req => examService.getExam(req.params.examId));
+const staffInTenant = [staff, inTenant];
+const adminInTenant = [admin, inTenant];
+
+// List exams (optionally by tenant)
+router.get('/', staff, examController.listExams);
+
+// Create an exam
+router.post('/', admin, examController.createExam);
+
+// Get, replace or delete an exam
+router.get('/:examId', staffInTenant, examController.getExam);
+router.put('/:examId', adminInTenant, examController.updateExam);
+router.delete('/:examId', adminInTenant, examController.deleteExam);
+
+// Every proctoring session sat for an exam (optionally one slot)
+router.get('/:examId/sessions', staffInTenant, examController.getExamSessions);
+
+// List or create an exam's slots
+router.get('/:examId/slots', staffInTenant, examController.listSlots);
+router.post('/:examId/slots', adminInTenant, examController.createSlot);
+
+// Get, replace or delete a slot
+router.get('/:examId/slots/:slotId', staffInTenant, examController.getSlot);
+router.put('/:examId/slots/:slotId', adminInTenant, examController.updateSlot);
+router.delete('/:examId/slots/:slotId', adminInTenant, examController.deleteSlot);
+
+export default router;
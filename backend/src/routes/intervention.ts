@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { interventionController } from '../controllers/intervention';
+import { requireAuth, requireSessionAccess, STAFF_ROLES } from '../middleware/auth';
+
+const router: Router = Router();
+
+// Proctors and admins intervene; the candidate chats back and acknowledges.
+// Sessions outside the caller's tenant are not found
+const intervener = [requireAuth('proctor', 'admin'), requireSessionAccess()];
+const participant = [requireAuth('candidate', 'proctor', 'admin'), requireSessionAccess()];
+const viewer = [requireAuth('candidate', ...STAFF_ROLES), requireSessionAccess()];
+const candidate = [requireAuth('candidate'), requireSessionAccess()];
+
+// Predefined warning texts
+router.get('/presets', requireAuth(...STAFF_ROLES), interventionController.getPresets);
+
+// Get a session's intervention trail: warnings, chat, forced pauses and ends, acknowledgements
+router.get('/:sessionId', viewer, interventionController.getEvents);
+
+// Warn the candidate with a preset or free text
+router.post('/:sessionId/warnings', intervener, interventionController.sendWarning);
+
+// Chat between the candidate and the proctors
+router.post('/:sessionId/messages', participant, interventionController.sendMessage);
+
+// Pause the session, or end it with a reason, and tell the candidate
+router.post('/:sessionId/pause', intervener, interventionController.forcePause);
+router.post('/:sessionId/end', intervener, interventionController.forceEnd);
+
+// The candidate confirms they saw a warning, pause or end
+router.post('/:sessionId/events/:eventId/acknowledge', candidate, interventionController.acknowledge);
+
+export default router;
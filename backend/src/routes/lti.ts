@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import { ltiController } from '../controllers/lti';
+import { ltiService } from '../services/lti';
+import { requireAuth, requireSessionAccess, requireTenantAccess } from '../middleware/auth';
+
+const router: Router = Router();
+
+// Protocol endpoints are called by the platform and the launched browser; the rest is admin-only
+const admin = requireAuth('admin');
+const platformInTenant = [admin, requireTenantAccess('LTI platform', req => ltiService.getPlatform(req.params.platformId))];
+
+// OIDC login initiation from the platform
+router.get('/login', ltiController.login);
+router.post('/login', ltiController.login);
+
+// id_token form post for resource link and deep linking launches
+router.post('/launch', ltiController.launch);
+
+// Our public signing keys and the URLs to register the tool with
+router.get('/jwks', ltiController.getJwks);
+router.get('/config', ltiController.getConfiguration);
+
+// Launch tickets read by the frontend after a launch
+router.get('/launches/:launchId', ltiController.getLaunch);
+
+// Exams an instructor can choose from while deep linking
+router.get('/launches/:launchId/exams', ltiController.getDeepLinkOptions);
+
+// Answer a deep linking request with the chosen exam
+router.post('/launches/:launchId/deep-link', ltiController.createDeepLink);
+
+// Register, list, replace or remove platforms
+router.get('/platforms', admin, ltiController.listPlatforms);
+router.post('/platforms', admin, ltiController.createPlatform);
+router.get('/platforms/:platformId', platformInTenant, ltiController.getPlatform);
+router.put('/platforms/:platformId', platformInTenant, ltiController.updatePlatform);
+router.delete('/platforms/:platformId', platformInTenant, ltiController.deletePlatform);
+
+// Send a finished session's verdict to the LMS gradebook again
+router.post('/sessions/:sessionId/passback', admin, requireSessionAccess(), ltiController.resendVerdict);
+
+export default router;
@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { outboundWebhookController } from '../controllers/outboundWebhook';
+import { outboundWebhookService } from '../services/outboundWebhook';
+import { requireAuth, requireTenantAccess } from '../middleware/auth';
+
+const router: Router = Router();
+
+// Subscriptions and the delivery log are admin-only, and tenant admins see only their own
+router.use(requireAuth('admin'));
+
+const subscriptionInTenant = requireTenantAccess(
+  'Webhook subscription',
+  req => outboundWebhookService.getSubscription(req.params.subscriptionId)
+);
+
+// A delivery belongs to its subscription's tenant; once that is deleted, only deployment admins see it
+const deliveryInTenant = requireTenantAccess('Webhook delivery', async req => {
+  const delivery = await outboundWebhookService.getDelivery(req.params.deliveryId);
+  if (!delivery) {
+    return null;
+  }
+  return (await outboundWebhookService.getSubscription(delivery.subscriptionId)) ?? {};
+});
+
+// List subscriptions (optionally by tenant)
+router.get('/subscriptions', outboundWebhookController.listSubscriptions);
+
+// Subscribe an endpoint to proctoring events; returns the signing secret once
+router.post('/subscriptions', outboundWebhookController.createSubscription);
+
+// Get, replace or delete a subscription
+router.get('/subscriptions/:subscriptionId', subscriptionInTenant, outboundWebhookController.getSubscription);
+router.put('/subscriptions/:subscriptionId', subscriptionInTenant, outboundWebhookController.updateSubscription);
+router.delete('/subscriptions/:subscriptionId', subscriptionInTenant, outboundWebhookController.deleteSubscription);
+
+// Delivery log, newest first
+router.get('/deliveries', outboundWebhookController.getDeliveries);
+router.get('/deliveries/:deliveryId', deliveryInTenant, outboundWebhookController.getDelivery);
+
+// Send a delivered or failed event again
+router.post('/deliveries/:deliveryId/redeliver', deliveryInTenant, outboundWebhookController.redeliver);
+
+export default router;
@@ -1,21 +1,58 @@
 import { Router, Request, Response } from 'express';
 import { proctorSessionController } from '../controllers/proctorSession';
+import { requireAuth, requireSessionAccess, requireSelf, STAFF_ROLES } from '../middleware/auth';
 
 const router: Router = Router();
 
+// Candidates run their own sessions; proctors and admins can run anyone's in their tenant.
+// Analysis results are for staff only
+const operator = [requireAuth('candidate', 'proctor', 'admin'), requireSessionAccess()];
+const viewer = [requireAuth('candidate', ...STAFF_ROLES), requireSessionAccess()];
+const staff = [requireAuth(...STAFF_ROLES), requireSessionAccess()];
+
 // Start a new proctoring session
-router.post('/start', proctorSessionController.startSession);
+router.post('/start', requireAuth('candidate', 'proctor', 'admin'), requireSelf(req => req.body.userId), proctorSessionController.startSession);
 
 // End a proctoring session
-router.post('/:sessionId/end', proctorSessionController.endSession);
+router.post('/:sessionId/end', operator, proctorSessionController.endSession);
+
+// Pause and resume a proctoring session
+router.post('/:sessionId/pause', operator, proctorSessionController.pauseSession);
+router.post('/:sessionId/resume', operator, proctorSessionController.resumeSession);
+
+// Start and stop recording within a session
+router.post('/:sessionId/recording/start', operator, proctorSessionController.startRecording);
+router.post('/:sessionId/recording/stop', operator, proctorSessionController.stopRecording);
 
 // Get session status
-router.get('/:sessionId/status', proctorSessionController.getSessionStatus);
+router.get('/:sessionId/status', viewer, proctorSessionController.getSessionStatus);
+
+// Get per-session analyzer health
+router.get('/:sessionId/analyzers', staff, proctorSessionController.getAnalyzerStatus);
+
+// Get detected speech segments for a session's recordings
+router.get('/:sessionId/speech-segments', staff, proctorSessionController.getSpeechSegments);
+
+// Get who spoke when in each of a session's recordings
+router.get('/:sessionId/speakers', staff, proctorSessionController.getSpeakers);
+
+// Get merged incident episodes (filter by type, severity, status, from/to; paged)
+router.get('/:sessionId/incidents', staff, proctorSessionController.getIncidents);
+
+// Get the session's integrity risk score and its contributing factors
+router.get('/:sessionId/risk-score', staff, proctorSessionController.getRiskScore);
+
+// Get whether the candidate's exam tab is connected, and when an absent one's session is paused or ended
+router.get('/:sessionId/presence', staff, proctorSessionController.getPresence);
+
+// Get offline video analysis jobs (gaze estimation) for a session
+router.get('/:sessionId/video-jobs', staff, proctorSessionController.getVideoJobs);
+router.get('/:sessionId/video-jobs/:jobId', staff, proctorSessionController.getVideoJob);
 
 // Get all active sessions
-router.get('/active', proctorSessionController.getActiveSessions);
+router.get('/active', requireAuth(...STAFF_ROLES), proctorSessionController.getActiveSessions);
 
 // Get session history for a user
-router.get('/history/:userId', proctorSessionController.getSessionHistory);
+router.get('/history/:userId', requireAuth('candidate', ...STAFF_ROLES), requireSelf(req => req.params.userId), proctorSessionController.getSessionHistory);
 
 export default router;
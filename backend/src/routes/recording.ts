@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import multer from 'multer';
 import { recordingController } from '../controllers/recording';
+import { requireAuth, requireSessionAccess } from '../middleware/auth';
 
 const router: Router = Router();
 
@@ -20,16 +21,22 @@ const upload = multer({
   }
 });
 
-// Upload a recording
-router.post('/upload', upload.single('recording'), recordingController.uploadRecording);
+// Upload a recording; candidates only to their own session, whose ID is in the multipart body
+router.post(
+  '/upload',
+  requireAuth('candidate', 'proctor', 'admin'),
+  upload.single('recording'),
+  requireSessionAccess(req => req.body.sessionId),
+  recordingController.uploadRecording
+);
 
 // Get a recording
-router.get('/:sessionId/:recordingType', recordingController.getRecording);
+router.get('/:sessionId/:recordingType', requireAuth(), requireSessionAccess(), recordingController.getRecording);
 
 // Get recording information
-router.get('/:sessionId/info', recordingController.getRecordingInfo);
+router.get('/:sessionId/info', requireAuth(), requireSessionAccess(), recordingController.getRecordingInfo);
 
 // Delete a recording
-router.delete('/:sessionId/:recordingType', recordingController.deleteRecording);
+router.delete('/:sessionId/:recordingType', requireAuth('admin'), requireSessionAccess(), recordingController.deleteRecording);
 
 export default router;
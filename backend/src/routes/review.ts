@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import { reviewController } from '../controllers/review';
+import { requireAuth, requireSessionAccess, STAFF_ROLES } from '../middleware/auth';
+
+const router: Router = Router();
+
+// Any staff member can see the queue and flag a session; only reviewers judge them.
+// Sessions outside the caller's tenant are not found
+const staff = requireAuth(...STAFF_ROLES);
+const reviewer = requireAuth('reviewer', 'admin');
+const staffOnSession = [staff, requireSessionAccess()];
+const reviewerOnSession = [reviewer, requireSessionAccess()];
+
+// List queued sessions, soonest SLA deadline first
+router.get('/queue', staff, reviewController.getQueue);
+
+// Inter-reviewer agreement on incident verdicts
+router.get('/reports/agreement', staff, reviewController.getAgreementReport);
+
+// Get a session's review state and event history
+router.get('/:sessionId', staffOnSession, reviewController.getReview);
+
+// Flag a session for review by hand
+router.post('/:sessionId', staffOnSession, reviewController.enqueue);
+
+// Take or hand back a queued session
+router.post('/:sessionId/claim', reviewerOnSession, reviewController.claim);
+router.post('/:sessionId/release', reviewerOnSession, reviewController.release);
+
+// Annotate the session or one of its incidents
+router.post('/:sessionId/notes', reviewerOnSession, reviewController.addNote);
+
+// Mark an incident confirmed, dismissed or needing a second opinion
+router.post('/:sessionId/incidents/:incidentId/verdict', reviewerOnSession, reviewController.recordIncidentVerdict);
+
+// Close the review with a verdict for the whole session
+router.post('/:sessionId/verdict', reviewerOnSession, reviewController.recordFinalVerdict);
+
+export default router;
@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import { ruleSetController } from '../controllers/ruleSet';
+import { ruleEngineService } from '../services/ruleEngine';
+import { requireAuth, requireSessionAccess, requireTenantAccess, STAFF_ROLES } from '../middleware/auth';
+
+const router: Router = Router();
+
+// Staff can read and try out rules; only admins change them. Tenant staff see
+// their own tenant's rule sets and the deployment-wide ones, but change only their own
+const staff = requireAuth(...STAFF_ROLES);
+const admin = requireAuth('admin');
+const readable = requireTenantAccess('Rule set', async req => {
+  const ruleSetId = req.params.ruleSetId || req.body.ruleSetId;
+  const ruleSet = typeof ruleSetId === 'string' ? await ruleEngineService.getRuleSet(ruleSetId) : null;
+  // Rule sets without a tenant are shared by every tenant
+  return ruleSet?.tenantId ? ruleSet : null;
+});
+const writable = requireTenantAccess('Rule set', req => ruleEngineService.getRuleSet(req.params.ruleSetId));
+
+// List stored rule sets (optionally by exam or tenant)
+router.get('/', staff, ruleSetController.listRuleSets);
+
+// Get the built-in rules used when no rule set applies
+router.get('/defaults', staff, ruleSetController.getDefaultRules);
+
+// Replay a past session's monitoring data against draft rules
+router.post('/dry-run', staff, requireSessionAccess(req => req.body.sessionId), readable, ruleSetController.dryRun);
+
+// Create a rule set
+router.post('/', admin, ruleSetController.createRuleSet);
+
+// Get, replace or delete a rule set
+router.get('/:ruleSetId', staff, readable, ruleSetController.getRuleSet);
+router.put('/:ruleSetId', admin, writable, ruleSetController.updateRuleSet);
+router.delete('/:ruleSetId', admin, writable, ruleSetController.deleteRuleSet);
+
+export default router;
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { tenantController } from '../controllers/tenant';
+import { requireAuth, requireDeploymentWide, requireTenantAccess } from '../middleware/auth';
+
+const router: Router = Router();
+
+// Deployment admins manage every tenant; a tenant's admins see and configure only their own
+router.use(requireAuth('admin'));
+
+// Tenant IDs are the resource, so the check needs no lookup
+const ownTenant = requireTenantAccess('Tenant', async req => ({ tenantId: req.params.tenantId }));
+
+// List or create tenants
+router.get('/', requireDeploymentWide, tenantController.listTenants);
+router.post('/', requireDeploymentWide, tenantController.createTenant);
+
+// Get, replace or delete a tenant
+router.get('/:tenantId', ownTenant, tenantController.getTenant);
+router.put('/:tenantId', ownTenant, tenantController.updateTenant);
+router.delete('/:tenantId', requireDeploymentWide, tenantController.deleteTenant);
+
+// API client credentials; the secret is returned once on creation
+router.get('/:tenantId/credentials', ownTenant, tenantController.listCredentials);
+router.post('/:tenantId/credentials', ownTenant, tenantController.createCredential);
+router.delete('/:tenantId/credentials/:clientId', ownTenant, tenantController.revokeCredential);
+
+export default router;
@@ -0,0 +1,186 @@
+import { AnalyzerHealth, AudioAnalysisData, GazeTrackingData, SessionAnalyzerStatus } from '../types';
+import { gazeTrackingService } from './gazeTracking';
+import { audioAnalysisService } from './audioAnalysis';
+
+export interface SessionAnalyzerHandlers {
+  onGazeData: (data: GazeTrackingData) => Promise<void>;
+  onAudioData: (data: AudioAnalysisData) => Promise<void>;
+}
+
+// A sampler returns null when it has nothing real to report, and the pipeline
+// shows as unavailable until it does
+
+class AnalyzerPipeline<T> {
+  private interval: NodeJS.Timeout | null = null;
+  private health: AnalyzerHealth;
+
+  constructor(
+    private readonly name: string,
+    private readonly sessionId: string,
+    private readonly intervalMs: number,
+    private readonly sample: () => Promise<T | null>,
+    private readonly sink: (data: T) => Promise<void>
+  ) {
+    this.health = {
+      state: 'stopped',
+      startedAt: new Date(),
+      sampleCount: 0,
+      errorCount: 0
+    };
+  }
+
+  start(): void {
+    if (this.interval) {
+      return;
+    }
+
+    this.health.state = 'running';
+    this.interval = setInterval(() => this.tick(), this.intervalMs);
+    console.log(`Started ${this.name} analysis for session ${this.sessionId}`);
+  }
+
+  pause(): void {
+    this.clear();
+    if (this.health.state === 'running' || this.health.state === 'unavailable') {
+      this.health.state = 'paused';
+      console.log(`Paused ${this.name} analysis for session ${this.sessionId}`);
+    }
+  }
+
+  stop(): void {
+    this.clear();
+    this.health.state = 'stopped';
+    console.log(`Stopped ${this.name} analysis for session ${this.sessionId}`);
+  }
+
+  getHealth(): AnalyzerHealth {
+    return { ...this.health };
+  }
+
+  private clear(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    try {
+      const data = await this.sample();
+      if (data === null) {
+        this.health.state = 'unavailable';
+        return;
+      }
+      this.health.state = 'running';
+      await this.sink(data);
+      this.health.sampleCount++;
+      this.health.lastSampleAt = new Date();
+    } catch (error) {
+      this.health.errorCount++;
+      this.health.lastError = error instanceof Error ? error.message : String(error);
+      console.error(`Error in ${this.name} analysis for session ${this.sessionId}:`, error);
+    }
+  }
+}
+
+interface SessionAnalyzers {
+  gaze: AnalyzerPipeline<GazeTrackingData>;
+  audio: AnalyzerPipeline<AudioAnalysisData>;
+}
+
+export class AnalyzerRegistry {
+  private sessions: Map<string, SessionAnalyzers> = new Map();
+
+  constructor() {
+    console.log('Analyzer Registry initialized');
+  }
+
+  startSession(sessionId: string, handlers: SessionAnalyzerHandlers): void {
+    if (this.sessions.has(sessionId)) {
+      console.log(`Analyzers already registered for session ${sessionId}`);
+      return;
+    }
+
+    const analyzers: SessionAnalyzers = {
+      gaze: new AnalyzerPipeline(
+        'gaze',
+        sessionId,
+        1000, // Track every second
+        async () => gazeTrackingService.sampleGaze(sessionId),
+        handlers.onGazeData
+      ),
+      audio: new AnalyzerPipeline(
+        'audio',
+        sessionId,
+        500, // Analyze every 500ms
+        () => audioAnalysisService.sampleAudio(sessionId),
+        handlers.onAudioData
+      )
+    };
+
+    analyzers.gaze.start();
+    analyzers.audio.start();
+    this.sessions.set(sessionId, analyzers);
+  }
+
+  pauseSession(sessionId: string): boolean {
+    const analyzers = this.sessions.get(sessionId);
+    if (!analyzers) {
+      return false;
+    }
+
+    analyzers.gaze.pause();
+    analyzers.audio.pause();
+    return true;
+  }
+
+  resumeSession(sessionId: string): boolean {
+    const analyzers = this.sessions.get(sessionId);
+    if (!analyzers) {
+      return false;
+    }
+
+    analyzers.gaze.start();
+    analyzers.audio.start();
+    return true;
+  }
+
+  stopSession(sessionId: string): boolean {
+    const analyzers = this.sessions.get(sessionId);
+    if (!analyzers) {
+      return false;
+    }
+
+    analyzers.gaze.stop();
+    analyzers.audio.stop();
+    this.sessions.delete(sessionId);
+    return true;
+  }
+
+  stopAll(): void {
+    for (const sessionId of Array.from(this.sessions.keys())) {
+      this.stopSession(sessionId);
+    }
+  }
+
+  getStatus(sessionId: string): SessionAnalyzerStatus | null {
+    const analyzers = this.sessions.get(sessionId);
+    if (!analyzers) {
+      return null;
+    }
+
+    return {
+      sessionId,
+      gaze: analyzers.gaze.getHealth(),
+      audio: analyzers.audio.getHealth()
+    };
+  }
+
+  getAllStatuses(): SessionAnalyzerStatus[] {
+    return Array.from(this.sessions.keys())
+      .map(sessionId => this.getStatus(sessionId))
+      .filter((status): status is SessionAnalyzerStatus => status !== null);
+  }
+}
+
+export const analyzerRegistry = new AnalyzerRegistry();
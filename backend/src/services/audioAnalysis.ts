@@ -1,101 +1,567 @@
-import { AudioAnalysisData } from '../types';
+import {
+  AudioAnalysisData,
+  AudioFrameStats,
+  SpeechSegment,
+  SpeakerAnalysis,
+  SpeakerTimeline,
+  TimeRange
+} from '../types';
+import { WavUtil, PcmAudio } from '../utils/wav';
+import { DspUtil } from '../utils/dsp';
 import * as fs from 'fs';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+
+export interface AudioAnalysisConfig {
+  frameSize: number; // samples per analysis frame (power of two)
+  hopSize: number;
+  bandEdgesHz: number[];
+  rawSampleRate: number; // assumed rate for header-less 16-bit PCM
+}
+
+export interface VoiceActivityConfig {
+  frameMs: number;
+  energyMarginDb: number; // how far above the noise floor a frame must be
+  minEnergyDb: number; // frames quieter than this are never speech
+  maxThresholdDb: number; // caps the threshold for recordings that are mostly speech
+  maxFlatness: number; // speech is harmonic; broadband noise is close to 1
+  minSpeechMs: number;
+  minSilenceMs: number; // shorter pauses are bridged into one segment
+}
+
+const DEFAULT_VAD_CONFIG: VoiceActivityConfig = {
+  frameMs: 20,
+  energyMarginDb: 9,
+  minEnergyDb: -50,
+  maxThresholdDb: -35,
+  maxFlatness: 0.45,
+  minSpeechMs: 200,
+  minSilenceMs: 300
+};
+
+export interface SpeakerDetectionConfig {
+  frameMs: number;
+  windowSeconds: number; // speech is compared in windows of this length
+  minVoicedClarity: number; // autocorrelation clarity needed to trust a pitch value
+  pitchScaleSemitones: number; // pitch difference that counts as one unit of distance
+  mfccScale: number; // MFCC distance that counts as one unit of distance
+  mergeThreshold: number; // clusters closer than this are the same speaker
+  minSpeakerSeconds: number; // speakers with less speech are folded into their nearest neighbour
+  minEvidenceSeconds: number; // below this much speech, confidence is scaled down
+}
+
+const DEFAULT_SPEAKER_CONFIG: SpeakerDetectionConfig = {
+  frameMs: 32,
+  windowSeconds: 0.5,
+  minVoicedClarity: 0.6,
+  pitchScaleSemitones: 4,
+  mfccScale: 6,
+  mergeThreshold: 1,
+  minSpeakerSeconds: 1,
+  minEvidenceSeconds: 3
+};
+
+interface SpeakerWindow extends TimeRange {
+  mfcc: number[];
+  pitch: number | null; // semitones relative to 100 Hz
+}
+
+interface SpeakerCluster {
+  windows: SpeakerWindow[];
+  seconds: number;
+  mfcc: number[];
+  pitch: number | null;
+}
+
+const DEFAULT_BAND_EDGES_HZ = [0, 100, 200, 400, 800, 1600, 2400, 3200, 4800, 6400, 8000];
+
+export interface SpeechAnalysis {
+  durationSeconds: number;
+  segments: SpeechSegment[];
+  speakers: SpeakerAnalysis;
+  // The whole recording as one sample, for the rule engine
+  audio: AudioAnalysisData;
+}
 
 export class AudioAnalysisService {
-  constructor() {
+  private config: AudioAnalysisConfig;
+  // Recordings are analysed one at a time; each takes a CPU core while it runs
+  private workerQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(config: Partial<AudioAnalysisConfig> = {}) {
+    const frameSize = DspUtil.nextPowerOfTwo(config.frameSize || parseInt(process.env.AUDIO_FRAME_SIZE || '2048'));
+
+    this.config = {
+      frameSize,
+      hopSize: config.hopSize || frameSize / 2,
+      bandEdgesHz: config.bandEdgesHz || this.parseBandEdges(process.env.AUDIO_BAND_EDGES_HZ),
+      rawSampleRate: config.rawSampleRate || parseInt(process.env.AUDIO_SAMPLE_RATE || '44100')
+    };
     console.log('Audio Analysis Service initialized');
   }
-  
+
   async analyzeAudioStream(audioData: Buffer): Promise<AudioAnalysisData> {
-    // Simulate audio analysis (in real implementation, use Web Audio API or similar)
-    const volume = this.calculateVolume(audioData);
-    const frequency = this.analyzeFrequency(audioData);
-    const multipleVoices = this.detectMultipleVoices(audioData);
-    const backgroundNoise = this.detectBackgroundNoise(audioData);
-    
-    return {
-      volume,
-      frequency,
-      multipleVoices,
-      backgroundNoise
-    };
+    return this.analyzePcm(this.decode(audioData));
   }
-  
+
   async analyzeAudioFile(filePath: string): Promise<AudioAnalysisData> {
     console.log(`Analyzing audio file: ${filePath}`);
-    
+
     // Check if file exists
     if (!fs.existsSync(filePath)) {
       throw new Error(`Audio file not found: ${filePath}`);
     }
-    
-    // Read file (in real implementation, use audio processing library)
+
     const audioData = await fs.promises.readFile(filePath);
-    
+
     return this.analyzeAudioStream(audioData);
   }
-  
-  private calculateVolume(audioData: Buffer): number {
-    // Simulate volume calculation
-    const samples = audioData.length / 2; // Assuming 16-bit audio
-    let sum = 0;
-    
-    for (let i = 0; i < samples && i < 1000; i += 2) {
-      const sample = audioData.readInt16LE(i);
-      sum += Math.abs(sample);
-    }
-    
-    const average = sum / Math.min(samples / 2, 500);
-    return Math.min(average / 32767, 1.0); // Normalize to 0-1
-  }
-  
-  private analyzeFrequency(audioData: Buffer): number[] {
-    // Simulate frequency analysis (FFT would be used in real implementation)
-    const frequencies: number[] = [];
-    
-    // Simulate 10 frequency bands
-    for (let i = 0; i < 10; i++) {
-      frequencies.push(Math.random() * 100);
-    }
-    
-    return frequencies;
-  }
-  
-  private detectMultipleVoices(audioData: Buffer): boolean {
-    // Simulate multiple voice detection
-    // In real implementation, this would analyze spectral characteristics
-    const randomFactor = Math.random();
-    return randomFactor < 0.1; // 10% chance of detecting multiple voices
-  }
-  
-  private detectBackgroundNoise(audioData: Buffer): number {
-    // Simulate background noise detection
-    const volume = this.calculateVolume(audioData);
-    
-    // Assume noise is low-level constant audio
-    const noiseThreshold = 0.1;
-    return volume < noiseThreshold ? volume : 0;
-  }
-  
-  startRealTimeAnalysis(callback: (data: AudioAnalysisData) => void): void {
-    console.log('Starting real-time audio analysis');
-    
-    // Simulate real-time analysis
-    const interval = setInterval(() => {
-      const simulatedAudioData = Buffer.alloc(1024); // Simulate audio buffer
-      this.analyzeAudioStream(simulatedAudioData).then(callback);
-    }, 500); // Analyze every 500ms
-    
-    // Store interval for cleanup
-    (this as any).analysisInterval = interval;
-  }
-  
-  stopRealTimeAnalysis(): void {
-    if ((this as any).analysisInterval) {
-      clearInterval((this as any).analysisInterval);
-      (this as any).analysisInterval = null;
-    }
-    console.log('Stopped real-time audio analysis');
+
+  analyzePcm(pcm: PcmAudio, speakers: SpeakerAnalysis = this.detectSpeakers(pcm)): AudioAnalysisData {
+    const volume = this.calculateVolume(pcm.samples);
+    const frequency = this.analyzeFrequency(pcm);
+    const backgroundNoise = this.detectBackgroundNoise(pcm);
+
+    return {
+      volume,
+      peak: DspUtil.peak(pcm.samples),
+      frequency,
+      multipleVoices: speakers.speakerCount > 1,
+      multipleVoicesConfidence: this.multipleVoicesConfidence(speakers),
+      speakerCount: speakers.speakerCount,
+      backgroundNoise
+    };
+  }
+
+  analyzeFrames(pcm: PcmAudio): AudioFrameStats[] {
+    const { frameSize, hopSize } = this.config;
+
+    return DspUtil.frames(pcm.samples, frameSize, hopSize).map((frame, index) => ({
+      time: (index * hopSize) / pcm.sampleRate,
+      rms: DspUtil.rms(frame),
+      peak: DspUtil.peak(frame)
+    }));
+  }
+
+  /**
+   * Offline energy + spectral-flatness voice activity detection.
+   */
+  detectSpeechSegments(pcm: PcmAudio, options: Partial<VoiceActivityConfig> = {}): SpeechSegment[] {
+    const vad = { ...DEFAULT_VAD_CONFIG, ...options };
+    const frameSize = DspUtil.nextPowerOfTwo(Math.round((pcm.sampleRate * vad.frameMs) / 1000));
+    const hopSize = frameSize / 2;
+    const frames = DspUtil.frames(pcm.samples, frameSize, hopSize);
+    if (frames.length === 0) {
+      return [];
+    }
+
+    const stats = frames.map(frame => {
+      const rms = DspUtil.rms(frame);
+      return {
+        rms,
+        energyDb: 20 * Math.log10(rms + 1e-10),
+        flatness: DspUtil.spectralFlatness(DspUtil.powerSpectrum(frame))
+      };
+    });
+
+    // Estimate the noise floor from the quietest 10% of frames
+    const sortedDb = stats.map(stat => stat.energyDb).sort((a, b) => a - b);
+    const floorDb = sortedDb[Math.floor(sortedDb.length * 0.1)];
+    const thresholdDb = Math.max(vad.minEnergyDb, Math.min(floorDb + vad.energyMarginDb, vad.maxThresholdDb));
+
+    const voiced = stats.map(stat => stat.energyDb > thresholdDb && stat.flatness < vad.maxFlatness);
+    const frameSeconds = hopSize / pcm.sampleRate;
+    const duration = pcm.samples.length / pcm.sampleRate;
+
+    // Collect voiced runs, bridging short pauses
+    const runs: { first: number; last: number }[] = [];
+    const maxGapFrames = Math.ceil(vad.minSilenceMs / 1000 / frameSeconds);
+    voiced.forEach((isVoiced, index) => {
+      if (!isVoiced) {
+        return;
+      }
+      const current = runs[runs.length - 1];
+      if (current && index - current.last <= maxGapFrames) {
+        current.last = index;
+      } else {
+        runs.push({ first: index, last: index });
+      }
+    });
+
+    return runs
+      .map(run => {
+        const segmentStats = stats.slice(run.first, run.last + 1);
+        return {
+          start: run.first * frameSeconds,
+          end: Math.min(duration, run.last * frameSeconds + frameSize / pcm.sampleRate),
+          energy: segmentStats.reduce((sum, stat) => sum + stat.rms, 0) / segmentStats.length
+        };
+      })
+      .filter(segment => (segment.end - segment.start) * 1000 >= vad.minSpeechMs);
+  }
+
+  /**
+   * Estimates how many distinct speakers are present by clustering MFCC and
+   * pitch features of the speech windows. Fully deterministic and offline.
+   */
+  detectSpeakers(
+    pcm: PcmAudio,
+    segments: SpeechSegment[] = this.detectSpeechSegments(pcm),
+    options: Partial<SpeakerDetectionConfig> = {}
+  ): SpeakerAnalysis {
+    const config = { ...DEFAULT_SPEAKER_CONFIG, ...options };
+    const windows = this.extractSpeakerWindows(pcm, segments, config);
+    if (windows.length === 0) {
+      return { speakerCount: 0, confidence: 1, speakers: [] };
+    }
+
+    // Agglomerative clustering on centroids, starting from speaker turns
+    let clusters = this.groupTurns(windows, config);
+    const distances = clusters.map(a => clusters.map(b => this.clusterDistance(a, b, config)));
+    let largestMerge = 0;
+    while (clusters.length > 1) {
+      const [i, j, distance] = this.closestPair(distances);
+      if (distance >= config.mergeThreshold) {
+        break;
+      }
+      largestMerge = Math.max(largestMerge, distance);
+      clusters = this.mergeClusters(clusters, i, j);
+
+      // mergeClusters drops i and j and appends the merged cluster
+      for (const index of [j, i]) {
+        distances.splice(index, 1);
+        distances.forEach(row => row.splice(index, 1));
+      }
+      const merged = clusters[clusters.length - 1];
+      const row = clusters.map(cluster => this.clusterDistance(cluster, merged, config));
+      distances.forEach((existing, index) => existing.push(row[index]));
+      distances.push(row);
+    }
+
+    // Fold speakers with too little speech into their nearest neighbour
+    while (clusters.length > 1) {
+      const smallest = clusters.reduce((min, cluster, index) =>
+        cluster.seconds < clusters[min].seconds ? index : min, 0);
+      if (clusters[smallest].seconds >= config.minSpeakerSeconds) {
+        break;
+      }
+      const nearest = clusters
+        .map((cluster, index) => ({ index, distance: this.clusterDistance(clusters[smallest], cluster, config) }))
+        .filter(candidate => candidate.index !== smallest)
+        .reduce((best, candidate) => candidate.distance < best.distance ? candidate : best);
+      clusters = this.mergeClusters(clusters, smallest, nearest.index);
+    }
+
+    // Confidence grows with the decision margin around the merge threshold and with the amount of speech
+    const margin = clusters.length > 1
+      ? (this.closestPair(clusters.map(a => clusters.map(b => this.clusterDistance(a, b, config))))[2] -
+        config.mergeThreshold) / config.mergeThreshold
+      : (config.mergeThreshold - largestMerge) / config.mergeThreshold;
+    const speechSeconds = clusters.reduce((sum, cluster) => sum + cluster.seconds, 0);
+    const evidence = Math.min(1, speechSeconds / config.minEvidenceSeconds);
+    const confidence = 0.5 + 0.5 * Math.max(0, Math.min(1, margin)) * evidence;
+
+    const speakers: SpeakerTimeline[] = clusters
+      .map(cluster => ({
+        ranges: this.mergeRanges(cluster.windows),
+        speechSeconds: cluster.seconds,
+        meanPitchHz: cluster.pitch !== null ? 100 * Math.pow(2, cluster.pitch / 12) : undefined
+      }))
+      .sort((a, b) => a.ranges[0].start - b.ranges[0].start)
+      .map((speaker, index) => ({ speaker: index, ...speaker }));
+
+    return { speakerCount: speakers.length, confidence, speakers };
+  }
+
+  /**
+   * Labels each speech segment with the speaker who talks most within it.
+   */
+  assignSpeakers(segments: SpeechSegment[], analysis: SpeakerAnalysis): SpeechSegment[] {
+    return segments.map(segment => {
+      let speaker: number | undefined;
+      let bestOverlap = 0;
+      for (const timeline of analysis.speakers) {
+        const overlap = timeline.ranges.reduce((sum, range) =>
+          sum + Math.max(0, Math.min(range.end, segment.end) - Math.max(range.start, segment.start)), 0);
+        if (overlap > bestOverlap) {
+          bestOverlap = overlap;
+          speaker = timeline.speaker;
+        }
+      }
+      return speaker === undefined ? segment : { ...segment, speaker };
+    });
+  }
+
+  /**
+   * Speech segments and speakers of a whole recording. Seconds of CPU for a
+   * long recording, so the server calls analyzeSpeechInFile instead.
+   */
+  analyzeSpeech(pcm: PcmAudio): SpeechAnalysis {
+    const segments = this.detectSpeechSegments(pcm);
+    const speakers = this.detectSpeakers(pcm, segments);
+
+    return {
+      durationSeconds: pcm.samples.length / pcm.sampleRate,
+      segments: this.assignSpeakers(segments, speakers),
+      speakers,
+      audio: this.analyzePcm(pcm, speakers)
+    };
+  }
+
+  /**
+   * Runs analyzeSpeech over a recording in a worker thread, so the event
+   * loop (and with it socket traffic such as heartbeats) keeps running.
+   */
+  async analyzeSpeechInFile(filePath: string): Promise<SpeechAnalysis> {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Audio file not found: ${filePath}`);
+    }
+
+    const result = this.workerQueue.then(() => this.runWorker(filePath));
+    this.workerQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  decode(audioData: Buffer): PcmAudio {
+    if (WavUtil.isWav(audioData)) {
+      return WavUtil.decode(audioData);
+    }
+    return WavUtil.decodeRawPcm16(audioData, this.config.rawSampleRate);
+  }
+
+  private runWorker(filePath: string): Promise<SpeechAnalysis> {
+    // Under ts-node the worker is TypeScript too; it is already type-checked, so it only needs transpiling
+    const workerPath = path.join(__dirname, `audioAnalysisWorker${path.extname(__filename)}`);
+    const execArgv = workerPath.endsWith('.ts') ? ['--require', 'ts-node/register/transpile-only'] : undefined;
+
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(workerPath, { workerData: { filePath }, execArgv });
+      worker.once('message', resolve);
+      worker.once('error', reject);
+      worker.once('exit', code => {
+        if (code !== 0) {
+          reject(new Error(`Audio analysis worker exited with code ${code}`));
+        }
+      });
+    });
+  }
+
+  private calculateVolume(samples: Float32Array): number {
+    // RMS over the whole buffer, already normalized to 0-1
+    return Math.min(DspUtil.rms(samples), 1.0);
+  }
+
+  private analyzeFrequency(pcm: PcmAudio): number[] {
+    const { frameSize, hopSize, bandEdgesHz } = this.config;
+    const frames = DspUtil.frames(pcm.samples, frameSize, hopSize);
+    const totals = new Array(bandEdgesHz.length - 1).fill(0);
+
+    // Average band power across frames (Welch-style)
+    for (const frame of frames) {
+      const bands = DspUtil.bandEnergies(DspUtil.powerSpectrum(frame), pcm.sampleRate, bandEdgesHz);
+      bands.forEach((energy, i) => { totals[i] += energy; });
+    }
+
+    // Report each band as a percentage of total energy
+    const total = totals.reduce((sum, energy) => sum + energy, 0);
+    if (total <= 0) {
+      return totals.map(() => 0);
+    }
+    return totals.map(energy => (energy / total) * 100);
+  }
+
+  private multipleVoicesConfidence(analysis: SpeakerAnalysis): number {
+    if (analysis.speakerCount > 1) {
+      return analysis.confidence;
+    }
+    return analysis.speakerCount === 1 ? 1 - analysis.confidence : 0;
+  }
+
+  private extractSpeakerWindows(
+    pcm: PcmAudio,
+    segments: SpeechSegment[],
+    config: SpeakerDetectionConfig
+  ): SpeakerWindow[] {
+    const frameSize = DspUtil.nextPowerOfTwo(Math.round((pcm.sampleRate * config.frameMs) / 1000));
+    const windows: SpeakerWindow[] = [];
+
+    for (const segment of segments) {
+      for (let start = segment.start; start < segment.end; start += config.windowSeconds) {
+        // A short tail joins the previous window rather than standing alone
+        let end = Math.min(segment.end, start + config.windowSeconds);
+        if (segment.end - end < config.windowSeconds / 2) {
+          end = segment.end;
+        }
+
+        const samples = pcm.samples.subarray(
+          Math.floor(start * pcm.sampleRate),
+          Math.floor(end * pcm.sampleRate)
+        );
+        const frames = DspUtil.frames(samples, frameSize, frameSize);
+        const mfccSum = new Array(12).fill(0);
+        const pitches: number[] = [];
+
+        for (const frame of frames) {
+          // Drop c0 so loudness does not separate speakers
+          DspUtil.mfcc(DspUtil.powerSpectrum(frame), pcm.sampleRate)
+            .slice(1)
+            .forEach((value, i) => { mfccSum[i] += value; });
+
+          const { frequency, clarity } = DspUtil.pitch(frame, pcm.sampleRate);
+          if (clarity >= config.minVoicedClarity && frequency > 0) {
+            pitches.push(12 * Math.log2(frequency / 100));
+          }
+        }
+
+        if (frames.length > 0) {
+          pitches.sort((a, b) => a - b);
+          windows.push({
+            start,
+            end,
+            mfcc: mfccSum.map(value => value / frames.length),
+            pitch: pitches.length > 0 ? pitches[Math.floor(pitches.length / 2)] : null
+          });
+        }
+
+        if (end >= segment.end) {
+          break;
+        }
+      }
+    }
+
+    return windows;
+  }
+
+  private toCluster(windows: SpeakerWindow[]): SpeakerCluster {
+    const seconds = windows.reduce((sum, window) => sum + (window.end - window.start), 0);
+    const mfcc = new Array(windows[0].mfcc.length).fill(0);
+    let pitchSum = 0;
+    let pitchSeconds = 0;
+
+    // Duration-weighted centroid
+    for (const window of windows) {
+      const weight = window.end - window.start;
+      window.mfcc.forEach((value, i) => { mfcc[i] += (value * weight) / seconds; });
+      if (window.pitch !== null) {
+        pitchSum += window.pitch * weight;
+        pitchSeconds += weight;
+      }
+    }
+
+    return {
+      windows,
+      seconds,
+      mfcc,
+      pitch: pitchSeconds > 0 ? pitchSum / pitchSeconds : null
+    };
+  }
+
+  private clusterDistance(a: SpeakerCluster, b: SpeakerCluster, config: SpeakerDetectionConfig): number {
+    let mfccDistance = 0;
+    for (let i = 0; i < a.mfcc.length; i++) {
+      mfccDistance += (a.mfcc[i] - b.mfcc[i]) ** 2;
+    }
+    const timbre = Math.sqrt(mfccDistance) / config.mfccScale;
+    const pitch = a.pitch !== null && b.pitch !== null
+      ? Math.abs(a.pitch - b.pitch) / config.pitchScaleSemitones
+      : 0;
+
+    return Math.sqrt(timbre * timbre + pitch * pitch);
+  }
+
+  private closestPair(distances: number[][]): [number, number, number] {
+    let best: [number, number, number] = [0, 1, Infinity];
+    for (let i = 0; i < distances.length; i++) {
+      for (let j = i + 1; j < distances.length; j++) {
+        if (distances[i][j] < best[2]) {
+          best = [i, j, distances[i][j]];
+        }
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Groups back-to-back windows that sound alike into turns so clustering
+   * starts from far fewer units than there are windows.
+   */
+  private groupTurns(windows: SpeakerWindow[], config: SpeakerDetectionConfig): SpeakerCluster[] {
+    const turns: SpeakerCluster[] = [];
+    let current: SpeakerWindow[] = [];
+
+    for (const window of windows) {
+      const previous = current[current.length - 1];
+      const contiguous = previous && window.start - previous.end < config.windowSeconds;
+      if (contiguous &&
+        this.clusterDistance(this.toCluster(current), this.toCluster([window]), config) < config.mergeThreshold / 2) {
+        current.push(window);
+        continue;
+      }
+      if (current.length > 0) {
+        turns.push(this.toCluster(current));
+      }
+      current = [window];
+    }
+    if (current.length > 0) {
+      turns.push(this.toCluster(current));
+    }
+
+    return turns;
+  }
+
+  private mergeClusters(clusters: SpeakerCluster[], i: number, j: number): SpeakerCluster[] {
+    const merged = this.toCluster([...clusters[i].windows, ...clusters[j].windows]);
+    return [...clusters.filter((_, index) => index !== i && index !== j), merged];
+  }
+
+  private mergeRanges(windows: SpeakerWindow[]): TimeRange[] {
+    const sorted = [...windows].sort((a, b) => a.start - b.start);
+    const ranges: TimeRange[] = [];
+
+    for (const window of sorted) {
+      const last = ranges[ranges.length - 1];
+      if (last && window.start - last.end < 1e-6) {
+        last.end = Math.max(last.end, window.end);
+      } else {
+        ranges.push({ start: window.start, end: window.end });
+      }
+    }
+    return ranges;
+  }
+
+  private detectBackgroundNoise(pcm: PcmAudio): number {
+    const levels = this.analyzeFrames(pcm).map(frame => frame.rms).sort((a, b) => a - b);
+    if (levels.length === 0) {
+      return 0;
+    }
+
+    // The quietest frames approximate the room's noise floor, even with speech present
+    return levels[Math.floor(levels.length * 0.2)];
+  }
+
+  private parseBandEdges(value?: string): number[] {
+    if (!value) {
+      return DEFAULT_BAND_EDGES_HZ;
+    }
+
+    const edges = value.split(',').map(edge => parseFloat(edge.trim()));
+    const valid = edges.length >= 2 &&
+      edges.every((edge, i) => !isNaN(edge) && (i === 0 || edge > edges[i - 1]));
+
+    if (!valid) {
+      console.warn(`Invalid AUDIO_BAND_EDGES_HZ "${value}", using defaults`);
+      return DEFAULT_BAND_EDGES_HZ;
+    }
+    return edges;
+  }
+
+  /**
+   * Live audio for the session's pipeline. Nothing streams the candidate's
+   * microphone to the server yet, so there is never a sample; voices are
+   * analysed in uploaded recordings instead.
+   */
+  async sampleAudio(sessionId: string): Promise<AudioAnalysisData | null> {
+    return null;
   }
 }
 
@@ -0,0 +1,8 @@
+import * as fs from 'fs';
+import { parentPort, workerData } from 'worker_threads';
+import { audioAnalysisService } from './audioAnalysis';
+
+// Runs in a worker thread started by AudioAnalysisService.analyzeSpeechInFile
+const { filePath } = workerData as { filePath: string };
+
+parentPort?.postMessage(audioAnalysisService.analyzeSpeech(audioAnalysisService.decode(fs.readFileSync(filePath))));
@@ -0,0 +1,473 @@
+import crypto, { KeyObject } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { UserModel, RefreshTokenModel, AuthSigningKeyModel, IUser } from '../models';
+import { User, UserRole, AuthContext, AuthTokens } from '../types';
+import { AuthUtil } from '../utils/auth';
+import { JwtUtil, JwtError } from '../utils/jwt';
+import { ltiService } from './lti';
+import { tenantService } from './tenant';
+
+export type UserInput = Pick<User, 'email' | 'role'> & Partial<Pick<User, 'name' | 'tenantId' | 'disabled'>> & {
+  password?: string;
+};
+
+const STAFF_ROLES: User['role'][] = ['proctor', 'reviewer', 'admin'];
+const ACCESS_TOKEN_AUDIENCE = 'exam-proctor-api';
+const MIN_PASSWORD_LENGTH = 12;
+
+// How often keys are checked for rotation and reloaded from the database
+const KEY_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+export class UserValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid user: ${errors.join('; ')}`);
+    this.name = 'UserValidationError';
+  }
+}
+
+interface SigningKey {
+  kid: string;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  publicJwk: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export class AuthService {
+  private issuer: string;
+  private accessTokenTtlMs: number;
+  private refreshTokenTtlMs: number;
+  private keyRotationMs: number;
+  private keys: SigningKey[] = []; // newest first
+  private keysLoaded: Promise<void> | null = null;
+  private lastKeyReload = 0;
+  private keyTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.issuer = process.env.AUTH_ISSUER || 'exam-proctor';
+    this.accessTokenTtlMs = parseFloat(process.env.AUTH_ACCESS_TOKEN_TTL_MINUTES || '15') * 60 * 1000;
+    this.refreshTokenTtlMs = parseFloat(process.env.AUTH_REFRESH_TOKEN_TTL_DAYS || '7') * 24 * 60 * 60 * 1000;
+    this.keyRotationMs = parseFloat(process.env.AUTH_KEY_ROTATION_DAYS || '30') * 24 * 60 * 60 * 1000;
+    console.log('Auth Service initialized');
+  }
+
+  /**
+   * Loads the signing keys, rotating them if due, and creates the first
+   * admin from AUTH_BOOTSTRAP_ADMIN_EMAIL/PASSWORD when there are no users.
+   */
+  async start(): Promise<void> {
+    await this.rotateKeysIfDue();
+    await this.bootstrapAdmin();
+
+    this.keyTimer = setInterval(() => {
+      this.rotateKeysIfDue().catch(error => console.error('Error rotating signing keys:', error));
+    }, KEY_CHECK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.keyTimer) {
+      clearInterval(this.keyTimer);
+      this.keyTimer = null;
+    }
+  }
+
+  async login(email: string, password: string): Promise<{ user: User; tokens: AuthTokens }> {
+    const userDoc = typeof email === 'string' ? await UserModel.findOne({ email: email.trim().toLowerCase() }) : null;
+    // Hash anyway for unknown users so response time does not reveal which emails exist
+    const passwordMatches = AuthUtil.verifyPassword(
+      typeof password === 'string' ? password : '',
+      userDoc?.passwordHash || AuthUtil.hashPassword(crypto.randomBytes(16).toString('hex'))
+    );
+    if (!userDoc || userDoc.disabled || !passwordMatches) {
+      throw new AuthError('Invalid email or password');
+    }
+
+    const tokens = await this.issueTokens({ userId: userDoc.userId, role: userDoc.role, tenantId: userDoc.tenantId });
+    console.log(`User ${userDoc.userId} (${userDoc.role}) signed in`);
+    return { user: this.toUser(userDoc), tokens };
+  }
+
+  /**
+   * Client credentials sign-in for a tenant's integrations. Only an access
+   * token is issued: clients sign in again when it expires, so revoking the
+   * credentials cuts them off within one access token lifetime.
+   */
+  async exchangeClientCredentials(
+    clientId: string,
+    clientSecret: string
+  ): Promise<Pick<AuthTokens, 'tokenType' | 'accessToken' | 'expiresIn'>> {
+    const credential = await tenantService.verifyCredential(clientId, clientSecret);
+    if (!credential) {
+      throw new AuthError('Invalid client credentials');
+    }
+
+    return this.signAccessToken({ userId: credential.id, role: credential.role, tenantId: credential.tenantId });
+  }
+
+  /**
+   * Issues an access token and a refresh token. Refresh tokens rotate: each
+   * one can be used once, and the replacement stays in the same family so a
+   * replayed token can revoke every token descended from the same sign-in.
+   */
+  async issueTokens(identity: Omit<AuthContext, 'tokenId'>, familyId: string = uuidv4()): Promise<AuthTokens> {
+    const { accessToken, expiresIn } = await this.signAccessToken(identity);
+
+    const refreshToken = crypto.randomBytes(32).toString('base64url');
+    const refreshExpiresAt = new Date(Date.now() + this.refreshTokenTtlMs);
+    await RefreshTokenModel.create({
+      tokenHash: AuthUtil.hashToken(refreshToken),
+      familyId,
+      userId: identity.userId,
+      role: identity.role,
+      sessionId: identity.sessionId,
+      tenantId: identity.tenantId,
+      expiresAt: refreshExpiresAt
+    });
+
+    return { tokenType: 'Bearer', accessToken, expiresIn, refreshToken, refreshExpiresAt };
+  }
+
+  // Candidate tokens, optionally limited to one session
+  async issueCandidateTokens(userId: string, scope: { sessionId?: string; tenantId?: string } = {}): Promise<AuthTokens> {
+    return this.issueTokens({ userId, role: 'candidate', ...scope });
+  }
+
+  /**
+   * Trades a learner's LTI launch ticket for candidate tokens in the
+   * platform's tenant. Each ticket can be traded once.
+   */
+  async exchangeLtiLaunch(launchId: string): Promise<{ userId: string; tokens: AuthTokens }> {
+    const launch = await ltiService.claimLaunch(launchId);
+    if (!launch) {
+      throw new AuthError('Unknown, expired or already used launch');
+    }
+
+    const platform = await ltiService.getPlatform(launch.platformId);
+    const tokens = await this.issueCandidateTokens(launch.userId, { tenantId: platform?.tenantId });
+    return { userId: launch.userId, tokens };
+  }
+
+  async refresh(refreshToken: string): Promise<AuthTokens> {
+    const tokenHash = AuthUtil.hashToken(typeof refreshToken === 'string' ? refreshToken : '');
+    const tokenDoc = await RefreshTokenModel.findOneAndUpdate(
+      { tokenHash, revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } },
+      { $set: { revokedAt: new Date() } }
+    );
+
+    if (!tokenDoc) {
+      // A revoked token coming back means it was copied; end the whole sign-in
+      const reused = await RefreshTokenModel.findOne({ tokenHash, revokedAt: { $exists: true } });
+      if (reused) {
+        await this.revokeFamily(reused.familyId);
+        console.warn(`Refresh token reuse for ${reused.userId}; revoked its sign-in`);
+      }
+      throw new AuthError('Invalid refresh token');
+    }
+
+    // Staff pick up role changes on refresh, and disabled accounts stop here
+    let role: UserRole = tokenDoc.role;
+    let tenantId = tokenDoc.tenantId;
+    if (role !== 'candidate') {
+      const userDoc = await UserModel.findOne({ userId: tokenDoc.userId });
+      if (!userDoc || userDoc.disabled) {
+        await this.revokeFamily(tokenDoc.familyId);
+        throw new AuthError('Account is disabled');
+      }
+      role = userDoc.role;
+      tenantId = userDoc.tenantId;
+    }
+
+    return this.issueTokens(
+      { userId: tokenDoc.userId, role, sessionId: tokenDoc.sessionId, tenantId },
+      tokenDoc.familyId
+    );
+  }
+
+  async logout(refreshToken: string): Promise<void> {
+    const tokenDoc = await RefreshTokenModel.findOne({ tokenHash: AuthUtil.hashToken(String(refreshToken || '')) });
+    if (tokenDoc) {
+      await this.revokeFamily(tokenDoc.familyId);
+    }
+  }
+
+  /**
+   * Checks an access token's signature, lifetime, issuer and audience. Tokens
+   * signed with a key this instance has not seen yet (rotated elsewhere)
+   * trigger a reload of the keys.
+   */
+  async verifyAccessToken(token: string): Promise<AuthContext> {
+    try {
+      const { header } = JwtUtil.decode(token);
+      let key = await this.findKey(header.kid);
+      if (!key && Date.now() - this.lastKeyReload > 10 * 1000) {
+        await this.loadKeys();
+        key = await this.findKey(header.kid);
+      }
+      if (!key) {
+        throw new AuthError('Unknown signing key');
+      }
+
+      const { iss, aud, sub, role, sid, tid, jti } = JwtUtil.verify(token, key.publicKey, 30);
+      if (iss !== this.issuer || aud !== ACCESS_TOKEN_AUDIENCE) {
+        throw new AuthError('Token was not issued for this API');
+      }
+      const isRole = role === 'candidate' || STAFF_ROLES.includes(role as User['role']);
+      if (typeof sub !== 'string' || !sub || !isRole || typeof jti !== 'string' ||
+        (sid !== undefined && typeof sid !== 'string') || (tid !== undefined && typeof tid !== 'string')) {
+        throw new AuthError('Token claims are malformed');
+      }
+
+      return {
+        userId: sub,
+        role: role as UserRole,
+        sessionId: sid,
+        tenantId: tid,
+        tokenId: jti
+      };
+    } catch (error) {
+      if (error instanceof JwtError) {
+        throw new AuthError(error.message);
+      }
+      throw error;
+    }
+  }
+
+  async getJwks(): Promise<{ keys: Record<string, unknown>[] }> {
+    await this.ensureKeys();
+    return {
+      keys: this.getVerificationKeys().map(key => ({ ...key.publicJwk, kid: key.kid, alg: 'RS256', use: 'sig' }))
+    };
+  }
+
+  /**
+   * Starts signing with a new key. The previous key keeps verifying until
+   * the last access token it signed has expired, then it is deleted.
+   */
+  async rotateKeys(): Promise<string> {
+    const { kid, privateKeyPem, publicJwk } = JwtUtil.generateKeyPair();
+    await AuthSigningKeyModel.create({ kid, privateKey: privateKeyPem, publicJwk, createdAt: new Date() });
+    await this.loadKeys();
+
+    // Keys whose successor is older than an access token's lifetime have nothing left to verify
+    const stillVerifying = this.getVerificationKeys().map(key => key.kid);
+    await AuthSigningKeyModel.deleteMany({ kid: { $nin: stillVerifying } });
+    this.keys = this.keys.filter(key => stillVerifying.includes(key.kid));
+
+    console.log(`Rotated access token signing key to ${kid}`);
+    return kid;
+  }
+
+  async listUsers(filter: { tenantId?: string; role?: User['role'] } = {}): Promise<User[]> {
+    const query: Record<string, string> = {};
+    if (filter.tenantId) {
+      query.tenantId = filter.tenantId;
+    }
+    if (filter.role) {
+      query.role = filter.role;
+    }
+
+    const userDocs = await UserModel.find(query).sort({ email: 1 });
+    return userDocs.map(userDoc => this.toUser(userDoc));
+  }
+
+  async getUser(userId: string): Promise<User | null> {
+    const userDoc = await UserModel.findOne({ userId });
+    return userDoc ? this.toUser(userDoc) : null;
+  }
+
+  async createUser(input: UserInput): Promise<User> {
+    await this.validateUser(input, true);
+
+    const userDoc = new UserModel({
+      userId: uuidv4(),
+      email: input.email.trim().toLowerCase(),
+      name: input.name,
+      role: input.role,
+      tenantId: input.tenantId,
+      disabled: input.disabled ?? false,
+      passwordHash: AuthUtil.hashPassword(input.password as string)
+    });
+    await userDoc.save();
+
+    console.log(`Created ${userDoc.role} account ${userDoc.userId}`);
+    return this.toUser(userDoc);
+  }
+
+  /**
+   * Replaces an account's details. A new password, a role change or
+   * disabling the account signs it out everywhere.
+   */
+  async updateUser(userId: string, input: UserInput): Promise<User | null> {
+    await this.validateUser(input, false, userId);
+
+    const existing = await UserModel.findOne({ userId });
+    if (!existing) {
+      return null;
+    }
+
+    const update: Record<string, unknown> = {
+      email: input.email.trim().toLowerCase(),
+      name: input.name,
+      role: input.role,
+      tenantId: input.tenantId,
+      disabled: input.disabled ?? existing.disabled
+    };
+    if (input.password) {
+      update.passwordHash = AuthUtil.hashPassword(input.password);
+    }
+
+    const userDoc = await UserModel.findOneAndUpdate({ userId }, { $set: update }, { new: true });
+    if (!userDoc) {
+      return null;
+    }
+
+    if (input.password || userDoc.role !== existing.role || (userDoc.disabled && !existing.disabled)) {
+      await RefreshTokenModel.updateMany({ userId, revokedAt: { $exists: false } }, { $set: { revokedAt: new Date() } });
+    }
+
+    console.log(`Updated account ${userId}`);
+    return this.toUser(userDoc);
+  }
+
+  private async signAccessToken(
+    identity: Omit<AuthContext, 'tokenId'>
+  ): Promise<Pick<AuthTokens, 'tokenType' | 'accessToken' | 'expiresIn'>> {
+    const key = await this.getSigningKey();
+    const now = Math.floor(Date.now() / 1000);
+    const expiresIn = Math.floor(this.accessTokenTtlMs / 1000);
+
+    const accessToken = JwtUtil.sign({
+      iss: this.issuer,
+      aud: ACCESS_TOKEN_AUDIENCE,
+      sub: identity.userId,
+      role: identity.role,
+      ...(identity.sessionId ? { sid: identity.sessionId } : {}),
+      ...(identity.tenantId ? { tid: identity.tenantId } : {}),
+      jti: uuidv4(),
+      iat: now,
+      exp: now + expiresIn
+    }, key.privateKey, key.kid);
+
+    return { tokenType: 'Bearer', accessToken, expiresIn };
+  }
+
+  private async revokeFamily(familyId: string): Promise<void> {
+    await RefreshTokenModel.updateMany({ familyId, revokedAt: { $exists: false } }, { $set: { revokedAt: new Date() } });
+  }
+
+  private async getSigningKey(): Promise<SigningKey> {
+    await this.ensureKeys();
+    if (this.keys.length === 0) {
+      await this.rotateKeys();
+    }
+    return this.keys[0];
+  }
+
+  private async findKey(kid: string | undefined): Promise<SigningKey | undefined> {
+    await this.ensureKeys();
+    return kid ? this.getVerificationKeys().find(key => key.kid === kid) : undefined;
+  }
+
+  // The current key, plus older keys whose tokens may not have expired yet
+  private getVerificationKeys(): SigningKey[] {
+    return this.keys.filter((key, index) =>
+      index === 0 || this.keys[index - 1].createdAt.getTime() > Date.now() - this.accessTokenTtlMs
+    );
+  }
+
+  private ensureKeys(): Promise<void> {
+    if (!this.keysLoaded) {
+      this.keysLoaded = this.loadKeys();
+      this.keysLoaded.catch(() => {
+        this.keysLoaded = null;
+      });
+    }
+    return this.keysLoaded;
+  }
+
+  private async loadKeys(): Promise<void> {
+    const keyDocs = await AuthSigningKeyModel.find().sort({ createdAt: -1 });
+    this.keys = keyDocs.map(keyDoc => {
+      const privateKey = crypto.createPrivateKey(keyDoc.privateKey);
+      return {
+        kid: keyDoc.kid,
+        privateKey,
+        publicKey: crypto.createPublicKey(privateKey),
+        publicJwk: keyDoc.publicJwk,
+        createdAt: keyDoc.createdAt
+      };
+    });
+    this.lastKeyReload = Date.now();
+  }
+
+  private async rotateKeysIfDue(): Promise<void> {
+    await this.loadKeys();
+    this.keysLoaded = Promise.resolve();
+
+    const newest = this.keys[0];
+    if (!newest || Date.now() - newest.createdAt.getTime() > this.keyRotationMs) {
+      await this.rotateKeys();
+    }
+  }
+
+  private async bootstrapAdmin(): Promise<void> {
+    const email = process.env.AUTH_BOOTSTRAP_ADMIN_EMAIL;
+    const password = process.env.AUTH_BOOTSTRAP_ADMIN_PASSWORD;
+    if (!email || !password || await UserModel.exists({})) {
+      return;
+    }
+
+    await this.createUser({ email, password, role: 'admin', name: 'Administrator' });
+    console.log(`Created the first admin account for ${email}`);
+  }
+
+  private async validateUser(input: Partial<UserInput>, requirePassword: boolean, userId?: string): Promise<void> {
+    const errors: string[] = [];
+
+    if (!input.email || typeof input.email !== 'string' || !/^[^\s@]+@[^\s@]+$/.test(input.email.trim())) {
+      errors.push('email must be an email address');
+    } else if (await UserModel.exists({ email: input.email.trim().toLowerCase(), userId: { $ne: userId } })) {
+      errors.push(`${input.email} already has an account`);
+    }
+    if (!input.role || !STAFF_ROLES.includes(input.role)) {
+      errors.push(`role must be one of ${STAFF_ROLES.join(', ')}`);
+    }
+    if (input.password !== undefined || requirePassword) {
+      if (typeof input.password !== 'string' || input.password.length < MIN_PASSWORD_LENGTH) {
+        errors.push(`password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      }
+    }
+    if (input.disabled !== undefined && typeof input.disabled !== 'boolean') {
+      errors.push('disabled must be a boolean');
+    }
+    if (input.tenantId && !(await tenantService.exists(input.tenantId))) {
+      errors.push(`tenantId ${input.tenantId} does not exist`);
+    }
+
+    if (errors.length > 0) {
+      throw new UserValidationError(errors);
+    }
+  }
+
+  private toUser(userDoc: IUser): User {
+    return {
+      id: userDoc.userId,
+      email: userDoc.email,
+      name: userDoc.name,
+      role: userDoc.role,
+      tenantId: userDoc.tenantId,
+      disabled: userDoc.disabled,
+      createdAt: userDoc.createdAt,
+      updatedAt: userDoc.updatedAt
+    };
+  }
+}
+
+export const authService = new AuthService();
@@ -0,0 +1,153 @@
+import { BrowserTelemetryEvent, TelemetryObservation } from '../types';
+
+type PeriodObservation = 'window_switch' | 'focus_lost' | 'fullscreen_exit';
+
+interface TelemetryState {
+  hiddenSince?: Date;
+  blurredSince?: Date;
+  // A blur that ends up hiding the tab is reported as a window switch only
+  hiddenDuringBlur: boolean;
+  fullscreenExitSince?: Date;
+}
+
+// Blur also fires for browser UI and permission prompts, so it is weaker evidence
+const PERIOD_CONFIDENCE: Record<PeriodObservation, number> = {
+  window_switch: 0.95,
+  focus_lost: 0.7,
+  fullscreen_exit: 0.9
+};
+
+export class BrowserTelemetryService {
+  private sessions: Map<string, TelemetryState> = new Map();
+
+  constructor() {
+    console.log('Browser Telemetry Service initialized');
+  }
+
+  /**
+   * Pairs leave/return events from the exam tab into observations with
+   * durations. Clipboard and print events are reported as they happen.
+   */
+  handleEvent(event: BrowserTelemetryEvent): TelemetryObservation[] {
+    const state = this.getState(event.sessionId);
+    const at = this.toDate(event.timestamp);
+
+    switch (event.type) {
+      case 'visibility_hidden':
+        state.hiddenSince = state.hiddenSince ?? at;
+        state.hiddenDuringBlur = state.blurredSince !== undefined;
+        return [];
+      case 'visibility_visible':
+        return this.closePeriod(state, 'window_switch', at);
+      case 'window_blur':
+        state.blurredSince = state.blurredSince ?? at;
+        state.hiddenDuringBlur = state.hiddenSince !== undefined;
+        return [];
+      case 'window_focus':
+        return this.closePeriod(state, 'focus_lost', at);
+      case 'fullscreen_exit':
+        state.fullscreenExitSince = state.fullscreenExitSince ?? at;
+        return [];
+      case 'fullscreen_enter':
+        return this.closePeriod(state, 'fullscreen_exit', at);
+      case 'copy':
+      case 'cut':
+      case 'paste':
+        return [{
+          type: 'clipboard_use',
+          timestamp: at,
+          durationMs: 0,
+          action: event.type,
+          description: `Clipboard ${event.type} in exam tab`,
+          confidence: 0.9
+        }];
+      case 'print':
+        return [{
+          type: 'print_attempt',
+          timestamp: at,
+          durationMs: 0,
+          action: event.type,
+          description: 'Print attempted from exam tab',
+          confidence: 0.95
+        }];
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Closes any periods still open (e.g. the candidate never returned to the
+   * tab) and forgets the session.
+   */
+  closeSession(sessionId: string, at: Date = new Date()): TelemetryObservation[] {
+    const state = this.sessions.get(sessionId);
+    if (!state) {
+      return [];
+    }
+
+    const observations = [
+      ...this.closePeriod(state, 'window_switch', at),
+      ...this.closePeriod(state, 'focus_lost', at),
+      ...this.closePeriod(state, 'fullscreen_exit', at)
+    ];
+    this.sessions.delete(sessionId);
+    return observations;
+  }
+
+  reset(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  private closePeriod(state: TelemetryState, type: PeriodObservation, at: Date): TelemetryObservation[] {
+    let since: Date | undefined;
+    if (type === 'window_switch') {
+      since = state.hiddenSince;
+      state.hiddenSince = undefined;
+    } else if (type === 'focus_lost') {
+      since = state.hiddenDuringBlur ? undefined : state.blurredSince;
+      state.blurredSince = undefined;
+      state.hiddenDuringBlur = false;
+    } else {
+      since = state.fullscreenExitSince;
+      state.fullscreenExitSince = undefined;
+    }
+
+    if (!since) {
+      return [];
+    }
+
+    const durationMs = Math.max(0, at.getTime() - since.getTime());
+    const seconds = durationMs / 1000;
+    const descriptions: Record<PeriodObservation, string> = {
+      window_switch: `Left the exam tab for ${seconds.toFixed(1)}s`,
+      focus_lost: `Exam window lost focus for ${seconds.toFixed(1)}s`,
+      fullscreen_exit: `Out of fullscreen for ${seconds.toFixed(1)}s`
+    };
+
+    return [{
+      type,
+      timestamp: since,
+      startTime: since,
+      endTime: at,
+      durationMs,
+      description: descriptions[type],
+      confidence: PERIOD_CONFIDENCE[type]
+    }];
+  }
+
+  private getState(sessionId: string): TelemetryState {
+    let state = this.sessions.get(sessionId);
+    if (!state) {
+      state = { hiddenDuringBlur: false };
+      this.sessions.set(sessionId, state);
+    }
+    return state;
+  }
+
+  private toDate(timestamp: Date | string | number | undefined): Date {
+    const date = timestamp !== undefined ? new Date(timestamp) : new Date();
+    return isNaN(date.getTime()) ? new Date() : date;
+  }
+}
+
+export const browserTelemetryService = new BrowserTelemetryService();
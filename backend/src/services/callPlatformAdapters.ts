@@ -0,0 +1,408 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { ExternalCallWebhook, CallParticipant } from '../types';
+
+// What a platform adapter gets to see of an incoming webhook
+export interface WebhookRequest {
+  headers: IncomingHttpHeaders;
+  query: Record<string, unknown>;
+  rawBody: Buffer;
+  body: unknown; // the parsed JSON, whatever the sender put in it
+}
+
+// A handshake the platform expects answered instead of normal processing
+export interface WebhookChallenge {
+  contentType: 'application/json' | 'text/plain';
+  body: unknown;
+}
+
+export interface NormalizedWebhookEvent {
+  eventId: string; // idempotency key, unique per platform
+  webhook: ExternalCallWebhook;
+}
+
+export interface CallPlatformAdapter {
+  readonly name: string;
+  /**
+   * Returns the response for a subscription/URL validation request, or null
+   * if this is a normal event delivery.
+   */
+  getChallenge(request: WebhookRequest): WebhookChallenge | null;
+  /** Throws WebhookVerificationError unless the request is authentic and fresh. */
+  verify(request: WebhookRequest): void;
+  /** Converts the vendor payload into zero or more call events. */
+  normalize(request: WebhookRequest): NormalizedWebhookEvent[];
+}
+
+export class WebhookVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookVerificationError';
+  }
+}
+
+export class WebhookPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookPayloadError';
+  }
+}
+
+const EVENT_TYPES: ExternalCallWebhook['eventType'][] = ['call_started', 'call_ended', 'participant_joined', 'participant_left'];
+const PARTICIPANT_ROLES: CallParticipant['role'][] = ['host', 'participant', 'proctored_user'];
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Vendor payloads leave out what does not apply; a missing object reads as an empty one
+function objectAt(value: unknown): JsonObject {
+  return isObject(value) ? value : {};
+}
+
+function stringAt(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+// Platforms send IDs as strings or numbers
+function idAt(value: unknown): string | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? String(value) : stringAt(value);
+}
+
+function dateAt(value: unknown, field: string): Date | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) {
+    throw new WebhookPayloadError(`${field} is not a valid date`);
+  }
+  return date;
+}
+
+export function hmacSha256Hex(secret: string, message: string | Buffer): string {
+  return crypto.createHmac('sha256', secret).update(message).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+function header(request: WebhookRequest, name: string): string | undefined {
+  const value = request.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function requireSecret(secret: string | undefined, platform: string): string {
+  if (!secret) {
+    // Fail closed: an unconfigured platform accepts nothing
+    throw new WebhookVerificationError(`No webhook secret configured for ${platform}`);
+  }
+  return secret;
+}
+
+/**
+ * Rejects signed requests whose timestamp (unix seconds) is outside the
+ * tolerance window, so captured requests cannot be replayed later.
+ */
+function assertFresh(timestamp: string | undefined, toleranceMs: number): void {
+  const seconds = Number(timestamp);
+  if (!timestamp || !Number.isFinite(seconds)) {
+    throw new WebhookVerificationError('Missing or invalid request timestamp');
+  }
+  if (Math.abs(Date.now() - seconds * 1000) > toleranceMs) {
+    throw new WebhookVerificationError('Request timestamp is outside the allowed window');
+  }
+}
+
+function contentHash(request: WebhookRequest): string {
+  return crypto.createHash('sha256').update(request.rawBody).digest('hex');
+}
+
+/**
+ * Zoom: `x-zm-signature` is `v0=` + HMAC-SHA256 of `v0:{timestamp}:{body}`
+ * with the app's secret token. The endpoint URL is validated by echoing a
+ * plain token together with its HMAC.
+ */
+export class ZoomWebhookAdapter implements CallPlatformAdapter {
+  readonly name = 'zoom';
+
+  constructor(private readonly secretToken: string | undefined, private readonly toleranceMs: number) {}
+
+  static sign(secretToken: string, timestamp: string, rawBody: string | Buffer): string {
+    return `v0=${hmacSha256Hex(secretToken, `v0:${timestamp}:${rawBody}`)}`;
+  }
+
+  getChallenge(request: WebhookRequest): WebhookChallenge | null {
+    const body = objectAt(request.body);
+    if (body.event !== 'endpoint.url_validation') {
+      return null;
+    }
+
+    // Zoom signs validation requests too; only answer authentic ones
+    this.verify(request);
+    const plainToken = stringAt(objectAt(body.payload).plainToken);
+    if (!plainToken) {
+      throw new WebhookPayloadError('Zoom URL validation has no plainToken');
+    }
+    return {
+      contentType: 'application/json',
+      body: { plainToken, encryptedToken: hmacSha256Hex(requireSecret(this.secretToken, this.name), plainToken) }
+    };
+  }
+
+  verify(request: WebhookRequest): void {
+    const secret = requireSecret(this.secretToken, this.name);
+    const timestamp = header(request, 'x-zm-request-timestamp');
+    const signature = header(request, 'x-zm-signature');
+    assertFresh(timestamp, this.toleranceMs);
+
+    if (!signature || !safeEqual(signature, ZoomWebhookAdapter.sign(secret, timestamp as string, request.rawBody))) {
+      throw new WebhookVerificationError('Invalid Zoom signature');
+    }
+  }
+
+  normalize(request: WebhookRequest): NormalizedWebhookEvent[] {
+    const body = objectAt(request.body);
+    const event = stringAt(body.event);
+    const eventTypes: Record<string, ExternalCallWebhook['eventType']> = {
+      'meeting.started': 'call_started',
+      'meeting.ended': 'call_ended',
+      'meeting.participant_joined': 'participant_joined',
+      'meeting.participant_left': 'participant_left'
+    };
+    const eventType = event ? eventTypes[event] : undefined;
+    if (!eventType) {
+      return [];
+    }
+
+    const meeting = objectAt(objectAt(body.payload).object);
+    const meetingId = idAt(meeting.id);
+    if (!meetingId) {
+      throw new WebhookPayloadError(`Zoom ${event} event has no meeting ID`);
+    }
+    const eventTs = dateAt(body.event_ts, 'event_ts');
+
+    const participants: CallParticipant[] = [];
+    const participant = isObject(meeting.participant) ? meeting.participant : undefined;
+    if (participant) {
+      const participantId = idAt(participant.id) || idAt(participant.participant_uuid) || idAt(participant.user_id);
+      if (!participantId) {
+        throw new WebhookPayloadError(`Zoom ${event} event has no participant ID`);
+      }
+      participants.push({
+        id: participantId,
+        name: stringAt(participant.user_name) || '',
+        email: stringAt(participant.email),
+        // Zoom has no notion of a proctored user; the slot roster decides who is a candidate
+        role: participant.id !== undefined && participant.id === meeting.host_id ? 'host' : 'proctored_user'
+      });
+    }
+
+    return [{
+      eventId: [
+        event,
+        idAt(meeting.uuid) || meetingId,
+        idAt(participant?.participant_uuid) || idAt(participant?.user_id) || '',
+        eventTs?.getTime() ?? ''
+      ].join(':'),
+      webhook: {
+        platform: this.name,
+        callId: meetingId,
+        eventType,
+        participants,
+        timestamp: eventTs || new Date()
+      }
+    }];
+  }
+}
+
+/**
+ * Microsoft Teams via Graph change notifications: a new subscription is
+ * validated by echoing `validationToken` as plain text, and every
+ * notification carries the `clientState` secret set on the subscription.
+ * Graph does not timestamp basic notifications, so replays are caught by the
+ * notification ID alone.
+ */
+export class TeamsWebhookAdapter implements CallPlatformAdapter {
+  readonly name = 'teams';
+
+  constructor(private readonly clientState: string | undefined) {}
+
+  getChallenge(request: WebhookRequest): WebhookChallenge | null {
+    const validationToken = request.query.validationToken;
+    if (typeof validationToken !== 'string') {
+      return null;
+    }
+    return { contentType: 'text/plain', body: validationToken };
+  }
+
+  verify(request: WebhookRequest): void {
+    const secret = requireSecret(this.clientState, this.name);
+    const notifications = this.notifications(request);
+    if (notifications.length === 0) {
+      throw new WebhookVerificationError('No Graph notifications in request');
+    }
+    for (const notification of notifications) {
+      if (typeof notification.clientState !== 'string' || !safeEqual(notification.clientState, secret)) {
+        throw new WebhookVerificationError('Invalid Graph clientState');
+      }
+    }
+  }
+
+  normalize(request: WebhookRequest): NormalizedWebhookEvent[] {
+    const events: NormalizedWebhookEvent[] = [];
+    for (const notification of this.notifications(request)) {
+      const resource = stringAt(notification.resource) || '';
+      const resourceData = objectAt(notification.resourceData);
+      const callId = this.callIdFromResource(resource);
+      if (!callId) {
+        throw new WebhookPayloadError(`Cannot find a call ID in Graph resource "${resource}"`);
+      }
+
+      let eventType: ExternalCallWebhook['eventType'] | undefined;
+      let participants: CallParticipant[] = [];
+      if (resourceData.callEventType === 'callStarted' || resourceData.state === 'established') {
+        eventType = 'call_started';
+      } else if (resourceData.callEventType === 'callEnded' || resourceData.state === 'terminated') {
+        eventType = 'call_ended';
+      } else if (/\/participants/.test(resource)) {
+        eventType = notification.changeType === 'deleted' ? 'participant_left' : 'participant_joined';
+        participants = [this.toParticipant(resourceData)];
+      }
+      if (!eventType) {
+        continue;
+      }
+
+      if (Array.isArray(resourceData.participants)) {
+        participants = resourceData.participants.map(participant => this.toParticipant(participant));
+      }
+
+      events.push({
+        eventId: stringAt(notification.id) ||
+          `${notification.subscriptionId}:${notification.changeType}:${resource}:${contentHash(request)}`,
+        webhook: {
+          platform: this.name,
+          callId,
+          eventType,
+          participants,
+          timestamp: dateAt(resourceData.eventDateTime, 'resourceData.eventDateTime') || new Date()
+        }
+      });
+    }
+    return events;
+  }
+
+  private notifications(request: WebhookRequest): JsonObject[] {
+    const notifications = objectAt(request.body).value;
+    return Array.isArray(notifications) ? notifications.map(objectAt) : [];
+  }
+
+  // communications/calls/{id}/... or communications/onlineMeetings/{id}/...
+  private callIdFromResource(resource: string): string | null {
+    const match = resource.match(/(?:calls|onlineMeetings)[/(]'?([^/')]+)/);
+    return match ? decodeURIComponent(match[1]) : null;
+  }
+
+  private toParticipant(value: unknown): CallParticipant {
+    const participant = objectAt(value);
+    const identity = isObject(participant.info) ? objectAt(participant.info).identity : participant.identity;
+    const user = objectAt(objectAt(identity).user);
+    const id = idAt(user.id) || idAt(participant.id);
+    if (!id) {
+      throw new WebhookPayloadError('Graph participant has no ID');
+    }
+    return {
+      id,
+      name: stringAt(user.displayName) || '',
+      email: stringAt(user.userPrincipalName),
+      role: participant.meetingRole === 'organizer' ? 'host' : 'proctored_user'
+    };
+  }
+}
+
+/**
+ * Any other integration: the sender posts an `ExternalCallWebhook` and signs
+ * `{timestamp}.{body}` with a shared secret, sent as
+ * `x-webhook-signature: sha256=<hex>` alongside `x-webhook-timestamp` and an
+ * optional `x-webhook-id` event ID.
+ */
+export class SharedSecretWebhookAdapter implements CallPlatformAdapter {
+  constructor(
+    readonly name: string,
+    private readonly secret: string | undefined,
+    private readonly toleranceMs: number
+  ) {}
+
+  static sign(secret: string, timestamp: string, rawBody: string | Buffer): string {
+    return `sha256=${hmacSha256Hex(secret, `${timestamp}.${rawBody}`)}`;
+  }
+
+  getChallenge(): WebhookChallenge | null {
+    return null;
+  }
+
+  verify(request: WebhookRequest): void {
+    const secret = requireSecret(this.secret, this.name);
+    const timestamp = header(request, 'x-webhook-timestamp');
+    const signature = header(request, 'x-webhook-signature');
+    assertFresh(timestamp, this.toleranceMs);
+
+    if (!signature || !safeEqual(signature, SharedSecretWebhookAdapter.sign(secret, timestamp as string, request.rawBody))) {
+      throw new WebhookVerificationError('Invalid webhook signature');
+    }
+  }
+
+  normalize(request: WebhookRequest): NormalizedWebhookEvent[] {
+    const body = objectAt(request.body);
+    const callId = idAt(body.callId);
+    const eventType = EVENT_TYPES.find(type => type === body.eventType);
+    if (!callId || !eventType) {
+      throw new WebhookPayloadError('Webhook needs a callId and a known eventType');
+    }
+    // The route decides the platform; a sender cannot pass its events off as another's
+    if (body.platform !== undefined && body.platform !== this.name) {
+      throw new WebhookPayloadError(`Webhook platform must be ${this.name}`);
+    }
+    if (body.participants !== undefined && !Array.isArray(body.participants)) {
+      throw new WebhookPayloadError('participants must be an array');
+    }
+
+    return [{
+      eventId: header(request, 'x-webhook-id') || stringAt(body.eventId) || contentHash(request),
+      webhook: {
+        platform: this.name,
+        callId,
+        eventType,
+        participants: (body.participants || []).map((participant: unknown, i: number) => this.toParticipant(participant, i)),
+        timestamp: dateAt(body.timestamp, 'timestamp') || new Date()
+      }
+    }];
+  }
+
+  private toParticipant(value: unknown, index: number): CallParticipant {
+    const field = `participants[${index}]`;
+    if (!isObject(value)) {
+      throw new WebhookPayloadError(`${field} must be an object`);
+    }
+    const id = idAt(value.id);
+    if (!id) {
+      throw new WebhookPayloadError(`${field}.id is required`);
+    }
+    if (value.name !== undefined && typeof value.name !== 'string') {
+      throw new WebhookPayloadError(`${field}.name must be a string`);
+    }
+    if (value.email !== undefined && typeof value.email !== 'string') {
+      throw new WebhookPayloadError(`${field}.email must be a string`);
+    }
+    const role = PARTICIPANT_ROLES.find(known => known === value.role);
+    if (!role) {
+      throw new WebhookPayloadError(`${field}.role must be one of ${PARTICIPANT_ROLES.join(', ')}`);
+    }
+    return { id, name: value.name || '', email: value.email || undefined, role };
+  }
+}
@@ -0,0 +1,152 @@
+import { ExternalCallWebhook, CallParticipant, SessionParticipant, ProctorSession, ExamSlot } from '../types';
+import { externalCallMonitoringService } from './externalCallMonitoring';
+import { examService, ExamAdmissionError, AdmissionFailure } from './exam';
+
+export interface CallWebhookResult {
+  startedSessions: ProctorSession[];
+  endedSessionIds: string[];
+  rejected: Array<{ participantId: string; reason: AdmissionFailure }>;
+}
+
+const CALL_PLATFORMS: ProctorSession['callPlatform'][] = ['zoom', 'meet', 'teams', 'other'];
+
+export class CallWebhookService {
+  constructor() {
+    console.log('Call Webhook Service initialized');
+  }
+
+  /**
+   * Starts and ends proctoring sessions from external call events. Proctored
+   * users joining a call scheduled for an exam slot get a session if they are
+   * on its roster; leaving the call, or the call ending, ends it. Everyone on
+   * the call is kept on each live session's participant roster.
+   */
+  async handle(webhook: ExternalCallWebhook): Promise<CallWebhookResult> {
+    const result: CallWebhookResult = { startedSessions: [], endedSessionIds: [], rejected: [] };
+    const participants = Array.isArray(webhook.participants) ? webhook.participants : [];
+    const at = this.toDate(webhook.timestamp);
+
+    switch (webhook.eventType) {
+      case 'call_started':
+      case 'participant_joined':
+        await this.startSessions(webhook, participants, result);
+        await this.updateRosters(webhook.callId, participants, 'joined', at);
+        break;
+      case 'participant_left':
+        await this.updateRosters(webhook.callId, participants, 'left', at);
+        for (const participant of participants.filter(p => p.role === 'proctored_user')) {
+          for (const session of this.findLiveSessions(webhook.callId, participant)) {
+            await externalCallMonitoringService.endProctoring(session.id, 'participant_left');
+            result.endedSessionIds.push(session.id);
+          }
+        }
+        break;
+      case 'call_ended':
+        await this.updateRosters(webhook.callId, participants, 'left', at);
+        for (const session of this.findLiveSessions(webhook.callId)) {
+          await externalCallMonitoringService.endProctoring(session.id, 'call_ended');
+          result.endedSessionIds.push(session.id);
+        }
+        break;
+    }
+
+    return result;
+  }
+
+  private async startSessions(
+    webhook: ExternalCallWebhook,
+    participants: CallParticipant[],
+    result: CallWebhookResult
+  ): Promise<void> {
+    const proctored = participants.filter(participant => participant.role === 'proctored_user');
+    if (proctored.length === 0) {
+      return;
+    }
+
+    const callPlatform = this.toCallPlatform(webhook.platform);
+    const slot = await examService.findScheduledSlot(webhook.callId, callPlatform);
+    if (!slot) {
+      console.log(`No exam slot scheduled on ${webhook.platform} call ${webhook.callId}; not starting sessions`);
+      return;
+    }
+
+    for (const participant of proctored) {
+      // Rejoining after a dropped connection keeps the session that is still live
+      if (this.findLiveSessions(webhook.callId, participant).length > 0) {
+        continue;
+      }
+
+      const candidateId = this.matchCandidate(slot, participant);
+      try {
+        const { exam } = await examService.admit(slot.id, candidateId);
+        const session = await externalCallMonitoringService.startProctoring(
+          candidateId,
+          webhook.callId,
+          callPlatform,
+          {},
+          { examId: exam.id, slotId: slot.id, tenantId: exam.tenantId, timeLimit: examService.getTimeLimit(exam, slot) }
+        );
+        result.startedSessions.push(session);
+      } catch (error) {
+        if (error instanceof ExamAdmissionError) {
+          console.log(`Not starting session for ${participant.id} on call ${webhook.callId}: ${error.message}`);
+          result.rejected.push({ participantId: participant.id, reason: error.reason });
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  private async updateRosters(
+    callId: string,
+    participants: CallParticipant[],
+    change: 'joined' | 'left',
+    at: Date
+  ): Promise<void> {
+    if (participants.length === 0) {
+      return;
+    }
+
+    for (const session of this.findLiveSessions(callId)) {
+      const roster = new Map<string, SessionParticipant>(
+        (session.participants || []).map(participant => [participant.id, participant])
+      );
+      for (const participant of participants) {
+        const current = roster.get(participant.id);
+        roster.set(participant.id, change === 'joined'
+          ? { ...current, ...participant, joinedAt: current?.joinedAt ?? at, leftAt: undefined }
+          : { ...current, ...participant, leftAt: at });
+      }
+      await externalCallMonitoringService.updateParticipants(session.id, Array.from(roster.values()));
+    }
+  }
+
+  /**
+   * Live sessions on a call, optionally only the one for a given participant.
+   */
+  private findLiveSessions(callId: string, participant?: CallParticipant): ProctorSession[] {
+    return externalCallMonitoringService.getActiveSessionsForCall(callId)
+      .filter(session => !participant || session.userId === participant.id || session.userId === participant.email);
+  }
+
+  // Rosters may list candidates by platform user ID or by email
+  private matchCandidate(slot: ExamSlot, participant: CallParticipant): string {
+    if (participant.email && !slot.candidateIds.includes(participant.id) && slot.candidateIds.includes(participant.email)) {
+      return participant.email;
+    }
+    return participant.id;
+  }
+
+  private toCallPlatform(platform: string): ProctorSession['callPlatform'] {
+    const normalized = String(platform || '').toLowerCase() as ProctorSession['callPlatform'];
+    return CALL_PLATFORMS.includes(normalized) ? normalized : 'other';
+  }
+
+  private toDate(timestamp: Date | string | undefined): Date {
+    const date = timestamp ? new Date(timestamp) : new Date();
+    return isNaN(date.getTime()) ? new Date() : date;
+  }
+}
+
+export const callWebhookService = new CallWebhookService();
@@ -0,0 +1,347 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ExamModel, ExamSlotModel, ProctorSessionModel, RuleSetModel, TenantModel, IExam, IExamSlot } from '../models';
+import { Exam, ExamSlot, SessionTimeLimit } from '../types';
+import { ruleEngineService } from './ruleEngine';
+
+export type ExamInput = Pick<Exam, 'title' | 'durationMinutes'> &
+  Partial<Pick<Exam, 'description' | 'tenantId' | 'ruleSetId'>>;
+
+export type ExamSlotInput = {
+  windowStart: Date | string;
+  windowEnd: Date | string;
+  candidateIds: string[];
+  externalCallId?: string;
+  callPlatform?: ExamSlot['callPlatform'];
+};
+
+export type AdmissionFailure = 'slot_not_found' | 'outside_window' | 'not_rostered' | 'already_in_session';
+
+export class ExamValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid exam: ${errors.join('; ')}`);
+    this.name = 'ExamValidationError';
+  }
+}
+
+export class ExamConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExamConflictError';
+  }
+}
+
+export class ExamAdmissionError extends Error {
+  constructor(public readonly reason: AdmissionFailure, message: string) {
+    super(message);
+    this.name = 'ExamAdmissionError';
+  }
+}
+
+export class ExamService {
+  constructor() {
+    console.log('Exam Service initialized');
+  }
+
+  async listExams(filter: { tenantId?: string } = {}): Promise<Exam[]> {
+    const query: Record<string, string> = {};
+    if (filter.tenantId) {
+      query.tenantId = filter.tenantId;
+    }
+
+    const examDocs = await ExamModel.find(query).sort({ createdAt: -1 });
+    return examDocs.map(examDoc => this.toExam(examDoc));
+  }
+
+  async getExam(examId: string): Promise<Exam | null> {
+    const examDoc = await ExamModel.findOne({ examId });
+    return examDoc ? this.toExam(examDoc) : null;
+  }
+
+  async createExam(input: ExamInput): Promise<Exam> {
+    await this.validateExam(input);
+
+    const examDoc = new ExamModel({
+      examId: uuidv4(),
+      title: input.title,
+      description: input.description,
+      tenantId: input.tenantId,
+      ruleSetId: input.ruleSetId,
+      durationMinutes: input.durationMinutes
+    });
+    await examDoc.save();
+
+    console.log(`Created exam ${examDoc.examId} (${input.title})`);
+    return this.toExam(examDoc);
+  }
+
+  async updateExam(examId: string, input: ExamInput): Promise<Exam | null> {
+    await this.validateExam(input);
+
+    const examDoc = await ExamModel.findOneAndUpdate(
+      { examId },
+      {
+        $set: {
+          title: input.title,
+          description: input.description,
+          tenantId: input.tenantId,
+          ruleSetId: input.ruleSetId,
+          durationMinutes: input.durationMinutes
+        }
+      },
+      { new: true }
+    );
+    if (!examDoc) {
+      return null;
+    }
+
+    // Live sessions of this exam may now need a different rule set
+    ruleEngineService.invalidateRules();
+    console.log(`Updated exam ${examId}`);
+    return this.toExam(examDoc);
+  }
+
+  /**
+   * Deletes an exam and its slots. Exams that already have sessions are kept
+   * so those sessions can still be reported on.
+   */
+  async deleteExam(examId: string): Promise<boolean> {
+    if (await ProctorSessionModel.exists({ examId })) {
+      throw new ExamConflictError(`Exam ${examId} has proctoring sessions and cannot be deleted`);
+    }
+
+    const result = await ExamModel.deleteOne({ examId });
+    if (result.deletedCount === 0) {
+      return false;
+    }
+
+    await ExamSlotModel.deleteMany({ examId });
+    console.log(`Deleted exam ${examId}`);
+    return true;
+  }
+
+  async listSlots(examId: string): Promise<ExamSlot[]> {
+    const slotDocs = await ExamSlotModel.find({ examId }).sort({ windowStart: 1 });
+    return slotDocs.map(slotDoc => this.toSlot(slotDoc));
+  }
+
+  async getSlot(examId: string, slotId: string): Promise<ExamSlot | null> {
+    const slotDoc = await ExamSlotModel.findOne({ examId, slotId });
+    return slotDoc ? this.toSlot(slotDoc) : null;
+  }
+
+  /**
+   * Returns null when the exam does not exist.
+   */
+  async createSlot(examId: string, input: ExamSlotInput): Promise<ExamSlot | null> {
+    this.validateSlot(input);
+    if (!(await ExamModel.exists({ examId }))) {
+      return null;
+    }
+
+    const slotDoc = new ExamSlotModel({
+      slotId: uuidv4(),
+      examId,
+      windowStart: new Date(input.windowStart),
+      windowEnd: new Date(input.windowEnd),
+      candidateIds: this.normalizeRoster(input.candidateIds),
+      externalCallId: input.externalCallId,
+      callPlatform: input.callPlatform
+    });
+    await slotDoc.save();
+
+    console.log(`Created slot ${slotDoc.slotId} for exam ${examId}`);
+    return this.toSlot(slotDoc);
+  }
+
+  async updateSlot(examId: string, slotId: string, input: ExamSlotInput): Promise<ExamSlot | null> {
+    this.validateSlot(input);
+
+    const slotDoc = await ExamSlotModel.findOneAndUpdate(
+      { examId, slotId },
+      {
+        $set: {
+          windowStart: new Date(input.windowStart),
+          windowEnd: new Date(input.windowEnd),
+          candidateIds: this.normalizeRoster(input.candidateIds),
+          externalCallId: input.externalCallId,
+          callPlatform: input.callPlatform
+        }
+      },
+      { new: true }
+    );
+    if (!slotDoc) {
+      return null;
+    }
+
+    console.log(`Updated slot ${slotId} of exam ${examId}`);
+    return this.toSlot(slotDoc);
+  }
+
+  async deleteSlot(examId: string, slotId: string): Promise<boolean> {
+    if (await ProctorSessionModel.exists({ slotId })) {
+      throw new ExamConflictError(`Slot ${slotId} has proctoring sessions and cannot be deleted`);
+    }
+
+    const result = await ExamSlotModel.deleteOne({ examId, slotId });
+    if (result.deletedCount === 0) {
+      return false;
+    }
+
+    console.log(`Deleted slot ${slotId} of exam ${examId}`);
+    return true;
+  }
+
+  /**
+   * Checks that a candidate may start a session in a slot right now: the slot
+   * window is open, they are on its roster and they are not already sitting
+   * it in another live session. With a `tenantId` scope, slots of other
+   * tenants' exams are treated as missing.
+   */
+  async admit(
+    slotId: string,
+    candidateId: string,
+    scope: { tenantId?: string } = {},
+    at: Date = new Date()
+  ): Promise<{ exam: Exam; slot: ExamSlot }> {
+    const slotDoc = await ExamSlotModel.findOne({ slotId });
+    const examDoc = slotDoc ? await ExamModel.findOne({ examId: slotDoc.examId }) : null;
+    if (!slotDoc || !examDoc || (scope.tenantId && examDoc.tenantId !== scope.tenantId)) {
+      throw new ExamAdmissionError('slot_not_found', `Exam slot ${slotId} not found`);
+    }
+
+    if (at < slotDoc.windowStart || at > slotDoc.windowEnd) {
+      throw new ExamAdmissionError(
+        'outside_window',
+        `Exam slot ${slotId} is open from ${slotDoc.windowStart.toISOString()} to ${slotDoc.windowEnd.toISOString()}`
+      );
+    }
+
+    if (!slotDoc.candidateIds.includes(candidateId)) {
+      throw new ExamAdmissionError('not_rostered', `Candidate ${candidateId} is not on the roster for slot ${slotId}`);
+    }
+
+    if (await ProctorSessionModel.exists({ slotId, userId: candidateId, status: { $ne: 'ended' } })) {
+      throw new ExamAdmissionError(
+        'already_in_session',
+        `Candidate ${candidateId} already has a live session in slot ${slotId}`
+      );
+    }
+
+    return { exam: this.toExam(examDoc), slot: this.toSlot(slotDoc) };
+  }
+
+  /**
+   * Finds the slot scheduled on an external call whose window is open at the
+   * given time. Recurring meetings can share a call ID across slots, so the
+   * window decides which one applies.
+   */
+  async findScheduledSlot(
+    externalCallId: string,
+    callPlatform: ExamSlot['callPlatform'],
+    at: Date = new Date()
+  ): Promise<ExamSlot | null> {
+    const slotDoc = await ExamSlotModel.findOne({
+      externalCallId,
+      windowStart: { $lte: at },
+      windowEnd: { $gte: at },
+      $or: [{ callPlatform: { $exists: false } }, { callPlatform }]
+    }).sort({ windowStart: -1 });
+    return slotDoc ? this.toSlot(slotDoc) : null;
+  }
+
+  // The limit a session in the slot runs under; see ExternalCallMonitoringService.getAllowedUntil
+  getTimeLimit(exam: Exam, slot: ExamSlot): SessionTimeLimit {
+    return {
+      durationMs: exam.durationMinutes * 60 * 1000,
+      windowEnd: new Date(slot.windowEnd)
+    };
+  }
+
+  private async validateExam(input: Partial<ExamInput>): Promise<void> {
+    const errors: string[] = [];
+
+    if (!input.title || typeof input.title !== 'string' || !input.title.trim()) {
+      errors.push('title is required');
+    }
+    if (typeof input.durationMinutes !== 'number' || !(input.durationMinutes > 0)) {
+      errors.push('durationMinutes must be a positive number');
+    }
+    if (input.tenantId && !(await TenantModel.exists({ tenantId: input.tenantId }))) {
+      errors.push(`tenantId ${input.tenantId} does not exist`);
+    }
+    // A tenant's exam may use its own rule sets or ones shared by the whole deployment
+    if (input.ruleSetId && !(await RuleSetModel.exists({
+      ruleSetId: input.ruleSetId,
+      tenantId: { $in: input.tenantId ? [input.tenantId, null] : [null] }
+    }))) {
+      errors.push(`ruleSetId ${input.ruleSetId} does not exist`);
+    }
+
+    if (errors.length > 0) {
+      throw new ExamValidationError(errors);
+    }
+  }
+
+  private validateSlot(input: Partial<ExamSlotInput>): void {
+    const errors: string[] = [];
+
+    const windowStart = input.windowStart ? new Date(input.windowStart) : null;
+    const windowEnd = input.windowEnd ? new Date(input.windowEnd) : null;
+    if (!windowStart || isNaN(windowStart.getTime())) {
+      errors.push('windowStart must be a valid date');
+    }
+    if (!windowEnd || isNaN(windowEnd.getTime())) {
+      errors.push('windowEnd must be a valid date');
+    }
+    if (windowStart && windowEnd && windowEnd <= windowStart) {
+      errors.push('windowEnd must be after windowStart');
+    }
+    if (!Array.isArray(input.candidateIds) ||
+      input.candidateIds.some(candidateId => typeof candidateId !== 'string' || !candidateId.trim())) {
+      errors.push('candidateIds must be an array of candidate IDs');
+    }
+    if (input.externalCallId !== undefined && (typeof input.externalCallId !== 'string' || !input.externalCallId.trim())) {
+      errors.push('externalCallId must be a non-empty string');
+    }
+    if (input.callPlatform !== undefined && !['zoom', 'meet', 'teams', 'other'].includes(input.callPlatform)) {
+      errors.push('callPlatform must be zoom, meet, teams or other');
+    }
+
+    if (errors.length > 0) {
+      throw new ExamValidationError(errors);
+    }
+  }
+
+  private normalizeRoster(candidateIds: string[]): string[] {
+    return Array.from(new Set(candidateIds.map(candidateId => candidateId.trim())));
+  }
+
+  private toExam(examDoc: IExam): Exam {
+    return {
+      id: examDoc.examId,
+      title: examDoc.title,
+      description: examDoc.description,
+      tenantId: examDoc.tenantId,
+      ruleSetId: examDoc.ruleSetId,
+      durationMinutes: examDoc.durationMinutes,
+      createdAt: examDoc.createdAt,
+      updatedAt: examDoc.updatedAt
+    };
+  }
+
+  private toSlot(slotDoc: IExamSlot): ExamSlot {
+    return {
+      id: slotDoc.slotId,
+      examId: slotDoc.examId,
+      windowStart: slotDoc.windowStart,
+      windowEnd: slotDoc.windowEnd,
+      candidateIds: slotDoc.candidateIds,
+      externalCallId: slotDoc.externalCallId,
+      callPlatform: slotDoc.callPlatform,
+      createdAt: slotDoc.createdAt,
+      updatedAt: slotDoc.updatedAt
+    };
+  }
+}
+
+export const examService = new ExamService();
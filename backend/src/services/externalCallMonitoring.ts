@@ -1,29 +1,213 @@
 import { v4 as uuidv4 } from 'uuid';
-import { ProctorSessionModel, CallMonitoringDataModel } from '../models';
-import { ProctorSession, CallMonitoringData, GazeTrackingData, AudioAnalysisData } from '../types';
+import { Document } from 'mongoose';
+import { ProctorSessionModel, CallMonitoringDataModel, IProctorSession } from '../models';
+import {
+  ProctorSession,
+  SessionStatus,
+  SessionStatusChange,
+  SessionTimeLimit,
+  CallMonitoringData,
+  GazeTrackingData,
+  AudioAnalysisData,
+  FaceEpisode,
+  SpeakerAnalysis,
+  SuspiciousActivity,
+  BrowserTelemetryEvent,
+  TelemetryObservation,
+  SessionParticipant,
+  MonitoringSample,
+  ConnectionOutage,
+  DisconnectAction
+} from '../types';
+import { analyzerRegistry } from './analyzerRegistry';
+import { noiseFloorService } from './noiseFloor';
+import { browserTelemetryService } from './browserTelemetry';
+import { ruleEngineService } from './ruleEngine';
+import { riskScoreService } from './riskScore';
+import { incidentAggregatorService } from './incidentAggregator';
+import { reviewService } from './review';
+import { outboundWebhookService } from './outboundWebhook';
+import { ltiService } from './lti';
+import { presenceService } from './presence';
+
+const RESUMABLE_STATUSES: SessionStatus[] = ['active', 'paused', 'recording'];
+
+// Allowed session status transitions; anything not listed is rejected
+const SESSION_TRANSITIONS: Record<SessionStatus, SessionStatus[]> = {
+  active: ['paused', 'recording', 'ended'],
+  recording: ['active', 'paused', 'ended'],
+  paused: ['active', 'ended'],
+  ended: []
+};
+
+// Episode length (seconds) at which face incidents escalate to medium / high severity
+const FACE_EPISODE_SEVERITY: Record<FaceEpisode['type'], { medium: number; high: number }> = {
+  face_not_detected: { medium: 5, high: 15 },
+  multiple_faces: { medium: 2, high: 5 }
+};
+
+// Outage length (seconds) at which connection_lost incidents escalate to medium / high severity
+const CONNECTION_LOST_SEVERITY = { medium: 30, high: 120 };
+
+// How often live sessions are checked for having run out of time
+const DEADLINE_CHECK_INTERVAL_MS = 5000;
+
+export class SessionTransitionError extends Error {
+  constructor(
+    public readonly sessionId: string,
+    public readonly from: SessionStatus,
+    public readonly to: SessionStatus
+  ) {
+    super(`Session ${sessionId} cannot transition from ${from} to ${to}`);
+    this.name = 'SessionTransitionError';
+  }
+}
+
+export class ForcedPauseError extends Error {
+  constructor(public readonly sessionId: string) {
+    super(`Session ${sessionId} was paused by a proctor and only staff can resume it`);
+    this.name = 'ForcedPauseError';
+  }
+}
+
+export class SessionEndedError extends Error {
+  constructor(public readonly sessionId: string) {
+    super(`Session ${sessionId} has ended`);
+    this.name = 'SessionEndedError';
+  }
+}
 
 export class ExternalCallMonitoringService {
   private activeSessions: Map<string, ProctorSession> = new Map();
+  private staleGracePeriodMs: number;
+  private deadlineInterval: NodeJS.Timeout | null = null;
+  private checkingDeadlines = false;
   
   constructor() {
+    this.staleGracePeriodMs = parseInt(process.env.SESSION_STALE_GRACE_MINUTES || '15') * 60 * 1000;
+    presenceService.on('expired', (sessionId: string, action: DisconnectAction) => this.handleConnectionExpired(sessionId, action));
     console.log('External Call Monitoring Service initialized');
   }
   
+  /**
+   * Starts ending sessions whose time has run out. Called once the database
+   * connection is up.
+   */
+  start(): void {
+    if (this.deadlineInterval) {
+      return;
+    }
+    this.deadlineInterval = setInterval(() => this.endExpiredSessions(), DEADLINE_CHECK_INTERVAL_MS);
+  }
+  
+  stop(): void {
+    if (this.deadlineInterval) {
+      clearInterval(this.deadlineInterval);
+      this.deadlineInterval = null;
+    }
+  }
+  
+  async rehydrateSessions(): Promise<{ restored: number; ended: number }> {
+    const sessionDocs = await ProctorSessionModel.find({
+      status: { $in: RESUMABLE_STATUSES }
+    }).lean();
+    
+    let restored = 0;
+    let ended = 0;
+    
+    for (const sessionDoc of sessionDocs) {
+      const session = this.toSession(sessionDoc);
+      const lastActivity = await this.getLastActivity(session.id, sessionDoc.updatedAt || session.startTime);
+      
+      // Running sessions nobody touched within the grace period are treated as
+      // abandoned. A paused session sends nothing by design; the end of its slot window ends it
+      if (session.status !== 'paused' && Date.now() - lastActivity.getTime() > this.staleGracePeriodMs) {
+        const change: SessionStatusChange = {
+          from: session.status,
+          to: 'ended',
+          at: lastActivity,
+          reason: 'stale_after_restart'
+        };
+        const riskScore = await riskScoreService.calculate(session.id);
+        await ProctorSessionModel.findOneAndUpdate(
+          { sessionId: session.id },
+          {
+            $set: {
+              status: 'ended',
+              endTime: lastActivity,
+              pausedDurationMs: session.pausedDurationMs + this.getOpenPauseMs(session, lastActivity),
+              riskScore
+            },
+            $push: { statusHistory: change }
+          }
+        );
+        await incidentAggregatorService.closeSession(session.id);
+        const review = await reviewService.enqueueIfFlagged(session.id, riskScore);
+        await outboundWebhookService.publish('session.ended', session.id, {
+          reason: change.reason,
+          startTime: session.startTime,
+          endTime: lastActivity,
+          riskScore: riskScore.score,
+          queuedForReview: review !== null
+        });
+        if (!review) {
+          ltiService.passbackVerdict(session.id, 'cleared');
+        }
+        console.log(`Auto-ended stale session ${session.id} (last activity ${lastActivity.toISOString()})`);
+        ended++;
+        continue;
+      }
+      
+      this.activeSessions.set(session.id, session);
+      await riskScoreService.restoreSession(session.id);
+      await incidentAggregatorService.restoreSession(session.id);
+      this.startAnalyzers(session.id);
+      if (session.status === 'paused') {
+        analyzerRegistry.pauseSession(session.id);
+      }
+      // Candidates reconnect after the restart within the usual reconnect window
+      presenceService.startSession(session.id, { paused: session.status === 'paused' });
+      restored++;
+    }
+    
+    console.log(`Rehydrated ${restored} session(s), auto-ended ${ended} stale session(s)`);
+    return { restored, ended };
+  }
+  
+  private async getLastActivity(sessionId: string, fallback: Date): Promise<Date> {
+    const latest = await CallMonitoringDataModel.findOne({ sessionId })
+      .sort({ timestamp: -1 })
+      .lean();
+    
+    if (latest && latest.timestamp > fallback) {
+      return latest.timestamp;
+    }
+    return fallback;
+  }
+  
   async startProctoring(
     userId: string, 
     externalCallId: string, 
     callPlatform: 'zoom' | 'meet' | 'teams' | 'other',
-    metadata: any
+    metadata: any,
+    slot?: { examId: string; slotId: string; tenantId?: string; timeLimit?: SessionTimeLimit }
   ): Promise<ProctorSession> {
     const sessionId = uuidv4();
+    const startTime = new Date();
     
     const session: ProctorSession = {
       id: sessionId,
       userId,
       externalCallId,
       callPlatform,
+      tenantId: slot?.tenantId,
+      examId: slot?.examId,
+      slotId: slot?.slotId,
       status: 'active',
-      startTime: new Date(),
+      statusHistory: [{ to: 'active', at: startTime }],
+      pausedDurationMs: 0,
+      timeLimit: slot?.timeLimit,
+      startTime,
       recordingPaths: {},
       metadata
     };
@@ -34,7 +218,13 @@ export class ExternalCallMonitoringService {
       userId: session.userId,
       externalCallId: session.externalCallId,
       callPlatform: session.callPlatform,
+      tenantId: session.tenantId,
+      examId: session.examId,
+      slotId: session.slotId,
       status: session.status,
+      statusHistory: session.statusHistory,
+      pausedDurationMs: session.pausedDurationMs,
+      timeLimit: session.timeLimit,
       startTime: session.startTime,
       recordingPaths: session.recordingPaths,
       metadata: session.metadata
@@ -44,33 +234,218 @@ export class ExternalCallMonitoringService {
     
     // Store in memory for quick access
     this.activeSessions.set(sessionId, session);
+    riskScoreService.startSession(sessionId);
+    presenceService.startSession(sessionId);
+    
+    this.startAnalyzers(sessionId);
     
     console.log(`Started proctoring session ${sessionId} for user ${userId}`);
     return session;
   }
   
-  async endProctoring(sessionId: string): Promise<void> {
+  async endProctoring(sessionId: string, reason?: string): Promise<void> {
+    const endTime = new Date();
+    const session = await this.transition(sessionId, 'ended', reason);
+    
+    try {
+      // Time still spent outside the exam tab, or offline, counts up to the end of the session
+      await this.saveTelemetry(session, browserTelemetryService.closeSession(sessionId, endTime));
+      await this.saveConnectionOutages(session, presenceService.closeSession(sessionId, endTime));
+      
+      await incidentAggregatorService.closeSession(sessionId);
+      const riskScore = riskScoreService.finishSession(sessionId) ?? await riskScoreService.calculate(sessionId);
+      await ProctorSessionModel.updateOne({ sessionId }, { $set: { riskScore } });
+      const review = await reviewService.enqueueIfFlagged(sessionId, riskScore);
+      await outboundWebhookService.publish('session.ended', sessionId, {
+        reason,
+        startTime: session.startTime,
+        endTime,
+        riskScore: riskScore.score,
+        queuedForReview: review !== null
+      });
+      
+      // Sessions nobody needs to review are cleared; the LMS gradebook hears about
+      // flagged ones once the review completes. Not awaited: the platform may be slow
+      if (!review) {
+        ltiService.passbackVerdict(sessionId, 'cleared');
+      }
+    } finally {
+      // Stop this session's analyzers and remove from active sessions, even if
+      // wrapping up failed part way
+      analyzerRegistry.stopSession(sessionId);
+      noiseFloorService.reset(sessionId);
+      ruleEngineService.reset(sessionId);
+      this.activeSessions.delete(sessionId);
+    }
+    
+    console.log(`Ended proctoring session ${sessionId}`);
+  }
+  
+  // Forced pauses come from a proctor's intervention, and only staff may resume them
+  async pauseProctoring(sessionId: string, reason?: string, forced = false): Promise<ProctorSession> {
+    const pausedAt = new Date();
+    const session = await this.transition(sessionId, 'paused', reason, forced);
+    analyzerRegistry.pauseSession(sessionId);
+    await this.saveTelemetry(session, browserTelemetryService.closeSession(sessionId, pausedAt));
+    await this.saveConnectionOutages(session, presenceService.pauseSession(sessionId, pausedAt));
+    
+    console.log(`Paused proctoring session ${sessionId}`);
+    return session;
+  }
+  
+  async resumeProctoring(sessionId: string, reason?: string, byStaff = true): Promise<ProctorSession> {
+    const current = this.activeSessions.get(sessionId);
+    if (current && current.status !== 'paused') {
+      throw new SessionTransitionError(sessionId, current.status, 'active');
+    }
+    if (current && !byStaff && current.statusHistory[current.statusHistory.length - 1]?.forced) {
+      throw new ForcedPauseError(sessionId);
+    }
+    
+    const session = await this.transition(sessionId, 'active', reason);
+    analyzerRegistry.resumeSession(sessionId);
+    presenceService.resumeSession(sessionId);
+    
+    console.log(`Resumed proctoring session ${sessionId}`);
+    return session;
+  }
+  
+  async startRecording(sessionId: string): Promise<ProctorSession> {
+    const session = await this.transition(sessionId, 'recording');
+    console.log(`Started recording for session ${sessionId}`);
+    return session;
+  }
+  
+  async stopRecording(sessionId: string): Promise<ProctorSession> {
+    const current = this.activeSessions.get(sessionId);
+    if (current && current.status !== 'recording') {
+      throw new SessionTransitionError(sessionId, current.status, 'active');
+    }
+    
+    const session = await this.transition(sessionId, 'active');
+    console.log(`Stopped recording for session ${sessionId}`);
+    return session;
+  }
+  
+  /**
+   * Exam time elapsed so far, excluding any time the session spent paused.
+   */
+  getActiveDurationMs(session: ProctorSession, at: Date = new Date()): number {
+    const end = session.endTime || at;
+    const pausedMs = session.pausedDurationMs + this.getOpenPauseMs(session, end);
+    return Math.max(0, end.getTime() - session.startTime.getTime() - pausedMs);
+  }
+  
+  /**
+   * Throws a SessionTransitionError when the session cannot move to the given
+   * status right now, for callers that must check before they act.
+   */
+  assertTransition(sessionId: string, to: SessionStatus): ProctorSession {
     const session = this.activeSessions.get(sessionId);
     if (!session) {
       throw new Error(`Session ${sessionId} not found`);
     }
+    if (!SESSION_TRANSITIONS[session.status].includes(to)) {
+      throw new SessionTransitionError(sessionId, session.status, to);
+    }
+    return session;
+  }
+  
+  /**
+   * When the session's time runs out: its allowed duration, pushed back by
+   * any time spent paused, but never past the end of the slot window.
+   * Undefined for sessions without a time limit.
+   */
+  getAllowedUntil(session: ProctorSession, at: Date = new Date()): Date | undefined {
+    if (!session.timeLimit) {
+      return undefined;
+    }
+    const remainingMs = session.timeLimit.durationMs - this.getActiveDurationMs(session, at);
+    return new Date(Math.min(at.getTime() + remainingMs, new Date(session.timeLimit.windowEnd).getTime()));
+  }
+  
+  // Ends every live session past its allowed time, paused or not
+  private async endExpiredSessions(): Promise<void> {
+    if (this.checkingDeadlines) {
+      return;
+    }
     
-    session.status = 'ended';
-    session.endTime = new Date();
+    this.checkingDeadlines = true;
+    try {
+      const now = new Date();
+      for (const session of Array.from(this.activeSessions.values())) {
+        const allowedUntil = this.getAllowedUntil(session, now);
+        if (session.status === 'ended' || !allowedUntil || allowedUntil > now) {
+          continue;
+        }
+        
+        try {
+          await this.endProctoring(session.id, 'time_expired');
+        } catch (error) {
+          console.error(`Error ending session ${session.id} at its deadline:`, error);
+        }
+      }
+    } finally {
+      this.checkingDeadlines = false;
+    }
+  }
+  
+  private async transition(sessionId: string, to: SessionStatus, reason?: string, forced?: boolean): Promise<ProctorSession> {
+    const session = this.assertTransition(sessionId, to);
+    const from = session.status;
+    
+    const now = new Date();
+    const change: SessionStatusChange = { from, to, at: now, reason, ...(forced && { forced }) };
+    
+    // Close out the current pause before leaving the paused state
+    session.pausedDurationMs += this.getOpenPauseMs(session, now);
+    session.status = to;
+    session.statusHistory.push(change);
+    if (to === 'ended') {
+      session.endTime = now;
+    }
     
     // Update database
     await ProctorSessionModel.findOneAndUpdate(
       { sessionId },
-      { 
-        status: 'ended', 
-        endTime: session.endTime 
+      {
+        $set: {
+          status: session.status,
+          pausedDurationMs: session.pausedDurationMs,
+          ...(session.endTime && { endTime: session.endTime })
+        },
+        $push: { statusHistory: change }
       }
     );
     
-    // Remove from active sessions
-    this.activeSessions.delete(sessionId);
+    return session;
+  }
+  
+  private getOpenPauseMs(session: ProctorSession, at: Date): number {
+    if (session.status !== 'paused') {
+      return 0;
+    }
     
-    console.log(`Ended proctoring session ${sessionId}`);
+    const pausedAt = session.statusHistory[session.statusHistory.length - 1]?.at;
+    return pausedAt ? Math.max(0, at.getTime() - new Date(pausedAt).getTime()) : 0;
+  }
+  
+  private startAnalyzers(sessionId: string): void {
+    analyzerRegistry.startSession(sessionId, {
+      onGazeData: async (gazeData) => {
+        // A tick already under way when the session ended has nothing to add
+        if (this.activeSessions.get(sessionId)?.status === 'ended') {
+          return;
+        }
+        await this.recordMonitoringData(sessionId, gazeData);
+      },
+      onAudioData: async (audioData) => {
+        if (this.activeSessions.get(sessionId)?.status === 'ended') {
+          return;
+        }
+        await this.recordMonitoringData(sessionId, undefined, audioData);
+      }
+    });
   }
   
   async recordMonitoringData(
@@ -78,68 +453,420 @@ export class ExternalCallMonitoringService {
     gazeData?: GazeTrackingData,
     audioData?: AudioAnalysisData
   ): Promise<void> {
+    await this.recordMonitoringBatch(sessionId, [{ timestamp: new Date(), gazeData, audioData }]);
+  }
+  
+  /**
+   * Analyzes samples in the order they were captured and stores them with
+   * one write. Returns what was stored: nothing while the exam is paused.
+   * Throws SessionEndedError once the session has ended, even while it is
+   * still being wrapped up.
+   */
+  async recordMonitoringBatch(
+    sessionId: string,
+    samples: Array<Omit<MonitoringSample, 'seq'> & { seq?: number }>
+  ): Promise<CallMonitoringData[]> {
     const session = this.activeSessions.get(sessionId);
     if (!session) {
       throw new Error(`Session ${sessionId} not found`);
     }
+    if (session.status === 'ended') {
+      throw new SessionEndedError(sessionId);
+    }
     
+    // Nothing is recorded while the exam is paused
+    if (session.status === 'paused' || samples.length === 0) {
+      return [];
+    }
+    
+    const batch: CallMonitoringData[] = [];
+    for (const sample of samples) {
+      batch.push(await this.analyzeSample(session, sample));
+    }
+    // The session may have ended while the samples were analysed
+    const current = this.activeSessions.get(sessionId);
+    if (!current || current.status === 'ended') {
+      throw new SessionEndedError(sessionId);
+    }
+    
+    // Save to database
+    const monitoringDocs = await CallMonitoringDataModel.insertMany(batch);
+    for (const monitoringDoc of monitoringDocs) {
+      const activities = monitoringDoc.suspiciousActivity || [];
+      await incidentAggregatorService.ingest(sessionId, String(monitoringDoc._id), activities);
+      riskScoreService.record(sessionId, activities);
+    }
+    
+    console.log(`Recorded ${batch.length} monitoring sample(s) for session ${sessionId}`);
+    return batch;
+  }
+  
+  /**
+   * Turns a browser telemetry event from the candidate's exam tab into
+   * incidents. Returns the stored monitoring data when the event closed an
+   * incident, or null otherwise.
+   */
+  async recordTelemetryEvent(event: BrowserTelemetryEvent): Promise<CallMonitoringData | null> {
+    const session = this.activeSessions.get(event.sessionId);
+    if (!session) {
+      throw new Error(`Session ${event.sessionId} not found`);
+    }
+    
+    // Leaving the tab while paused is not part of the exam
+    if (session.status === 'paused') {
+      return null;
+    }
+    
+    return this.saveTelemetry(session, browserTelemetryService.handleEvent(event));
+  }
+  
+  /**
+   * Records a heartbeat from the candidate's exam tab. Returns the stored
+   * monitoring data when the heartbeat ended a recordable outage, or null
+   * otherwise.
+   */
+  async recordHeartbeat(sessionId: string, socketId: string): Promise<CallMonitoringData | null> {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    
+    return this.saveConnectionOutages(session, presenceService.heartbeat(sessionId, socketId));
+  }
+  
+  private async analyzeSample(
+    session: ProctorSession,
+    sample: Omit<MonitoringSample, 'seq'> & { seq?: number }
+  ): Promise<CallMonitoringData> {
+    const { gazeData, audioData } = sample;
     const monitoringData: CallMonitoringData = {
-      sessionId,
-      timestamp: new Date(),
+      sessionId: session.id,
+      tenantId: session.tenantId,
+      seq: sample.seq,
+      timestamp: sample.timestamp,
       gazeData,
       audioData,
       suspiciousActivity: []
     };
     
-    // Analyze for suspicious activity
-    if (gazeData?.lookingAway && gazeData.duration > 5000) {
+    // Analyze for suspicious activity using the session's rule set
+    const activities = await ruleEngineService.evaluate(session, {
+      timestamp: monitoringData.timestamp,
+      gazeData,
+      audioData
+    });
+    monitoringData.suspiciousActivity?.push(...activities);
+    
+    const environmentChange = audioData ? noiseFloorService.update(session.id, audioData, monitoringData.timestamp) : null;
+    if (environmentChange) {
+      const direction = environmentChange.levelShiftDb >= 0 ? 'rose' : 'dropped';
       monitoringData.suspiciousActivity?.push({
-        type: 'gaze_away',
-        severity: 'medium',
-        timestamp: new Date(),
-        description: `User looked away for ${gazeData.duration}ms`,
-        confidence: gazeData.confidence
+        type: 'environment_change',
+        severity: environmentChange.confidence >= 0.9 ? 'high' : 'medium',
+        timestamp: monitoringData.timestamp,
+        description: `Background noise ${direction} by ${Math.abs(environmentChange.levelShiftDb).toFixed(1)} dB ` +
+          `(${Math.round(environmentChange.profileShift * 100)}% spectral shift)`,
+        confidence: environmentChange.confidence
       });
     }
     
-    if (audioData?.multipleVoices) {
-      monitoringData.suspiciousActivity?.push({
-        type: 'multiple_voices',
-        severity: 'high',
-        timestamp: new Date(),
-        description: 'Multiple voices detected in audio',
-        confidence: 0.8
-      });
+    return monitoringData;
+  }
+  
+  private async saveTelemetry(
+    session: ProctorSession,
+    observations: TelemetryObservation[]
+  ): Promise<CallMonitoringData | null> {
+    if (observations.length === 0) {
+      return null;
     }
     
-    // Save to database
+    const activities: SuspiciousActivity[] = [];
+    for (const observation of observations) {
+      activities.push(...await ruleEngineService.evaluate(session, {
+        timestamp: observation.timestamp,
+        telemetry: observation
+      }));
+    }
+    
+    // Observations are kept even when no rule fires so rule sets can be replayed
+    const monitoringData: CallMonitoringData = {
+      sessionId: session.id,
+      tenantId: session.tenantId,
+      timestamp: new Date(),
+      telemetry: observations,
+      suspiciousActivity: activities
+    };
+    
     const monitoringDoc = new CallMonitoringDataModel(monitoringData);
     await monitoringDoc.save();
+    await incidentAggregatorService.ingest(session.id, String(monitoringDoc._id), activities);
+    riskScoreService.record(session.id, activities);
     
-    console.log(`Recorded monitoring data for session ${sessionId}`);
+    console.log(`Recorded ${observations.length} browser observation(s) for session ${session.id}`);
+    return monitoringData;
+  }
+  
+  private async saveConnectionOutages(
+    session: ProctorSession,
+    outages: ConnectionOutage[]
+  ): Promise<CallMonitoringData | null> {
+    if (outages.length === 0) {
+      return null;
+    }
+    
+    const activities: SuspiciousActivity[] = outages.map(outage => {
+      const seconds = outage.durationMs / 1000;
+      return {
+        type: 'connection_lost',
+        severity: seconds >= CONNECTION_LOST_SEVERITY.high ? 'high' : seconds >= CONNECTION_LOST_SEVERITY.medium ? 'medium' : 'low',
+        timestamp: outage.startTime,
+        startTime: outage.startTime,
+        endTime: outage.endTime,
+        description: `Candidate disconnected for ${seconds.toFixed(1)}s`,
+        // Long outages are less likely to be a passing network problem
+        confidence: Math.min(0.95, 0.6 + seconds / 300)
+      };
+    });
+    
+    const monitoringData: CallMonitoringData = {
+      sessionId: session.id,
+      tenantId: session.tenantId,
+      timestamp: new Date(),
+      suspiciousActivity: activities
+    };
+    
+    const monitoringDoc = new CallMonitoringDataModel(monitoringData);
+    await monitoringDoc.save();
+    await incidentAggregatorService.ingest(session.id, String(monitoringDoc._id), activities);
+    riskScoreService.record(session.id, activities);
+    
+    console.log(`Recorded ${outages.length} connection outage(s) for session ${session.id}`);
+    return monitoringData;
+  }
+  
+  // Candidates who stay away past the reconnect window have their session paused or ended
+  private async handleConnectionExpired(sessionId: string, action: DisconnectAction): Promise<void> {
+    try {
+      if (action === 'end') {
+        await this.endProctoring(sessionId, 'connection_lost');
+      } else {
+        await this.pauseProctoring(sessionId, 'connection_lost');
+      }
+    } catch (error) {
+      console.error(`Error trying to ${action} session ${sessionId} after the candidate disconnected:`, error);
+    }
+  }
+  
+  /**
+   * When an uploaded recording began, and how far into the session that was:
+   * the last time recording was started before the upload or, for a
+   * recording made without starting recording, its length before the
+   * upload. Never before the session itself started.
+   */
+  async locateRecording(
+    sessionId: string,
+    uploadedAt: Date,
+    durationSeconds: number
+  ): Promise<{ startTime: Date; offsetSeconds: number }> {
+    const sessionDoc = await ProctorSessionModel.findOne({ sessionId }, { startTime: 1, statusHistory: 1 }).lean();
+    if (!sessionDoc) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    
+    const recordingStart = (sessionDoc.statusHistory || [])
+      .filter(change => change.to === 'recording' && change.at <= uploadedAt)
+      .pop();
+    const start = recordingStart ? recordingStart.at.getTime() : uploadedAt.getTime() - durationSeconds * 1000;
+    const startTime = new Date(Math.max(sessionDoc.startTime.getTime(), start));
+    return { startTime, offsetSeconds: (startTime.getTime() - sessionDoc.startTime.getTime()) / 1000 };
+  }
+  
+  /**
+   * Records face episodes found in an uploaded webcam video as incidents.
+   * Episode offsets are relative to the video, which is taken to begin when
+   * the session first started recording (or at session start).
+   */
+  async recordFaceEpisodes(sessionId: string, episodes: FaceEpisode[]): Promise<void> {
+    if (episodes.length === 0) {
+      return;
+    }
+    
+    const sessionDoc = await ProctorSessionModel.findOne({ sessionId });
+    if (!sessionDoc) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    
+    const recordingStart = (sessionDoc.statusHistory || []).find(change => change.to === 'recording');
+    const videoStart = (recordingStart ? recordingStart.at : sessionDoc.startTime).getTime();
+    
+    const monitoringData: CallMonitoringData[] = episodes.map(episode => {
+      const startTime = new Date(videoStart + episode.start * 1000);
+      const endTime = new Date(videoStart + episode.end * 1000);
+      const seconds = episode.end - episode.start;
+      const thresholds = FACE_EPISODE_SEVERITY[episode.type];
+      
+      const activity: SuspiciousActivity = {
+        type: episode.type,
+        severity: seconds >= thresholds.high ? 'high' : seconds >= thresholds.medium ? 'medium' : 'low',
+        timestamp: startTime,
+        startTime,
+        endTime,
+        description: episode.type === 'face_not_detected'
+          ? `No face visible in video for ${seconds.toFixed(1)}s`
+          : `${episode.faceCount} faces visible in video for ${seconds.toFixed(1)}s`,
+        // Longer episodes are less likely to be detector misses
+        confidence: Math.min(0.95, 0.6 + seconds / 30)
+      };
+      
+      return {
+        sessionId,
+        tenantId: sessionDoc.tenantId,
+        timestamp: startTime,
+        suspiciousActivity: [activity]
+      };
+    });
+    
+    await this.saveRecordingEvidence(sessionId, sessionDoc.status, monitoringData);
+    console.log(`Recorded ${episodes.length} face episode(s) for session ${sessionId}`);
+  }
+  
+  /**
+   * Records a recording's speaker analysis as evidence when more than one
+   * voice was heard. The whole recording is one sample for the session's
+   * rules, and the incidents it raises span the time the other voices were
+   * heard. Returns the stored monitoring data, or null for a single voice.
+   */
+  async recordSpeakerEvidence(
+    sessionId: string,
+    recordingStart: Date,
+    audioData: AudioAnalysisData,
+    speakers: SpeakerAnalysis
+  ): Promise<CallMonitoringData | null> {
+    if (speakers.speakerCount < 2) {
+      return null;
+    }
+    
+    const sessionDoc = await ProctorSessionModel.findOne({ sessionId }).lean();
+    if (!sessionDoc) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    const session = this.activeSessions.get(sessionId) ?? this.toSession(sessionDoc);
+    
+    // The voice heard most is taken to be the candidate's
+    const ranges = [...speakers.speakers]
+      .sort((a, b) => b.speechSeconds - a.speechSeconds)
+      .slice(1)
+      .flatMap(speaker => speaker.ranges);
+    const startTime = new Date(recordingStart.getTime() + Math.min(...ranges.map(range => range.start)) * 1000);
+    const endTime = new Date(recordingStart.getTime() + Math.max(...ranges.map(range => range.end)) * 1000);
+    
+    const activities = await ruleEngineService.evaluateStandalone(session, { timestamp: startTime, audioData });
+    const monitoringData: CallMonitoringData = {
+      sessionId,
+      tenantId: sessionDoc.tenantId,
+      timestamp: startTime,
+      audioData,
+      suspiciousActivity: activities.map(activity => ({ ...activity, startTime, endTime }))
+    };
+    
+    await this.saveRecordingEvidence(sessionId, sessionDoc.status, [monitoringData]);
+    console.log(`Recorded ${speakers.speakerCount} speakers in a recording for session ${sessionId}`);
+    return monitoringData;
+  }
+  
+  // Evidence from recordings usually arrives late, after the exam has even ended
+  private async saveRecordingEvidence(
+    sessionId: string,
+    sessionStatus: SessionStatus,
+    monitoringData: CallMonitoringData[]
+  ): Promise<void> {
+    const monitoringDocs = await CallMonitoringDataModel.insertMany(monitoringData);
+    for (const monitoringDoc of monitoringDocs) {
+      await incidentAggregatorService.ingest(sessionId, String(monitoringDoc._id), monitoringDoc.suspiciousActivity || []);
+    }
+    if (!this.activeSessions.has(sessionId)) {
+      await incidentAggregatorService.closeSession(sessionId);
+    }
+    
+    const activities = monitoringData.flatMap(data => data.suspiciousActivity || []);
+    if (!riskScoreService.record(sessionId, activities) && sessionStatus === 'ended') {
+      // Keep the stored final score current
+      const riskScore = await riskScoreService.calculate(sessionId);
+      await ProctorSessionModel.updateOne({ sessionId }, { $set: { riskScore } });
+      riskScoreService.emit('score', riskScore);
+      await reviewService.enqueueIfFlagged(sessionId, riskScore);
+    }
+  }
+  
+  /**
+   * Replaces the stored roster of people seen on the session's external call.
+   */
+  async updateParticipants(sessionId: string, participants: SessionParticipant[]): Promise<void> {
+    const session = this.activeSessions.get(sessionId);
+    if (session) {
+      session.participants = participants;
+    }
+    await ProctorSessionModel.updateOne({ sessionId }, { $set: { participants } });
   }
   
   async getSessionStatus(sessionId: string): Promise<ProctorSession | null> {
     return this.activeSessions.get(sessionId) || null;
   }
   
-  async getAllActiveSessions(): Promise<ProctorSession[]> {
-    return Array.from(this.activeSessions.values());
+  // Every live session, or only one tenant's
+  async getAllActiveSessions(filter: { tenantId?: string } = {}): Promise<ProctorSession[]> {
+    return Array.from(this.activeSessions.values())
+      .filter(session => !filter.tenantId || session.tenantId === filter.tenantId);
+  }
+  
+  // The tenant a session belongs to, or undefined for sessions without one (or unknown sessions)
+  async getSessionTenant(sessionId: string): Promise<string | undefined> {
+    const session = this.activeSessions.get(sessionId);
+    if (session) {
+      return session.tenantId;
+    }
+    const sessionDoc = await ProctorSessionModel.findOne({ sessionId }, { tenantId: 1 }).lean();
+    return sessionDoc?.tenantId;
+  }
+  
+  getActiveSessionsForCall(externalCallId: string): ProctorSession[] {
+    return Array.from(this.activeSessions.values()).filter(session => session.externalCallId === externalCallId);
+  }
+  
+  async getSessionHistory(userId: string, filter: { tenantId?: string } = {}): Promise<ProctorSession[]> {
+    const sessions = await ProctorSessionModel.find(filter.tenantId ? { userId, tenantId: filter.tenantId } : { userId }).lean();
+    return sessions.map(session => this.toSession(session));
   }
   
-  async getSessionHistory(userId: string): Promise<ProctorSession[]> {
-    const sessions = await ProctorSessionModel.find({ userId }).lean();
-    return sessions.map(session => ({
+  async getExamSessions(examId: string, slotId?: string): Promise<ProctorSession[]> {
+    const sessions = await ProctorSessionModel.find(slotId ? { examId, slotId } : { examId })
+      .sort({ startTime: 1 })
+      .lean();
+    return sessions.map(session => this.toSession(session));
+  }
+  
+  private toSession(session: Omit<IProctorSession, keyof Document>): ProctorSession {
+    return {
       id: session.sessionId,
       userId: session.userId,
       externalCallId: session.externalCallId,
       callPlatform: session.callPlatform,
+      tenantId: session.tenantId,
+      examId: session.examId,
+      slotId: session.slotId,
       status: session.status,
+      statusHistory: session.statusHistory || [],
+      pausedDurationMs: session.pausedDurationMs || 0,
+      timeLimit: session.timeLimit?.durationMs !== undefined ? session.timeLimit : undefined,
       startTime: session.startTime,
       endTime: session.endTime,
+      riskScore: session.riskScore,
+      review: session.review,
+      participants: session.participants,
       recordingPaths: session.recordingPaths,
       metadata: session.metadata
-    }));
+    };
   }
 }
 
@@ -1,77 +1,246 @@
-import { GazeTrackingData } from '../types';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type * as OpenCV from 'opencv4nodejs';
+import { FaceEpisode, GazeTrackingData } from '../types';
+import { recordingService } from './recording';
+
+export interface VideoGazeConfig {
+  fps: number; // frames sampled per second of video
+  screenWidth: number;
+  screenHeight: number;
+  awayRadius: number; // px from screen centre beyond which the candidate is looking away
+  pupilWeight: number; // share of the gaze offset taken from pupil position vs head position
+  minEpisodeSeconds: number; // shorter face episodes are treated as detector flicker
+}
+
+interface FrameGazeEstimate {
+  faceCount: number;
+  eyeCount: number;
+  // Normalized gaze offset from the camera axis, -1 to 1 in image coordinates
+  offsetX: number;
+  offsetY: number;
+}
+
+interface VisionModels {
+  cv: typeof OpenCV;
+  faceClassifier: OpenCV.CascadeClassifier;
+  eyeClassifier: OpenCV.CascadeClassifier;
+}
 
 export class GazeTrackingService {
-  private isTracking: boolean = false;
-  private trackingInterval: NodeJS.Timeout | null = null;
-  
-  constructor() {
+  private config: VideoGazeConfig;
+  private vision: VisionModels | null = null;
+
+  constructor(config: Partial<VideoGazeConfig> = {}) {
+    this.config = {
+      fps: parseFloat(process.env.GAZE_VIDEO_FPS || '2'),
+      screenWidth: 1920,
+      screenHeight: 1080,
+      awayRadius: 400,
+      pupilWeight: 0.7,
+      minEpisodeSeconds: 1,
+      ...config
+    };
     console.log('Gaze Tracking Service initialized');
   }
-  
-  startTracking(sessionId: string, callback: (data: GazeTrackingData) => void): void {
-    if (this.isTracking) {
-      console.log('Gaze tracking already active');
-      return;
+
+  /**
+   * Live gaze for the session's pipeline. Webcam frames are not streamed to
+   * the server, so there is never a sample; gaze is estimated from uploaded
+   * recordings instead.
+   */
+  sampleGaze(sessionId: string): GazeTrackingData | null {
+    return null;
+  }
+
+  private isLookingAway(x: number, y: number): boolean {
+    const centerX = this.config.screenWidth / 2;
+    const centerY = this.config.screenHeight / 2;
+    const distanceFromCenter = Math.sqrt(
+      Math.pow(x - centerX, 2) + Math.pow(y - centerY, 2)
+    );
+    return distanceFromCenter > this.config.awayRadius;
+  }
+
+  get videoFps(): number {
+    return this.config.fps;
+  }
+
+  /**
+   * Estimates a gaze time series from a recorded webcam video. Frames are
+   * sampled with ffmpeg at the configured rate and each one is run through the
+   * Haar cascades bundled with OpenCV to locate the face, eyes and pupils.
+   */
+  async processVideoForGazeTracking(
+    videoPath: string,
+    onProgress?: (fraction: number) => void
+  ): Promise<GazeTrackingData[]> {
+    console.log(`Processing video for gaze tracking: ${videoPath}`);
+
+    const fps = this.config.fps;
+    const frameDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'gaze-frames-'));
+
+    try {
+      const framePaths = await recordingService.extractFrames(videoPath, frameDir, fps);
+      const series: GazeTrackingData[] = [];
+      let awaySince: number | null = null;
+
+      for (let frameIndex = 0; frameIndex < framePaths.length; frameIndex++) {
+        const timestamp = Math.round((frameIndex / fps) * 1000);
+        const estimate = await this.estimateFrame(framePaths[frameIndex]);
+
+        // The webcam image is mirrored relative to the screen the candidate faces
+        const x = this.config.screenWidth / 2 - estimate.offsetX * this.config.screenWidth / 2;
+        const y = this.config.screenHeight / 2 + estimate.offsetY * this.config.screenHeight / 2;
+        const lookingAway = estimate.faceCount === 0 || this.isLookingAway(x, y);
+
+        if (lookingAway) {
+          awaySince = awaySince ?? timestamp;
+        } else {
+          awaySince = null;
+        }
+
+        series.push({
+          x,
+          y,
+          confidence: this.estimateConfidence(estimate),
+          lookingAway,
+          duration: awaySince !== null ? timestamp - awaySince : 0,
+          timestamp,
+          frameIndex,
+          faceCount: estimate.faceCount
+        });
+
+        if (onProgress) {
+          onProgress((frameIndex + 1) / framePaths.length);
+        }
+      }
+
+      console.log(`Estimated gaze for ${series.length} frame(s) of ${videoPath}`);
+      return series;
+    } finally {
+      await fs.promises.rm(frameDir, { recursive: true, force: true });
     }
-    
-    this.isTracking = true;
-    console.log(`Started gaze tracking for session ${sessionId}`);
-    
-    // Simulate gaze tracking data (in real implementation, this would use OpenCV or similar)
-    this.trackingInterval = setInterval(() => {
-      const gazeData: GazeTrackingData = this.simulateGazeData();
-      callback(gazeData);
-    }, 1000); // Track every second
   }
-  
-  stopTracking(): void {
-    if (this.trackingInterval) {
-      clearInterval(this.trackingInterval);
-      this.trackingInterval = null;
+
+  /**
+   * Merges consecutive frames with no face, or with more than one, into
+   * episodes. Expects a series produced by processVideoForGazeTracking.
+   */
+  detectFaceEpisodes(series: GazeTrackingData[], fps: number = this.config.fps): FaceEpisode[] {
+    const frameSeconds = 1 / fps;
+    const episodes: FaceEpisode[] = [];
+    let current: FaceEpisode | null = null;
+
+    for (const point of series) {
+      if (point.faceCount === undefined || point.timestamp === undefined) {
+        continue;
+      }
+
+      const type = point.faceCount === 0 ? 'face_not_detected' : point.faceCount > 1 ? 'multiple_faces' : null;
+      const start = point.timestamp / 1000;
+
+      if (current && current.type !== type) {
+        episodes.push(current);
+        current = null;
+      }
+
+      if (type && current) {
+        current.end = start + frameSeconds;
+        current.faceCount = Math.max(current.faceCount, point.faceCount);
+      } else if (type) {
+        current = { type, start, end: start + frameSeconds, faceCount: point.faceCount };
+      }
+    }
+
+    if (current) {
+      episodes.push(current);
     }
-    this.isTracking = false;
-    console.log('Stopped gaze tracking');
+
+    return episodes.filter(episode => episode.end - episode.start >= this.config.minEpisodeSeconds);
   }
-  
-  private simulateGazeData(): GazeTrackingData {
-    // Simulate realistic gaze tracking data
-    const x = Math.random() * 1920; // Screen width
-    const y = Math.random() * 1080; // Screen height
-    const confidence = 0.7 + Math.random() * 0.3; // Between 0.7 and 1.0
-    
-    // Simulate looking away (outside center area)
-    const centerX = 1920 / 2;
-    const centerY = 1080 / 2;
-    const distanceFromCenter = Math.sqrt(
-      Math.pow(x - centerX, 2) + Math.pow(y - centerY, 2)
+
+  private async estimateFrame(framePath: string): Promise<FrameGazeEstimate> {
+    const { cv, faceClassifier, eyeClassifier } = this.loadVision();
+    const image = await cv.imreadAsync(framePath);
+    const gray = image.bgrToGray().equalizeHist();
+
+    const minFaceSize = Math.round(Math.min(gray.cols, gray.rows) / 8);
+    const { objects: faces } = await faceClassifier.detectMultiScaleAsync(
+      gray, 1.1, 5, 0, new cv.Size(minFaceSize, minFaceSize)
     );
-    const lookingAway = distanceFromCenter > 400; // Looking more than 400px from center
-    
-    const duration = lookingAway ? Math.random() * 10000 : 0; // Up to 10 seconds
-    
+    if (faces.length === 0) {
+      return { faceCount: 0, eyeCount: 0, offsetX: 0, offsetY: 0 };
+    }
+
+    // The largest face is taken to be the candidate's
+    const face = faces.reduce((largest, rect) =>
+      rect.width * rect.height > largest.width * largest.height ? rect : largest);
+    const headX = ((face.x + face.width / 2) / gray.cols - 0.5) * 2;
+    const headY = ((face.y + face.height / 2) / gray.rows - 0.5) * 2;
+
+    // Eyes sit in the upper half of the face
+    const eyeRegion = gray.getRegion(new cv.Rect(face.x, face.y, face.width, Math.round(face.height / 2)));
+    const minEyeSize = Math.round(face.width / 8);
+    const { objects: eyes } = await eyeClassifier.detectMultiScaleAsync(
+      eyeRegion, 1.1, 4, 0, new cv.Size(minEyeSize, minEyeSize)
+    );
+    const pupils = eyes
+      .sort((a, b) => b.width * b.height - a.width * a.height)
+      .slice(0, 2)
+      .map(eye => this.locatePupil(cv, eyeRegion.getRegion(eye)));
+
+    if (pupils.length === 0) {
+      return { faceCount: faces.length, eyeCount: 0, offsetX: headX, offsetY: headY };
+    }
+
+    const pupilX = pupils.reduce((sum, pupil) => sum + pupil.x, 0) / pupils.length;
+    const pupilY = pupils.reduce((sum, pupil) => sum + pupil.y, 0) / pupils.length;
+    const weight = this.config.pupilWeight;
+
     return {
-      x,
-      y,
-      confidence,
-      lookingAway,
-      duration
+      faceCount: faces.length,
+      eyeCount: pupils.length,
+      offsetX: weight * pupilX + (1 - weight) * headX,
+      offsetY: weight * pupilY + (1 - weight) * headY
     };
   }
-  
-  async processVideoForGazeTracking(videoPath: string): Promise<GazeTrackingData[]> {
-    // Placeholder for video processing
-    // In real implementation, this would use OpenCV or similar to analyze video frames
-    console.log(`Processing video for gaze tracking: ${videoPath}`);
-    
-    // Simulate processing delay
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    // Return simulated results
-    return [
-      this.simulateGazeData(),
-      this.simulateGazeData(),
-      this.simulateGazeData()
-    ];
+
+  /**
+   * The pupil is the darkest blob in the eye; returns its offset from the eye
+   * centre, -1 to 1 on each axis.
+   */
+  private locatePupil(cv: typeof OpenCV, eye: OpenCV.Mat): { x: number; y: number } {
+    const { minLoc } = eye.gaussianBlur(new cv.Size(5, 5), 0).minMaxLoc();
+    return {
+      x: (minLoc.x / eye.cols - 0.5) * 2,
+      y: (minLoc.y / eye.rows - 0.5) * 2
+    };
+  }
+
+  private estimateConfidence(estimate: FrameGazeEstimate): number {
+    if (estimate.faceCount === 0) {
+      return 0.6;
+    }
+    if (estimate.eyeCount >= 2) {
+      return 0.9;
+    }
+    // Without both eyes the estimate leans on head position alone
+    return estimate.eyeCount === 1 ? 0.7 : 0.5;
+  }
+
+  private loadVision(): VisionModels {
+    if (!this.vision) {
+      // Loaded on first use so the server still starts where the native binding is unavailable
+      const cv: typeof OpenCV = require('opencv4nodejs');
+      this.vision = {
+        cv,
+        faceClassifier: new cv.CascadeClassifier(cv.HAAR_FRONTALFACE_ALT2),
+        eyeClassifier: new cv.CascadeClassifier(cv.HAAR_EYE)
+      };
+    }
+    return this.vision;
   }
 }
 
@@ -0,0 +1,215 @@
+import { v4 as uuidv4 } from 'uuid';
+import { IncidentModel, IIncident } from '../models';
+import { Incident, SuspiciousActivity } from '../types';
+import { outboundWebhookService } from './outboundWebhook';
+
+export interface IncidentQuery {
+  type?: SuspiciousActivity['type'];
+  severity?: SuspiciousActivity['severity'];
+  status?: Incident['status'];
+  from?: Date;
+  to?: Date;
+  page: number;
+  pageSize: number;
+}
+
+interface OpenIncident {
+  incidentId: string;
+  endTime: number;
+  severity: SuspiciousActivity['severity'];
+  peakConfidence: number;
+}
+
+const SEVERITY_RANK: Record<SuspiciousActivity['severity'], number> = {
+  low: 0,
+  medium: 1,
+  high: 2
+};
+
+export class IncidentAggregatorService {
+  // Most recent incident of each type per session, still open for merging
+  private openIncidents: Map<string, Map<SuspiciousActivity['type'], OpenIncident>> = new Map();
+  private mergeGapMs: number;
+
+  constructor() {
+    this.mergeGapMs = parseFloat(process.env.INCIDENT_MERGE_GAP_SECONDS || '3') * 1000;
+    console.log('Incident Aggregator Service initialized');
+  }
+
+  /**
+   * Folds the suspicious activity from one stored monitoring sample into
+   * incidents. Activity that starts within the merge gap of an open incident
+   * of the same type extends it; anything later starts a new incident.
+   */
+  async ingest(sessionId: string, sampleId: string, activities: SuspiciousActivity[]): Promise<Incident[]> {
+    const incidents: Incident[] = [];
+    for (const activity of activities) {
+      incidents.push(await this.ingestActivity(sessionId, sampleId, activity));
+    }
+    return incidents;
+  }
+
+  /**
+   * Reloads a live session's open incidents, e.g. after a restart.
+   */
+  async restoreSession(sessionId: string): Promise<void> {
+    const incidentDocs = await IncidentModel.find({ sessionId, status: 'open' });
+    const open = new Map<SuspiciousActivity['type'], OpenIncident>();
+    for (const incidentDoc of incidentDocs) {
+      open.set(incidentDoc.type, {
+        incidentId: incidentDoc.incidentId,
+        endTime: incidentDoc.endTime.getTime(),
+        severity: incidentDoc.severity,
+        peakConfidence: incidentDoc.peakConfidence
+      });
+    }
+    this.openIncidents.set(sessionId, open);
+  }
+
+  async closeSession(sessionId: string): Promise<void> {
+    this.openIncidents.delete(sessionId);
+    await IncidentModel.updateMany({ sessionId, status: 'open' }, { $set: { status: 'closed' } });
+  }
+
+  async getIncidents(sessionId: string, query: IncidentQuery): Promise<{ incidents: Incident[]; total: number }> {
+    const filter: Record<string, unknown> = { sessionId };
+    if (query.type) {
+      filter.type = query.type;
+    }
+    if (query.severity) {
+      filter.severity = query.severity;
+    }
+    if (query.status) {
+      filter.status = query.status;
+    }
+    // Incidents overlapping the requested range
+    if (query.from) {
+      filter.endTime = { $gte: query.from };
+    }
+    if (query.to) {
+      filter.startTime = { $lte: query.to };
+    }
+
+    const [incidentDocs, total] = await Promise.all([
+      IncidentModel.find(filter)
+        .sort({ startTime: 1 })
+        .skip((query.page - 1) * query.pageSize)
+        .limit(query.pageSize),
+      IncidentModel.countDocuments(filter)
+    ]);
+
+    return { incidents: incidentDocs.map(incidentDoc => this.toIncident(incidentDoc)), total };
+  }
+
+  private async ingestActivity(
+    sessionId: string,
+    sampleId: string,
+    activity: SuspiciousActivity
+  ): Promise<Incident> {
+    let open = this.openIncidents.get(sessionId);
+    if (!open) {
+      open = new Map();
+      this.openIncidents.set(sessionId, open);
+    }
+
+    const startTime = new Date(activity.startTime || activity.timestamp);
+    const endTime = new Date(activity.endTime || activity.timestamp);
+    const current = open.get(activity.type);
+
+    if (current && startTime.getTime() - current.endTime <= this.mergeGapMs) {
+      const previousSeverity = current.severity;
+      current.endTime = Math.max(current.endTime, endTime.getTime());
+      if (SEVERITY_RANK[activity.severity] > SEVERITY_RANK[current.severity]) {
+        current.severity = activity.severity;
+      }
+      current.peakConfidence = Math.max(current.peakConfidence, activity.confidence);
+
+      const incidentDoc = await IncidentModel.findOneAndUpdate(
+        { incidentId: current.incidentId },
+        {
+          $set: {
+            endTime: new Date(current.endTime),
+            severity: current.severity,
+            peakConfidence: current.peakConfidence,
+            description: activity.description
+          },
+          $push: { sampleIds: sampleId }
+        },
+        { new: true }
+      );
+      if (incidentDoc) {
+        const incident = this.toIncident(incidentDoc);
+        if (current.severity === 'high' && previousSeverity !== 'high') {
+          await this.notifyHighSeverity(incident);
+        }
+        return incident;
+      }
+    }
+
+    if (current) {
+      await IncidentModel.updateOne({ incidentId: current.incidentId }, { $set: { status: 'closed' } });
+    }
+
+    const incidentDoc = new IncidentModel({
+      incidentId: uuidv4(),
+      sessionId,
+      type: activity.type,
+      severity: activity.severity,
+      status: 'open',
+      startTime,
+      endTime,
+      peakConfidence: activity.confidence,
+      description: activity.description,
+      ruleId: activity.ruleId,
+      sampleIds: [sampleId]
+    });
+    await incidentDoc.save();
+
+    open.set(activity.type, {
+      incidentId: incidentDoc.incidentId,
+      endTime: endTime.getTime(),
+      severity: activity.severity,
+      peakConfidence: activity.confidence
+    });
+
+    const incident = this.toIncident(incidentDoc);
+    if (incident.severity === 'high') {
+      await this.notifyHighSeverity(incident);
+    }
+    return incident;
+  }
+
+  // Fired once per incident, when it is created high or escalates to high
+  private async notifyHighSeverity(incident: Incident): Promise<void> {
+    await outboundWebhookService.publish('incident.high_severity', incident.sessionId, {
+      incident: {
+        id: incident.id,
+        type: incident.type,
+        severity: incident.severity,
+        startTime: incident.startTime,
+        endTime: incident.endTime,
+        peakConfidence: incident.peakConfidence,
+        description: incident.description,
+        ruleId: incident.ruleId
+      }
+    });
+  }
+
+  private toIncident(incidentDoc: IIncident): Incident {
+    return {
+      id: incidentDoc.incidentId,
+      sessionId: incidentDoc.sessionId,
+      type: incidentDoc.type,
+      severity: incidentDoc.severity,
+      status: incidentDoc.status,
+      startTime: incidentDoc.startTime,
+      endTime: incidentDoc.endTime,
+      peakConfidence: incidentDoc.peakConfidence,
+      description: incidentDoc.description,
+      ruleId: incidentDoc.ruleId,
+      sampleIds: incidentDoc.sampleIds
+    };
+  }
+}
+
+export const incidentAggregatorService = new IncidentAggregatorService();
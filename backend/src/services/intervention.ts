@@ -0,0 +1,259 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { InterventionEventModel, IInterventionEvent } from '../models';
+import { AuthContext, InterventionEvent, WarningPreset } from '../types';
+import { externalCallMonitoringService } from './externalCallMonitoring';
+
+const MAX_TEXT_LENGTH = 1000;
+
+// Status history reason for pauses a proctor forces without giving one
+const DEFAULT_PAUSE_REASON = 'proctor_intervention';
+
+export const WARNING_PRESETS: Record<WarningPreset, string> = {
+  eyes_on_screen: 'Please keep your eyes on your screen.',
+  no_other_people: 'Nobody else may be with you during the exam.',
+  no_devices: 'Put away your phone and any other devices.',
+  stay_in_exam_tab: 'Stay in the exam tab. Leaving it is recorded.',
+  keep_quiet: 'Please do not talk during the exam.'
+};
+
+export class InterventionValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid intervention: ${errors.join('; ')}`);
+    this.name = 'InterventionValidationError';
+  }
+}
+
+export class InterventionStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InterventionStateError';
+  }
+}
+
+/**
+ * Lets proctors step in while a session is live: warnings, a chat with the
+ * candidate, and forced pauses and ends. Everything sent, and every
+ * acknowledgement from the candidate, is kept as the session's intervention
+ * trail and emitted as an 'event' for delivery over the socket.
+ */
+export class InterventionService extends EventEmitter {
+
+  constructor() {
+    super();
+    console.log('Intervention Service initialized');
+  }
+
+  /**
+   * Warns the candidate with a preset or free text. The candidate has to
+   * acknowledge it.
+   */
+  async sendWarning(sessionId: string, sender: AuthContext, input: { preset?: unknown; text?: unknown }): Promise<InterventionEvent> {
+    const errors: string[] = [];
+    if (input.preset !== undefined && input.text !== undefined) {
+      errors.push('give either preset or text, not both');
+    } else if (input.preset !== undefined) {
+      if (typeof input.preset !== 'string' || !Object.keys(WARNING_PRESETS).includes(input.preset)) {
+        errors.push(`preset must be one of ${Object.keys(WARNING_PRESETS).join(', ')}`);
+      }
+    } else if (input.text === undefined) {
+      errors.push('preset or text is required');
+    } else {
+      errors.push(...this.validateText(input.text, 'text'));
+    }
+    if (errors.length > 0) {
+      throw new InterventionValidationError(errors);
+    }
+
+    const tenantId = await this.requireLiveSession(sessionId);
+    const preset = input.preset as WarningPreset | undefined;
+    return this.recordEvent({
+      sessionId,
+      tenantId,
+      type: 'warning',
+      senderId: sender.userId,
+      senderRole: sender.role,
+      preset,
+      text: preset ? WARNING_PRESETS[preset] : String(input.text).trim(),
+      requiresAck: true
+    });
+  }
+
+  // Chat messages go both ways and need no acknowledgement
+  async sendMessage(sessionId: string, sender: AuthContext, text: unknown): Promise<InterventionEvent> {
+    const errors = this.validateText(text, 'text');
+    if (errors.length > 0) {
+      throw new InterventionValidationError(errors);
+    }
+
+    const tenantId = await this.requireLiveSession(sessionId);
+    return this.recordEvent({
+      sessionId,
+      tenantId,
+      type: 'message',
+      senderId: sender.userId,
+      senderRole: sender.role,
+      text: String(text).trim(),
+      requiresAck: false
+    });
+  }
+
+  /**
+   * Pauses the session on a proctor's say-so and tells the candidate why.
+   */
+  async forcePause(sessionId: string, sender: AuthContext, reason?: unknown): Promise<InterventionEvent> {
+    const errors = reason === undefined ? [] : this.validateText(reason, 'reason');
+    if (errors.length > 0) {
+      throw new InterventionValidationError(errors);
+    }
+
+    const tenantId = await this.requireLiveSession(sessionId);
+    externalCallMonitoringService.assertTransition(sessionId, 'paused');
+    const text = reason === undefined ? undefined : String(reason).trim();
+
+    return this.recordEvent({
+      sessionId,
+      tenantId,
+      type: 'paused',
+      senderId: sender.userId,
+      senderRole: sender.role,
+      text,
+      requiresAck: true
+    }, () => externalCallMonitoringService.pauseProctoring(sessionId, text ?? DEFAULT_PAUSE_REASON, true));
+  }
+
+  /**
+   * Ends the session on a proctor's say-so. Unlike a pause, an end always
+   * needs a reason, which the candidate is shown.
+   */
+  async forceEnd(sessionId: string, sender: AuthContext, reason: unknown): Promise<InterventionEvent> {
+    const errors = this.validateText(reason, 'reason');
+    if (errors.length > 0) {
+      throw new InterventionValidationError(errors);
+    }
+
+    const tenantId = await this.requireLiveSession(sessionId);
+    externalCallMonitoringService.assertTransition(sessionId, 'ended');
+    const text = String(reason).trim();
+
+    return this.recordEvent({
+      sessionId,
+      tenantId,
+      type: 'ended',
+      senderId: sender.userId,
+      senderRole: sender.role,
+      text,
+      requiresAck: true
+    }, () => externalCallMonitoringService.endProctoring(sessionId, text));
+  }
+
+  /**
+   * Records that the candidate saw a warning, pause or end. Acknowledging
+   * twice returns the first acknowledgement. Returns null when the session
+   * has no such entry.
+   */
+  async acknowledge(sessionId: string, sender: AuthContext, eventId: string): Promise<InterventionEvent | null> {
+    const eventDoc = await InterventionEventModel.findOne({ sessionId, eventId }).lean();
+    if (!eventDoc) {
+      return null;
+    }
+    if (!eventDoc.requiresAck) {
+      throw new InterventionStateError(`Intervention ${eventId} does not need acknowledging`);
+    }
+
+    const existing = await this.findAcknowledgement(eventId);
+    if (existing) {
+      return existing;
+    }
+
+    try {
+      return await this.recordEvent({
+        sessionId,
+        tenantId: eventDoc.tenantId,
+        type: 'acknowledged',
+        senderId: sender.userId,
+        senderRole: sender.role,
+        requiresAck: false,
+        acknowledgesId: eventId
+      });
+    } catch (error) {
+      // Acknowledged at the same moment from another tab
+      if ((error as { code?: number }).code === 11000) {
+        return this.findAcknowledgement(eventId);
+      }
+      throw error;
+    }
+  }
+
+  // The session's whole trail, oldest first
+  async getEvents(sessionId: string): Promise<InterventionEvent[]> {
+    const eventDocs = await InterventionEventModel.find({ sessionId }).sort({ createdAt: 1 });
+    return eventDocs.map(eventDoc => this.toEvent(eventDoc));
+  }
+
+  // Interventions only reach candidates whose session is still running
+  private async requireLiveSession(sessionId: string): Promise<string | undefined> {
+    const session = await externalCallMonitoringService.getSessionStatus(sessionId);
+    if (!session) {
+      throw new InterventionStateError(`Session ${sessionId} is not live`);
+    }
+    return session.tenantId;
+  }
+
+  private async findAcknowledgement(eventId: string): Promise<InterventionEvent | null> {
+    const ackDoc = await InterventionEventModel.findOne({ acknowledgesId: eventId });
+    return ackDoc ? this.toEvent(ackDoc) : null;
+  }
+
+  private validateText(text: unknown, field: string): string[] {
+    if (typeof text !== 'string' || !text.trim()) {
+      return [`${field} is required`];
+    }
+    if (text.length > MAX_TEXT_LENGTH) {
+      return [`${field} must be at most ${MAX_TEXT_LENGTH} characters`];
+    }
+    return [];
+  }
+
+  /**
+   * Saves an entry to the trail and emits it. An intervention that changes the
+   * session passes the change as apply, which runs once the entry is saved so
+   * the trail never misses a pause or end that took effect.
+   */
+  private async recordEvent(
+    event: Omit<InterventionEvent, 'id' | 'createdAt'>,
+    apply?: () => Promise<unknown>
+  ): Promise<InterventionEvent> {
+    const eventDoc = new InterventionEventModel({
+      ...event,
+      eventId: uuidv4(),
+      createdAt: new Date()
+    });
+    await eventDoc.save();
+    if (apply) {
+      await apply();
+    }
+
+    const recorded = this.toEvent(eventDoc);
+    this.emit('event', recorded);
+    return recorded;
+  }
+
+  private toEvent(eventDoc: IInterventionEvent): InterventionEvent {
+    return {
+      id: eventDoc.eventId,
+      sessionId: eventDoc.sessionId,
+      tenantId: eventDoc.tenantId,
+      type: eventDoc.type,
+      senderId: eventDoc.senderId,
+      senderRole: eventDoc.senderRole,
+      preset: eventDoc.preset,
+      text: eventDoc.text,
+      requiresAck: eventDoc.requiresAck,
+      acknowledgesId: eventDoc.acknowledgesId,
+      createdAt: eventDoc.createdAt
+    };
+  }
+}
+
+export const interventionService = new InterventionService();
@@ -0,0 +1,890 @@
+import crypto, { KeyObject } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  LtiPlatformModel,
+  LtiResourceLinkModel,
+  LtiLaunchModel,
+  LtiLoginStateModel,
+  LtiToolKeyModel,
+  LtiGradeLinkModel,
+  ExamSlotModel,
+  ProctorSessionModel,
+  ILtiPlatform,
+  ILtiResourceLink,
+  ILtiLaunch
+} from '../models';
+import { LtiPlatform, LtiResourceLink, LtiLaunch, Exam, ExamSlot, SessionVerdict } from '../types';
+import { JwtUtil, JwtPayload, JwtError } from '../utils/jwt';
+import { examService } from './exam';
+
+export type LtiPlatformInput = Pick<
+  LtiPlatform,
+  'name' | 'issuer' | 'clientId' | 'deploymentIds' | 'authLoginUrl' | 'authTokenUrl' | 'jwksUrl'
+> & Partial<Pick<LtiPlatform, 'tenantId'>>;
+
+// Query or form parameters of an OIDC third-party login initiation
+export interface LtiLoginRequest {
+  iss?: string;
+  login_hint?: string;
+  target_link_uri?: string;
+  lti_message_hint?: string;
+  client_id?: string;
+  lti_deployment_id?: string;
+}
+
+const LTI_VERSION = '1.3.0';
+const LTI = 'https://purl.imsglobal.org/spec/lti/claim/';
+const LTI_DL = 'https://purl.imsglobal.org/spec/lti-dl/claim/';
+const AGS_ENDPOINT_CLAIM = 'https://purl.imsglobal.org/spec/lti-ags/claim/endpoint';
+const AGS_SCORE_SCOPE = 'https://purl.imsglobal.org/spec/lti-ags/scope/score';
+
+// Context and institution roles that manage an assignment rather than sit it
+const INSTRUCTOR_ROLE = /#(Instructor|Administrator|ContentDeveloper|TeachingAssistant)$/;
+
+// The id_token claims a launch uses, narrowed from the verified token
+interface LtiClaims {
+  sub: string;
+  messageType?: string;
+  deploymentId: string;
+  email?: string;
+  name?: string;
+  roles: string[];
+  resourceLinkId?: string;
+  context: { id?: string; title?: string };
+  custom: { examId?: string; slotId?: string };
+  ags: { scope: string[]; lineItem?: string };
+  returnUrl?: string;
+  deepLinking: { returnUrl?: string; acceptTypes?: string[]; data?: string };
+}
+
+// Launches must arrive this long after login initiation at most
+const LOGIN_STATE_TTL_MS = 10 * 60 * 1000;
+
+// Platform keys are refetched at least this often, and sooner for an unknown key ID
+const JWKS_CACHE_MS = 60 * 60 * 1000;
+
+export class LtiValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid LTI platform: ${errors.join('; ')}`);
+    this.name = 'LtiValidationError';
+  }
+}
+
+export class LtiLaunchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LtiLaunchError';
+  }
+}
+
+export class LtiPassbackStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LtiPassbackStateError';
+  }
+}
+
+export class LtiService {
+  private toolUrl: string;
+  private frontendUrl: string;
+  private launchTtlMs: number;
+  private jwksCache: Map<string, { keys: Map<string, KeyObject>; fetchedAt: number }> = new Map();
+  private accessTokens: Map<string, { token: string; expiresAt: number }> = new Map();
+  private toolKey: Promise<{ kid: string; privateKey: KeyObject }> | null = null;
+
+  constructor() {
+    this.toolUrl = (process.env.LTI_TOOL_URL || `http://localhost:${process.env.PORT || 3000}`).replace(/\/$/, '');
+    this.frontendUrl = (process.env.FRONTEND_URL || 'http://localhost:3001').replace(/\/$/, '');
+    this.launchTtlMs = parseFloat(process.env.LTI_LAUNCH_TTL_MINUTES || '15') * 60 * 1000;
+    console.log('LTI Service initialized');
+  }
+
+  /**
+   * The URLs a platform administrator needs to register this tool.
+   */
+  getToolConfiguration(): Record<string, string> {
+    return {
+      oidcLoginUrl: `${this.toolUrl}/api/lti/login`,
+      launchUrl: `${this.toolUrl}/api/lti/launch`,
+      deepLinkingUrl: `${this.toolUrl}/api/lti/launch`,
+      jwksUrl: `${this.toolUrl}/api/lti/jwks`
+    };
+  }
+
+  async getJwks(): Promise<{ keys: Record<string, unknown>[] }> {
+    await this.getToolKey();
+    const keyDocs = await LtiToolKeyModel.find().sort({ createdAt: -1 });
+    return {
+      keys: keyDocs.map(keyDoc => ({ ...keyDoc.publicJwk, kid: keyDoc.kid, alg: 'RS256', use: 'sig' }))
+    };
+  }
+
+  async listPlatforms(filter: { tenantId?: string } = {}): Promise<LtiPlatform[]> {
+    const query: Record<string, string> = {};
+    if (filter.tenantId) {
+      query.tenantId = filter.tenantId;
+    }
+
+    const platformDocs = await LtiPlatformModel.find(query).sort({ createdAt: -1 });
+    return platformDocs.map(platformDoc => this.toPlatform(platformDoc));
+  }
+
+  async getPlatform(platformId: string): Promise<LtiPlatform | null> {
+    const platformDoc = await LtiPlatformModel.findOne({ platformId });
+    return platformDoc ? this.toPlatform(platformDoc) : null;
+  }
+
+  async createPlatform(input: LtiPlatformInput): Promise<LtiPlatform> {
+    await this.validatePlatform(input);
+
+    const platformDoc = new LtiPlatformModel({
+      platformId: uuidv4(),
+      ...this.platformFields(input)
+    });
+    await platformDoc.save();
+
+    console.log(`Registered LTI platform ${platformDoc.platformId} (${input.issuer})`);
+    return this.toPlatform(platformDoc);
+  }
+
+  async updatePlatform(platformId: string, input: LtiPlatformInput): Promise<LtiPlatform | null> {
+    await this.validatePlatform(input, platformId);
+
+    const platformDoc = await LtiPlatformModel.findOneAndUpdate(
+      { platformId },
+      { $set: this.platformFields(input) },
+      { new: true }
+    );
+    if (!platformDoc) {
+      return null;
+    }
+
+    this.jwksCache.delete(platformDoc.jwksUrl);
+    this.clearAccessTokens(platformId);
+    console.log(`Updated LTI platform ${platformId}`);
+    return this.toPlatform(platformDoc);
+  }
+
+  async deletePlatform(platformId: string): Promise<boolean> {
+    const result = await LtiPlatformModel.deleteOne({ platformId });
+    if (result.deletedCount === 0) {
+      return false;
+    }
+
+    await Promise.all([
+      LtiResourceLinkModel.deleteMany({ platformId }),
+      LtiGradeLinkModel.deleteMany({ platformId }),
+      LtiLaunchModel.deleteMany({ platformId })
+    ]);
+    this.clearAccessTokens(platformId);
+    console.log(`Deleted LTI platform ${platformId}`);
+    return true;
+  }
+
+  async listResourceLinks(platformId: string): Promise<LtiResourceLink[]> {
+    const linkDocs = await LtiResourceLinkModel.find({ platformId }).sort({ createdAt: -1 });
+    return linkDocs.map(linkDoc => this.toResourceLink(linkDoc));
+  }
+
+  /**
+   * OIDC third-party login initiation: remembers a state and nonce for the
+   * launch that follows and returns the platform authorization URL to send
+   * the browser to.
+   */
+  async initiateLogin(request: LtiLoginRequest): Promise<string> {
+    if (!request.iss || !request.login_hint || !request.target_link_uri) {
+      throw new LtiLaunchError('iss, login_hint and target_link_uri are required');
+    }
+
+    const platformDoc = await this.findPlatform(request.iss, request.client_id);
+    if (request.lti_deployment_id && !platformDoc.deploymentIds.includes(request.lti_deployment_id)) {
+      throw new LtiLaunchError(`Deployment ${request.lti_deployment_id} is not registered`);
+    }
+
+    const state = crypto.randomBytes(24).toString('base64url');
+    const nonce = crypto.randomBytes(24).toString('base64url');
+    await LtiLoginStateModel.create({ state, nonce, platformId: platformDoc.platformId, createdAt: new Date() });
+
+    const url = new URL(platformDoc.authLoginUrl);
+    const params: Record<string, string | undefined> = {
+      scope: 'openid',
+      response_type: 'id_token',
+      response_mode: 'form_post',
+      prompt: 'none',
+      client_id: platformDoc.clientId,
+      redirect_uri: this.getToolConfiguration().launchUrl,
+      login_hint: request.login_hint,
+      lti_message_hint: request.lti_message_hint,
+      state,
+      nonce
+    };
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        url.searchParams.set(key, value);
+      }
+    }
+    return url.toString();
+  }
+
+  /**
+   * Validates a launch's id_token and records it as a launch ticket. Returns
+   * the frontend URL to land the user on: the candidate's pre-configured
+   * session, or the exam picker for a deep linking request.
+   */
+  async launch(idToken: string | undefined, state: string | undefined): Promise<string> {
+    if (!idToken || !state) {
+      throw new LtiLaunchError('id_token and state are required');
+    }
+
+    // A state can only be used once, which also rules out replaying the id_token
+    const loginState = await LtiLoginStateModel.findOneAndDelete({ state });
+    if (!loginState || Date.now() - loginState.createdAt.getTime() > LOGIN_STATE_TTL_MS) {
+      throw new LtiLaunchError('Unknown or expired login state');
+    }
+
+    const platformDoc = await LtiPlatformModel.findOne({ platformId: loginState.platformId });
+    if (!platformDoc) {
+      throw new LtiLaunchError('Platform is no longer registered');
+    }
+
+    const claims = await this.verifyIdToken(platformDoc, idToken, loginState.nonce);
+    const { messageType } = claims;
+    if (messageType === 'LtiResourceLinkRequest') {
+      const launchDoc = await this.handleResourceLink(platformDoc, claims);
+      return `${this.frontendUrl}/dashboard?lti=${launchDoc.launchId}`;
+    }
+    if (messageType === 'LtiDeepLinkingRequest') {
+      const launchDoc = await this.handleDeepLinkingRequest(platformDoc, claims);
+      return `${this.frontendUrl}/lti/deep-link?lti=${launchDoc.launchId}`;
+    }
+    throw new LtiLaunchError(`Unsupported LTI message type ${messageType}`);
+  }
+
+  async getLaunch(launchId: string): Promise<LtiLaunch | null> {
+    const launchDoc = await LtiLaunchModel.findOne({ launchId, expiresAt: { $gt: new Date() } });
+    return launchDoc ? this.toLaunch(launchDoc) : null;
+  }
+
+  // Marks a learner's launch as used so its ticket cannot be traded for tokens again
+  async claimLaunch(launchId: string): Promise<LtiLaunch | null> {
+    const launchDoc = await LtiLaunchModel.findOneAndUpdate(
+      {
+        launchId,
+        messageType: 'resource_link',
+        isInstructor: false,
+        claimedAt: { $exists: false },
+        expiresAt: { $gt: new Date() }
+      },
+      { $set: { claimedAt: new Date() } },
+      { new: true }
+    );
+    return launchDoc ? this.toLaunch(launchDoc) : null;
+  }
+
+  /**
+   * The exams (and their slots) an instructor can pick from while answering
+   * a deep linking request, limited to the platform's tenant. Returns null
+   * for an unknown or expired ticket.
+   */
+  async getDeepLinkOptions(launchId: string): Promise<{ exams: Exam[]; slots: ExamSlot[] } | null> {
+    const launchDoc = await LtiLaunchModel.findOne({ launchId, messageType: 'deep_linking', expiresAt: { $gt: new Date() } });
+    if (!launchDoc) {
+      return null;
+    }
+    if (!launchDoc.isInstructor) {
+      throw new LtiLaunchError('Only instructors can attach proctoring to an assignment');
+    }
+
+    const platformDoc = await LtiPlatformModel.findOne({ platformId: launchDoc.platformId });
+    const exams = await examService.listExams({ tenantId: platformDoc?.tenantId });
+    const slots = (await Promise.all(exams.map(exam => examService.listSlots(exam.id)))).flat();
+    return { exams, slots };
+  }
+
+  /**
+   * Answers a deep linking request with an LTI resource link for the chosen
+   * exam, plus a line item so the platform creates a gradebook column for
+   * the integrity verdict. The browser posts the signed response back to the
+   * platform. Returns null for an unknown or expired ticket.
+   */
+  async createDeepLinkResponse(
+    launchId: string,
+    selection: { examId: string; slotId?: string; title?: string }
+  ): Promise<{ returnUrl: string; jwt: string } | null> {
+    const launchDoc = await LtiLaunchModel.findOne({ launchId, messageType: 'deep_linking', expiresAt: { $gt: new Date() } });
+    if (!launchDoc || !launchDoc.deepLinkReturnUrl) {
+      return null;
+    }
+    if (!launchDoc.isInstructor) {
+      throw new LtiLaunchError('Only instructors can attach proctoring to an assignment');
+    }
+
+    const platformDoc = await LtiPlatformModel.findOne({ platformId: launchDoc.platformId });
+    const exam = selection.examId ? await examService.getExam(selection.examId) : null;
+    // A platform registered to a tenant can only link that tenant's exams
+    if (!platformDoc || !exam || (platformDoc.tenantId && exam.tenantId !== platformDoc.tenantId)) {
+      throw new LtiLaunchError('Unknown platform or exam');
+    }
+    if (selection.slotId && !(await examService.getSlot(exam.id, selection.slotId))) {
+      throw new LtiLaunchError(`Slot ${selection.slotId} does not belong to exam ${exam.id}`);
+    }
+
+    const title = selection.title || exam.title;
+    const contentItem = {
+      type: 'ltiResourceLink',
+      title,
+      text: exam.description,
+      url: this.getToolConfiguration().launchUrl,
+      custom: {
+        exam_id: exam.id,
+        ...(selection.slotId ? { slot_id: selection.slotId } : {})
+      },
+      lineItem: {
+        scoreMaximum: 1,
+        label: `${title} (integrity)`,
+        resourceId: exam.id,
+        tag: 'proctoring-integrity'
+      }
+    };
+
+    const now = Math.floor(Date.now() / 1000);
+    const { kid, privateKey } = await this.getToolKey();
+    const jwt = JwtUtil.sign({
+      iss: platformDoc.clientId,
+      aud: platformDoc.issuer,
+      iat: now,
+      exp: now + 5 * 60,
+      nonce: crypto.randomBytes(16).toString('base64url'),
+      [`${LTI}deployment_id`]: launchDoc.deploymentId,
+      [`${LTI}message_type`]: 'LtiDeepLinkingResponse',
+      [`${LTI}version`]: LTI_VERSION,
+      [`${LTI_DL}content_items`]: [contentItem],
+      ...(launchDoc.deepLinkData ? { [`${LTI_DL}data`]: launchDoc.deepLinkData } : {})
+    }, privateKey, kid);
+
+    // Deep linking responses are one-shot
+    await LtiLaunchModel.deleteOne({ launchId });
+    console.log(`Linked exam ${exam.id} into platform ${platformDoc.platformId} by deep linking`);
+    return { returnUrl: launchDoc.deepLinkReturnUrl, jwt };
+  }
+
+  /**
+   * Posts a session's integrity verdict to the gradebook of every LTI
+   * assignment the candidate launched the exam from: cleared scores full
+   * marks, a violation scores zero and an inconclusive review is left for
+   * the instructor to grade. Never throws; failures are logged and can be
+   * resent by hand.
+   */
+  async passbackVerdict(sessionId: string, verdict: SessionVerdict, comment?: string): Promise<number> {
+    let sent = 0;
+    try {
+      const sessionDoc = await ProctorSessionModel.findOne({ sessionId }, { userId: 1, examId: 1 }).lean();
+      if (!sessionDoc?.examId) {
+        return sent;
+      }
+
+      const linkDocs = await LtiResourceLinkModel.find({ examId: sessionDoc.examId, lineItemUrl: { $exists: true } });
+      for (const linkDoc of linkDocs) {
+        const gradeLink = await LtiGradeLinkModel.findOne({
+          platformId: linkDoc.platformId,
+          resourceLinkId: linkDoc.resourceLinkId,
+          userId: sessionDoc.userId
+        });
+        const platformDoc = gradeLink ? await LtiPlatformModel.findOne({ platformId: linkDoc.platformId }) : null;
+        if (!gradeLink || !platformDoc) {
+          continue;
+        }
+
+        try {
+          await this.postScore(platformDoc, linkDoc.lineItemUrl as string, gradeLink.ltiUserId, verdict, comment);
+          sent++;
+          console.log(`Sent ${verdict} verdict for session ${sessionId} to line item ${linkDoc.lineItemUrl}`);
+        } catch (error) {
+          console.error(`Error sending verdict for session ${sessionId} to ${linkDoc.lineItemUrl}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error(`Error sending verdict for session ${sessionId} over LTI:`, error);
+    }
+    return sent;
+  }
+
+  /**
+   * Sends a finished session's verdict again, e.g. after the platform was
+   * down: the completed review's verdict, or cleared for a session that was
+   * never flagged. Returns null for an unknown session.
+   */
+  async resendVerdict(sessionId: string): Promise<{ verdict: SessionVerdict; sent: number } | null> {
+    const sessionDoc = await ProctorSessionModel.findOne({ sessionId }, { status: 1, review: 1 }).lean();
+    if (!sessionDoc) {
+      return null;
+    }
+    if (sessionDoc.status !== 'ended') {
+      throw new LtiPassbackStateError(`Session ${sessionId} has not ended`);
+    }
+    if (sessionDoc.review && !sessionDoc.review.finalVerdict) {
+      throw new LtiPassbackStateError(`Session ${sessionId} is still under review`);
+    }
+
+    const verdict = sessionDoc.review?.finalVerdict ?? 'cleared';
+    return { verdict, sent: await this.passbackVerdict(sessionId, verdict) };
+  }
+
+  private async verifyIdToken(platformDoc: ILtiPlatform, idToken: string, nonce: string): Promise<LtiClaims> {
+    let claims: JwtPayload;
+    try {
+      const { header } = JwtUtil.decode(idToken);
+      const key = await this.getPlatformKey(platformDoc, header.kid);
+      claims = JwtUtil.verify(idToken, key);
+    } catch (error) {
+      if (error instanceof JwtError) {
+        throw new LtiLaunchError(`Invalid id_token: ${error.message}`);
+      }
+      throw error;
+    }
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (claims.iss !== platformDoc.issuer) {
+      throw new LtiLaunchError('id_token issuer does not match the platform');
+    }
+    if (!audiences.includes(platformDoc.clientId) || (audiences.length > 1 && claims.azp !== platformDoc.clientId)) {
+      throw new LtiLaunchError('id_token was not issued to this tool');
+    }
+    if (claims.nonce !== nonce) {
+      throw new LtiLaunchError('id_token nonce does not match the login');
+    }
+    if (claims[`${LTI}version`] !== LTI_VERSION) {
+      throw new LtiLaunchError(`Unsupported LTI version ${claims[`${LTI}version`]}`);
+    }
+    const deploymentId = this.claimString(claims[`${LTI}deployment_id`]);
+    if (!deploymentId || !platformDoc.deploymentIds.includes(deploymentId)) {
+      throw new LtiLaunchError(`Deployment ${claims[`${LTI}deployment_id`]} is not registered`);
+    }
+    const sub = this.claimString(claims.sub);
+    if (!sub) {
+      throw new LtiLaunchError('Anonymous launches are not supported');
+    }
+
+    const context = this.claimObject(claims[`${LTI}context`]);
+    const custom = this.claimObject(claims[`${LTI}custom`]);
+    const ags = this.claimObject(claims[AGS_ENDPOINT_CLAIM]);
+    const settings = this.claimObject(claims[`${LTI_DL}deep_linking_settings`]);
+    const name = this.claimString(claims.name) ||
+      [this.claimString(claims.given_name), this.claimString(claims.family_name)].filter(Boolean).join(' ');
+    return {
+      sub,
+      messageType: this.claimString(claims[`${LTI}message_type`]),
+      deploymentId,
+      email: this.claimString(claims.email),
+      name: name || undefined,
+      roles: this.claimStrings(claims[`${LTI}roles`]),
+      resourceLinkId: this.claimString(this.claimObject(claims[`${LTI}resource_link`]).id),
+      context: { id: this.claimString(context.id), title: this.claimString(context.title) },
+      custom: { examId: this.claimString(custom.exam_id), slotId: this.claimString(custom.slot_id) },
+      ags: { scope: this.claimStrings(ags.scope), lineItem: this.claimString(ags.lineitem) },
+      returnUrl: this.claimString(this.claimObject(claims[`${LTI}launch_presentation`]).return_url),
+      deepLinking: {
+        returnUrl: this.claimString(settings.deep_link_return_url),
+        acceptTypes: Array.isArray(settings.accept_types) ? this.claimStrings(settings.accept_types) : undefined,
+        data: this.claimString(settings.data)
+      }
+    };
+  }
+
+  private claimString(value: unknown): string | undefined {
+    return typeof value === 'string' && value ? value : undefined;
+  }
+
+  private claimStrings(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+  }
+
+  private claimObject(value: unknown): JwtPayload {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as JwtPayload : {};
+  }
+
+  /**
+   * Maps an assignment launch onto an exam and a candidate. The exam comes
+   * from the custom parameters set by deep linking, or from an earlier
+   * launch of the same assignment. Learners are put on the roster of the
+   * open slot: the platform has already vouched for their enrolment.
+   */
+  private async handleResourceLink(platformDoc: ILtiPlatform, claims: LtiClaims): Promise<ILtiLaunch> {
+    const { resourceLinkId, custom, context, ags } = claims;
+    if (!resourceLinkId) {
+      throw new LtiLaunchError('Launch has no resource link');
+    }
+
+    const existing = await LtiResourceLinkModel.findOne({ platformId: platformDoc.platformId, resourceLinkId });
+
+    const examId = custom.examId || existing?.examId;
+    const exam = examId ? await examService.getExam(examId) : null;
+    if (!exam || (platformDoc.tenantId && exam.tenantId !== platformDoc.tenantId)) {
+      throw new LtiLaunchError('This assignment is not linked to an exam yet');
+    }
+
+    const canPostScores = ags.scope.includes(AGS_SCORE_SCOPE);
+    const linkDoc = await LtiResourceLinkModel.findOneAndUpdate(
+      { platformId: platformDoc.platformId, resourceLinkId },
+      {
+        $set: {
+          deploymentId: claims.deploymentId,
+          contextId: context.id,
+          contextTitle: context.title,
+          examId: exam.id,
+          slotId: custom.slotId || existing?.slotId,
+          lineItemUrl: canPostScores && ags.lineItem ? ags.lineItem : existing?.lineItemUrl
+        },
+        $setOnInsert: { linkId: uuidv4() }
+      },
+      { upsert: true, new: true }
+    );
+
+    const { roles } = claims;
+    const isInstructor = roles.some(role => INSTRUCTOR_ROLE.test(role));
+    const userId = this.toUserId(platformDoc, claims);
+
+    let slot: ExamSlot | null = null;
+    if (!isInstructor) {
+      await LtiGradeLinkModel.updateOne(
+        { platformId: platformDoc.platformId, resourceLinkId, userId },
+        { $set: { ltiUserId: claims.sub } },
+        { upsert: true }
+      );
+
+      slot = await this.findOpenSlot(exam.id, linkDoc.slotId, userId);
+      if (slot && !slot.candidateIds.includes(userId)) {
+        await ExamSlotModel.updateOne({ slotId: slot.id }, { $addToSet: { candidateIds: userId } });
+        console.log(`Rostered LTI user ${userId} on slot ${slot.id}`);
+      }
+    }
+
+    return this.createLaunch(platformDoc, claims, {
+      messageType: 'resource_link',
+      userId,
+      roles,
+      isInstructor,
+      examId: exam.id,
+      examTitle: exam.title,
+      slotId: slot?.id ?? linkDoc.slotId,
+      externalCallId: slot?.externalCallId,
+      callPlatform: slot?.callPlatform,
+      returnUrl: claims.returnUrl
+    });
+  }
+
+  private async handleDeepLinkingRequest(platformDoc: ILtiPlatform, claims: LtiClaims): Promise<ILtiLaunch> {
+    const { deepLinking, roles } = claims;
+    if (!deepLinking.returnUrl) {
+      throw new LtiLaunchError('Deep linking request has no return URL');
+    }
+    if (deepLinking.acceptTypes && !deepLinking.acceptTypes.includes('ltiResourceLink')) {
+      throw new LtiLaunchError('Platform does not accept LTI resource links');
+    }
+
+    return this.createLaunch(platformDoc, claims, {
+      messageType: 'deep_linking',
+      userId: this.toUserId(platformDoc, claims),
+      roles,
+      isInstructor: roles.some(role => INSTRUCTOR_ROLE.test(role)),
+      deepLinkReturnUrl: deepLinking.returnUrl,
+      deepLinkData: deepLinking.data
+    });
+  }
+
+  private async createLaunch(
+    platformDoc: ILtiPlatform,
+    claims: LtiClaims,
+    fields: Partial<ILtiLaunch>
+  ): Promise<ILtiLaunch> {
+    const createdAt = new Date();
+    const launchDoc = new LtiLaunchModel({
+      ...fields,
+      launchId: crypto.randomBytes(24).toString('base64url'),
+      platformId: platformDoc.platformId,
+      deploymentId: claims.deploymentId,
+      ltiUserId: claims.sub,
+      name: claims.name,
+      createdAt,
+      expiresAt: new Date(createdAt.getTime() + this.launchTtlMs)
+    });
+    await launchDoc.save();
+
+    console.log(`LTI ${fields.messageType} launch for ${fields.userId} from platform ${platformDoc.platformId}`);
+    return launchDoc;
+  }
+
+  /**
+   * Candidates are known by email where the platform shares it, matching how
+   * rosters are usually written; otherwise by the platform's opaque user ID.
+   */
+  private toUserId(platformDoc: ILtiPlatform, claims: LtiClaims): string {
+    return claims.email
+      ? claims.email.toLowerCase()
+      : `${platformDoc.platformId}:${claims.sub}`;
+  }
+
+  // The pinned slot if it is open, else an open slot listing the user, else any open slot
+  private async findOpenSlot(examId: string, pinnedSlotId: string | undefined, userId: string): Promise<ExamSlot | null> {
+    const now = new Date();
+    const openSlots = (await examService.listSlots(examId))
+      .filter(slot => new Date(slot.windowStart) <= now && new Date(slot.windowEnd) >= now);
+
+    if (pinnedSlotId) {
+      return openSlots.find(slot => slot.id === pinnedSlotId) ?? null;
+    }
+    return openSlots.find(slot => slot.candidateIds.includes(userId)) ?? openSlots[0] ?? null;
+  }
+
+  private async findPlatform(issuer: string, clientId?: string): Promise<ILtiPlatform> {
+    const platformDocs = await LtiPlatformModel.find(clientId ? { issuer, clientId } : { issuer });
+    if (platformDocs.length === 0) {
+      throw new LtiLaunchError(`Platform ${issuer} is not registered`);
+    }
+    if (platformDocs.length > 1) {
+      throw new LtiLaunchError(`Platform ${issuer} has several registrations; client_id is required`);
+    }
+    return platformDocs[0];
+  }
+
+  private async getPlatformKey(platformDoc: ILtiPlatform, kid: string | undefined): Promise<KeyObject> {
+    let cached = this.jwksCache.get(platformDoc.jwksUrl);
+    const isStale = !cached || Date.now() - cached.fetchedAt > JWKS_CACHE_MS;
+    if (isStale || (kid && !cached?.keys.has(kid))) {
+      cached = { keys: await this.fetchJwks(platformDoc.jwksUrl), fetchedAt: Date.now() };
+      this.jwksCache.set(platformDoc.jwksUrl, cached);
+    }
+
+    const key = kid ? cached!.keys.get(kid) : (cached!.keys.size === 1 ? Array.from(cached!.keys.values())[0] : undefined);
+    if (!key) {
+      throw new JwtError(kid ? `Unknown signing key ${kid}` : 'Token has no key ID');
+    }
+    return key;
+  }
+
+  private async fetchJwks(jwksUrl: string): Promise<Map<string, KeyObject>> {
+    const response = await fetch(jwksUrl, { signal: AbortSignal.timeout(10000) });
+    if (!response.ok) {
+      throw new LtiLaunchError(`Could not fetch platform keys (HTTP ${response.status})`);
+    }
+
+    const { keys } = await response.json() as { keys?: Array<Record<string, any>> };
+    const result = new Map<string, KeyObject>();
+    for (const jwk of keys || []) {
+      if (jwk.kty === 'RSA' && (!jwk.use || jwk.use === 'sig')) {
+        result.set(jwk.kid || '', JwtUtil.importJwk(jwk));
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Our signing key, created and stored on first use so every server
+   * instance and restart signs with the same one.
+   */
+  private getToolKey(): Promise<{ kid: string; privateKey: KeyObject }> {
+    if (!this.toolKey) {
+      this.toolKey = (async () => {
+        let keyDoc = await LtiToolKeyModel.findOne().sort({ createdAt: -1 });
+        if (!keyDoc) {
+          const { kid, privateKeyPem, publicJwk } = JwtUtil.generateKeyPair();
+          keyDoc = await LtiToolKeyModel.create({ kid, privateKey: privateKeyPem, publicJwk, createdAt: new Date() });
+          console.log(`Generated LTI tool signing key ${kid}`);
+        }
+        return { kid: keyDoc.kid, privateKey: crypto.createPrivateKey(keyDoc.privateKey) };
+      })();
+      this.toolKey.catch(() => {
+        this.toolKey = null;
+      });
+    }
+    return this.toolKey;
+  }
+
+  /**
+   * OAuth 2 client credentials grant with a signed JWT assertion, as LTI
+   * Advantage services require. Tokens are reused until shortly before they
+   * expire.
+   */
+  private async getAccessToken(platformDoc: ILtiPlatform, scope: string): Promise<string> {
+    const cacheKey = `${platformDoc.platformId}\u0000${scope}`;
+    const cached = this.accessTokens.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.token;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const { kid, privateKey } = await this.getToolKey();
+    const assertion = JwtUtil.sign({
+      iss: platformDoc.clientId,
+      sub: platformDoc.clientId,
+      aud: platformDoc.authTokenUrl,
+      iat: now,
+      exp: now + 5 * 60,
+      jti: uuidv4()
+    }, privateKey, kid);
+
+    const response = await fetch(platformDoc.authTokenUrl, {
+      method: 'POST',
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_assertion_type: 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer',
+        client_assertion: assertion,
+        scope
+      }),
+      signal: AbortSignal.timeout(10000)
+    });
+    if (!response.ok) {
+      throw new Error(`Token request to ${platformDoc.authTokenUrl} failed (HTTP ${response.status})`);
+    }
+
+    const { access_token: token, expires_in: expiresIn } = await response.json() as { access_token: string; expires_in?: number };
+    this.accessTokens.set(cacheKey, { token, expiresAt: Date.now() + ((expiresIn || 3600) - 60) * 1000 });
+    return token;
+  }
+
+  private async postScore(
+    platformDoc: ILtiPlatform,
+    lineItemUrl: string,
+    ltiUserId: string,
+    verdict: SessionVerdict,
+    comment?: string
+  ): Promise<void> {
+    const token = await this.getAccessToken(platformDoc, AGS_SCORE_SCOPE);
+
+    // The scores endpoint sits under the line item, before any query string
+    const url = new URL(lineItemUrl);
+    url.pathname = `${url.pathname.replace(/\/$/, '')}/scores`;
+
+    const graded = verdict !== 'inconclusive';
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        authorization: `Bearer ${token}`,
+        'content-type': 'application/vnd.ims.lis.v1.score+json'
+      },
+      body: JSON.stringify({
+        userId: ltiUserId,
+        ...(graded ? { scoreGiven: verdict === 'cleared' ? 1 : 0, scoreMaximum: 1 } : {}),
+        comment: comment || `Proctoring integrity verdict: ${verdict}`,
+        activityProgress: 'Completed',
+        gradingProgress: graded ? 'FullyGraded' : 'PendingManual',
+        timestamp: new Date().toISOString()
+      }),
+      signal: AbortSignal.timeout(10000)
+    });
+    if (!response.ok) {
+      throw new Error(`Score post failed (HTTP ${response.status})`);
+    }
+  }
+
+  private clearAccessTokens(platformId: string): void {
+    for (const key of this.accessTokens.keys()) {
+      if (key.startsWith(`${platformId}\u0000`)) {
+        this.accessTokens.delete(key);
+      }
+    }
+  }
+
+  private async validatePlatform(input: Partial<LtiPlatformInput>, platformId?: string): Promise<void> {
+    const errors: string[] = [];
+
+    for (const field of ['name', 'issuer', 'clientId'] as const) {
+      if (!input[field] || typeof input[field] !== 'string' || !input[field]!.trim()) {
+        errors.push(`${field} is required`);
+      }
+    }
+    for (const field of ['authLoginUrl', 'authTokenUrl', 'jwksUrl'] as const) {
+      if (!this.isHttpUrl(input[field])) {
+        errors.push(`${field} must be an http(s) URL`);
+      }
+    }
+    if (!Array.isArray(input.deploymentIds) || input.deploymentIds.length === 0 ||
+      input.deploymentIds.some(deploymentId => typeof deploymentId !== 'string' || !deploymentId.trim())) {
+      errors.push('deploymentIds must be a non-empty array of deployment IDs');
+    }
+    if (input.issuer && input.clientId &&
+      await LtiPlatformModel.exists({ issuer: input.issuer, clientId: input.clientId, platformId: { $ne: platformId } })) {
+      errors.push(`${input.issuer} is already registered with client ID ${input.clientId}`);
+    }
+
+    if (errors.length > 0) {
+      throw new LtiValidationError(errors);
+    }
+  }
+
+  private isHttpUrl(value: unknown): boolean {
+    try {
+      return typeof value === 'string' && ['http:', 'https:'].includes(new URL(value).protocol);
+    } catch {
+      return false;
+    }
+  }
+
+  private platformFields(input: LtiPlatformInput): LtiPlatformInput {
+    return {
+      name: input.name.trim(),
+      issuer: input.issuer.trim(),
+      clientId: input.clientId.trim(),
+      deploymentIds: Array.from(new Set(input.deploymentIds.map(deploymentId => deploymentId.trim()))),
+      authLoginUrl: input.authLoginUrl,
+      authTokenUrl: input.authTokenUrl,
+      jwksUrl: input.jwksUrl,
+      tenantId: input.tenantId
+    };
+  }
+
+  private toPlatform(platformDoc: ILtiPlatform): LtiPlatform {
+    return {
+      id: platformDoc.platformId,
+      name: platformDoc.name,
+      issuer: platformDoc.issuer,
+      clientId: platformDoc.clientId,
+      deploymentIds: platformDoc.deploymentIds,
+      authLoginUrl: platformDoc.authLoginUrl,
+      authTokenUrl: platformDoc.authTokenUrl,
+      jwksUrl: platformDoc.jwksUrl,
+      tenantId: platformDoc.tenantId,
+      createdAt: platformDoc.createdAt,
+      updatedAt: platformDoc.updatedAt
+    };
+  }
+
+  private toResourceLink(linkDoc: ILtiResourceLink): LtiResourceLink {
+    return {
+      id: linkDoc.linkId,
+      platformId: linkDoc.platformId,
+      deploymentId: linkDoc.deploymentId,
+      resourceLinkId: linkDoc.resourceLinkId,
+      contextId: linkDoc.contextId,
+      contextTitle: linkDoc.contextTitle,
+      examId: linkDoc.examId,
+      slotId: linkDoc.slotId,
+      lineItemUrl: linkDoc.lineItemUrl,
+      createdAt: linkDoc.createdAt,
+      updatedAt: linkDoc.updatedAt
+    };
+  }
+
+  private toLaunch(launchDoc: ILtiLaunch): LtiLaunch {
+    return {
+      id: launchDoc.launchId,
+      platformId: launchDoc.platformId,
+      messageType: launchDoc.messageType,
+      userId: launchDoc.userId,
+      name: launchDoc.name,
+      roles: launchDoc.roles,
+      isInstructor: launchDoc.isInstructor,
+      examId: launchDoc.examId,
+      examTitle: launchDoc.examTitle,
+      slotId: launchDoc.slotId,
+      externalCallId: launchDoc.externalCallId,
+      callPlatform: launchDoc.callPlatform,
+      returnUrl: launchDoc.returnUrl,
+      createdAt: launchDoc.createdAt,
+      expiresAt: launchDoc.expiresAt
+    };
+  }
+}
+
+export const ltiService = new LtiService();
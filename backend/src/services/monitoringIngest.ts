@@ -0,0 +1,139 @@
+import { CallMonitoringDataModel } from '../models';
+import { CallMonitoringData, MonitoringBatch, MonitoringBatchAck, MonitoringSample } from '../types';
+import { externalCallMonitoringService, SessionEndedError } from './externalCallMonitoring';
+
+// Weight of the newest write in the moving average of write latency
+const LATENCY_SMOOTHING = 0.2;
+// Browsers may run a little ahead of the server clock
+const MAX_CLOCK_SKEW_MS = 5 * 1000;
+
+/**
+ * Receives batched monitoring samples from candidates' browser outboxes.
+ * Batches for one session are stored one at a time and in order; samples
+ * already stored are acknowledged again without being stored twice. When
+ * too many batches are waiting, or writes slow down, clients are told to
+ * back off instead of piling more work onto the database.
+ */
+export class MonitoringIngestService {
+  private sessionQueues: Map<string, Promise<unknown>> = new Map();
+  private pendingBatches = 0;
+  private writeLatencyMs = 0;
+  private maxPendingBatches: number;
+  private maxBatchSize: number;
+  private slowWriteMs: number;
+  private retryAfterMs: number;
+
+  constructor() {
+    this.maxPendingBatches = parseInt(process.env.MONITORING_MAX_PENDING_BATCHES || '20');
+    this.maxBatchSize = parseInt(process.env.MONITORING_MAX_BATCH_SIZE || '100');
+    this.slowWriteMs = parseFloat(process.env.MONITORING_SLOW_WRITE_MS || '500');
+    this.retryAfterMs = parseFloat(process.env.MONITORING_RETRY_AFTER_SECONDS || '2') * 1000;
+    console.log('Monitoring Ingest Service initialized');
+  }
+
+  /**
+   * Stores a batch and says which sequence numbers the client can forget.
+   * `stored` is what was new, for broadcasting to the session's observers.
+   */
+  async ingest(batch: MonitoringBatch): Promise<{ ack: MonitoringBatchAck; stored: CallMonitoringData[] }> {
+    const errors = this.validateBatch(batch);
+    if (errors.length > 0) {
+      return { ack: { success: false, error: `Invalid monitoring batch: ${errors.join('; ')}` }, stored: [] };
+    }
+    try {
+      const session = await externalCallMonitoringService.getSessionStatus(batch.sessionId);
+      if (!session || session.status === 'ended') {
+        // Ended sessions take no more evidence; resending would never succeed
+        return { ack: { success: false, error: 'Session is not active' }, stored: [] };
+      }
+    } catch (error) {
+      console.error(`Error checking session ${batch.sessionId} for a monitoring batch:`, error);
+      return { ack: { success: false, error: 'Failed to record monitoring data', retryAfterMs: this.retryAfterMs }, stored: [] };
+    }
+    if (this.pendingBatches >= this.maxPendingBatches) {
+      return { ack: { success: false, error: 'Server busy', retryAfterMs: this.retryAfterMs }, stored: [] };
+    }
+
+    this.pendingBatches++;
+    const previous = this.sessionQueues.get(batch.sessionId) ?? Promise.resolve();
+    const result = previous.then(() => this.store(batch));
+    const queued = result.catch(() => undefined);
+    this.sessionQueues.set(batch.sessionId, queued);
+
+    try {
+      return await result;
+    } catch (error) {
+      if (error instanceof SessionEndedError) {
+        return { ack: { success: false, error: 'Session is not active' }, stored: [] };
+      }
+      console.error(`Error storing monitoring batch for session ${batch.sessionId}:`, error);
+      return { ack: { success: false, error: 'Failed to record monitoring data', retryAfterMs: this.retryAfterMs }, stored: [] };
+    } finally {
+      this.pendingBatches--;
+      if (this.sessionQueues.get(batch.sessionId) === queued) {
+        this.sessionQueues.delete(batch.sessionId);
+      }
+    }
+  }
+
+  private async store(batch: MonitoringBatch): Promise<{ ack: MonitoringBatchAck; stored: CallMonitoringData[] }> {
+    const seqs = batch.samples.map(sample => sample.seq);
+    const seen = new Set<number>(
+      await CallMonitoringDataModel.distinct('seq', { sessionId: batch.sessionId, seq: { $in: seqs } })
+    );
+
+    // Replays can overlap, so a batch may repeat a sample and include ones already stored
+    const fresh = new Map<number, MonitoringSample>();
+    for (const sample of batch.samples) {
+      if (!seen.has(sample.seq)) {
+        fresh.set(sample.seq, sample);
+      }
+    }
+
+    const startedAt = Date.now();
+    const stored = await externalCallMonitoringService.recordMonitoringBatch(
+      batch.sessionId,
+      Array.from(fresh.values())
+        .sort((a, b) => a.seq - b.seq)
+        .map(sample => ({ ...sample, timestamp: this.toCaptureTime(sample.timestamp) }))
+    );
+    const latencyMs = Date.now() - startedAt;
+    this.writeLatencyMs = this.writeLatencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING;
+
+    const ack: MonitoringBatchAck = {
+      success: true,
+      acked: Array.from(new Set(seqs)),
+      duplicates: seqs.length - fresh.size
+    };
+    // Slow writes ask the client to space its batches out
+    if (this.writeLatencyMs >= this.slowWriteMs) {
+      ack.retryAfterMs = Math.round(Math.max(this.retryAfterMs, this.writeLatencyMs * 2));
+    }
+    return { ack, stored };
+  }
+
+  // The browser's capture time, unless it is unreadable or in the future
+  private toCaptureTime(timestamp: unknown): Date {
+    const time = new Date(timestamp as string | number | Date).getTime();
+    return isNaN(time) || time > Date.now() + MAX_CLOCK_SKEW_MS ? new Date() : new Date(Math.min(time, Date.now()));
+  }
+
+  private validateBatch(batch: MonitoringBatch): string[] {
+    const errors: string[] = [];
+
+    if (!Array.isArray(batch.samples) || batch.samples.length === 0) {
+      errors.push('samples must be a non-empty array');
+      return errors;
+    }
+    if (batch.samples.length > this.maxBatchSize) {
+      errors.push(`at most ${this.maxBatchSize} samples per batch`);
+    }
+    if (batch.samples.some(sample => !sample || !Number.isInteger(sample.seq) || sample.seq < 0)) {
+      errors.push('every sample needs a non-negative integer seq');
+    }
+
+    return errors;
+  }
+}
+
+export const monitoringIngestService = new MonitoringIngestService();
@@ -0,0 +1,182 @@
+import { AudioAnalysisData, EnvironmentChange, NoiseFloorStatus } from '../types';
+
+export interface NoiseFloorConfig {
+  baselineMs: number; // how much audio forms the session's reference environment
+  windowMs: number; // rolling window for the current noise floor
+  levelThresholdDb: number;
+  profileThreshold: number; // total variation distance between band profiles, 0-1
+  sustainMs: number; // a shift must persist this long before it is reported
+  cooldownMs: number;
+}
+
+interface NoiseSample {
+  at: number;
+  levelDb: number;
+  profile?: number[];
+}
+
+interface NoiseReference {
+  levelDb: number;
+  profile?: number[];
+}
+
+interface NoiseFloorState {
+  baselineElapsedMs: number;
+  lastSampleAt?: number;
+  baselineSamples: NoiseSample[];
+  reference?: NoiseReference;
+  recent: NoiseSample[];
+  shiftSince?: number;
+  lastChangeAt?: number;
+}
+
+// Gaps longer than this (pauses, dropped samples) do not count towards the baseline
+const MAX_SAMPLE_GAP_MS = 2000;
+
+export class NoiseFloorService {
+  private sessions: Map<string, NoiseFloorState> = new Map();
+  private config: NoiseFloorConfig;
+
+  constructor(config: Partial<NoiseFloorConfig> = {}) {
+    this.config = {
+      baselineMs: parseInt(process.env.NOISE_BASELINE_SECONDS || '60') * 1000,
+      windowMs: 10000,
+      levelThresholdDb: parseFloat(process.env.NOISE_CHANGE_THRESHOLD_DB || '10'),
+      profileThreshold: 0.35,
+      sustainMs: 3000,
+      cooldownMs: 60000,
+      ...config
+    };
+    console.log('Noise Floor Service initialized');
+  }
+
+  /**
+   * Feeds one audio analysis result into the session's estimator and returns
+   * an environment change once the noise profile has shifted for long enough.
+   */
+  update(sessionId: string, audioData: AudioAnalysisData, timestamp: Date = new Date()): EnvironmentChange | null {
+    const state = this.getState(sessionId);
+    const at = timestamp.getTime();
+    const sample: NoiseSample = {
+      at,
+      levelDb: this.toDb(audioData.backgroundNoise),
+      // Band profiles are only comparable when nobody is talking
+      profile: audioData.speakerCount ? undefined : audioData.frequency
+    };
+
+    if (state.lastSampleAt !== undefined) {
+      state.baselineElapsedMs += Math.min(Math.max(0, at - state.lastSampleAt), MAX_SAMPLE_GAP_MS);
+    }
+    state.lastSampleAt = at;
+
+    if (!state.reference) {
+      state.baselineSamples.push(sample);
+      if (state.baselineElapsedMs >= this.config.baselineMs) {
+        state.reference = this.summarize(state.baselineSamples);
+        state.baselineSamples = [];
+        console.log(`Noise baseline for session ${sessionId}: ${state.reference.levelDb.toFixed(1)} dB`);
+      }
+      return null;
+    }
+
+    state.recent.push(sample);
+    state.recent = state.recent.filter(recent => at - recent.at <= this.config.windowMs);
+
+    const current = this.summarize(state.recent);
+    const levelShiftDb = current.levelDb - state.reference.levelDb;
+    const profileShift = this.profileDistance(state.reference.profile, current.profile);
+    const shifted = Math.abs(levelShiftDb) >= this.config.levelThresholdDb ||
+      profileShift >= this.config.profileThreshold;
+
+    if (!shifted) {
+      state.shiftSince = undefined;
+      return null;
+    }
+
+    state.shiftSince = state.shiftSince ?? at;
+    const sustained = at - state.shiftSince >= this.config.sustainMs;
+    const coolingDown = state.lastChangeAt !== undefined && at - state.lastChangeAt < this.config.cooldownMs;
+    if (!sustained || coolingDown) {
+      return null;
+    }
+
+    const change: EnvironmentChange = {
+      baselineDb: state.reference.levelDb,
+      currentDb: current.levelDb,
+      levelShiftDb,
+      profileShift,
+      confidence: Math.min(1, 0.5 + 0.5 * Math.max(
+        Math.abs(levelShiftDb) / this.config.levelThresholdDb - 1,
+        profileShift / this.config.profileThreshold - 1
+      ))
+    };
+
+    // The new environment becomes the reference so one change is reported once
+    state.reference = { levelDb: current.levelDb, profile: current.profile ?? state.reference.profile };
+    state.shiftSince = undefined;
+    state.lastChangeAt = at;
+    return change;
+  }
+
+  getStatus(sessionId: string): NoiseFloorStatus | null {
+    const state = this.sessions.get(sessionId);
+    if (!state) {
+      return null;
+    }
+
+    return {
+      baselineReady: state.reference !== undefined,
+      baselineDb: state.reference?.levelDb,
+      currentDb: state.recent.length > 0 ? this.summarize(state.recent).levelDb : undefined,
+      lastChangeAt: state.lastChangeAt !== undefined ? new Date(state.lastChangeAt) : undefined
+    };
+  }
+
+  reset(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  private getState(sessionId: string): NoiseFloorState {
+    let state = this.sessions.get(sessionId);
+    if (!state) {
+      state = { baselineElapsedMs: 0, baselineSamples: [], recent: [] };
+      this.sessions.set(sessionId, state);
+    }
+    return state;
+  }
+
+  private summarize(samples: NoiseSample[]): NoiseReference {
+    // A low percentile tracks the floor and ignores short bursts
+    const levels = samples.map(sample => sample.levelDb).sort((a, b) => a - b);
+    const profiles = samples
+      .map(sample => sample.profile)
+      .filter((profile): profile is number[] => !!profile && profile.some(value => value > 0));
+
+    let profile: number[] | undefined;
+    if (profiles.length > 0) {
+      profile = profiles[0].map((_, band) =>
+        profiles.reduce((sum, p) => sum + (p[band] || 0), 0) / profiles.length);
+    }
+
+    return {
+      levelDb: levels[Math.floor(levels.length * 0.2)],
+      profile
+    };
+  }
+
+  private profileDistance(a?: number[], b?: number[]): number {
+    if (!a || !b || a.length !== b.length) {
+      return 0;
+    }
+
+    // Profiles are band percentages; half the L1 distance is 0 (same) to 1 (disjoint)
+    const total = a.reduce((sum, value, i) => sum + Math.abs(value - b[i]), 0);
+    return total / 200;
+  }
+
+  private toDb(level: number): number {
+    return 20 * Math.log10(Math.max(level, 1e-6));
+  }
+}
+
+export const noiseFloorService = new NoiseFloorService();
@@ -0,0 +1,531 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  WebhookSubscriptionModel,
+  WebhookDeliveryModel,
+  ProctorSessionModel,
+  IWebhookSubscription,
+  IWebhookDelivery
+} from '../models';
+import {
+  WebhookSubscription,
+  WebhookDelivery,
+  OutboundWebhookEventType,
+  OutboundWebhookPayload
+} from '../types';
+import { SharedSecretWebhookAdapter } from './callPlatformAdapters';
+import { NetworkUtil } from '../utils/network';
+
+export type WebhookSubscriptionInput = {
+  url: string;
+  events: OutboundWebhookEventType[];
+  secret?: string;
+  tenantId?: string;
+  description?: string;
+  active?: boolean;
+};
+
+export interface WebhookDeliveryQuery {
+  subscriptionId?: string;
+  eventType?: OutboundWebhookEventType;
+  status?: WebhookDelivery['status'];
+  tenantId?: string; // only deliveries to this tenant's subscriptions
+  page: number;
+  pageSize: number;
+}
+
+export const OUTBOUND_WEBHOOK_EVENTS: OutboundWebhookEventType[] = [
+  'session.ended',
+  'incident.high_severity',
+  'review.incident_verdict',
+  'review.verdict'
+];
+
+const MIN_SECRET_LENGTH = 16;
+
+export class WebhookSubscriptionValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid webhook subscription: ${errors.join('; ')}`);
+    this.name = 'WebhookSubscriptionValidationError';
+  }
+}
+
+export class WebhookDeliveryStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookDeliveryStateError';
+  }
+}
+
+export class OutboundWebhookService {
+  private interval: NodeJS.Timeout | null = null;
+  private delivering = false;
+  private pollMs: number;
+  private timeoutMs: number;
+  private maxAttempts: number;
+  private retryBaseMs: number;
+  private retryMaxMs: number;
+  // Hosts on the internal network that subscribers may still be sent to
+  private allowedInternalHosts: Set<string>;
+
+  constructor() {
+    this.pollMs = parseFloat(process.env.OUTBOUND_WEBHOOK_POLL_SECONDS || '5') * 1000;
+    this.timeoutMs = parseFloat(process.env.OUTBOUND_WEBHOOK_TIMEOUT_SECONDS || '10') * 1000;
+    this.maxAttempts = parseFloat(process.env.OUTBOUND_WEBHOOK_MAX_ATTEMPTS || '8');
+    this.retryBaseMs = parseFloat(process.env.OUTBOUND_WEBHOOK_RETRY_BASE_SECONDS || '30') * 1000;
+    this.retryMaxMs = parseFloat(process.env.OUTBOUND_WEBHOOK_RETRY_MAX_MINUTES || '60') * 60 * 1000;
+    this.allowedInternalHosts = new Set(
+      (process.env.OUTBOUND_WEBHOOK_ALLOWED_INTERNAL_HOSTS || '')
+        .split(',')
+        .map(host => host.trim().toLowerCase())
+        .filter(Boolean)
+    );
+    console.log('Outbound Webhook Service initialized');
+  }
+
+  /**
+   * Starts the delivery worker. Deliveries live in the database, so anything
+   * still pending from before a restart is picked up again. Called once the
+   * database connection is up.
+   */
+  start(): void {
+    if (this.interval) {
+      return;
+    }
+    this.interval = setInterval(() => this.deliverDue(), this.pollMs);
+    this.deliverDue();
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  async listSubscriptions(filter: { tenantId?: string } = {}): Promise<WebhookSubscription[]> {
+    const query: Record<string, string> = {};
+    if (filter.tenantId) {
+      query.tenantId = filter.tenantId;
+    }
+
+    const subscriptionDocs = await WebhookSubscriptionModel.find(query).sort({ createdAt: -1 });
+    return subscriptionDocs.map(subscriptionDoc => this.toSubscription(subscriptionDoc));
+  }
+
+  async getSubscription(subscriptionId: string): Promise<WebhookSubscription | null> {
+    const subscriptionDoc = await WebhookSubscriptionModel.findOne({ subscriptionId });
+    return subscriptionDoc ? this.toSubscription(subscriptionDoc) : null;
+  }
+
+  /**
+   * Registers a subscriber. The signing secret is only ever returned here;
+   * one is generated when the caller does not supply it.
+   */
+  async createSubscription(input: WebhookSubscriptionInput): Promise<{ subscription: WebhookSubscription; secret: string }> {
+    await this.validateSubscription(input);
+
+    const secret = input.secret || `whsec_${crypto.randomBytes(24).toString('hex')}`;
+    const subscriptionDoc = new WebhookSubscriptionModel({
+      subscriptionId: uuidv4(),
+      url: input.url,
+      events: Array.from(new Set(input.events)),
+      secret,
+      tenantId: input.tenantId,
+      description: input.description,
+      active: input.active ?? true
+    });
+    await subscriptionDoc.save();
+
+    console.log(`Created webhook subscription ${subscriptionDoc.subscriptionId} for ${input.url}`);
+    return { subscription: this.toSubscription(subscriptionDoc), secret };
+  }
+
+  /**
+   * Replaces a subscription's settings. The secret is kept unless a new one
+   * is given.
+   */
+  async updateSubscription(subscriptionId: string, input: WebhookSubscriptionInput): Promise<WebhookSubscription | null> {
+    await this.validateSubscription(input);
+
+    const subscriptionDoc = await WebhookSubscriptionModel.findOneAndUpdate(
+      { subscriptionId },
+      {
+        $set: {
+          url: input.url,
+          events: Array.from(new Set(input.events)),
+          tenantId: input.tenantId,
+          description: input.description,
+          active: input.active ?? true,
+          ...(input.secret ? { secret: input.secret } : {})
+        }
+      },
+      { new: true }
+    );
+    if (!subscriptionDoc) {
+      return null;
+    }
+
+    console.log(`Updated webhook subscription ${subscriptionId}`);
+    return this.toSubscription(subscriptionDoc);
+  }
+
+  /**
+   * Removes a subscription. Its delivery log is kept; anything still waiting
+   * to be sent is marked failed.
+   */
+  async deleteSubscription(subscriptionId: string): Promise<boolean> {
+    const result = await WebhookSubscriptionModel.deleteOne({ subscriptionId });
+    if (result.deletedCount === 0) {
+      return false;
+    }
+
+    await WebhookDeliveryModel.updateMany(
+      { subscriptionId, status: 'pending' },
+      { $set: { status: 'failed' }, $unset: { nextAttemptAt: '' } }
+    );
+    console.log(`Deleted webhook subscription ${subscriptionId}`);
+    return true;
+  }
+
+  /**
+   * Queues an event about a session for every active subscriber to it. The
+   * session's user, exam and slot are added to the event data so subscribers
+   * can match it to their own records. Never throws: a notification problem
+   * must not break the proctoring flow that raised it.
+   */
+  async publish(type: OutboundWebhookEventType, sessionId: string, data: Record<string, unknown>): Promise<void> {
+    try {
+      const sessionDoc = await ProctorSessionModel.findOne(
+        { sessionId },
+        { userId: 1, examId: 1, slotId: 1, tenantId: 1 }
+      ).lean();
+      const tenantId = sessionDoc?.tenantId;
+
+      const subscriptionDocs = await WebhookSubscriptionModel.find({
+        active: true,
+        events: type,
+        // Subscriptions without a tenant hear about every session
+        tenantId: { $in: tenantId ? [null, tenantId] : [null] }
+      });
+      if (subscriptionDocs.length === 0) {
+        return;
+      }
+
+      const payload: OutboundWebhookPayload = {
+        id: uuidv4(),
+        type,
+        createdAt: new Date(),
+        tenantId,
+        data: {
+          sessionId,
+          userId: sessionDoc?.userId,
+          examId: sessionDoc?.examId,
+          slotId: sessionDoc?.slotId,
+          ...data
+        }
+      };
+
+      await WebhookDeliveryModel.insertMany(subscriptionDocs.map(subscriptionDoc => ({
+        deliveryId: uuidv4(),
+        subscriptionId: subscriptionDoc.subscriptionId,
+        eventId: payload.id,
+        eventType: type,
+        payload,
+        status: 'pending',
+        attempts: [],
+        nextAttemptAt: payload.createdAt
+      })));
+
+      console.log(`Queued ${type} webhook for session ${sessionId} to ${subscriptionDocs.length} subscriber(s)`);
+      this.deliverDue();
+    } catch (error) {
+      console.error(`Error queueing ${type} webhook for session ${sessionId}:`, error);
+    }
+  }
+
+  async getDeliveries(query: WebhookDeliveryQuery): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+    const filter: Record<string, unknown> = {};
+    if (query.subscriptionId) {
+      filter.subscriptionId = query.subscriptionId;
+    }
+    if (query.tenantId) {
+      const subscriptionIds: string[] = await WebhookSubscriptionModel.distinct('subscriptionId', { tenantId: query.tenantId });
+      filter.subscriptionId = {
+        $in: query.subscriptionId ? subscriptionIds.filter(id => id === query.subscriptionId) : subscriptionIds
+      };
+    }
+    if (query.eventType) {
+      filter.eventType = query.eventType;
+    }
+    if (query.status) {
+      filter.status = query.status;
+    }
+
+    const [deliveryDocs, total] = await Promise.all([
+      WebhookDeliveryModel.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((query.page - 1) * query.pageSize)
+        .limit(query.pageSize),
+      WebhookDeliveryModel.countDocuments(filter)
+    ]);
+
+    return { deliveries: deliveryDocs.map(deliveryDoc => this.toDelivery(deliveryDoc)), total };
+  }
+
+  async getDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    const deliveryDoc = await WebhookDeliveryModel.findOne({ deliveryId });
+    return deliveryDoc ? this.toDelivery(deliveryDoc) : null;
+  }
+
+  /**
+   * Sends a finished delivery again as a new delivery with a fresh retry
+   * budget. The event ID is unchanged so the subscriber can tell it is the
+   * same event.
+   */
+  async redeliver(deliveryId: string): Promise<WebhookDelivery | null> {
+    const deliveryDoc = await WebhookDeliveryModel.findOne({ deliveryId });
+    if (!deliveryDoc) {
+      return null;
+    }
+    if (deliveryDoc.status === 'pending') {
+      throw new WebhookDeliveryStateError(`Delivery ${deliveryId} is still being retried`);
+    }
+    if (!(await WebhookSubscriptionModel.exists({ subscriptionId: deliveryDoc.subscriptionId }))) {
+      throw new WebhookDeliveryStateError(`Subscription ${deliveryDoc.subscriptionId} no longer exists`);
+    }
+
+    const redeliveryDoc = new WebhookDeliveryModel({
+      deliveryId: uuidv4(),
+      subscriptionId: deliveryDoc.subscriptionId,
+      eventId: deliveryDoc.eventId,
+      eventType: deliveryDoc.eventType,
+      payload: deliveryDoc.payload,
+      status: 'pending',
+      attempts: [],
+      nextAttemptAt: new Date(),
+      redeliveryOf: deliveryId
+    });
+    await redeliveryDoc.save();
+
+    console.log(`Redelivering webhook delivery ${deliveryId} as ${redeliveryDoc.deliveryId}`);
+    this.deliverDue();
+    return this.toDelivery(redeliveryDoc);
+  }
+
+  /**
+   * Sends every delivery that is due, one at a time. Runs on the poll
+   * interval and whenever something is queued; overlapping runs are skipped.
+   */
+  private async deliverDue(): Promise<void> {
+    if (this.delivering) {
+      return;
+    }
+
+    this.delivering = true;
+    try {
+      let deliveryDoc = await this.claimDue();
+      while (deliveryDoc) {
+        await this.attempt(deliveryDoc);
+        deliveryDoc = await this.claimDue();
+      }
+    } catch (error) {
+      console.error('Error delivering webhooks:', error);
+    } finally {
+      this.delivering = false;
+    }
+  }
+
+  /**
+   * Takes the next due delivery. Its next attempt is pushed past the request
+   * timeout while it is in flight, so another server instance leaves it alone
+   * and it is retried if this process dies mid-request.
+   */
+  private async claimDue(): Promise<IWebhookDelivery | null> {
+    const now = new Date();
+    return WebhookDeliveryModel.findOneAndUpdate(
+      { status: 'pending', nextAttemptAt: { $lte: now } },
+      { $set: { nextAttemptAt: new Date(now.getTime() + this.timeoutMs * 2) } },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    );
+  }
+
+  private async attempt(deliveryDoc: IWebhookDelivery): Promise<void> {
+    const { deliveryId } = deliveryDoc;
+    const subscriptionDoc = await WebhookSubscriptionModel.findOne({ subscriptionId: deliveryDoc.subscriptionId });
+    if (!subscriptionDoc || !subscriptionDoc.active) {
+      await WebhookDeliveryModel.updateOne({ deliveryId }, {
+        $set: { status: 'failed' },
+        $unset: { nextAttemptAt: '' },
+        $push: { attempts: { attemptedAt: new Date(), durationMs: 0, error: 'Subscription deleted or disabled' } }
+      });
+      return;
+    }
+
+    const body = JSON.stringify(deliveryDoc.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const attemptedAt = new Date();
+    let responseStatus: number | undefined;
+    let error: string | undefined;
+
+    try {
+      // Checked on every attempt as well, since the host may resolve elsewhere by now
+      const destinationError = await this.checkDestination(new URL(subscriptionDoc.url));
+      if (destinationError) {
+        throw new Error(destinationError);
+      }
+
+      const response = await fetch(subscriptionDoc.url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'user-agent': 'exam-proctor-webhooks/1.0',
+          'x-webhook-id': deliveryDoc.eventId,
+          'x-webhook-event': deliveryDoc.eventType,
+          'x-webhook-delivery': deliveryId,
+          'x-webhook-timestamp': timestamp,
+          // Same scheme we verify on webhooks from generic call platforms
+          'x-webhook-signature': SharedSecretWebhookAdapter.sign(subscriptionDoc.secret, timestamp, body)
+        },
+        body,
+        // A redirect could lead anywhere, including back inside the network
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+      responseStatus = response.status;
+      if (!response.ok) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (requestError) {
+      error = requestError instanceof Error ? requestError.message : String(requestError);
+    }
+
+    const attempt = { attemptedAt, durationMs: Date.now() - attemptedAt.getTime(), responseStatus, error };
+    const attemptCount = deliveryDoc.attempts.length + 1;
+
+    if (!error) {
+      await WebhookDeliveryModel.updateOne({ deliveryId }, {
+        $set: { status: 'succeeded' },
+        $unset: { nextAttemptAt: '' },
+        $push: { attempts: attempt }
+      });
+      return;
+    }
+
+    if (attemptCount >= this.maxAttempts) {
+      console.warn(`Webhook delivery ${deliveryId} to ${subscriptionDoc.url} failed after ${attemptCount} attempt(s): ${error}`);
+      await WebhookDeliveryModel.updateOne({ deliveryId }, {
+        $set: { status: 'failed' },
+        $unset: { nextAttemptAt: '' },
+        $push: { attempts: attempt }
+      });
+      return;
+    }
+
+    await WebhookDeliveryModel.updateOne({ deliveryId }, {
+      $set: { nextAttemptAt: new Date(Date.now() + this.getRetryDelay(attemptCount)) },
+      $push: { attempts: attempt }
+    });
+  }
+
+  /**
+   * Exponential backoff: the base delay doubled for each failed attempt, up
+   * to the maximum.
+   */
+  private getRetryDelay(attemptCount: number): number {
+    return Math.min(this.retryBaseMs * Math.pow(2, attemptCount - 1), this.retryMaxMs);
+  }
+
+  private async validateSubscription(input: Partial<WebhookSubscriptionInput>): Promise<void> {
+    const errors: string[] = [];
+
+    let url: URL | null = null;
+    try {
+      url = input.url ? new URL(input.url) : null;
+    } catch {
+      url = null;
+    }
+    if (!url || !['http:', 'https:'].includes(url.protocol)) {
+      errors.push('url must be an http(s) URL');
+    } else {
+      const destinationError = await this.checkDestination(url);
+      if (destinationError) {
+        errors.push(destinationError);
+      }
+    }
+    if (!Array.isArray(input.events) || input.events.length === 0 ||
+      input.events.some(event => !OUTBOUND_WEBHOOK_EVENTS.includes(event))) {
+      errors.push(`events must be a non-empty list of ${OUTBOUND_WEBHOOK_EVENTS.join(', ')}`);
+    }
+    if (input.secret !== undefined && (typeof input.secret !== 'string' || input.secret.length < MIN_SECRET_LENGTH)) {
+      errors.push(`secret must be at least ${MIN_SECRET_LENGTH} characters`);
+    }
+    if (input.active !== undefined && typeof input.active !== 'boolean') {
+      errors.push('active must be a boolean');
+    }
+
+    if (errors.length > 0) {
+      throw new WebhookSubscriptionValidationError(errors);
+    }
+  }
+
+  /**
+   * Subscribers are reached from inside the deployment, so a URL must not
+   * lead to this host, the private network or a cloud metadata endpoint,
+   * unless a deployment admin has allowed its host. Returns why the URL is
+   * refused, or null.
+   */
+  private async checkDestination(url: URL): Promise<string | null> {
+    if (this.allowedInternalHosts.has(url.hostname.toLowerCase())) {
+      return null;
+    }
+
+    let internal: string[];
+    try {
+      internal = await NetworkUtil.findInternalAddresses(url);
+    } catch {
+      return `url host ${url.hostname} could not be resolved`;
+    }
+    if (internal.length > 0) {
+      return `url must not lead to a private, loopback, link-local or metadata address (${url.hostname} is ${internal.join(', ')})`;
+    }
+    return null;
+  }
+
+  // The secret is write-only and never leaves the service after creation
+  private toSubscription(subscriptionDoc: IWebhookSubscription): WebhookSubscription {
+    return {
+      id: subscriptionDoc.subscriptionId,
+      url: subscriptionDoc.url,
+      events: subscriptionDoc.events,
+      tenantId: subscriptionDoc.tenantId,
+      description: subscriptionDoc.description,
+      active: subscriptionDoc.active,
+      createdAt: subscriptionDoc.createdAt,
+      updatedAt: subscriptionDoc.updatedAt
+    };
+  }
+
+  private toDelivery(deliveryDoc: IWebhookDelivery): WebhookDelivery {
+    return {
+      id: deliveryDoc.deliveryId,
+      subscriptionId: deliveryDoc.subscriptionId,
+      eventId: deliveryDoc.eventId,
+      eventType: deliveryDoc.eventType,
+      payload: deliveryDoc.payload,
+      status: deliveryDoc.status,
+      attempts: deliveryDoc.attempts.map(attempt => ({
+        attemptedAt: attempt.attemptedAt,
+        durationMs: attempt.durationMs,
+        responseStatus: attempt.responseStatus,
+        error: attempt.error
+      })),
+      nextAttemptAt: deliveryDoc.nextAttemptAt,
+      redeliveryOf: deliveryDoc.redeliveryOf,
+      createdAt: deliveryDoc.createdAt,
+      updatedAt: deliveryDoc.updatedAt
+    };
+  }
+}
+
+export const outboundWebhookService = new OutboundWebhookService();
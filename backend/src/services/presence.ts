@@ -0,0 +1,220 @@
+import { EventEmitter } from 'events';
+import { CandidatePresence, ConnectionOutage, DisconnectAction } from '../types';
+
+// How often heartbeat timeouts and reconnect windows are checked
+const CHECK_INTERVAL_MS = 1000;
+
+interface PresenceState {
+  sessionId: string;
+  // Candidate sockets that have sent heartbeats for the session
+  sockets: Set<string>;
+  online: boolean;
+  lastSeenAt?: Date;
+  // Paused sessions are not proctored, so being offline during them is no outage
+  proctored: boolean;
+  // Start of the outage still open, if any
+  offlineSince?: Date;
+  // Set once the reconnect window has run out, so the session is paused or ended only once
+  expired: boolean;
+}
+
+/**
+ * Tracks whether each live session's candidate is still connected, from the
+ * heartbeats their exam tab sends over the socket. A candidate whose socket
+ * disconnects, or who misses heartbeats for longer than the timeout, is
+ * offline; if they are still offline when the reconnect window runs out, an
+ * 'expired' event asks for the session to be paused or ended. Every change
+ * is emitted as a 'presence' event.
+ */
+export class PresenceService extends EventEmitter {
+  private sessions: Map<string, PresenceState> = new Map();
+  private interval: NodeJS.Timeout | null = null;
+  private heartbeatTimeoutMs: number;
+  private reconnectWindowMs: number;
+  private disconnectAction: DisconnectAction;
+
+  constructor() {
+    super();
+    this.heartbeatTimeoutMs = parseFloat(process.env.HEARTBEAT_TIMEOUT_SECONDS || '15') * 1000;
+    this.reconnectWindowMs = parseFloat(process.env.RECONNECT_WINDOW_SECONDS || '120') * 1000;
+    this.disconnectAction = process.env.DISCONNECT_ACTION === 'end' ? 'end' : 'pause';
+    console.log('Presence Service initialized');
+  }
+
+  start(): void {
+    if (this.interval) {
+      return;
+    }
+    this.interval = setInterval(() => this.checkDeadlines(), CHECK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  // Three heartbeats per timeout, so one lost heartbeat does not take the candidate offline
+  get heartbeatIntervalMs(): number {
+    return Math.max(1000, Math.floor(this.heartbeatTimeoutMs / 3));
+  }
+
+  /**
+   * Starts tracking a session, e.g. when it starts or is restored after a
+   * restart. The candidate counts as offline until their tab's first
+   * heartbeat, so a tab that never connects runs out the reconnect window too.
+   */
+  startSession(sessionId: string, options: { paused?: boolean } = {}): void {
+    const proctored = !options.paused;
+    this.sessions.set(sessionId, {
+      sessionId,
+      sockets: new Set(),
+      online: false,
+      proctored,
+      offlineSince: proctored ? new Date() : undefined,
+      expired: false
+    });
+  }
+
+  /**
+   * Marks the candidate online. Returns the outage their return ended, if it
+   * was long enough to record.
+   */
+  heartbeat(sessionId: string, socketId: string, at: Date = new Date()): ConnectionOutage[] {
+    const state = this.sessions.get(sessionId);
+    if (!state) {
+      return [];
+    }
+
+    state.sockets.add(socketId);
+    state.lastSeenAt = at;
+    if (state.online) {
+      return [];
+    }
+
+    state.online = true;
+    state.expired = false;
+    const outages = this.closeOutage(state, at);
+    this.emitPresence(state);
+    return outages;
+  }
+
+  // A closed tab or dropped network is noticed at once rather than after the heartbeat timeout
+  disconnect(socketId: string, at: Date = new Date()): void {
+    for (const state of this.sessions.values()) {
+      if (state.sockets.delete(socketId) && state.sockets.size === 0 && state.online) {
+        this.goOffline(state, at);
+      }
+    }
+  }
+
+  /**
+   * Stops counting the candidate's absence while the session is paused.
+   * Returns the outage still open, which ends with the pause.
+   */
+  pauseSession(sessionId: string, at: Date = new Date()): ConnectionOutage[] {
+    const state = this.sessions.get(sessionId);
+    if (!state) {
+      return [];
+    }
+
+    state.proctored = false;
+    state.expired = false;
+    const outages = this.closeOutage(state, at);
+    this.emitPresence(state);
+    return outages;
+  }
+
+  // A candidate still offline when the session resumes gets a fresh reconnect window
+  resumeSession(sessionId: string, at: Date = new Date()): void {
+    const state = this.sessions.get(sessionId);
+    if (!state) {
+      return;
+    }
+
+    state.proctored = true;
+    if (!state.online) {
+      state.offlineSince = at;
+    }
+    this.emitPresence(state);
+  }
+
+  /**
+   * Stops tracking a session that has ended. Returns the outage still open,
+   * which ends with the session.
+   */
+  closeSession(sessionId: string, at: Date = new Date()): ConnectionOutage[] {
+    const state = this.sessions.get(sessionId);
+    if (!state) {
+      return [];
+    }
+
+    const outages = this.closeOutage(state, at);
+    this.sessions.delete(sessionId);
+    this.emitPresence(state);
+    return outages;
+  }
+
+  getPresence(sessionId: string): CandidatePresence | null {
+    const state = this.sessions.get(sessionId);
+    return state ? this.toPresence(state) : null;
+  }
+
+  private checkDeadlines(): void {
+    const now = Date.now();
+    for (const state of this.sessions.values()) {
+      if (state.online && state.lastSeenAt && now - state.lastSeenAt.getTime() > this.heartbeatTimeoutMs) {
+        this.goOffline(state, state.lastSeenAt);
+      }
+      if (!state.online && state.offlineSince && !state.expired &&
+          now - state.offlineSince.getTime() >= this.reconnectWindowMs) {
+        state.expired = true;
+        console.log(`Candidate for session ${state.sessionId} did not reconnect in time; requesting ${this.disconnectAction}`);
+        this.emit('expired', state.sessionId, this.disconnectAction);
+      }
+    }
+  }
+
+  private goOffline(state: PresenceState, since: Date): void {
+    state.online = false;
+    if (state.proctored) {
+      state.offlineSince = since;
+    }
+    this.emitPresence(state);
+  }
+
+  private closeOutage(state: PresenceState, at: Date): ConnectionOutage[] {
+    const since = state.offlineSince;
+    state.offlineSince = undefined;
+    if (!since) {
+      return [];
+    }
+
+    // Page reloads and brief network blips are not worth an incident
+    const durationMs = Math.max(0, at.getTime() - since.getTime());
+    if (durationMs < this.heartbeatTimeoutMs) {
+      return [];
+    }
+    return [{ startTime: since, endTime: at, durationMs }];
+  }
+
+  private emitPresence(state: PresenceState): void {
+    this.emit('presence', this.toPresence(state));
+  }
+
+  private toPresence(state: PresenceState): CandidatePresence {
+    const waiting = !state.online && !!state.offlineSince && !state.expired;
+    return {
+      sessionId: state.sessionId,
+      status: state.online ? 'online' : 'offline',
+      lastSeenAt: state.lastSeenAt,
+      ...(waiting && {
+        reconnectDeadline: new Date(state.offlineSince!.getTime() + this.reconnectWindowMs),
+        disconnectAction: this.disconnectAction
+      })
+    };
+  }
+}
+
+export const presenceService = new PresenceService();
@@ -2,6 +2,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import ffmpeg from 'fluent-ffmpeg';
+import { TenantUtil } from '../utils/tenant';
 
 export class RecordingService {
   private recordingsPath: string;
@@ -12,23 +13,41 @@ export class RecordingService {
     console.log('Recording Service initialized');
   }
   
+  private getTenantDirectory(tenantId?: string): string {
+    if (!tenantId) {
+      return this.recordingsPath;
+    }
+    // Tenant IDs are checked when tenants are created; this guards the path against anything else
+    if (!TenantUtil.isValidId(tenantId)) {
+      throw new Error(`Invalid tenant ID for upload directory: ${tenantId}`);
+    }
+    return path.join(this.recordingsPath, 'tenants', tenantId);
+  }
+  
   private ensureDirectoryExists(): void {
     if (!fs.existsSync(this.recordingsPath)) {
       fs.mkdirSync(this.recordingsPath, { recursive: true });
     }
   }
   
+  /**
+   * Saves an upload under its tenant's own directory (the top-level directory
+   * for sessions without a tenant). Files derived from it are written next to it.
+   */
   async saveRecording(
     sessionId: string,
     recordingData: Buffer,
     type: 'video' | 'audio' | 'screen',
-    originalName?: string
+    originalName?: string,
+    tenantId?: string
   ): Promise<string> {
     const fileExtension = this.getFileExtension(type, originalName);
     const fileName = `${sessionId}_${type}_${uuidv4()}${fileExtension}`;
-    const filePath = path.join(this.recordingsPath, fileName);
+    const directory = this.getTenantDirectory(tenantId);
+    const filePath = path.join(directory, fileName);
     
     try {
+      await fs.promises.mkdir(directory, { recursive: true });
       await fs.promises.writeFile(filePath, recordingData);
       console.log(`Saved ${type} recording: ${fileName}`);
       return filePath;
@@ -43,11 +62,11 @@ export class RecordingService {
     sessionId: string
   ): Promise<{ videoPath: string; audioPath: string }> {
     const videoOutputPath = path.join(
-      this.recordingsPath,
+      path.dirname(inputPath),
       `${sessionId}_processed_video_${uuidv4()}.mp4`
     );
     const audioOutputPath = path.join(
-      this.recordingsPath,
+      path.dirname(inputPath),
       `${sessionId}_extracted_audio_${uuidv4()}.wav`
     );
     
@@ -69,6 +88,43 @@ export class RecordingService {
     }
   }
   
+  async extractAudioTrack(inputPath: string, sessionId: string): Promise<string> {
+    const audioOutputPath = path.join(
+      path.dirname(inputPath),
+      `${sessionId}_extracted_audio_${uuidv4()}.wav`
+    );
+    
+    try {
+      await this.extractAudio(inputPath, audioOutputPath);
+      return audioOutputPath;
+    } catch (error) {
+      console.error('Error extracting audio track:', error);
+      throw new Error('Failed to extract audio track');
+    }
+  }
+  
+  async extractFrames(inputPath: string, outputDir: string, fps: number): Promise<string[]> {
+    await fs.promises.mkdir(outputDir, { recursive: true });
+    
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg(inputPath)
+        .outputOptions(['-vf', `fps=${fps}`, '-qscale:v', '3'])
+        .output(path.join(outputDir, 'frame_%06d.jpg'))
+        .on('end', () => resolve())
+        .on('error', (error) => {
+          console.error('Frame extraction error:', error);
+          reject(error);
+        })
+        .run();
+    });
+    
+    const frames = await fs.promises.readdir(outputDir);
+    return frames
+      .filter(name => name.startsWith('frame_'))
+      .sort()
+      .map(name => path.join(outputDir, name));
+  }
+  
   private processVideo(inputPath: string, outputPath: string): Promise<void> {
     return new Promise((resolve, reject) => {
       ffmpeg(inputPath)
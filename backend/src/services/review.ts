@@ -0,0 +1,529 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ProctorSessionModel, ReviewEventModel, IncidentModel, IReviewEvent } from '../models';
+import {
+  IncidentVerdict,
+  SessionVerdict,
+  ReviewStatus,
+  SessionReview,
+  ReviewEvent,
+  ReviewQueueItem,
+  ReviewerAgreement,
+  ReviewAgreementReport,
+  RiskScore
+} from '../types';
+import { outboundWebhookService } from './outboundWebhook';
+import { ltiService } from './lti';
+
+export interface ReviewQueueQuery {
+  status?: ReviewStatus;
+  claimedBy?: string;
+  overdue?: boolean;
+  tenantId?: string; // only this tenant's sessions; every tenant when unset
+}
+
+// Reviewer ID recorded for events the system raises itself
+const SYSTEM_REVIEWER = 'system';
+
+const OPEN_STATUSES: ReviewStatus[] = ['pending', 'in_review', 'awaiting_second_opinion'];
+
+export class ReviewStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReviewStateError';
+  }
+}
+
+export class ReviewService {
+  private riskThreshold: number;
+  private slaMs: number;
+
+  constructor() {
+    this.riskThreshold = parseFloat(process.env.REVIEW_RISK_THRESHOLD || '40');
+    this.slaMs = parseFloat(process.env.REVIEW_SLA_HOURS || '24') * 60 * 60 * 1000;
+    console.log('Review Service initialized');
+  }
+
+  /**
+   * Queues an ended session for review when its risk score reaches the
+   * threshold. A session already in the queue keeps its place but picks up
+   * the newer score.
+   */
+  async enqueueIfFlagged(sessionId: string, riskScore: RiskScore): Promise<SessionReview | null> {
+    const sessionDoc = await ProctorSessionModel.findOne({ sessionId }, { review: 1 }).lean();
+    if (!sessionDoc) {
+      return null;
+    }
+
+    if (sessionDoc.review?.status) {
+      if (sessionDoc.review.status !== 'completed') {
+        await ProctorSessionModel.updateOne({ sessionId }, { $set: { 'review.riskScore': riskScore.score } });
+      }
+      return null;
+    }
+
+    if (riskScore.score < this.riskThreshold) {
+      return null;
+    }
+
+    return this.enqueue(
+      sessionId,
+      SYSTEM_REVIEWER,
+      riskScore.score,
+      `Risk score ${riskScore.score} reached review threshold ${this.riskThreshold}`
+    );
+  }
+
+  /**
+   * Puts a session in the review queue. Returns null when the session does
+   * not exist.
+   */
+  async enqueue(sessionId: string, reviewerId: string, riskScore: number, note?: string): Promise<SessionReview | null> {
+    const queuedAt = new Date();
+    const review: SessionReview = {
+      status: 'pending',
+      queuedAt,
+      dueAt: new Date(queuedAt.getTime() + this.slaMs),
+      riskScore,
+      reviewers: []
+    };
+
+    const sessionDoc = await ProctorSessionModel.findOneAndUpdate(
+      { sessionId, 'review.status': { $exists: false } },
+      { $set: { review } },
+      { new: true }
+    );
+    if (!sessionDoc) {
+      if (!(await ProctorSessionModel.exists({ sessionId }))) {
+        return null;
+      }
+      throw new ReviewStateError(`Session ${sessionId} is already in the review queue`);
+    }
+
+    await this.recordEvent({ sessionId, reviewerId, type: 'queued', note });
+    console.log(`Queued session ${sessionId} for review (risk score ${riskScore})`);
+    return review;
+  }
+
+  async getQueue(query: ReviewQueueQuery): Promise<ReviewQueueItem[]> {
+    const filter: Record<string, unknown> = {
+      'review.status': query.status ?? { $in: OPEN_STATUSES }
+    };
+    if (query.claimedBy) {
+      filter['review.claimedBy'] = query.claimedBy;
+    }
+    if (query.tenantId) {
+      filter.tenantId = query.tenantId;
+    }
+    if (query.overdue) {
+      filter['review.dueAt'] = { $lt: new Date() };
+      if (!query.status) {
+        filter['review.status'] = { $in: OPEN_STATUSES };
+      }
+    }
+
+    const sessionDocs = await ProctorSessionModel.find(filter, { sessionId: 1, userId: 1, review: 1 })
+      .sort({ 'review.dueAt': 1 })
+      .lean();
+
+    const now = Date.now();
+    return sessionDocs
+      .filter(sessionDoc => sessionDoc.review)
+      .map(sessionDoc => {
+        const review = sessionDoc.review as SessionReview;
+        // Completed reviews are measured against when they were finished
+        const timeRemainingMs = new Date(review.dueAt).getTime() - (review.completedAt ? new Date(review.completedAt).getTime() : now);
+        return {
+          ...this.toReview(review),
+          sessionId: sessionDoc.sessionId,
+          userId: sessionDoc.userId,
+          slaBreached: timeRemainingMs < 0,
+          timeRemainingMs
+        };
+      });
+  }
+
+  /**
+   * Returns a session's review state and its full event history, or null if
+   * the session has never been queued.
+   */
+  async getReview(sessionId: string): Promise<{ review: SessionReview; events: ReviewEvent[] } | null> {
+    const sessionDoc = await ProctorSessionModel.findOne({ sessionId }, { review: 1 }).lean();
+    if (!sessionDoc?.review?.status) {
+      return null;
+    }
+
+    const eventDocs = await ReviewEventModel.find({ sessionId }).sort({ createdAt: 1 });
+    return {
+      review: this.toReview(sessionDoc.review),
+      events: eventDocs.map(eventDoc => this.toEvent(eventDoc))
+    };
+  }
+
+  /**
+   * Assigns a queued session to a reviewer. Anyone who already reviewed the
+   * session cannot pick it up again for a second opinion.
+   */
+  async claim(sessionId: string, reviewerId: string): Promise<SessionReview | null> {
+    const sessionDoc = await ProctorSessionModel.findOneAndUpdate(
+      {
+        sessionId,
+        $or: [
+          { 'review.status': 'pending' },
+          { 'review.status': 'awaiting_second_opinion', 'review.reviewers': { $ne: reviewerId } }
+        ]
+      },
+      {
+        $set: { 'review.status': 'in_review', 'review.claimedBy': reviewerId, 'review.claimedAt': new Date() },
+        $addToSet: { 'review.reviewers': reviewerId }
+      },
+      { new: true }
+    ).lean();
+    if (!sessionDoc?.review) {
+      return this.rejectIfExists(sessionId, 'cannot be claimed');
+    }
+
+    await this.recordEvent({ sessionId, reviewerId, type: 'claimed' });
+    return this.toReview(sessionDoc.review);
+  }
+
+  async release(sessionId: string, reviewerId: string, note?: string): Promise<SessionReview | null> {
+    // Released sessions go back to the state they were claimed from
+    const history = await this.getVerdictHistory(sessionId);
+    const status: ReviewStatus = history.secondOpinionRequested ? 'awaiting_second_opinion' : 'pending';
+
+    const sessionDoc = await ProctorSessionModel.findOneAndUpdate(
+      { sessionId, 'review.status': 'in_review', 'review.claimedBy': reviewerId },
+      {
+        $set: { 'review.status': status },
+        $unset: { 'review.claimedBy': '', 'review.claimedAt': '' }
+      },
+      { new: true }
+    ).lean();
+    if (!sessionDoc?.review) {
+      return this.rejectIfExists(sessionId, `is not claimed by ${reviewerId}`);
+    }
+
+    await this.recordEvent({ sessionId, reviewerId, type: 'released', note });
+    return this.toReview(sessionDoc.review);
+  }
+
+  async addNote(sessionId: string, reviewerId: string, note: string, incidentId?: string): Promise<ReviewEvent | null> {
+    if (!(await this.assertClaimedBy(sessionId, reviewerId))) {
+      return null;
+    }
+    if (incidentId && !(await IncidentModel.exists({ sessionId, incidentId }))) {
+      return null;
+    }
+    return this.recordEvent({ sessionId, reviewerId, type: 'note', incidentId, note });
+  }
+
+  async recordIncidentVerdict(
+    sessionId: string,
+    reviewerId: string,
+    incidentId: string,
+    verdict: IncidentVerdict,
+    note?: string
+  ): Promise<ReviewEvent | null> {
+    if (!(await this.assertClaimedBy(sessionId, reviewerId))) {
+      return null;
+    }
+    if (!(await IncidentModel.exists({ sessionId, incidentId }))) {
+      return null;
+    }
+
+    const event = await this.recordEvent({ sessionId, reviewerId, type: 'incident_verdict', incidentId, verdict, note });
+    await outboundWebhookService.publish('review.incident_verdict', sessionId, {
+      incidentId,
+      reviewerId,
+      verdict,
+      decidedAt: event.createdAt
+    });
+    return event;
+  }
+
+  /**
+   * Closes the reviewer's pass over a session. If they left any incident
+   * marked for a second opinion, their verdict is kept as a proposal and the
+   * session goes back into the queue for another reviewer.
+   */
+  async recordFinalVerdict(
+    sessionId: string,
+    reviewerId: string,
+    verdict: SessionVerdict,
+    note?: string
+  ): Promise<SessionReview | null> {
+    if (!(await this.assertClaimedBy(sessionId, reviewerId))) {
+      return null;
+    }
+
+    const history = await this.getVerdictHistory(sessionId);
+    const reviewerVerdicts = history.incidentVerdicts.get(reviewerId);
+    const needsSecondOpinion = reviewerVerdicts !== undefined &&
+      Array.from(reviewerVerdicts.values()).includes('second_opinion');
+
+    const completedAt = new Date();
+    const update = needsSecondOpinion
+      ? {
+        $set: { 'review.status': 'awaiting_second_opinion' },
+        $unset: { 'review.claimedBy': '', 'review.claimedAt': '' }
+      }
+      : {
+        $set: { 'review.status': 'completed', 'review.finalVerdict': verdict, 'review.completedAt': completedAt }
+      };
+
+    const sessionDoc = await ProctorSessionModel.findOneAndUpdate(
+      { sessionId, 'review.status': 'in_review', 'review.claimedBy': reviewerId },
+      update,
+      { new: true }
+    ).lean();
+    if (!sessionDoc?.review) {
+      return this.rejectIfExists(sessionId, `is not claimed by ${reviewerId}`);
+    }
+
+    await this.recordEvent({
+      sessionId,
+      reviewerId,
+      type: needsSecondOpinion ? 'second_opinion_requested' : 'final_verdict',
+      verdict,
+      note
+    });
+
+    // Proposals awaiting a second opinion are not outcomes yet
+    if (!needsSecondOpinion) {
+      await outboundWebhookService.publish('review.verdict', sessionId, {
+        verdict,
+        reviewerId,
+        reviewers: sessionDoc.review.reviewers,
+        riskScore: sessionDoc.review.riskScore,
+        completedAt
+      });
+      ltiService.passbackVerdict(sessionId, verdict);
+    }
+    return this.toReview(sessionDoc.review);
+  }
+
+  /**
+   * Measures how often reviewers agree on the incidents they both judged.
+   * Second-opinion requests are not verdicts and are left out. Kappa for each
+   * pair is Cohen's kappa; the overall figure pools every pairwise comparison.
+   * With a `tenantId`, only that tenant's sessions are counted.
+   */
+  async getAgreementReport(range: { from?: Date; to?: Date; tenantId?: string }): Promise<ReviewAgreementReport> {
+    const filter: Record<string, unknown> = {
+      type: { $in: ['incident_verdict', 'second_opinion_requested', 'final_verdict'] }
+    };
+    if (range.tenantId) {
+      filter.sessionId = { $in: await ProctorSessionModel.distinct('sessionId', { tenantId: range.tenantId }) };
+    }
+    if (range.from || range.to) {
+      filter.createdAt = {
+        ...(range.from ? { $gte: range.from } : {}),
+        ...(range.to ? { $lte: range.to } : {})
+      };
+    }
+    const eventDocs = await ReviewEventModel.find(filter).sort({ createdAt: 1 }).lean();
+
+    // Latest verdict from each reviewer on each incident
+    const byIncident = new Map<string, Map<string, IncidentVerdict>>();
+    for (const eventDoc of eventDocs) {
+      if (eventDoc.type !== 'incident_verdict' || !eventDoc.incidentId) {
+        continue;
+      }
+      const verdicts = byIncident.get(eventDoc.incidentId) ?? new Map<string, IncidentVerdict>();
+      verdicts.set(eventDoc.reviewerId, eventDoc.verdict as IncidentVerdict);
+      byIncident.set(eventDoc.incidentId, verdicts);
+    }
+
+    const pairComparisons = new Map<string, Array<[IncidentVerdict, IncidentVerdict]>>();
+    let incidentsCompared = 0;
+    for (const verdicts of byIncident.values()) {
+      const judged = Array.from(verdicts.entries())
+        .filter(([, verdict]) => verdict !== 'second_opinion')
+        .sort(([a], [b]) => a.localeCompare(b));
+      if (judged.length < 2) {
+        continue;
+      }
+      incidentsCompared++;
+      for (let i = 0; i < judged.length; i++) {
+        for (let j = i + 1; j < judged.length; j++) {
+          const key = `${judged[i][0]}\u0000${judged[j][0]}`;
+          const comparisons = pairComparisons.get(key) ?? [];
+          comparisons.push([judged[i][1], judged[j][1]]);
+          pairComparisons.set(key, comparisons);
+        }
+      }
+    }
+
+    const pairs: ReviewerAgreement[] = Array.from(pairComparisons.entries()).map(([key, comparisons]) => ({
+      reviewers: key.split('\u0000'),
+      compared: comparisons.length,
+      agreement: this.round(this.observedAgreement(comparisons)),
+      kappa: this.roundOrNull(this.cohensKappa(comparisons))
+    }));
+    const allComparisons = Array.from(pairComparisons.values()).flat();
+
+    return {
+      incidentsCompared,
+      agreement: this.round(this.observedAgreement(allComparisons)),
+      kappa: this.roundOrNull(this.pooledKappa(allComparisons)),
+      pairs: pairs.sort((a, b) => b.compared - a.compared),
+      sessionVerdicts: this.compareSessionVerdicts(eventDocs)
+    };
+  }
+
+  /**
+   * Compares each verdict proposed alongside a second-opinion request with
+   * the verdict the session was finally closed with.
+   */
+  private compareSessionVerdicts(eventDocs: Array<Omit<ReviewEvent, 'id'>>): { compared: number; agreement: number } {
+    const proposals = new Map<string, string[]>();
+    const finals = new Map<string, string>();
+    for (const eventDoc of eventDocs) {
+      if (eventDoc.type === 'second_opinion_requested' && eventDoc.verdict) {
+        proposals.set(eventDoc.sessionId, [...(proposals.get(eventDoc.sessionId) ?? []), eventDoc.verdict]);
+      } else if (eventDoc.type === 'final_verdict' && eventDoc.verdict) {
+        finals.set(eventDoc.sessionId, eventDoc.verdict);
+      }
+    }
+
+    let compared = 0;
+    let agreed = 0;
+    for (const [sessionId, proposed] of proposals) {
+      const finalVerdict = finals.get(sessionId);
+      if (!finalVerdict) {
+        continue;
+      }
+      compared += proposed.length;
+      agreed += proposed.filter(verdict => verdict === finalVerdict).length;
+    }
+    return { compared, agreement: compared > 0 ? this.round(agreed / compared) : 0 };
+  }
+
+  private observedAgreement(comparisons: Array<[IncidentVerdict, IncidentVerdict]>): number {
+    if (comparisons.length === 0) {
+      return 0;
+    }
+    return comparisons.filter(([a, b]) => a === b).length / comparisons.length;
+  }
+
+  private cohensKappa(comparisons: Array<[IncidentVerdict, IncidentVerdict]>): number | null {
+    if (comparisons.length === 0) {
+      return null;
+    }
+    const n = comparisons.length;
+    const confirmedA = comparisons.filter(([a]) => a === 'confirmed').length / n;
+    const confirmedB = comparisons.filter(([, b]) => b === 'confirmed').length / n;
+    const expected = confirmedA * confirmedB + (1 - confirmedA) * (1 - confirmedB);
+    return this.kappa(this.observedAgreement(comparisons), expected);
+  }
+
+  private pooledKappa(comparisons: Array<[IncidentVerdict, IncidentVerdict]>): number | null {
+    if (comparisons.length === 0) {
+      return null;
+    }
+    const confirmed = comparisons.flat().filter(verdict => verdict === 'confirmed').length / (comparisons.length * 2);
+    const expected = confirmed * confirmed + (1 - confirmed) * (1 - confirmed);
+    return this.kappa(this.observedAgreement(comparisons), expected);
+  }
+
+  // Undefined when chance agreement is already perfect (everyone used one verdict)
+  private kappa(observed: number, expected: number): number | null {
+    return expected >= 1 ? null : (observed - expected) / (1 - expected);
+  }
+
+  /**
+   * Each reviewer's latest verdict per incident, and whether the session is
+   * currently waiting on a second opinion.
+   */
+  private async getVerdictHistory(sessionId: string): Promise<{
+    incidentVerdicts: Map<string, Map<string, IncidentVerdict>>;
+    secondOpinionRequested: boolean;
+  }> {
+    const eventDocs = await ReviewEventModel.find({
+      sessionId,
+      type: { $in: ['incident_verdict', 'second_opinion_requested'] }
+    }).sort({ createdAt: 1 }).lean();
+
+    const incidentVerdicts = new Map<string, Map<string, IncidentVerdict>>();
+    let secondOpinionRequested = false;
+    for (const eventDoc of eventDocs) {
+      if (eventDoc.type === 'second_opinion_requested') {
+        secondOpinionRequested = true;
+        continue;
+      }
+      const verdicts = incidentVerdicts.get(eventDoc.reviewerId) ?? new Map<string, IncidentVerdict>();
+      verdicts.set(eventDoc.incidentId as string, eventDoc.verdict as IncidentVerdict);
+      incidentVerdicts.set(eventDoc.reviewerId, verdicts);
+    }
+    return { incidentVerdicts, secondOpinionRequested };
+  }
+
+  /**
+   * Returns true when the session is under review by this reviewer, null when
+   * the session does not exist, and throws otherwise.
+   */
+  private async assertClaimedBy(sessionId: string, reviewerId: string): Promise<true | null> {
+    const sessionDoc = await ProctorSessionModel.findOne({ sessionId }, { review: 1 }).lean();
+    if (!sessionDoc) {
+      return null;
+    }
+    if (sessionDoc.review?.status !== 'in_review' || sessionDoc.review.claimedBy !== reviewerId) {
+      throw new ReviewStateError(`Session ${sessionId} is not claimed by ${reviewerId}`);
+    }
+    return true;
+  }
+
+  private async rejectIfExists(sessionId: string, reason: string): Promise<null> {
+    if (await ProctorSessionModel.exists({ sessionId })) {
+      throw new ReviewStateError(`Session ${sessionId} ${reason}`);
+    }
+    return null;
+  }
+
+  private async recordEvent(event: Omit<ReviewEvent, 'id' | 'createdAt'>): Promise<ReviewEvent> {
+    const eventDoc = new ReviewEventModel({
+      ...event,
+      eventId: uuidv4(),
+      createdAt: new Date()
+    });
+    await eventDoc.save();
+    return this.toEvent(eventDoc);
+  }
+
+  private toReview(review: SessionReview): SessionReview {
+    return {
+      status: review.status,
+      queuedAt: review.queuedAt,
+      dueAt: review.dueAt,
+      riskScore: review.riskScore,
+      claimedBy: review.claimedBy,
+      claimedAt: review.claimedAt,
+      reviewers: review.reviewers || [],
+      finalVerdict: review.finalVerdict,
+      completedAt: review.completedAt
+    };
+  }
+
+  private toEvent(eventDoc: IReviewEvent): ReviewEvent {
+    return {
+      id: eventDoc.eventId,
+      sessionId: eventDoc.sessionId,
+      reviewerId: eventDoc.reviewerId,
+      type: eventDoc.type,
+      incidentId: eventDoc.incidentId,
+      verdict: eventDoc.verdict,
+      note: eventDoc.note,
+      createdAt: eventDoc.createdAt
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+
+  private roundOrNull(value: number | null): number | null {
+    return value === null ? null : this.round(value);
+  }
+}
+
+export const reviewService = new ReviewService();
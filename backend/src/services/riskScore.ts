@@ -0,0 +1,164 @@
+import { EventEmitter } from 'events';
+import { CallMonitoringDataModel } from '../models';
+import { RiskFactor, RiskScore, SuspiciousActivity } from '../types';
+
+interface FactorState {
+  incidentCount: number;
+  durationMs: number;
+  points: number;
+}
+
+type SessionFactors = Map<SuspiciousActivity['type'], FactorState>;
+
+// Relative weight of one medium-severity, fully confident incident of each type
+const TYPE_WEIGHTS: Record<SuspiciousActivity['type'], number> = {
+  gaze_away: 4,
+  multiple_voices: 10,
+  window_switch: 8,
+  focus_lost: 3,
+  fullscreen_exit: 4,
+  clipboard_use: 6,
+  print_attempt: 10,
+  face_not_detected: 6,
+  multiple_faces: 12,
+  environment_change: 3,
+  connection_lost: 6
+};
+
+const SEVERITY_MULTIPLIERS: Record<SuspiciousActivity['severity'], number> = {
+  low: 0.5,
+  medium: 1,
+  high: 2
+};
+
+// A factor stops adding evidence after this many weighted incidents, so one
+// noisy detector cannot max out the score on its own
+const FACTOR_CAP_INCIDENTS = 5;
+// Points at which the score reaches ~63; the score approaches 100 asymptotically
+const SCORE_SCALE = 50;
+// Incidents that span a period count up to this many times extra for their length
+const MAX_DURATION_BONUS = 2;
+
+export class RiskScoreService extends EventEmitter {
+  // Running factor totals for live sessions
+  private sessions: Map<string, SessionFactors> = new Map();
+
+  constructor() {
+    super();
+    console.log('Risk Score Service initialized');
+  }
+
+  startSession(sessionId: string): void {
+    this.sessions.set(sessionId, new Map());
+  }
+
+  /**
+   * Rebuilds a live session's totals from its stored incidents, e.g. after a
+   * restart.
+   */
+  async restoreSession(sessionId: string): Promise<RiskScore> {
+    const factors = await this.loadFactors(sessionId);
+    this.sessions.set(sessionId, factors);
+    return this.toScore(sessionId, factors);
+  }
+
+  /**
+   * Adds newly raised incidents to a live session and emits the updated
+   * score. Returns null for sessions that are not being tracked.
+   */
+  record(sessionId: string, activities: SuspiciousActivity[]): RiskScore | null {
+    const factors = this.sessions.get(sessionId);
+    if (!factors || activities.length === 0) {
+      return null;
+    }
+
+    activities.forEach(activity => this.addActivity(factors, activity));
+    const score = this.toScore(sessionId, factors);
+    this.emit('score', score);
+    return score;
+  }
+
+  getScore(sessionId: string): RiskScore | null {
+    const factors = this.sessions.get(sessionId);
+    return factors ? this.toScore(sessionId, factors) : null;
+  }
+
+  /**
+   * Scores a session from its stored incidents without tracking it.
+   */
+  async calculate(sessionId: string): Promise<RiskScore> {
+    return this.toScore(sessionId, await this.loadFactors(sessionId));
+  }
+
+  /**
+   * Returns the final score for a session and stops tracking it.
+   */
+  finishSession(sessionId: string): RiskScore | null {
+    const score = this.getScore(sessionId);
+    this.sessions.delete(sessionId);
+    return score;
+  }
+
+  private async loadFactors(sessionId: string): Promise<SessionFactors> {
+    const factors: SessionFactors = new Map();
+    const monitoringDocs = await CallMonitoringDataModel.find(
+      { sessionId, 'suspiciousActivity.0': { $exists: true } },
+      { suspiciousActivity: 1 }
+    ).lean();
+
+    for (const doc of monitoringDocs) {
+      (doc.suspiciousActivity || []).forEach(activity => this.addActivity(factors, activity));
+    }
+    return factors;
+  }
+
+  private addActivity(factors: SessionFactors, activity: SuspiciousActivity): void {
+    const factor = factors.get(activity.type) || { incidentCount: 0, durationMs: 0, points: 0 };
+
+    const durationMs = activity.startTime && activity.endTime
+      ? Math.max(0, new Date(activity.endTime).getTime() - new Date(activity.startTime).getTime())
+      : 0;
+    const durationFactor = 1 + Math.min(durationMs / 60000, MAX_DURATION_BONUS);
+    const confidence = Math.min(1, Math.max(0, activity.confidence ?? 1));
+
+    factor.incidentCount++;
+    factor.durationMs += durationMs;
+    factor.points += (TYPE_WEIGHTS[activity.type] ?? 5) *
+      SEVERITY_MULTIPLIERS[activity.severity] * confidence * durationFactor;
+    factors.set(activity.type, factor);
+  }
+
+  private toScore(sessionId: string, factors: SessionFactors): RiskScore {
+    const capped = Array.from(factors.entries()).map(([type, factor]) => ({
+      type,
+      factor,
+      points: Math.min(factor.points, (TYPE_WEIGHTS[type] ?? 5) * FACTOR_CAP_INCIDENTS)
+    }));
+    const totalPoints = capped.reduce((sum, entry) => sum + entry.points, 0);
+    const score = 100 * (1 - Math.exp(-totalPoints / SCORE_SCALE));
+
+    const riskFactors: RiskFactor[] = capped
+      .map(({ type, factor, points }) => ({
+        type,
+        incidentCount: factor.incidentCount,
+        durationMs: factor.durationMs,
+        points: this.round(points),
+        contribution: totalPoints > 0 ? this.round(score * points / totalPoints) : 0
+      }))
+      .sort((a, b) => b.contribution - a.contribution);
+
+    return {
+      sessionId,
+      score: this.round(score),
+      factors: riskFactors,
+      incidentCount: capped.reduce((sum, entry) => sum + entry.factor.incidentCount, 0),
+      calculatedAt: new Date()
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
+
+export const riskScoreService = new RiskScoreService();
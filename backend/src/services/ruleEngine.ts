@@ -0,0 +1,581 @@
+import { v4 as uuidv4 } from 'uuid';
+import { RuleSetModel, CallMonitoringDataModel, ExamModel, TenantModel, IRuleSet } from '../models';
+import {
+  RuleSet,
+  DetectionRule,
+  RuleCondition,
+  RuleField,
+  RuleDryRunResult,
+  SuspiciousActivity,
+  GazeTrackingData,
+  AudioAnalysisData,
+  TelemetryObservation,
+  ProctorSession
+} from '../types';
+
+// One point in time to evaluate rules against
+export interface RuleSample {
+  timestamp: Date;
+  gazeData?: GazeTrackingData;
+  audioData?: AudioAnalysisData;
+  telemetry?: TelemetryObservation;
+}
+
+export type RuleSetInput = Pick<RuleSet, 'name' | 'rules'> & Partial<Pick<RuleSet, 'examId' | 'tenantId' | 'isDefault'>>;
+
+interface RuleState {
+  matchingSince?: number;
+  lastFiredAt?: number;
+}
+
+type FieldValue = number | boolean | string;
+
+const RULE_FIELDS: RuleField[] = [
+  'gaze.lookingAway',
+  'gaze.duration',
+  'gaze.confidence',
+  'gaze.faceCount',
+  'audio.volume',
+  'audio.peak',
+  'audio.backgroundNoise',
+  'audio.multipleVoices',
+  'audio.multipleVoicesConfidence',
+  'audio.speakerCount',
+  'telemetry.type',
+  'telemetry.durationMs',
+  'telemetry.action'
+];
+
+const ACTIVITY_TYPES: SuspiciousActivity['type'][] = [
+  'gaze_away',
+  'multiple_voices',
+  'window_switch',
+  'focus_lost',
+  'fullscreen_exit',
+  'clipboard_use',
+  'print_attempt',
+  'face_not_detected',
+  'multiple_faces',
+  'environment_change',
+  'connection_lost'
+];
+
+const rule = (
+  id: string,
+  activityType: SuspiciousActivity['type'],
+  severity: SuspiciousActivity['severity'],
+  conditions: RuleCondition[],
+  description?: string
+): DetectionRule => ({
+  id,
+  name: id.replace(/_/g, ' '),
+  enabled: true,
+  activityType,
+  conditions,
+  windowMs: 0,
+  cooldownMs: 0,
+  severity,
+  description
+});
+
+const telemetryRules = (
+  type: TelemetryObservation['type'],
+  mediumMs: number,
+  highMs: number
+): DetectionRule[] => [
+  rule(`${type}_long`, type, 'high', [
+    { field: 'telemetry.type', operator: 'eq', value: type },
+    { field: 'telemetry.durationMs', operator: 'gte', value: highMs }
+  ]),
+  rule(`${type}_medium`, type, 'medium', [
+    { field: 'telemetry.type', operator: 'eq', value: type },
+    { field: 'telemetry.durationMs', operator: 'gte', value: mediumMs }
+  ]),
+  rule(type, type, 'low', [{ field: 'telemetry.type', operator: 'eq', value: type }])
+];
+
+// Used when no rule set is stored for a session's exam or tenant. Rules are
+// ordered: the first match for an activity type wins, so tiers go high to low.
+export const DEFAULT_RULES: DetectionRule[] = [
+  rule('gaze_away', 'gaze_away', 'medium', [
+    { field: 'gaze.lookingAway', operator: 'eq', value: true },
+    { field: 'gaze.duration', operator: 'gt', value: 5000 }
+  ], 'User looked away for {gaze.duration}ms'),
+  rule('multiple_voices_high', 'multiple_voices', 'high', [
+    { field: 'audio.multipleVoices', operator: 'eq', value: true },
+    { field: 'audio.multipleVoicesConfidence', operator: 'gte', value: 0.85 }
+  ], '{audio.speakerCount} distinct voices detected in audio'),
+  rule('multiple_voices_medium', 'multiple_voices', 'medium', [
+    { field: 'audio.multipleVoices', operator: 'eq', value: true },
+    { field: 'audio.multipleVoicesConfidence', operator: 'gte', value: 0.65 }
+  ], '{audio.speakerCount} distinct voices detected in audio'),
+  rule('multiple_voices', 'multiple_voices', 'low', [
+    { field: 'audio.multipleVoices', operator: 'eq', value: true }
+  ], 'Multiple voices detected in audio'),
+  ...telemetryRules('window_switch', 2000, 10000),
+  ...telemetryRules('focus_lost', 5000, 30000),
+  ...telemetryRules('fullscreen_exit', 5000, 30000),
+  rule('clipboard_paste', 'clipboard_use', 'medium', [
+    { field: 'telemetry.type', operator: 'eq', value: 'clipboard_use' },
+    { field: 'telemetry.action', operator: 'eq', value: 'paste' }
+  ]),
+  rule('clipboard_use', 'clipboard_use', 'low', [
+    { field: 'telemetry.type', operator: 'eq', value: 'clipboard_use' }
+  ]),
+  rule('print_attempt', 'print_attempt', 'high', [
+    { field: 'telemetry.type', operator: 'eq', value: 'print_attempt' }
+  ])
+];
+
+export class RuleValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid rule set: ${errors.join('; ')}`);
+    this.name = 'RuleValidationError';
+  }
+}
+
+export class RuleEngineService {
+  // Rules and evaluation state for sessions being monitored live
+  private sessionRules: Map<string, DetectionRule[]> = new Map();
+  private sessionState: Map<string, Map<string, RuleState>> = new Map();
+
+  constructor() {
+    console.log('Rule Engine Service initialized');
+  }
+
+  /**
+   * Evaluates the session's rule set against one sample and returns the
+   * incidents raised. Rule state (duration windows, cooldowns) is kept per
+   * session until reset.
+   */
+  async evaluate(session: ProctorSession, sample: RuleSample): Promise<SuspiciousActivity[]> {
+    let rules = this.sessionRules.get(session.id);
+    if (!rules) {
+      rules = await this.resolveRules(session);
+      this.sessionRules.set(session.id, rules);
+    }
+
+    let state = this.sessionState.get(session.id);
+    if (!state) {
+      state = new Map();
+      this.sessionState.set(session.id, state);
+    }
+
+    return this.evaluateRules(rules, sample, state);
+  }
+
+  /**
+   * Evaluates one sample on its own, leaving the session's live rule state
+   * alone: for evidence found after the fact, such as in a recording. Rules
+   * with a window need a run of samples, so they never fire here.
+   */
+  async evaluateStandalone(session: ProctorSession, sample: RuleSample): Promise<SuspiciousActivity[]> {
+    const rules = this.sessionRules.get(session.id) ?? await this.resolveRules(session);
+    return this.evaluateRules(rules, sample, new Map());
+  }
+
+  reset(sessionId: string): void {
+    this.sessionRules.delete(sessionId);
+    this.sessionState.delete(sessionId);
+  }
+
+  /**
+   * Makes live sessions re-resolve their rules on the next sample, e.g. after
+   * an exam is pointed at a different rule set.
+   */
+  invalidateRules(): void {
+    this.sessionRules.clear();
+  }
+
+  /**
+   * Replays a past session's stored monitoring data against a set of rules
+   * without recording anything. Incidents from video analysis and the noise
+   * floor are not rule-driven and are not part of the replay.
+   */
+  async dryRun(sessionId: string, rules: DetectionRule[]): Promise<RuleDryRunResult> {
+    this.validate({ name: 'dry run', rules });
+    const draftRules = this.withRuleIds(rules);
+
+    const monitoringDocs = await CallMonitoringDataModel.find({ sessionId }).sort({ timestamp: 1 }).lean();
+    const samples: RuleSample[] = [];
+    for (const doc of monitoringDocs) {
+      if (doc.gazeData || doc.audioData) {
+        samples.push({ timestamp: doc.timestamp, gazeData: doc.gazeData, audioData: doc.audioData });
+      }
+      for (const observation of doc.telemetry || []) {
+        samples.push({ timestamp: observation.timestamp, telemetry: observation });
+      }
+    }
+
+    const state = new Map<string, RuleState>();
+    const incidents = samples.flatMap(sample => this.evaluateRules(draftRules, sample, state));
+
+    const bySeverity: RuleDryRunResult['bySeverity'] = { low: 0, medium: 0, high: 0 };
+    const byType: RuleDryRunResult['byType'] = {};
+    for (const incident of incidents) {
+      bySeverity[incident.severity]++;
+      byType[incident.type] = (byType[incident.type] || 0) + 1;
+    }
+
+    return { sessionId, sampleCount: samples.length, incidents, bySeverity, byType };
+  }
+
+  // With `includeShared`, a tenant's listing also has the rule sets without a tenant
+  async listRuleSets(filter: { examId?: string; tenantId?: string; includeShared?: boolean } = {}): Promise<RuleSet[]> {
+    const query: Record<string, unknown> = {};
+    if (filter.examId) {
+      query.examId = filter.examId;
+    }
+    if (filter.tenantId) {
+      query.tenantId = filter.includeShared ? { $in: [filter.tenantId, null] } : filter.tenantId;
+    }
+
+    const ruleSetDocs = await RuleSetModel.find(query).sort({ name: 1 });
+    return ruleSetDocs.map(ruleSetDoc => this.toRuleSet(ruleSetDoc));
+  }
+
+  async getRuleSet(ruleSetId: string): Promise<RuleSet | null> {
+    const ruleSetDoc = await RuleSetModel.findOne({ ruleSetId });
+    return ruleSetDoc ? this.toRuleSet(ruleSetDoc) : null;
+  }
+
+  async createRuleSet(input: RuleSetInput): Promise<RuleSet> {
+    this.validate(input);
+    await this.validateScope(input);
+
+    const ruleSetDoc = new RuleSetModel({
+      ruleSetId: uuidv4(),
+      name: input.name,
+      examId: input.examId,
+      tenantId: input.tenantId,
+      isDefault: input.isDefault || false,
+      rules: this.withRuleIds(input.rules)
+    });
+    await ruleSetDoc.save();
+
+    await this.afterRuleSetChange(ruleSetDoc);
+    console.log(`Created rule set ${ruleSetDoc.ruleSetId} (${input.name})`);
+    return this.toRuleSet(ruleSetDoc);
+  }
+
+  async updateRuleSet(ruleSetId: string, input: RuleSetInput): Promise<RuleSet | null> {
+    this.validate(input);
+    await this.validateScope(input);
+
+    const ruleSetDoc = await RuleSetModel.findOneAndUpdate(
+      { ruleSetId },
+      {
+        $set: {
+          name: input.name,
+          examId: input.examId,
+          tenantId: input.tenantId,
+          isDefault: input.isDefault || false,
+          rules: this.withRuleIds(input.rules)
+        }
+      },
+      { new: true }
+    );
+    if (!ruleSetDoc) {
+      return null;
+    }
+
+    await this.afterRuleSetChange(ruleSetDoc);
+    console.log(`Updated rule set ${ruleSetId}`);
+    return this.toRuleSet(ruleSetDoc);
+  }
+
+  async deleteRuleSet(ruleSetId: string): Promise<boolean> {
+    const result = await RuleSetModel.deleteOne({ ruleSetId });
+    if (result.deletedCount === 0) {
+      return false;
+    }
+
+    this.sessionRules.clear();
+    console.log(`Deleted rule set ${ruleSetId}`);
+    return true;
+  }
+
+  validate(input: Partial<RuleSetInput>): void {
+    const errors: string[] = [];
+
+    if (!input.name || typeof input.name !== 'string') {
+      errors.push('name is required');
+    }
+    if (!Array.isArray(input.rules)) {
+      errors.push('rules must be an array');
+      throw new RuleValidationError(errors);
+    }
+
+    input.rules.forEach((rule, index) => {
+      const label = `rules[${index}]`;
+      if (!rule.name) {
+        errors.push(`${label}.name is required`);
+      }
+      if (!ACTIVITY_TYPES.includes(rule.activityType)) {
+        errors.push(`${label}.activityType is not a known activity type`);
+      }
+      if (!['low', 'medium', 'high'].includes(rule.severity)) {
+        errors.push(`${label}.severity must be low, medium or high`);
+      }
+      if (!Array.isArray(rule.conditions) || rule.conditions.length === 0) {
+        errors.push(`${label}.conditions must have at least one condition`);
+      } else {
+        rule.conditions.forEach((condition, conditionIndex) => {
+          const conditionLabel = `${label}.conditions[${conditionIndex}]`;
+          if (!RULE_FIELDS.includes(condition.field)) {
+            errors.push(`${conditionLabel}.field must be one of ${RULE_FIELDS.join(', ')}`);
+          }
+          if (!['eq', 'neq', 'gt', 'gte', 'lt', 'lte'].includes(condition.operator)) {
+            errors.push(`${conditionLabel}.operator is not supported`);
+          }
+          if (!['number', 'boolean', 'string'].includes(typeof condition.value)) {
+            errors.push(`${conditionLabel}.value must be a number, boolean or string`);
+          }
+        });
+      }
+      if (rule.windowMs !== undefined && (typeof rule.windowMs !== 'number' || rule.windowMs < 0)) {
+        errors.push(`${label}.windowMs must be a non-negative number`);
+      }
+      if (rule.cooldownMs !== undefined && (typeof rule.cooldownMs !== 'number' || rule.cooldownMs < 0)) {
+        errors.push(`${label}.cooldownMs must be a non-negative number`);
+      }
+      if (rule.confidence !== undefined &&
+        (typeof rule.confidence !== 'number' || !(rule.confidence >= 0 && rule.confidence <= 1))) {
+        errors.push(`${label}.confidence must be a number between 0 and 1`);
+      }
+    });
+
+    if (errors.length > 0) {
+      throw new RuleValidationError(errors);
+    }
+  }
+
+  /**
+   * Picks the rule set for a session: the one its exam references, then one
+   * tagged with the exam, then the tenant's, then the stored default, then
+   * the built-in defaults.
+   */
+  private async resolveRules(session: ProctorSession): Promise<DetectionRule[]> {
+    const examId = session.examId ?? session.metadata?.examId;
+    const tenantId = session.tenantId;
+
+    const examDoc = session.examId ? await ExamModel.findOne({ examId: session.examId }, { ruleSetId: 1 }) : null;
+
+    const candidates = [
+      examDoc?.ruleSetId ? { ruleSetId: examDoc.ruleSetId } : null,
+      examId ? { examId } : null,
+      tenantId ? { tenantId, examId: { $exists: false } } : null,
+      { isDefault: true }
+    ];
+
+    for (const query of candidates) {
+      if (!query) {
+        continue;
+      }
+      const ruleSetDoc = await RuleSetModel.findOne(query).sort({ updatedAt: -1 });
+      if (ruleSetDoc) {
+        return this.toRuleSet(ruleSetDoc).rules;
+      }
+    }
+
+    return DEFAULT_RULES;
+  }
+
+  /**
+   * A rule set only reaches its own tenant's sessions: its exam must be in the
+   * same tenant, and the default (which applies everywhere) cannot have one.
+   */
+  private async validateScope(input: RuleSetInput): Promise<void> {
+    const errors: string[] = [];
+
+    if (input.tenantId && !(await TenantModel.exists({ tenantId: input.tenantId }))) {
+      errors.push(`tenantId ${input.tenantId} does not exist`);
+    }
+    if (input.tenantId && input.isDefault) {
+      errors.push('a tenant\'s rule set cannot be the default');
+    }
+    if (input.examId) {
+      const examDoc = await ExamModel.findOne({ examId: input.examId }, { tenantId: 1 });
+      if (examDoc && examDoc.tenantId !== input.tenantId) {
+        errors.push(`examId ${input.examId} is not in the rule set's tenant`);
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new RuleValidationError(errors);
+    }
+  }
+
+  private evaluateRules(
+    rules: DetectionRule[],
+    sample: RuleSample,
+    state: Map<string, RuleState>
+  ): SuspiciousActivity[] {
+    const fields = this.sampleFields(sample);
+    const at = sample.timestamp.getTime();
+    const fired = new Set<SuspiciousActivity['type']>();
+    const activities: SuspiciousActivity[] = [];
+
+    for (const rule of rules) {
+      // Rules only apply to samples that carry every field they test
+      if (!rule.enabled || !rule.conditions.every(condition => fields.has(condition.field))) {
+        continue;
+      }
+
+      const ruleState = state.get(rule.id) || {};
+      state.set(rule.id, ruleState);
+
+      const matches = rule.conditions.every(condition =>
+        this.matches(fields.get(condition.field) as FieldValue, condition));
+      if (!matches) {
+        ruleState.matchingSince = undefined;
+        continue;
+      }
+
+      ruleState.matchingSince = ruleState.matchingSince ?? at;
+      const held = at - ruleState.matchingSince >= rule.windowMs;
+      const coolingDown = ruleState.lastFiredAt !== undefined && at - ruleState.lastFiredAt < rule.cooldownMs;
+      if (!held || coolingDown || fired.has(rule.activityType)) {
+        continue;
+      }
+
+      ruleState.lastFiredAt = at;
+      fired.add(rule.activityType);
+      activities.push(this.toActivity(rule, sample, fields));
+    }
+
+    return activities;
+  }
+
+  private sampleFields(sample: RuleSample): Map<RuleField, FieldValue> {
+    const fields = new Map<RuleField, FieldValue>();
+    const set = (field: RuleField, value: FieldValue | undefined) => {
+      if (value !== undefined && value !== null) {
+        fields.set(field, value);
+      }
+    };
+
+    const { gazeData, audioData, telemetry } = sample;
+    if (gazeData) {
+      set('gaze.lookingAway', gazeData.lookingAway);
+      set('gaze.duration', gazeData.duration);
+      set('gaze.confidence', gazeData.confidence);
+      set('gaze.faceCount', gazeData.faceCount);
+    }
+    if (audioData) {
+      set('audio.volume', audioData.volume);
+      set('audio.peak', audioData.peak);
+      set('audio.backgroundNoise', audioData.backgroundNoise);
+      set('audio.multipleVoices', audioData.multipleVoices);
+      set('audio.multipleVoicesConfidence', audioData.multipleVoicesConfidence);
+      set('audio.speakerCount', audioData.speakerCount);
+    }
+    if (telemetry) {
+      set('telemetry.type', telemetry.type);
+      set('telemetry.durationMs', telemetry.durationMs);
+      set('telemetry.action', telemetry.action);
+    }
+    return fields;
+  }
+
+  private matches(actual: FieldValue, condition: RuleCondition): boolean {
+    const expected = condition.value;
+    switch (condition.operator) {
+      case 'eq':
+        return actual === expected;
+      case 'neq':
+        return actual !== expected;
+      case 'gt':
+        return typeof actual === 'number' && typeof expected === 'number' && actual > expected;
+      case 'gte':
+        return typeof actual === 'number' && typeof expected === 'number' && actual >= expected;
+      case 'lt':
+        return typeof actual === 'number' && typeof expected === 'number' && actual < expected;
+      case 'lte':
+        return typeof actual === 'number' && typeof expected === 'number' && actual <= expected;
+      default:
+        return false;
+    }
+  }
+
+  private toActivity(
+    rule: DetectionRule,
+    sample: RuleSample,
+    fields: Map<RuleField, FieldValue>
+  ): SuspiciousActivity {
+    const { telemetry } = sample;
+    const source = rule.conditions[0].field.split('.')[0];
+    // Clients that predate speaker detection send no voice confidence
+    const dataConfidence = source === 'gaze' ? sample.gazeData?.confidence
+      : source === 'audio' ? sample.audioData?.multipleVoicesConfidence ?? 0.5
+      : telemetry?.confidence;
+
+    const description = rule.description
+      ? rule.description.replace(/\{([a-zA-Z.]+)\}/g, (_, field) => String(fields.get(field as RuleField) ?? 'n/a'))
+      : telemetry?.description || rule.name;
+
+    return {
+      type: rule.activityType,
+      severity: rule.severity,
+      timestamp: telemetry?.timestamp || sample.timestamp,
+      startTime: telemetry?.startTime,
+      endTime: telemetry?.endTime,
+      description,
+      confidence: rule.confidence ?? dataConfidence ?? 1,
+      ruleId: rule.id
+    };
+  }
+
+  private withRuleIds(rules: DetectionRule[]): DetectionRule[] {
+    return rules.map(rule => ({
+      ...rule,
+      id: rule.id || uuidv4(),
+      enabled: rule.enabled ?? true,
+      windowMs: rule.windowMs ?? 0,
+      cooldownMs: rule.cooldownMs ?? 0
+    }));
+  }
+
+  private async afterRuleSetChange(ruleSetDoc: IRuleSet): Promise<void> {
+    // Only one stored default at a time
+    if (ruleSetDoc.isDefault) {
+      await RuleSetModel.updateMany(
+        { ruleSetId: { $ne: ruleSetDoc.ruleSetId }, isDefault: true },
+        { $set: { isDefault: false } }
+      );
+    }
+
+    // Live sessions pick up the change on their next sample
+    this.sessionRules.clear();
+  }
+
+  private toRuleSet(ruleSetDoc: IRuleSet): RuleSet {
+    return {
+      id: ruleSetDoc.ruleSetId,
+      name: ruleSetDoc.name,
+      examId: ruleSetDoc.examId,
+      tenantId: ruleSetDoc.tenantId,
+      isDefault: ruleSetDoc.isDefault,
+      rules: ruleSetDoc.rules.map(rule => ({
+        id: rule.id,
+        name: rule.name,
+        enabled: rule.enabled,
+        activityType: rule.activityType,
+        conditions: rule.conditions.map(condition => ({
+          field: condition.field,
+          operator: condition.operator,
+          value: condition.value
+        })),
+        windowMs: rule.windowMs,
+        cooldownMs: rule.cooldownMs,
+        severity: rule.severity,
+        confidence: rule.confidence,
+        description: rule.description
+      })),
+      createdAt: ruleSetDoc.createdAt,
+      updatedAt: ruleSetDoc.updatedAt
+    };
+  }
+}
+
+export const ruleEngineService = new RuleEngineService();
@@ -0,0 +1,117 @@
+import { RecordingSpeakerAnalysisModel, SpeechSegmentModel } from '../models';
+import { RecordingSpeakerAnalysis, SessionSpeechSegment } from '../types';
+import { audioAnalysisService } from './audioAnalysis';
+import { externalCallMonitoringService } from './externalCallMonitoring';
+
+export class SpeechActivityService {
+  constructor() {
+    console.log('Speech Activity Service initialized');
+  }
+
+  /**
+   * Runs voice activity detection and speaker detection over a WAV
+   * recording and replaces what was previously stored for the same
+   * recording. Segments and speaker ranges are placed on the session's
+   * timeline, so those from several recordings line up. More than one voice
+   * is recorded as evidence against the session.
+   */
+  async processRecording(
+    sessionId: string,
+    wavPath: string,
+    source: 'audio' | 'video',
+    uploadedAt: Date = new Date()
+  ): Promise<SessionSpeechSegment[]> {
+    const { durationSeconds, segments, speakers, audio } = await audioAnalysisService.analyzeSpeechInFile(wavPath);
+
+    const recording = await externalCallMonitoringService.locateRecording(sessionId, uploadedAt, durationSeconds);
+    const recordingOffset = recording.offsetSeconds;
+
+    const sessionSegments: SessionSpeechSegment[] = segments.map(segment => ({
+      ...segment,
+      sessionId,
+      source,
+      recordingPath: wavPath,
+      recordingOffset,
+      start: recordingOffset + segment.start,
+      end: recordingOffset + segment.end
+    }));
+
+    await SpeechSegmentModel.deleteMany({ recordingPath: wavPath });
+    if (sessionSegments.length > 0) {
+      await SpeechSegmentModel.insertMany(sessionSegments);
+    }
+
+    const speakerAnalysis: RecordingSpeakerAnalysis = {
+      sessionId,
+      source,
+      recordingPath: wavPath,
+      recordingOffset,
+      speakerCount: speakers.speakerCount,
+      confidence: speakers.confidence,
+      speakers: speakers.speakers.map(speaker => ({
+        ...speaker,
+        ranges: speaker.ranges.map(range => ({
+          start: recordingOffset + range.start,
+          end: recordingOffset + range.end
+        }))
+      })),
+      analyzedAt: new Date()
+    };
+    await RecordingSpeakerAnalysisModel.replaceOne({ recordingPath: wavPath }, speakerAnalysis, { upsert: true });
+
+    await externalCallMonitoringService.recordSpeakerEvidence(sessionId, recording.startTime, audio, speakers);
+
+    console.log(
+      `Detected ${sessionSegments.length} speech segment(s) from ${speakers.speakerCount} speaker(s) ` +
+      `in ${source} recording for session ${sessionId}`
+    );
+    return sessionSegments;
+  }
+
+  // Oldest first across every recording of the session
+  async getSegments(sessionId: string, source?: 'audio' | 'video'): Promise<SessionSpeechSegment[]> {
+    const query: Record<string, string> = { sessionId };
+    if (source) {
+      query.source = source;
+    }
+
+    const segments = await SpeechSegmentModel.find(query).sort({ start: 1 }).lean();
+    return segments.map(segment => ({
+      sessionId: segment.sessionId,
+      source: segment.source,
+      recordingPath: segment.recordingPath,
+      recordingOffset: segment.recordingOffset,
+      start: segment.start,
+      end: segment.end,
+      energy: segment.energy,
+      speaker: segment.speaker
+    }));
+  }
+
+  // One entry per recording, oldest first
+  async getSpeakers(sessionId: string, source?: 'audio' | 'video'): Promise<RecordingSpeakerAnalysis[]> {
+    const query: Record<string, string> = { sessionId };
+    if (source) {
+      query.source = source;
+    }
+
+    const analyses = await RecordingSpeakerAnalysisModel.find(query).sort({ recordingOffset: 1 }).lean();
+    return analyses.map(analysis => ({
+      sessionId: analysis.sessionId,
+      source: analysis.source,
+      recordingPath: analysis.recordingPath,
+      recordingOffset: analysis.recordingOffset,
+      speakerCount: analysis.speakerCount,
+      confidence: analysis.confidence,
+      speakers: analysis.speakers.map(speaker => ({
+        speaker: speaker.speaker,
+        ranges: speaker.ranges.map(range => ({ start: range.start, end: range.end })),
+        speechSeconds: speaker.speechSeconds,
+        meanPitchHz: speaker.meanPitchHz
+      })),
+      analyzedAt: analysis.analyzedAt
+    }));
+  }
+}
+
+export const speechActivityService = new SpeechActivityService();
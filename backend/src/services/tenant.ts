@@ -0,0 +1,361 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  TenantModel,
+  TenantCredentialModel,
+  ProctorSessionModel,
+  CallMonitoringDataModel,
+  VideoProcessingJobModel,
+  ExamModel,
+  UserModel,
+  ITenant,
+  ITenantCredential
+} from '../models';
+import { Tenant, TenantCredential, TenantRetention, User } from '../types';
+import { AuthUtil } from '../utils/auth';
+import { TenantUtil } from '../utils/tenant';
+import { recordingService } from './recording';
+
+export type TenantInput = Pick<Tenant, 'name'> & Partial<Pick<Tenant, 'retention'>>;
+
+export type TenantCredentialInput = Pick<TenantCredential, 'name'> & Partial<Pick<TenantCredential, 'role'>>;
+
+const STAFF_ROLES: User['role'][] = ['proctor', 'reviewer', 'admin'];
+const SESSION_BATCH_SIZE = 100;
+
+export class TenantValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid tenant: ${errors.join('; ')}`);
+    this.name = 'TenantValidationError';
+  }
+}
+
+export class TenantConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TenantConflictError';
+  }
+}
+
+export class TenantService {
+  private interval: NodeJS.Timeout | null = null;
+  private sweeping = false;
+  private sweepMs: number;
+  private defaultRetention: TenantRetention;
+
+  constructor() {
+    this.sweepMs = parseFloat(process.env.RETENTION_SWEEP_INTERVAL_MINUTES || '60') * 60 * 1000;
+    // Used for data without a tenant and for tenants that have not set their own
+    this.defaultRetention = {
+      recordingDays: parseFloat(process.env.RETENTION_RECORDING_DAYS || '0') || undefined,
+      monitoringDataDays: parseFloat(process.env.RETENTION_MONITORING_DATA_DAYS || '0') || undefined
+    };
+    console.log('Tenant Service initialized');
+  }
+
+  /**
+   * Starts the retention sweep. Called once the database connection is up.
+   */
+  start(): void {
+    if (this.interval) {
+      return;
+    }
+    this.interval = setInterval(() => this.applyRetention(), this.sweepMs);
+    this.applyRetention();
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  async listTenants(): Promise<Tenant[]> {
+    const tenantDocs = await TenantModel.find().sort({ tenantId: 1 });
+    return tenantDocs.map(tenantDoc => this.toTenant(tenantDoc));
+  }
+
+  async getTenant(tenantId: string): Promise<Tenant | null> {
+    const tenantDoc = await TenantModel.findOne({ tenantId });
+    return tenantDoc ? this.toTenant(tenantDoc) : null;
+  }
+
+  async exists(tenantId: string): Promise<boolean> {
+    return !!(await TenantModel.exists({ tenantId }));
+  }
+
+  async createTenant(tenantId: string, input: TenantInput): Promise<Tenant> {
+    const errors = this.validateTenant(input);
+    if (!TenantUtil.isValidId(tenantId)) {
+      errors.unshift('id must be 2-63 lowercase letters, digits or dashes');
+    } else if (await TenantModel.exists({ tenantId })) {
+      errors.unshift(`Tenant ${tenantId} already exists`);
+    }
+    if (errors.length > 0) {
+      throw new TenantValidationError(errors);
+    }
+
+    const tenantDoc = new TenantModel({
+      tenantId,
+      name: input.name,
+      retention: input.retention ?? {}
+    });
+    await tenantDoc.save();
+
+    console.log(`Created tenant ${tenantId} (${input.name})`);
+    return this.toTenant(tenantDoc);
+  }
+
+  async updateTenant(tenantId: string, input: TenantInput): Promise<Tenant | null> {
+    const errors = this.validateTenant(input);
+    if (errors.length > 0) {
+      throw new TenantValidationError(errors);
+    }
+
+    const tenantDoc = await TenantModel.findOneAndUpdate(
+      { tenantId },
+      { $set: { name: input.name, retention: input.retention ?? {} } },
+      { new: true }
+    );
+    if (!tenantDoc) {
+      return null;
+    }
+
+    console.log(`Updated tenant ${tenantId}`);
+    return this.toTenant(tenantDoc);
+  }
+
+  /**
+   * Removes a tenant and its credentials. Tenants that still own exams or
+   * staff accounts are kept so their data stays isolated.
+   */
+  async deleteTenant(tenantId: string): Promise<boolean> {
+    if (await ExamModel.exists({ tenantId })) {
+      throw new TenantConflictError(`Tenant ${tenantId} still has exams and cannot be deleted`);
+    }
+    if (await UserModel.exists({ tenantId })) {
+      throw new TenantConflictError(`Tenant ${tenantId} still has staff accounts and cannot be deleted`);
+    }
+
+    const result = await TenantModel.deleteOne({ tenantId });
+    if (result.deletedCount === 0) {
+      return false;
+    }
+
+    await TenantCredentialModel.deleteMany({ tenantId });
+    console.log(`Deleted tenant ${tenantId}`);
+    return true;
+  }
+
+  async listCredentials(tenantId: string): Promise<TenantCredential[]> {
+    const credentialDocs = await TenantCredentialModel.find({ tenantId }).sort({ createdAt: -1 });
+    return credentialDocs.map(credentialDoc => this.toCredential(credentialDoc));
+  }
+
+  /**
+   * Issues API client credentials for a tenant. The secret is only ever
+   * returned here. Returns null when the tenant does not exist.
+   */
+  async createCredential(
+    tenantId: string,
+    input: TenantCredentialInput
+  ): Promise<{ credential: TenantCredential; clientSecret: string } | null> {
+    const errors: string[] = [];
+    if (!input.name || typeof input.name !== 'string') {
+      errors.push('name is required');
+    }
+    if (input.role !== undefined && !STAFF_ROLES.includes(input.role)) {
+      errors.push(`role must be one of ${STAFF_ROLES.join(', ')}`);
+    }
+    if (errors.length > 0) {
+      throw new TenantValidationError(errors);
+    }
+    if (!(await TenantModel.exists({ tenantId }))) {
+      return null;
+    }
+
+    const clientSecret = `tcs_${crypto.randomBytes(32).toString('base64url')}`;
+    const credentialDoc = new TenantCredentialModel({
+      clientId: uuidv4(),
+      tenantId,
+      name: input.name,
+      role: input.role ?? 'proctor',
+      secretHash: AuthUtil.hashToken(clientSecret)
+    });
+    await credentialDoc.save();
+
+    console.log(`Issued ${credentialDoc.role} credentials ${credentialDoc.clientId} for tenant ${tenantId}`);
+    return { credential: this.toCredential(credentialDoc), clientSecret };
+  }
+
+  async revokeCredential(tenantId: string, clientId: string): Promise<TenantCredential | null> {
+    const credentialDoc = await TenantCredentialModel.findOneAndUpdate(
+      { tenantId, clientId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } },
+      { new: true }
+    );
+    if (!credentialDoc) {
+      return null;
+    }
+
+    console.log(`Revoked credentials ${clientId} for tenant ${tenantId}`);
+    return this.toCredential(credentialDoc);
+  }
+
+  /**
+   * Checks a client ID and secret. Returns the credential when they match
+   * live credentials of an existing tenant, or null otherwise.
+   */
+  async verifyCredential(clientId: string, clientSecret: string): Promise<TenantCredential | null> {
+    const credentialDoc = typeof clientId === 'string'
+      ? await TenantCredentialModel.findOne({ clientId, revokedAt: { $exists: false } })
+      : null;
+    const expected = Buffer.from(credentialDoc?.secretHash || AuthUtil.hashToken(''), 'hex');
+    const actual = Buffer.from(AuthUtil.hashToken(typeof clientSecret === 'string' ? clientSecret : ''), 'hex');
+    if (!credentialDoc || !crypto.timingSafeEqual(actual, expected)) {
+      return null;
+    }
+    if (!(await TenantModel.exists({ tenantId: credentialDoc.tenantId }))) {
+      return null;
+    }
+
+    await TenantCredentialModel.updateOne({ clientId }, { $set: { lastUsedAt: new Date() } });
+    return this.toCredential(credentialDoc);
+  }
+
+  /**
+   * Deletes recordings and monitoring data that have outlived their tenant's
+   * retention settings. Recordings go once their session has been over for
+   * `recordingDays` (gaze jobs derived from them go too); monitoring data goes
+   * once it is `monitoringDataDays` old. Overlapping runs are skipped.
+   */
+  async applyRetention(): Promise<void> {
+    if (this.sweeping) {
+      return;
+    }
+
+    this.sweeping = true;
+    try {
+      const tenantDocs = await TenantModel.find({}, { tenantId: 1, retention: 1 }).lean();
+      const scopes: Array<{ tenantId?: string; retention: TenantRetention }> = [
+        { retention: this.defaultRetention },
+        ...tenantDocs.map(tenantDoc => ({
+          tenantId: tenantDoc.tenantId,
+          retention: { ...this.defaultRetention, ...this.definedOnly(tenantDoc.retention) }
+        }))
+      ];
+
+      for (const scope of scopes) {
+        const tenantFilter = scope.tenantId ? { tenantId: scope.tenantId } : { tenantId: { $exists: false } };
+        if (scope.retention.recordingDays) {
+          await this.purgeRecordings(tenantFilter, this.daysAgo(scope.retention.recordingDays));
+        }
+        if (scope.retention.monitoringDataDays) {
+          const { deletedCount } = await CallMonitoringDataModel.deleteMany({
+            ...tenantFilter,
+            timestamp: { $lt: this.daysAgo(scope.retention.monitoringDataDays) }
+          });
+          if (deletedCount > 0) {
+            console.log(`Retention: deleted ${deletedCount} monitoring record(s) for ${scope.tenantId ?? 'no tenant'}`);
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error applying retention:', error);
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  private async purgeRecordings(tenantFilter: Record<string, unknown>, cutoff: Date): Promise<void> {
+    const sessionDocs = await ProctorSessionModel.find(
+      {
+        ...tenantFilter,
+        status: 'ended',
+        endTime: { $lt: cutoff },
+        $or: [
+          { 'recordingPaths.video': { $exists: true } },
+          { 'recordingPaths.audio': { $exists: true } },
+          { 'recordingPaths.screen': { $exists: true } }
+        ]
+      },
+      { sessionId: 1, recordingPaths: 1 }
+    ).limit(SESSION_BATCH_SIZE).lean();
+
+    for (const sessionDoc of sessionDocs) {
+      const jobDocs = await VideoProcessingJobModel.find({ sessionId: sessionDoc.sessionId }, { filePath: 1 }).lean();
+      const filePaths = new Set([
+        ...Object.values(sessionDoc.recordingPaths || {}).filter((filePath): filePath is string => !!filePath),
+        ...jobDocs.map(jobDoc => jobDoc.filePath)
+      ]);
+
+      for (const filePath of filePaths) {
+        await recordingService.deleteRecording(filePath)
+          .catch(error => console.error(`Retention: could not delete ${filePath}:`, error));
+      }
+      await VideoProcessingJobModel.deleteMany({ sessionId: sessionDoc.sessionId });
+      await ProctorSessionModel.updateOne(
+        { sessionId: sessionDoc.sessionId },
+        { $unset: { 'recordingPaths.video': '', 'recordingPaths.audio': '', 'recordingPaths.screen': '' } }
+      );
+      console.log(`Retention: deleted recordings for session ${sessionDoc.sessionId}`);
+    }
+  }
+
+  private daysAgo(days: number): Date {
+    return new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  }
+
+  private definedOnly(retention: TenantRetention | undefined): TenantRetention {
+    return Object.fromEntries(
+      Object.entries(retention || {}).filter(([, value]) => typeof value === 'number')
+    ) as TenantRetention;
+  }
+
+  private validateTenant(input: Partial<TenantInput>): string[] {
+    const errors: string[] = [];
+
+    if (!input.name || typeof input.name !== 'string') {
+      errors.push('name is required');
+    }
+    if (input.retention !== undefined) {
+      if (typeof input.retention !== 'object' || input.retention === null) {
+        errors.push('retention must be an object');
+      } else {
+        for (const field of ['recordingDays', 'monitoringDataDays'] as const) {
+          const value = input.retention[field];
+          if (value !== undefined && value !== null && (typeof value !== 'number' || !(value > 0))) {
+            errors.push(`retention.${field} must be a positive number of days`);
+          }
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  private toTenant(tenantDoc: ITenant): Tenant {
+    return {
+      id: tenantDoc.tenantId,
+      name: tenantDoc.name,
+      retention: this.definedOnly(tenantDoc.retention),
+      createdAt: tenantDoc.createdAt,
+      updatedAt: tenantDoc.updatedAt
+    };
+  }
+
+  private toCredential(credentialDoc: ITenantCredential): TenantCredential {
+    return {
+      id: credentialDoc.clientId,
+      tenantId: credentialDoc.tenantId,
+      name: credentialDoc.name,
+      role: credentialDoc.role,
+      lastUsedAt: credentialDoc.lastUsedAt,
+      revokedAt: credentialDoc.revokedAt,
+      createdAt: credentialDoc.createdAt
+    };
+  }
+}
+
+export const tenantService = new TenantService();
@@ -0,0 +1,140 @@
+import { v4 as uuidv4 } from 'uuid';
+import { VideoProcessingJobModel, IVideoProcessingJob } from '../models';
+import { VideoProcessingJob } from '../types';
+import { gazeTrackingService } from './gazeTracking';
+import { externalCallMonitoringService } from './externalCallMonitoring';
+
+// Progress is persisted in steps of this size to keep writes down on long videos
+const PROGRESS_STEP = 0.1;
+
+export class VideoProcessingService {
+  // Jobs run one at a time; frame analysis is CPU-bound
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor() {
+    console.log('Video Processing Service initialized');
+  }
+
+  async enqueueGazeTracking(sessionId: string, filePath: string, tenantId?: string): Promise<VideoProcessingJob> {
+    const jobDoc = new VideoProcessingJobModel({
+      jobId: uuidv4(),
+      sessionId,
+      tenantId,
+      filePath,
+      type: 'gaze_tracking',
+      status: 'pending',
+      progress: 0,
+      createdAt: new Date()
+    });
+    await jobDoc.save();
+
+    this.schedule(jobDoc.jobId);
+    console.log(`Queued gaze tracking job ${jobDoc.jobId} for session ${sessionId}`);
+    return this.toJob(jobDoc);
+  }
+
+  /**
+   * Re-queues jobs left pending or interrupted by a restart. Called once the
+   * database connection is up.
+   */
+  async resumePendingJobs(): Promise<void> {
+    await VideoProcessingJobModel.updateMany(
+      { status: 'processing' },
+      { $set: { status: 'pending', progress: 0 }, $unset: { startedAt: 1 } }
+    );
+
+    const pending = await VideoProcessingJobModel.find({ status: 'pending' }).sort({ createdAt: 1 });
+    pending.forEach(job => this.schedule(job.jobId));
+
+    if (pending.length > 0) {
+      console.log(`Resumed ${pending.length} video processing job(s)`);
+    }
+  }
+
+  async getJob(jobId: string): Promise<VideoProcessingJob | null> {
+    const jobDoc = await VideoProcessingJobModel.findOne({ jobId });
+    return jobDoc ? this.toJob(jobDoc) : null;
+  }
+
+  async getJobsForSession(sessionId: string): Promise<VideoProcessingJob[]> {
+    // Listings leave out the results; fetch a single job for the full series
+    const jobDocs = await VideoProcessingJobModel.find({ sessionId })
+      .select('-results')
+      .sort({ createdAt: -1 });
+    return jobDocs.map(jobDoc => this.toJob(jobDoc));
+  }
+
+  private schedule(jobId: string): void {
+    this.queue = this.queue
+      .then(() => this.runJob(jobId))
+      .catch(error => console.error(`Error running video processing job ${jobId}:`, error));
+  }
+
+  private async runJob(jobId: string): Promise<void> {
+    const jobDoc = await VideoProcessingJobModel.findOneAndUpdate(
+      { jobId, status: 'pending' },
+      { $set: { status: 'processing', startedAt: new Date() } },
+      { new: true }
+    );
+    if (!jobDoc) {
+      return;
+    }
+
+    try {
+      let savedProgress = 0;
+      const gaze = await gazeTrackingService.processVideoForGazeTracking(jobDoc.filePath, (progress) => {
+        if (progress - savedProgress >= PROGRESS_STEP) {
+          savedProgress = progress;
+          VideoProcessingJobModel.updateOne({ jobId }, { $set: { progress } })
+            .catch(error => console.error(`Error saving progress for job ${jobId}:`, error));
+        }
+      });
+
+      const faceEpisodes = gazeTrackingService.detectFaceEpisodes(gaze);
+      await externalCallMonitoringService.recordFaceEpisodes(jobDoc.sessionId, faceEpisodes);
+
+      await VideoProcessingJobModel.updateOne({ jobId }, {
+        $set: {
+          status: 'completed',
+          progress: 1,
+          completedAt: new Date(),
+          results: {
+            fps: gazeTrackingService.videoFps,
+            frameCount: gaze.length,
+            gaze,
+            faceEpisodes
+          }
+        }
+      });
+      console.log(`Gaze tracking job ${jobId} completed with ${gaze.length} frame(s)`);
+    } catch (error) {
+      console.error(`Gaze tracking job ${jobId} failed:`, error);
+      await VideoProcessingJobModel.updateOne({ jobId }, {
+        $set: {
+          status: 'failed',
+          completedAt: new Date(),
+          error: error instanceof Error ? error.message : String(error)
+        }
+      });
+    }
+  }
+
+  private toJob(jobDoc: IVideoProcessingJob): VideoProcessingJob {
+    return {
+      id: jobDoc.jobId,
+      sessionId: jobDoc.sessionId,
+      tenantId: jobDoc.tenantId,
+      filePath: jobDoc.filePath,
+      type: jobDoc.type,
+      status: jobDoc.status,
+      progress: jobDoc.progress,
+      createdAt: jobDoc.createdAt,
+      startedAt: jobDoc.startedAt,
+      completedAt: jobDoc.completedAt,
+      error: jobDoc.error,
+      results: jobDoc.results
+    };
+  }
+}
+
+export const videoProcessingService = new VideoProcessingService();
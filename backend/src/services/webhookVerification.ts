@@ -0,0 +1,101 @@
+import { IncomingMessage } from 'http';
+import { WebhookEventModel } from '../models';
+import {
+  CallPlatformAdapter,
+  NormalizedWebhookEvent,
+  WebhookRequest,
+  WebhookChallenge,
+  ZoomWebhookAdapter,
+  TeamsWebhookAdapter,
+  SharedSecretWebhookAdapter
+} from './callPlatformAdapters';
+
+// express.json() keeps the exact bytes on webhook requests so signatures can be checked
+export type RawBodyRequest = IncomingMessage & { rawBody?: Buffer };
+
+export interface WebhookProcessResult {
+  challenge?: WebhookChallenge;
+  events: NormalizedWebhookEvent[];
+  duplicates: number;
+}
+
+// MongoDB duplicate key error
+const DUPLICATE_KEY = 11000;
+
+export class WebhookVerificationService {
+  private adapters: Map<string, CallPlatformAdapter> = new Map();
+
+  constructor() {
+    const toleranceMs = parseFloat(process.env.WEBHOOK_TOLERANCE_SECONDS || '300') * 1000;
+
+    this.register('zoom', new ZoomWebhookAdapter(process.env.ZOOM_WEBHOOK_SECRET_TOKEN, toleranceMs));
+    this.register('teams', new TeamsWebhookAdapter(process.env.TEAMS_WEBHOOK_CLIENT_STATE));
+    this.register('meet', new SharedSecretWebhookAdapter('meet', process.env.WEBHOOK_SHARED_SECRET, toleranceMs));
+    this.register('other', new SharedSecretWebhookAdapter('other', process.env.WEBHOOK_SHARED_SECRET, toleranceMs));
+    console.log('Webhook Verification Service initialized');
+  }
+
+  register(platform: string, adapter: CallPlatformAdapter): void {
+    this.adapters.set(platform, adapter);
+  }
+
+  hasAdapter(platform: string): boolean {
+    return this.adapters.has(platform);
+  }
+
+  /**
+   * Answers platform handshakes, verifies the request and normalizes it into
+   * call events. Events whose IDs were already processed are dropped, so
+   * vendor redeliveries are harmless.
+   */
+  async process(platform: string, request: WebhookRequest): Promise<WebhookProcessResult> {
+    const adapter = this.adapters.get(platform);
+    if (!adapter) {
+      throw new Error(`No webhook adapter registered for ${platform}`);
+    }
+
+    const challenge = adapter.getChallenge(request);
+    if (challenge) {
+      return { challenge, events: [], duplicates: 0 };
+    }
+
+    adapter.verify(request);
+
+    const events: NormalizedWebhookEvent[] = [];
+    let duplicates = 0;
+    for (const event of adapter.normalize(request)) {
+      if (await this.claimEvent(platform, event.eventId)) {
+        events.push(event);
+      } else {
+        duplicates++;
+        console.log(`Ignoring duplicate ${platform} webhook event ${event.eventId}`);
+      }
+    }
+    return { events, duplicates };
+  }
+
+  /**
+   * Un-records an event whose processing failed, so the vendor's retry is
+   * accepted.
+   */
+  async forget(platform: string, eventId: string): Promise<void> {
+    await WebhookEventModel.deleteOne({ platform, eventId });
+  }
+
+  /**
+   * Records an event ID; false if it was seen before.
+   */
+  private async claimEvent(platform: string, eventId: string): Promise<boolean> {
+    try {
+      await WebhookEventModel.create({ platform, eventId, receivedAt: new Date() });
+      return true;
+    } catch (error) {
+      if ((error as { code?: number }).code === DUPLICATE_KEY) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
+
+export const webhookVerificationService = new WebhookVerificationService();
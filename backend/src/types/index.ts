@@ -1,11 +1,36 @@
+export type SessionStatus = 'active' | 'paused' | 'ended' | 'recording';
+
+export interface SessionStatusChange {
+  from?: SessionStatus;
+  to: SessionStatus;
+  at: Date;
+  reason?: string;
+  forced?: boolean; // a pause a proctor forced, which the candidate cannot resume
+}
+
+// How long a session may run: the exam's working time and the end of its slot window
+export interface SessionTimeLimit {
+  durationMs: number; // paused time does not count
+  windowEnd: Date;
+}
+
 export interface ProctorSession {
   id: string;
   userId: string;
   externalCallId: string;
   callPlatform: 'zoom' | 'meet' | 'teams' | 'other';
-  status: 'active' | 'paused' | 'ended' | 'recording';
+  tenantId?: string; // the exam's tenant; sessions without one belong to no tenant
+  examId?: string;
+  slotId?: string;
+  status: SessionStatus;
+  statusHistory: SessionStatusChange[];
+  pausedDurationMs: number;
+  timeLimit?: SessionTimeLimit; // sessions started outside an exam slot have none
   startTime: Date;
   endTime?: Date;
+  riskScore?: RiskScore; // final score, stored when the session ends
+  participants?: SessionParticipant[]; // everyone seen on the external call
+  review?: SessionReview;
   recordingPaths: {
     video?: string;
     audio?: string;
@@ -15,46 +40,425 @@ export interface ProctorSession {
     userAgent: string;
     platform: string;
     resolution: string;
+    examId?: string; // selects a rule set for sessions started without an exam slot
   };
 }
 
 export interface CallMonitoringData {
   sessionId: string;
+  tenantId?: string;
+  seq?: number; // the sample's sequence number when it came through the batched channel
   timestamp: Date;
   gazeData?: GazeTrackingData;
   audioData?: AudioAnalysisData;
+  telemetry?: TelemetryObservation[];
   suspiciousActivity?: SuspiciousActivity[];
 }
 
+// One sample from the candidate's browser outbox. Sequence numbers count up
+// per session, so a batch replayed after a reconnect is stored only once
+export interface MonitoringSample {
+  seq: number;
+  timestamp: Date; // when the browser captured it
+  gazeData?: GazeTrackingData;
+  audioData?: AudioAnalysisData;
+}
+
+export interface MonitoringBatch {
+  sessionId: string;
+  samples: MonitoringSample[];
+}
+
 export interface GazeTrackingData {
   x: number;
   y: number;
   confidence: number;
   lookingAway: boolean;
   duration: number;
+  timestamp?: number; // ms from start of video, for offline analysis
+  frameIndex?: number;
+  faceCount?: number;
 }
 
 export interface AudioAnalysisData {
   volume: number;
+  peak?: number;
   frequency: number[];
   multipleVoices: boolean;
+  multipleVoicesConfidence?: number;
+  speakerCount?: number;
   backgroundNoise: number;
 }
 
+export interface AudioFrameStats {
+  time: number; // seconds from start of buffer
+  rms: number;
+  peak: number;
+}
+
+export interface TimeRange {
+  start: number; // seconds from start of recording
+  end: number;
+}
+
+export interface SpeechSegment extends TimeRange {
+  energy: number; // mean RMS over the segment, 0-1
+  speaker?: number;
+}
+
+export interface FaceEpisode extends TimeRange {
+  type: 'face_not_detected' | 'multiple_faces';
+  faceCount: number; // most faces seen in any frame of the episode
+}
+
+export interface SpeakerTimeline {
+  speaker: number;
+  ranges: TimeRange[];
+  speechSeconds: number;
+  meanPitchHz?: number;
+}
+
+export interface SpeakerAnalysis {
+  speakerCount: number;
+  confidence: number; // confidence in speakerCount, 0.5-1
+  speakers: SpeakerTimeline[];
+}
+
+// Who spoke when in one recording. Ranges are seconds from the start of the
+// session, like SessionSpeechSegment's
+export interface RecordingSpeakerAnalysis extends SpeakerAnalysis {
+  sessionId: string;
+  source: 'audio' | 'video';
+  recordingPath: string;
+  recordingOffset: number;
+  analyzedAt: Date;
+}
+
+// start and end are seconds from the start of the session; less
+// recordingOffset, they are the position within the recording
+export interface SessionSpeechSegment extends SpeechSegment {
+  sessionId: string;
+  source: 'audio' | 'video';
+  recordingPath: string;
+  recordingOffset: number; // seconds from the start of the session to the start of the recording
+}
+
+export interface EnvironmentChange {
+  baselineDb: number;
+  currentDb: number;
+  levelShiftDb: number;
+  profileShift: number; // 0 (same spectral profile) to 1 (disjoint)
+  confidence: number;
+}
+
+export interface NoiseFloorStatus {
+  baselineReady: boolean;
+  baselineDb?: number;
+  currentDb?: number;
+  lastChangeAt?: Date;
+}
+
 export interface SuspiciousActivity {
-  type: 'gaze_away' | 'multiple_voices' | 'window_switch' | 'face_not_detected';
+  type:
+    | 'gaze_away'
+    | 'multiple_voices'
+    | 'window_switch'
+    | 'focus_lost'
+    | 'fullscreen_exit'
+    | 'clipboard_use'
+    | 'print_attempt'
+    | 'face_not_detected'
+    | 'multiple_faces'
+    | 'environment_change'
+    | 'connection_lost';
   severity: 'low' | 'medium' | 'high';
   timestamp: Date;
+  // Set for incidents that span a period rather than a single sample
+  startTime?: Date;
+  endTime?: Date;
+  description: string;
+  confidence: number;
+  ruleId?: string; // detection rule that raised the incident
+}
+
+export interface AnalyzerHealth {
+  state: 'running' | 'paused' | 'stopped' | 'unavailable'; // unavailable: running, but with no real data to sample
+  startedAt: Date;
+  lastSampleAt?: Date;
+  sampleCount: number;
+  errorCount: number;
+  lastError?: string;
+}
+
+export interface SessionAnalyzerStatus {
+  sessionId: string;
+  gaze: AnalyzerHealth;
+  audio: AnalyzerHealth;
+}
+
+// What happens to a session whose candidate stays offline past the reconnect window
+export type DisconnectAction = 'pause' | 'end';
+
+// Whether the candidate's exam tab is still sending heartbeats
+export interface CandidatePresence {
+  sessionId: string;
+  status: 'online' | 'offline';
+  lastSeenAt?: Date; // last heartbeat; unset until the tab first connects
+  // While offline during a proctored session: when the session is paused or ended unless the candidate returns
+  reconnectDeadline?: Date;
+  disconnectAction?: DisconnectAction;
+  sessionStatus?: SessionStatus; // set on socket broadcasts so dashboards see automatic pauses and ends
+}
+
+// A period the candidate spent offline while the session was being proctored
+export interface ConnectionOutage {
+  startTime: Date;
+  endTime: Date;
+  durationMs: number;
+}
+
+export type BrowserTelemetryEventType =
+  | 'visibility_hidden'
+  | 'visibility_visible'
+  | 'window_blur'
+  | 'window_focus'
+  | 'fullscreen_exit'
+  | 'fullscreen_enter'
+  | 'copy'
+  | 'cut'
+  | 'paste'
+  | 'print';
+
+export interface BrowserTelemetryEvent {
+  sessionId: string;
+  type: BrowserTelemetryEventType;
+  timestamp: Date; // client clock
+}
+
+// Something the candidate did in the browser, before detection rules assign a severity
+export interface TelemetryObservation {
+  type: 'window_switch' | 'focus_lost' | 'fullscreen_exit' | 'clipboard_use' | 'print_attempt';
+  timestamp: Date;
+  startTime?: Date;
+  endTime?: Date;
+  durationMs: number;
+  action?: BrowserTelemetryEventType;
   description: string;
   confidence: number;
 }
 
+export type RuleField =
+  | 'gaze.lookingAway'
+  | 'gaze.duration'
+  | 'gaze.confidence'
+  | 'gaze.faceCount'
+  | 'audio.volume'
+  | 'audio.peak'
+  | 'audio.backgroundNoise'
+  | 'audio.multipleVoices'
+  | 'audio.multipleVoicesConfidence'
+  | 'audio.speakerCount'
+  | 'telemetry.type'
+  | 'telemetry.durationMs'
+  | 'telemetry.action';
+
+export interface RuleCondition {
+  field: RuleField;
+  operator: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte';
+  value: number | boolean | string;
+}
+
+export interface DetectionRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  activityType: SuspiciousActivity['type'];
+  conditions: RuleCondition[]; // all must match
+  windowMs: number; // conditions must hold this long before the rule fires
+  cooldownMs: number;
+  severity: SuspiciousActivity['severity'];
+  confidence?: number; // defaults to the confidence of the triggering data
+  description?: string; // may reference fields, e.g. "Looked away for {gaze.duration}ms"
+}
+
+export interface RuleSet {
+  id: string;
+  name: string;
+  examId?: string;
+  tenantId?: string;
+  isDefault: boolean;
+  rules: DetectionRule[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RuleDryRunResult {
+  sessionId: string;
+  sampleCount: number;
+  incidents: SuspiciousActivity[];
+  bySeverity: Record<SuspiciousActivity['severity'], number>;
+  byType: Partial<Record<SuspiciousActivity['type'], number>>;
+}
+
+// Consecutive suspicious activity of one type merged into a single episode
+export interface Incident {
+  id: string;
+  sessionId: string;
+  type: SuspiciousActivity['type'];
+  severity: SuspiciousActivity['severity']; // highest seen in the episode
+  status: 'open' | 'closed';
+  startTime: Date;
+  endTime: Date;
+  peakConfidence: number;
+  description: string; // from the most recent signal
+  ruleId?: string;
+  sampleIds: string[]; // CallMonitoringData documents that support the incident
+}
+
+export interface Exam {
+  id: string;
+  title: string;
+  description?: string;
+  tenantId?: string;
+  ruleSetId?: string; // detection rules for every session of this exam
+  durationMinutes: number; // allowed time per candidate
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A sitting of an exam: when it can be taken and by whom
+export interface ExamSlot {
+  id: string;
+  examId: string;
+  windowStart: Date;
+  windowEnd: Date;
+  candidateIds: string[];
+  // The scheduled meeting; its webhooks start and end candidates' sessions
+  externalCallId?: string;
+  callPlatform?: 'zoom' | 'meet' | 'teams' | 'other';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type IncidentVerdict = 'confirmed' | 'dismissed' | 'second_opinion';
+export type SessionVerdict = 'cleared' | 'violation' | 'inconclusive';
+export type ReviewStatus = 'pending' | 'in_review' | 'awaiting_second_opinion' | 'completed';
+
+export interface SessionReview {
+  status: ReviewStatus;
+  queuedAt: Date;
+  dueAt: Date; // SLA deadline
+  riskScore: number;
+  claimedBy?: string;
+  claimedAt?: Date;
+  reviewers: string[]; // everyone who has claimed the session
+  finalVerdict?: SessionVerdict;
+  completedAt?: Date;
+}
+
+// Append-only record of everything a reviewer did
+export interface ReviewEvent {
+  id: string;
+  sessionId: string;
+  reviewerId: string;
+  type: 'queued' | 'claimed' | 'released' | 'incident_verdict' | 'note' | 'second_opinion_requested' | 'final_verdict';
+  incidentId?: string;
+  verdict?: IncidentVerdict | SessionVerdict;
+  note?: string;
+  createdAt: Date;
+}
+
+export interface ReviewQueueItem extends SessionReview {
+  sessionId: string;
+  userId: string;
+  slaBreached: boolean;
+  timeRemainingMs: number;
+}
+
+export interface ReviewerAgreement {
+  reviewers: string[];
+  compared: number; // incidents both reviewers gave a verdict on
+  agreement: number; // observed agreement, 0-1
+  kappa: number | null; // chance-corrected (Cohen's kappa); null when undefined
+}
+
+export interface ReviewAgreementReport {
+  incidentsCompared: number;
+  agreement: number;
+  kappa: number | null;
+  pairs: ReviewerAgreement[];
+  sessionVerdicts: { compared: number; agreement: number }; // first proposal vs final verdict
+}
+
+// Warnings proctors can send without typing
+export type WarningPreset = 'eyes_on_screen' | 'no_other_people' | 'no_devices' | 'stay_in_exam_tab' | 'keep_quiet';
+
+/**
+ * One entry in a session's intervention trail: something a proctor sent or
+ * did to the candidate, a chat message either way, or the candidate's
+ * acknowledgement. Entries are evidence and are never changed.
+ */
+export interface InterventionEvent {
+  id: string;
+  sessionId: string;
+  tenantId?: string;
+  type: 'warning' | 'message' | 'paused' | 'ended' | 'acknowledged';
+  senderId: string;
+  senderRole: UserRole;
+  preset?: WarningPreset;
+  text?: string; // the warning or message, or the reason for a pause or end
+  requiresAck: boolean; // the candidate must acknowledge it before carrying on
+  acknowledgesId?: string; // the entry an acknowledgement is for
+  createdAt: Date;
+}
+
+export interface InterventionAck extends SocketAck {
+  event?: InterventionEvent;
+}
+
+export interface RiskFactor {
+  type: SuspiciousActivity['type'];
+  incidentCount: number;
+  durationMs: number; // summed over incidents that span a period
+  points: number; // weighted evidence before scaling
+  contribution: number; // share of the score; contributions sum to the score
+}
+
+// 0 = no evidence of misconduct, 100 = overwhelming evidence
+export interface RiskScore {
+  sessionId: string;
+  score: number;
+  factors: RiskFactor[]; // largest contribution first
+  incidentCount: number;
+  calculatedAt: Date;
+}
+
 export interface ExternalCallWebhook {
   platform: string;
   callId: string;
   eventType: 'call_started' | 'call_ended' | 'participant_joined' | 'participant_left';
   participants: CallParticipant[];
   timestamp: Date;
+  // Added by the server when the event started or ended sessions
+  startedSessions?: ProctorSession[];
+  endedSessionIds?: string[];
+}
+
+// Answer to a client's Socket.IO event when it asked for an acknowledgement
+export interface SocketAck {
+  success: boolean;
+  error?: string; // why the event was refused
+  retryAfterMs?: number; // the server is busy or failed for now: wait this long before sending (again)
+}
+
+// Heartbeat acknowledgements tell the tab how often to send the next ones
+export interface HeartbeatAck extends SocketAck {
+  intervalMs?: number;
+}
+
+export interface MonitoringBatchAck extends SocketAck {
+  acked?: number[]; // sequence numbers stored now or before; the client can forget them
+  duplicates?: number;
 }
 
 export interface CallParticipant {
@@ -64,13 +468,173 @@ export interface CallParticipant {
   role: 'host' | 'participant' | 'proctored_user';
 }
 
+export interface SessionParticipant extends CallParticipant {
+  joinedAt?: Date;
+  leftAt?: Date;
+}
+
+export type OutboundWebhookEventType = 'session.ended' | 'incident.high_severity' | 'review.incident_verdict' | 'review.verdict';
+
+// An external system (e.g. an LMS) notified of proctoring outcomes
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: OutboundWebhookEventType[];
+  tenantId?: string; // only events from this tenant's sessions; every tenant when unset
+  description?: string;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Body of every outbound webhook
+export interface OutboundWebhookPayload {
+  id: string; // event ID, the same for every subscriber and redelivery
+  type: OutboundWebhookEventType;
+  createdAt: Date;
+  tenantId?: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookDeliveryAttempt {
+  attemptedAt: Date;
+  durationMs: number;
+  responseStatus?: number;
+  error?: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  eventId: string;
+  eventType: OutboundWebhookEventType;
+  payload: OutboundWebhookPayload;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: WebhookDeliveryAttempt[];
+  nextAttemptAt?: Date;
+  redeliveryOf?: string; // delivery this one was manually resent from
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// An LMS (Canvas, Moodle, ...) registered to launch exams over LTI 1.3
+export interface LtiPlatform {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string; // our client ID on the platform
+  deploymentIds: string[];
+  authLoginUrl: string; // OIDC authorization endpoint
+  authTokenUrl: string; // OAuth 2 token endpoint, used for grade passback
+  jwksUrl: string; // the platform's public signing keys
+  tenantId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// An LMS assignment with proctoring attached, and the exam it is sat as
+export interface LtiResourceLink {
+  id: string;
+  platformId: string;
+  deploymentId: string;
+  resourceLinkId: string;
+  contextId?: string;
+  contextTitle?: string;
+  examId: string;
+  slotId?: string;
+  lineItemUrl?: string; // AGS line item that receives the integrity verdict
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A verified LTI launch, handed to the frontend by a short-lived ticket
+export interface LtiLaunch {
+  id: string;
+  platformId: string;
+  messageType: 'resource_link' | 'deep_linking';
+  userId: string;
+  name?: string;
+  roles: string[];
+  isInstructor: boolean;
+  examId?: string;
+  examTitle?: string;
+  slotId?: string;
+  externalCallId?: string;
+  callPlatform?: ProctorSession['callPlatform'];
+  returnUrl?: string; // where the LMS wants the user sent back to
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export type UserRole = 'candidate' | 'proctor' | 'reviewer' | 'admin';
+
+// Staff account; candidates are known by the user ID they sit exams under and need no account
+export interface User {
+  id: string;
+  email: string;
+  name?: string;
+  role: Exclude<UserRole, 'candidate'>;
+  tenantId?: string;
+  disabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Who a verified access token speaks for
+export interface AuthContext {
+  userId: string;
+  role: UserRole;
+  sessionId?: string; // candidate tokens can be limited to one session
+  tenantId?: string;
+  tokenId: string;
+}
+
+export interface AuthTokens {
+  tokenType: 'Bearer';
+  accessToken: string;
+  expiresIn: number; // seconds
+  refreshToken: string;
+  refreshExpiresAt: Date;
+}
+
+// How long a tenant's data is kept after its session ends; unset keeps it forever
+export interface TenantRetention {
+  recordingDays?: number;
+  monitoringDataDays?: number;
+}
+
+// An institution or department sharing the deployment; its data is invisible to other tenants
+export interface Tenant {
+  id: string; // slug, also used as the tenant's upload directory
+  name: string;
+  retention: TenantRetention;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// API client credentials an integration trades for access tokens scoped to one tenant
+export interface TenantCredential {
+  id: string; // the client ID
+  tenantId: string;
+  name: string;
+  role: Exclude<UserRole, 'candidate'>;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
 export interface VideoProcessingJob {
   id: string;
   sessionId: string;
+  tenantId?: string;
   filePath: string;
+  type: 'gaze_tracking';
   status: 'pending' | 'processing' | 'completed' | 'failed';
+  progress: number; // 0-1
   createdAt: Date;
+  startedAt?: Date;
   completedAt?: Date;
+  error?: string;
   results?: any;
 }
 
@@ -1,26 +1,33 @@
 import crypto from 'crypto';
 
+const SCRYPT_KEY_LENGTH = 64;
+
 export class AuthUtil {
-  private static readonly API_KEY = process.env.API_KEY || 'default-api-key';
-  
-  static authenticate(providedKey: string): boolean {
-    if (!providedKey) {
+  static extractBearerToken(authHeader: string | undefined): string | null {
+    const match = authHeader?.match(/^Bearer\s+(\S+)$/i);
+    return match ? match[1] : null;
+  }
+
+  // Stored as scrypt$<salt>$<hash>, both base64url
+  static hashPassword(password: string): string {
+    const salt = crypto.randomBytes(16);
+    const hash = crypto.scryptSync(password, salt, SCRYPT_KEY_LENGTH);
+    return `scrypt$${salt.toString('base64url')}$${hash.toString('base64url')}`;
+  }
+
+  static verifyPassword(password: string, stored: string): boolean {
+    const [scheme, salt, hash] = stored.split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) {
       return false;
     }
-    
-    // Remove "Bearer " prefix if present
-    const cleanKey = providedKey.replace(/^Bearer\s+/, '');
-    
-    return cleanKey === this.API_KEY;
-  }
-  
-  static generateSessionToken(userId: string, sessionId: string): string {
-    const data = `${userId}:${sessionId}:${Date.now()}`;
-    return crypto.createHash('sha256').update(data).digest('hex');
+
+    const expected = Buffer.from(hash, 'base64url');
+    const actual = crypto.scryptSync(password, Buffer.from(salt, 'base64url'), expected.length);
+    return crypto.timingSafeEqual(actual, expected);
   }
-  
-  static validateSessionToken(token: string, userId: string, sessionId: string): boolean {
-    // Simple validation - in production, implement proper JWT or similar
-    return token.length === 64; // SHA256 hash length
+
+  // Refresh tokens are looked up by hash so a database leak does not leak usable tokens
+  static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
   }
 }
@@ -0,0 +1,308 @@
+export class DspUtil {
+  private static windowCache: Map<number, Float32Array> = new Map();
+  private static melCache: Map<string, Float64Array[]> = new Map();
+  private static twiddleCache: Map<number, { cos: Float64Array; sin: Float64Array }> = new Map();
+
+  /**
+   * Splits a signal into fixed-size frames; the final partial frame is zero-padded.
+   */
+  static frames(samples: Float32Array, frameSize: number, hopSize: number): Float32Array[] {
+    const frames: Float32Array[] = [];
+    if (samples.length === 0) {
+      return frames;
+    }
+
+    for (let start = 0; start < samples.length; start += hopSize) {
+      const frame = new Float32Array(frameSize);
+      frame.set(samples.subarray(start, Math.min(start + frameSize, samples.length)));
+      frames.push(frame);
+      if (start + frameSize >= samples.length) {
+        break;
+      }
+    }
+
+    return frames;
+  }
+
+  static rms(samples: Float32Array): number {
+    if (samples.length === 0) {
+      return 0;
+    }
+
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) {
+      sum += samples[i] * samples[i];
+    }
+    return Math.sqrt(sum / samples.length);
+  }
+
+  static peak(samples: Float32Array): number {
+    let max = 0;
+    for (let i = 0; i < samples.length; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > max) {
+        max = value;
+      }
+    }
+    return max;
+  }
+
+  static hannWindow(size: number): Float32Array {
+    let window = this.windowCache.get(size);
+    if (!window) {
+      window = new Float32Array(size);
+      for (let i = 0; i < size; i++) {
+        window[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (size - 1)));
+      }
+      this.windowCache.set(size, window);
+    }
+    return window;
+  }
+
+  /**
+   * In-place iterative radix-2 FFT. Both arrays must have the same power-of-two length.
+   */
+  static fft(real: Float64Array, imag: Float64Array): void {
+    const n = real.length;
+    if (n !== imag.length || (n & (n - 1)) !== 0) {
+      throw new Error(`FFT size must be a power of two, got ${n}`);
+    }
+
+    // Bit-reversal permutation
+    for (let i = 1, j = 0; i < n; i++) {
+      let bit = n >> 1;
+      for (; j & bit; bit >>= 1) {
+        j ^= bit;
+      }
+      j ^= bit;
+      if (i < j) {
+        [real[i], real[j]] = [real[j], real[i]];
+        [imag[i], imag[j]] = [imag[j], imag[i]];
+      }
+    }
+
+    const twiddles = this.twiddles(n);
+    for (let size = 2; size <= n; size <<= 1) {
+      const half = size >> 1;
+      const step = n / size;
+      for (let start = 0; start < n; start += size) {
+        for (let k = 0; k < half; k++) {
+          const cos = twiddles.cos[k * step];
+          const sin = twiddles.sin[k * step];
+          const a = start + k;
+          const b = a + half;
+          const tReal = real[b] * cos - imag[b] * sin;
+          const tImag = real[b] * sin + imag[b] * cos;
+          real[b] = real[a] - tReal;
+          imag[b] = imag[a] - tImag;
+          real[a] += tReal;
+          imag[a] += tImag;
+        }
+      }
+    }
+  }
+
+  /**
+   * Hann-windowed one-sided power spectrum of a frame (fftSize / 2 + 1 bins).
+   */
+  static powerSpectrum(frame: Float32Array): Float64Array {
+    const size = frame.length;
+    const window = this.hannWindow(size);
+    const real = new Float64Array(size);
+    const imag = new Float64Array(size);
+
+    for (let i = 0; i < size; i++) {
+      real[i] = frame[i] * window[i];
+    }
+    this.fft(real, imag);
+
+    const bins = size / 2 + 1;
+    const spectrum = new Float64Array(bins);
+    for (let k = 0; k < bins; k++) {
+      spectrum[k] = (real[k] * real[k] + imag[k] * imag[k]) / size;
+    }
+    return spectrum;
+  }
+
+  /**
+   * Sums spectrum power into bands delimited by `edgesHz` ([edges[i], edges[i + 1])).
+   */
+  static bandEnergies(spectrum: Float64Array, sampleRate: number, edgesHz: number[]): number[] {
+    const fftSize = (spectrum.length - 1) * 2;
+    const binHz = sampleRate / fftSize;
+    const energies = new Array(Math.max(0, edgesHz.length - 1)).fill(0);
+
+    for (let k = 0; k < spectrum.length; k++) {
+      const frequency = k * binHz;
+      for (let band = 0; band < energies.length; band++) {
+        if (frequency >= edgesHz[band] && frequency < edgesHz[band + 1]) {
+          energies[band] += spectrum[k];
+          break;
+        }
+      }
+    }
+
+    return energies;
+  }
+
+  /**
+   * Ratio of geometric to arithmetic mean of the spectrum: ~1 for white noise, ~0 for tones.
+   */
+  static spectralFlatness(spectrum: Float64Array): number {
+    const epsilon = 1e-12;
+    let logSum = 0;
+    let sum = 0;
+
+    for (let k = 0; k < spectrum.length; k++) {
+      logSum += Math.log(spectrum[k] + epsilon);
+      sum += spectrum[k];
+    }
+
+    const arithmetic = sum / spectrum.length;
+    if (arithmetic <= epsilon) {
+      return 0;
+    }
+    return Math.exp(logSum / spectrum.length) / (arithmetic + epsilon);
+  }
+
+  /**
+   * Mel-frequency cepstral coefficients from a power spectrum (c0 included).
+   */
+  static mfcc(
+    spectrum: Float64Array,
+    sampleRate: number,
+    numFilters: number = 26,
+    numCoefficients: number = 13,
+    maxHz: number = 8000
+  ): number[] {
+    const filters = this.melFilterbank(spectrum.length, sampleRate, numFilters, Math.min(maxHz, sampleRate / 2));
+    const logEnergies = filters.map(filter => {
+      let energy = 0;
+      for (let k = 0; k < spectrum.length; k++) {
+        energy += filter[k] * spectrum[k];
+      }
+      return Math.log(energy + 1e-10);
+    });
+
+    // DCT-II of the log filterbank energies
+    const coefficients: number[] = [];
+    for (let c = 0; c < numCoefficients; c++) {
+      let sum = 0;
+      for (let m = 0; m < numFilters; m++) {
+        sum += logEnergies[m] * Math.cos((Math.PI * c * (m + 0.5)) / numFilters);
+      }
+      coefficients.push(sum * Math.sqrt(2 / numFilters));
+    }
+    return coefficients;
+  }
+
+  /**
+   * Autocorrelation pitch estimate (computed through the FFT). `clarity` is the
+   * normalized correlation at the chosen lag (0-1); unvoiced frames score low.
+   */
+  static pitch(
+    frame: Float32Array,
+    sampleRate: number,
+    minHz: number = 70,
+    maxHz: number = 400
+  ): { frequency: number; clarity: number } {
+    const n = frame.length;
+    const size = this.nextPowerOfTwo(n * 2);
+    const real = new Float64Array(size);
+    const imag = new Float64Array(size);
+    real.set(frame);
+
+    // Wiener-Khinchin: the transform of the power spectrum is the autocorrelation
+    this.fft(real, imag);
+    for (let k = 0; k < size; k++) {
+      real[k] = real[k] * real[k] + imag[k] * imag[k];
+      imag[k] = 0;
+    }
+    this.fft(real, imag);
+
+    const energy = real[0];
+    if (energy <= 0) {
+      return { frequency: 0, clarity: 0 };
+    }
+
+    const minLag = Math.max(1, Math.floor(sampleRate / maxHz));
+    const maxLag = Math.min(n - 2, Math.ceil(sampleRate / minHz));
+    const clarityAt = (lag: number) => (real[lag] / energy) * (n / (n - lag));
+
+    let bestClarity = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      bestClarity = Math.max(bestClarity, clarityAt(lag));
+    }
+
+    // Take the first local peak close to the best one to avoid octave errors
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      const clarity = clarityAt(lag);
+      if (clarity >= 0.9 * bestClarity && clarity >= clarityAt(lag - 1) && clarity >= clarityAt(lag + 1)) {
+        return { frequency: sampleRate / lag, clarity: Math.min(1, clarity) };
+      }
+    }
+
+    return { frequency: 0, clarity: 0 };
+  }
+
+  static nextPowerOfTwo(value: number): number {
+    let power = 1;
+    while (power < value) {
+      power <<= 1;
+    }
+    return power;
+  }
+
+  private static twiddles(n: number): { cos: Float64Array; sin: Float64Array } {
+    let table = this.twiddleCache.get(n);
+    if (!table) {
+      table = { cos: new Float64Array(n / 2), sin: new Float64Array(n / 2) };
+      for (let k = 0; k < n / 2; k++) {
+        table.cos[k] = Math.cos((-2 * Math.PI * k) / n);
+        table.sin[k] = Math.sin((-2 * Math.PI * k) / n);
+      }
+      this.twiddleCache.set(n, table);
+    }
+    return table;
+  }
+
+  private static melFilterbank(
+    bins: number,
+    sampleRate: number,
+    numFilters: number,
+    maxHz: number
+  ): Float64Array[] {
+    const key = `${bins}:${sampleRate}:${numFilters}:${maxHz}`;
+    const cached = this.melCache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+    const toHz = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+    const fftSize = (bins - 1) * 2;
+    const maxMel = toMel(maxHz);
+
+    // numFilters triangles need numFilters + 2 equally spaced mel points
+    const points: number[] = [];
+    for (let i = 0; i < numFilters + 2; i++) {
+      points.push(Math.floor(((fftSize + 1) * toHz((maxMel * i) / (numFilters + 1))) / sampleRate));
+    }
+
+    const filters: Float64Array[] = [];
+    for (let m = 1; m <= numFilters; m++) {
+      const filter = new Float64Array(bins);
+      const [left, center, right] = [points[m - 1], points[m], points[m + 1]];
+      for (let k = left; k < center && k < bins; k++) {
+        filter[k] = (k - left) / Math.max(1, center - left);
+      }
+      for (let k = center; k <= right && k < bins; k++) {
+        filter[k] = (right - k) / Math.max(1, right - center);
+      }
+      filters.push(filter);
+    }
+
+    this.melCache.set(key, filters);
+    return filters;
+  }
+}
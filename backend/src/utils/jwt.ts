@@ -0,0 +1,103 @@
+import crypto, { KeyObject, JsonWebKey } from 'crypto';
+
+export interface JwtHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+}
+
+export type JwtPayload = Record<string, unknown>;
+
+export class JwtError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JwtError';
+  }
+}
+
+/**
+ * Minimal RS256 JSON Web Tokens on top of node's crypto. Only RS256 is
+ * accepted when verifying, so a token cannot pick a weaker algorithm.
+ */
+export class JwtUtil {
+  static sign(payload: JwtPayload, privateKey: KeyObject, kid?: string): string {
+    const header: JwtHeader = { alg: 'RS256', typ: 'JWT', ...(kid ? { kid } : {}) };
+    const signingInput = `${this.encode(header)}.${this.encode(payload)}`;
+    const signature = crypto.sign('RSA-SHA256', Buffer.from(signingInput), privateKey);
+    return `${signingInput}.${signature.toString('base64url')}`;
+  }
+
+  /**
+   * Splits a token without checking it, e.g. to find the key it was signed
+   * with.
+   */
+  static decode(token: string): { header: JwtHeader; payload: JwtPayload } {
+    const parts = typeof token === 'string' ? token.split('.') : [];
+    if (parts.length !== 3) {
+      throw new JwtError('Malformed token');
+    }
+    try {
+      return {
+        header: JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8')),
+        payload: JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'))
+      };
+    } catch {
+      throw new JwtError('Malformed token');
+    }
+  }
+
+  /**
+   * Checks the signature and the exp/nbf/iat claims, allowing for clock skew.
+   * Issuer, audience and anything else are left to the caller.
+   */
+  static verify(token: string, publicKey: KeyObject, clockSkewSeconds: number = 60): JwtPayload {
+    const { header, payload } = this.decode(token);
+    if (header.alg !== 'RS256') {
+      throw new JwtError(`Unsupported token algorithm ${header.alg}`);
+    }
+
+    const [encodedHeader, encodedPayload, signature] = token.split('.');
+    const valid = crypto.verify(
+      'RSA-SHA256',
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      publicKey,
+      Buffer.from(signature, 'base64url')
+    );
+    if (!valid) {
+      throw new JwtError('Invalid token signature');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof payload.exp !== 'number' || payload.exp < now - clockSkewSeconds) {
+      throw new JwtError('Token has expired');
+    }
+    if (typeof payload.nbf === 'number' && payload.nbf > now + clockSkewSeconds) {
+      throw new JwtError('Token is not valid yet');
+    }
+    if (typeof payload.iat === 'number' && payload.iat > now + clockSkewSeconds) {
+      throw new JwtError('Token was issued in the future');
+    }
+    return payload;
+  }
+
+  static importJwk(jwk: JsonWebKey): KeyObject {
+    return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+  }
+
+  static generateKeyPair(): { kid: string; privateKeyPem: string; publicJwk: JsonWebKey } {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const publicJwk = publicKey.export({ format: 'jwk' });
+    return {
+      // RFC 7638 thumbprint, so the key ID is stable and derived from the key itself
+      kid: crypto.createHash('sha256')
+        .update(JSON.stringify({ e: publicJwk.e, kty: publicJwk.kty, n: publicJwk.n }))
+        .digest('base64url'),
+      privateKeyPem: privateKey.export({ format: 'pem', type: 'pkcs8' }).toString(),
+      publicJwk
+    };
+  }
+
+  private static encode(value: unknown): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+  }
+}
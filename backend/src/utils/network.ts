@@ -0,0 +1,43 @@
+import { BlockList, isIP } from 'net';
+import { promises as dns } from 'dns';
+
+// Addresses an outbound request must never reach: this host, the private
+// network and the cloud metadata endpoints that live on it
+const INTERNAL_ADDRESSES = new BlockList();
+INTERNAL_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4'); // "this network"
+INTERNAL_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4'); // carrier-grade NAT
+INTERNAL_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4'); // link-local, including 169.254.169.254
+INTERNAL_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('192.0.0.0', 24, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('198.18.0.0', 15, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('224.0.0.0', 3, 'ipv4'); // multicast, reserved and broadcast
+INTERNAL_ADDRESSES.addAddress('::', 'ipv6');
+INTERNAL_ADDRESSES.addAddress('::1', 'ipv6');
+INTERNAL_ADDRESSES.addSubnet('fc00::', 7, 'ipv6'); // unique local, including fd00:ec2::254
+INTERNAL_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+INTERNAL_ADDRESSES.addSubnet('ff00::', 8, 'ipv6');
+
+export class NetworkUtil {
+  // IPv4-mapped IPv6 addresses are checked as the IPv4 address they carry
+  static isInternalAddress(address: string): boolean {
+    const family = isIP(address);
+    if (family === 0) {
+      return false;
+    }
+    return INTERNAL_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+  }
+
+  /**
+   * Resolves a URL's host and returns any addresses it has that are internal.
+   * Throws when the host does not resolve.
+   */
+  static async findInternalAddresses(url: URL): Promise<string[]> {
+    // URL keeps IPv6 literals in brackets
+    const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+    const addresses = isIP(host) ? [host] : (await dns.lookup(host, { all: true, verbatim: true })).map(entry => entry.address);
+    return addresses.filter(address => this.isInternalAddress(address));
+  }
+}
@@ -0,0 +1,63 @@
+import { AuthContext } from '../types';
+
+// Tenant IDs double as directory names, so they are kept to lowercase slugs
+const TENANT_ID_PATTERN = /^[a-z0-9][a-z0-9-]{1,62}$/;
+
+export class TenantUtil {
+  static isValidId(tenantId: unknown): tenantId is string {
+    return typeof tenantId === 'string' && TENANT_ID_PATTERN.test(tenantId);
+  }
+
+  // Callers without a tenant (deployment admins) see every tenant's data
+  static canAccess(auth: AuthContext | undefined, tenantId: string | undefined | null): boolean {
+    return !!auth && (!auth.tenantId || auth.tenantId === tenantId);
+  }
+
+  /**
+   * The tenant a request acts for: always the caller's own when they have
+   * one, otherwise whichever tenant they asked for (if any).
+   */
+  static resolve(auth: AuthContext | undefined, requested: unknown): string | undefined {
+    if (auth?.tenantId) {
+      return auth.tenantId;
+    }
+    return typeof requested === 'string' && requested ? requested : undefined;
+  }
+
+  /**
+   * The tenant a replaced resource ends up in. Like resolve, except that a
+   * caller without a tenant who leaves tenantId out keeps the resource's
+   * current tenant; only an explicit null moves it out of its tenant.
+   */
+  static resolveUpdate(auth: AuthContext | undefined, requested: unknown, current: string | undefined): string | undefined {
+    if (!auth?.tenantId && requested === undefined) {
+      return current;
+    }
+    return this.resolve(auth, requested);
+  }
+
+  // Socket.IO rooms are prefixed with the tenant so broadcasts never cross into another tenant.
+  // Everyone on a session: its candidate and the staff watching it
+  static sessionRoom(sessionId: string, tenantId?: string): string {
+    return `${this.roomPrefix(tenantId)}session-${sessionId}`;
+  }
+
+  // Only the staff watching a session
+  static observerRoom(sessionId: string, tenantId?: string): string {
+    return `${this.sessionRoom(sessionId, tenantId)}:observers`;
+  }
+
+  // Every socket a candidate has open, including before they join a session
+  static userRoom(userId: string, tenantId?: string): string {
+    return `${this.roomPrefix(tenantId)}user-${userId}`;
+  }
+
+  // A tenant's admins; without a tenant, the deployment admins
+  static adminRoom(tenantId?: string): string {
+    return `${this.roomPrefix(tenantId)}admins`;
+  }
+
+  private static roomPrefix(tenantId?: string): string {
+    return tenantId ? `tenant-${tenantId}:` : '';
+  }
+}
@@ -0,0 +1,165 @@
+export interface WavHeader {
+  audioFormat: number;
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  blockAlign: number;
+  dataOffset: number;
+  dataLength: number;
+}
+
+export interface PcmAudio {
+  sampleRate: number;
+  // Mono samples normalized to [-1, 1]
+  samples: Float32Array;
+}
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+export class WavUtil {
+  static isWav(buffer: Buffer): boolean {
+    return buffer.length >= 12 &&
+      buffer.toString('ascii', 0, 4) === 'RIFF' &&
+      buffer.toString('ascii', 8, 12) === 'WAVE';
+  }
+
+  static parseHeader(buffer: Buffer): WavHeader {
+    if (!this.isWav(buffer)) {
+      throw new Error('Not a RIFF/WAVE buffer');
+    }
+
+    let format: Omit<WavHeader, 'dataOffset' | 'dataLength'> | null = null;
+    let offset = 12;
+
+    // Walk the chunk list until both "fmt " and "data" have been seen
+    while (offset + 8 <= buffer.length) {
+      const chunkId = buffer.toString('ascii', offset, offset + 4);
+      const chunkSize = buffer.readUInt32LE(offset + 4);
+      const body = offset + 8;
+
+      if (chunkId === 'fmt ') {
+        let audioFormat = buffer.readUInt16LE(body);
+        // Extensible headers carry the real format in the sub-format GUID
+        if (audioFormat === WAVE_FORMAT_EXTENSIBLE && chunkSize >= 26) {
+          audioFormat = buffer.readUInt16LE(body + 24);
+        }
+        format = {
+          audioFormat,
+          channels: buffer.readUInt16LE(body + 2),
+          sampleRate: buffer.readUInt32LE(body + 4),
+          blockAlign: buffer.readUInt16LE(body + 12),
+          bitsPerSample: buffer.readUInt16LE(body + 14)
+        };
+      } else if (chunkId === 'data') {
+        if (!format) {
+          throw new Error('WAV data chunk appears before fmt chunk');
+        }
+        // Streaming encoders (ffmpeg over a pipe) may leave the size unset
+        const available = buffer.length - body;
+        const dataLength = chunkSize === 0 || chunkSize > available ? available : chunkSize;
+        return { ...format, dataOffset: body, dataLength };
+      }
+
+      // Chunks are word-aligned
+      offset = body + chunkSize + (chunkSize % 2);
+    }
+
+    throw new Error('WAV buffer has no data chunk');
+  }
+
+  static decode(buffer: Buffer): PcmAudio {
+    const header = this.parseHeader(buffer);
+    const { audioFormat, channels, bitsPerSample, blockAlign, dataOffset, dataLength } = header;
+
+    if (audioFormat !== WAVE_FORMAT_PCM && audioFormat !== WAVE_FORMAT_IEEE_FLOAT) {
+      throw new Error(`Unsupported WAV format: ${audioFormat}`);
+    }
+    if (channels < 1 || blockAlign < 1) {
+      throw new Error('Invalid WAV channel layout');
+    }
+
+    const bytesPerSample = bitsPerSample / 8;
+    const frameCount = Math.floor(dataLength / blockAlign);
+    const samples = new Float32Array(frameCount);
+    const readSample = this.sampleReader(buffer, audioFormat, bitsPerSample);
+
+    // Mix all channels down to mono
+    for (let i = 0; i < frameCount; i++) {
+      const frameOffset = dataOffset + i * blockAlign;
+      let sum = 0;
+      for (let c = 0; c < channels; c++) {
+        sum += readSample(frameOffset + c * bytesPerSample);
+      }
+      samples[i] = sum / channels;
+    }
+
+    return { sampleRate: header.sampleRate, samples };
+  }
+
+  static decodeRawPcm16(buffer: Buffer, sampleRate: number, channels: number = 1): PcmAudio {
+    const frameCount = Math.floor(buffer.length / (2 * channels));
+    const samples = new Float32Array(frameCount);
+
+    for (let i = 0; i < frameCount; i++) {
+      let sum = 0;
+      for (let c = 0; c < channels; c++) {
+        sum += buffer.readInt16LE((i * channels + c) * 2) / 32768;
+      }
+      samples[i] = sum / channels;
+    }
+
+    return { sampleRate, samples };
+  }
+
+  static encodePcm16(samples: Float32Array, sampleRate: number): Buffer {
+    const dataLength = samples.length * 2;
+    const buffer = Buffer.alloc(44 + dataLength);
+
+    buffer.write('RIFF', 0, 'ascii');
+    buffer.writeUInt32LE(36 + dataLength, 4);
+    buffer.write('WAVE', 8, 'ascii');
+    buffer.write('fmt ', 12, 'ascii');
+    buffer.writeUInt32LE(16, 16);
+    buffer.writeUInt16LE(WAVE_FORMAT_PCM, 20);
+    buffer.writeUInt16LE(1, 22);
+    buffer.writeUInt32LE(sampleRate, 24);
+    buffer.writeUInt32LE(sampleRate * 2, 28);
+    buffer.writeUInt16LE(2, 32);
+    buffer.writeUInt16LE(16, 34);
+    buffer.write('data', 36, 'ascii');
+    buffer.writeUInt32LE(dataLength, 40);
+
+    for (let i = 0; i < samples.length; i++) {
+      const clamped = Math.max(-1, Math.min(1, samples[i]));
+      buffer.writeInt16LE(Math.round(clamped * 32767), 44 + i * 2);
+    }
+
+    return buffer;
+  }
+
+  private static sampleReader(
+    buffer: Buffer,
+    audioFormat: number,
+    bitsPerSample: number
+  ): (offset: number) => number {
+    if (audioFormat === WAVE_FORMAT_IEEE_FLOAT) {
+      if (bitsPerSample === 32) return (offset) => buffer.readFloatLE(offset);
+      if (bitsPerSample === 64) return (offset) => buffer.readDoubleLE(offset);
+    } else {
+      switch (bitsPerSample) {
+        case 8:
+          // 8-bit WAV is unsigned
+          return (offset) => (buffer.readUInt8(offset) - 128) / 128;
+        case 16:
+          return (offset) => buffer.readInt16LE(offset) / 32768;
+        case 24:
+          return (offset) => buffer.readIntLE(offset, 3) / 8388608;
+        case 32:
+          return (offset) => buffer.readInt32LE(offset) / 2147483648;
+      }
+    }
+    throw new Error(`Unsupported WAV bit depth: ${bitsPerSample}`);
+  }
+}
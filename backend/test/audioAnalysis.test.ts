@@ -0,0 +1,176 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DspUtil } from '../src/utils/dsp';
+import { PcmAudio, WavUtil } from '../src/utils/wav';
+import { audioAnalysisService } from '../src/services/audioAnalysis';
+
+const SAMPLE_RATE = 16000;
+const FRAME_SIZE = 2048;
+// The service's default bands
+const BAND_EDGES_HZ = [0, 100, 200, 400, 800, 1600, 2400, 3200, 4800, 6400, 8000];
+
+function sine(frequencyHz: number, seconds: number, amplitude = 0.5): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequencyHz * i) / SAMPLE_RATE);
+  }
+  return samples;
+}
+
+// A voice-like tone: a fundamental with decaying harmonics
+function harmonicTone(fundamentalHz: number, seconds: number, amplitude = 0.3): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let harmonic = 1; harmonic <= 5; harmonic++) {
+    const tone = sine(fundamentalHz * harmonic, seconds, amplitude / harmonic);
+    tone.forEach((value, i) => { samples[i] += value; });
+  }
+  return samples;
+}
+
+// Seeded, so every run hears the same noise
+function whiteNoise(seconds: number, amplitude = 0.3, seed = 42): Float32Array {
+  let state = seed;
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    samples[i] = amplitude * ((state / 0x100000000) * 2 - 1);
+  }
+  return samples;
+}
+
+function silence(seconds: number): Float32Array {
+  return new Float32Array(Math.round(seconds * SAMPLE_RATE));
+}
+
+function concat(...parts: Float32Array[]): Float32Array {
+  const samples = new Float32Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    samples.set(part, offset);
+    offset += part.length;
+  }
+  return samples;
+}
+
+function pcm(samples: Float32Array): PcmAudio {
+  return { sampleRate: SAMPLE_RATE, samples };
+}
+
+function bandShares(samples: Float32Array): number[] {
+  const energies = DspUtil.bandEnergies(DspUtil.powerSpectrum(samples.subarray(0, FRAME_SIZE)), SAMPLE_RATE, BAND_EDGES_HZ);
+  const total = energies.reduce((sum, energy) => sum + energy, 0);
+  return energies.map(energy => energy / total);
+}
+
+function bandOf(frequencyHz: number): number {
+  return BAND_EDGES_HZ.findIndex((edge, i) => frequencyHz >= edge && frequencyHz < BAND_EDGES_HZ[i + 1]);
+}
+
+describe('DspUtil', () => {
+  test('puts a sine tone\'s energy in the band that holds its frequency', () => {
+    for (const frequencyHz of [150, 440, 1000, 3000, 6000]) {
+      const shares = bandShares(sine(frequencyHz, 0.5));
+      assert.ok(shares[bandOf(frequencyHz)] > 0.95, `${frequencyHz} Hz: ${shares.map(share => share.toFixed(3))}`);
+    }
+  });
+
+  test('spreads white noise across the bands in proportion to their width', () => {
+    const shares = bandShares(whiteNoise(0.5));
+    const nyquist = SAMPLE_RATE / 2;
+    shares.forEach((share, band) => {
+      const expected = (BAND_EDGES_HZ[band + 1] - BAND_EDGES_HZ[band]) / nyquist;
+      assert.ok(Math.abs(share - expected) < 0.05, `band ${band}: ${share.toFixed(3)} vs ${expected.toFixed(3)}`);
+    });
+  });
+
+  test('tells noise from tones by spectral flatness', () => {
+    const noise = DspUtil.spectralFlatness(DspUtil.powerSpectrum(whiteNoise(0.5).subarray(0, FRAME_SIZE)));
+    const tone = DspUtil.spectralFlatness(DspUtil.powerSpectrum(sine(1000, 0.5).subarray(0, FRAME_SIZE)));
+    assert.ok(noise > 0.5, `noise flatness ${noise}`);
+    assert.ok(tone < 0.05, `tone flatness ${tone}`);
+  });
+
+  test('measures the level of a sine tone', () => {
+    const samples = sine(1000, 0.5, 0.5);
+    assert.ok(Math.abs(DspUtil.rms(samples) - 0.5 / Math.SQRT2) < 0.001);
+    assert.ok(Math.abs(DspUtil.peak(samples) - 0.5) < 0.001);
+  });
+
+  test('finds the pitch of sine tones across the voice range', () => {
+    for (const frequencyHz of [80, 120, 220, 350]) {
+      const { frequency, clarity } = DspUtil.pitch(sine(frequencyHz, 0.064), SAMPLE_RATE);
+      assert.ok(Math.abs(frequency - frequencyHz) / frequencyHz < 0.03, `${frequencyHz} Hz read as ${frequency}`);
+      assert.ok(clarity > 0.9, `${frequencyHz} Hz clarity ${clarity}`);
+    }
+  });
+
+  test('finds the fundamental of a harmonic tone rather than an overtone', () => {
+    const { frequency } = DspUtil.pitch(harmonicTone(150, 0.064), SAMPLE_RATE);
+    assert.ok(Math.abs(frequency - 150) < 5, `read as ${frequency}`);
+  });
+
+  test('reports no clear pitch in white noise', () => {
+    const { clarity } = DspUtil.pitch(whiteNoise(0.064), SAMPLE_RATE);
+    assert.ok(clarity < 0.5, `clarity ${clarity}`);
+  });
+
+  test('reports nothing in silence', () => {
+    const samples = silence(0.5);
+    const spectrum = DspUtil.powerSpectrum(samples.subarray(0, FRAME_SIZE));
+    assert.equal(DspUtil.rms(samples), 0);
+    assert.equal(DspUtil.peak(samples), 0);
+    assert.deepEqual(DspUtil.bandEnergies(spectrum, SAMPLE_RATE, BAND_EDGES_HZ), new Array(BAND_EDGES_HZ.length - 1).fill(0));
+    assert.equal(DspUtil.spectralFlatness(spectrum), 0);
+    assert.deepEqual(DspUtil.pitch(samples.subarray(0, 1024), SAMPLE_RATE), { frequency: 0, clarity: 0 });
+  });
+});
+
+describe('AudioAnalysisService', () => {
+  test('reports a sine tone\'s energy as a share of its band', () => {
+    const { frequency, volume } = audioAnalysisService.analyzePcm(pcm(sine(1000, 1)));
+    assert.equal(frequency.length, BAND_EDGES_HZ.length - 1);
+    assert.ok(frequency[bandOf(1000)] > 95, `bands ${frequency.map(share => share.toFixed(1))}`);
+    assert.ok(Math.abs(volume - 0.5 / Math.SQRT2) < 0.001);
+  });
+
+  test('reports zero volume and no band energy for silence', () => {
+    const analysis = audioAnalysisService.analyzePcm(pcm(silence(1)));
+    assert.equal(analysis.volume, 0);
+    assert.equal(analysis.peak, 0);
+    assert.equal(analysis.backgroundNoise, 0);
+    assert.deepEqual(analysis.frequency, new Array(BAND_EDGES_HZ.length - 1).fill(0));
+    assert.equal(analysis.speakerCount, 0);
+    assert.equal(analysis.multipleVoices, false);
+  });
+
+  test('finds no speech in silence or white noise', () => {
+    assert.deepEqual(audioAnalysisService.detectSpeechSegments(pcm(silence(2))), []);
+    assert.deepEqual(audioAnalysisService.detectSpeechSegments(pcm(whiteNoise(2))), []);
+  });
+
+  test('finds a voiced tone between silences, and where it starts and ends', () => {
+    const samples = concat(silence(1), harmonicTone(150, 1.5), silence(1));
+    const segments = audioAnalysisService.detectSpeechSegments(pcm(samples));
+    assert.equal(segments.length, 1);
+    assert.ok(Math.abs(segments[0].start - 1) < 0.05, `starts at ${segments[0].start}`);
+    assert.ok(Math.abs(segments[0].end - 2.5) < 0.05, `ends at ${segments[0].end}`);
+  });
+
+  test('finds a voiced tone over quiet background noise', () => {
+    const samples = concat(harmonicTone(150, 1), silence(1), harmonicTone(150, 1));
+    const noise = whiteNoise(3, 0.002);
+    noise.forEach((value, i) => { samples[i] += value; });
+
+    const segments = audioAnalysisService.detectSpeechSegments(pcm(samples));
+    assert.equal(segments.length, 2);
+    assert.ok(Math.abs(segments[0].end - 1) < 0.05 && Math.abs(segments[1].start - 2) < 0.05, JSON.stringify(segments));
+  });
+
+  test('decodes what WavUtil encodes', () => {
+    const samples = sine(440, 0.1);
+    const decoded = audioAnalysisService.decode(WavUtil.encodePcm16(samples, SAMPLE_RATE));
+    assert.equal(decoded.sampleRate, SAMPLE_RATE);
+    assert.equal(decoded.samples.length, samples.length);
+    decoded.samples.forEach((value, i) => assert.ok(Math.abs(value - samples[i]) < 1e-4));
+  });
+});
@@ -0,0 +1,283 @@
+import { after, before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import {
+  hmacSha256Hex,
+  SharedSecretWebhookAdapter,
+  TeamsWebhookAdapter,
+  WebhookPayloadError,
+  WebhookRequest,
+  WebhookVerificationError,
+  ZoomWebhookAdapter
+} from '../src/services/callPlatformAdapters';
+import { WebhookVerificationService } from '../src/services/webhookVerification';
+import { WebhookEventModel } from '../src/models';
+
+const SECRET = 'test-webhook-secret';
+const TOLERANCE_MS = 300 * 1000;
+const FIXTURE_DIR = path.join(__dirname, '..', 'fixtures', 'webhooks');
+
+interface WebhookFixture {
+  description: string;
+  query?: Record<string, string>;
+  body?: Record<string, unknown>;
+}
+
+function loadFixture(platform: string, name: string): WebhookFixture {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, platform, `${name}.json`), 'utf8'));
+}
+
+function fixtureNames(platform: string): string[] {
+  return fs.readdirSync(path.join(FIXTURE_DIR, platform)).map(file => path.basename(file, '.json'));
+}
+
+function unixSeconds(offsetMs = 0): string {
+  return Math.floor((Date.now() + offsetMs) / 1000).toString();
+}
+
+function request(body: unknown, headers: Record<string, string> = {}, query: Record<string, unknown> = {}): WebhookRequest {
+  return {
+    headers,
+    query,
+    rawBody: Buffer.from(body === undefined ? '' : JSON.stringify(body)),
+    body
+  };
+}
+
+function zoomRequest(body: unknown, timestamp = unixSeconds(), secret = SECRET): WebhookRequest {
+  return request(body, {
+    'x-zm-request-timestamp': timestamp,
+    'x-zm-signature': ZoomWebhookAdapter.sign(secret, timestamp, JSON.stringify(body))
+  });
+}
+
+function sharedSecretRequest(body: unknown, timestamp = unixSeconds(), secret = SECRET): WebhookRequest {
+  return request(body, {
+    'x-webhook-timestamp': timestamp,
+    'x-webhook-signature': SharedSecretWebhookAdapter.sign(secret, timestamp, JSON.stringify(body))
+  });
+}
+
+// Graph notifications carry the subscription's clientState rather than a signature
+function teamsBody(name: string, clientState = SECRET): Record<string, unknown> {
+  const body = loadFixture('teams', name).body as { value: Record<string, unknown>[] };
+  return { value: body.value.map(notification => ({ ...notification, clientState })) };
+}
+
+const isVerificationError = (error: unknown) => error instanceof WebhookVerificationError;
+const isPayloadError = (error: unknown) => error instanceof WebhookPayloadError;
+
+describe('ZoomWebhookAdapter', () => {
+  const adapter = new ZoomWebhookAdapter(SECRET, TOLERANCE_MS);
+
+  test('answers a signed URL validation with the token and its HMAC', () => {
+    const challenge = adapter.getChallenge(zoomRequest(loadFixture('zoom', 'url-validation').body));
+    assert.deepEqual(challenge, {
+      contentType: 'application/json',
+      body: { plainToken: 'qgg8vlvZRS6UYooatFL8Aw', encryptedToken: hmacSha256Hex(SECRET, 'qgg8vlvZRS6UYooatFL8Aw') }
+    });
+  });
+
+  test('refuses to answer a URL validation with a bad signature', () => {
+    const body = loadFixture('zoom', 'url-validation').body;
+    assert.throws(() => adapter.getChallenge(zoomRequest(body, unixSeconds(), 'another-secret')), isVerificationError);
+  });
+
+  test('verifies and normalizes every recorded event', () => {
+    const expected: Record<string, string> = {
+      'meeting-started': 'call_started',
+      'meeting-ended': 'call_ended',
+      'participant-joined': 'participant_joined',
+      'participant-left': 'participant_left'
+    };
+    for (const name of fixtureNames('zoom').filter(name => name !== 'url-validation')) {
+      const signed = zoomRequest(loadFixture('zoom', name).body);
+      assert.equal(adapter.getChallenge(signed), null, name);
+      adapter.verify(signed);
+
+      const events = adapter.normalize(signed);
+      assert.equal(events.length, 1, name);
+      assert.equal(events[0].webhook.eventType, expected[name], name);
+      assert.equal(events[0].webhook.callId, '85746065432', name);
+    }
+  });
+
+  test('reads the participant from a join', () => {
+    const [event] = adapter.normalize(zoomRequest(loadFixture('zoom', 'participant-joined').body));
+    assert.deepEqual(event.webhook.participants, [{
+      id: 'iFxeBPYun6SAiWUzBcEkX',
+      name: 'Jordan Lee',
+      email: 'jordan.lee@example.edu',
+      role: 'proctored_user'
+    }]);
+  });
+
+  test('rejects a tampered body, a stale timestamp and a missing signature', () => {
+    const body = loadFixture('zoom', 'participant-joined').body;
+    const tampered = zoomRequest(body);
+    tampered.rawBody = Buffer.from(JSON.stringify({ ...body, event_ts: 1 }));
+
+    assert.throws(() => adapter.verify(tampered), isVerificationError);
+    assert.throws(() => adapter.verify(zoomRequest(body, unixSeconds(-10 * 60 * 1000))), isVerificationError);
+    assert.throws(() => adapter.verify(request(body, { 'x-zm-request-timestamp': unixSeconds() })), isVerificationError);
+  });
+
+  test('accepts nothing without a secret', () => {
+    const unconfigured = new ZoomWebhookAdapter(undefined, TOLERANCE_MS);
+    assert.throws(() => unconfigured.verify(zoomRequest(loadFixture('zoom', 'meeting-started').body)), isVerificationError);
+  });
+
+  test('refuses events without a meeting ID', () => {
+    assert.throws(
+      () => adapter.normalize(zoomRequest({ event: 'meeting.started', payload: { object: {} } })),
+      isPayloadError
+    );
+  });
+});
+
+describe('TeamsWebhookAdapter', () => {
+  const adapter = new TeamsWebhookAdapter(SECRET);
+
+  test('echoes a subscription validationToken as text', () => {
+    const { query } = loadFixture('teams', 'subscription-validation');
+    assert.deepEqual(adapter.getChallenge(request(undefined, {}, query)), {
+      contentType: 'text/plain',
+      body: query?.validationToken
+    });
+  });
+
+  test('verifies and normalizes every recorded notification', () => {
+    const expected: Record<string, string> = {
+      'call-started': 'call_started',
+      'call-ended': 'call_ended',
+      'participant-joined': 'participant_joined',
+      'participant-left': 'participant_left'
+    };
+    for (const name of fixtureNames('teams').filter(name => name !== 'subscription-validation')) {
+      const notification = request(teamsBody(name));
+      assert.equal(adapter.getChallenge(notification), null, name);
+      adapter.verify(notification);
+
+      const events = adapter.normalize(notification);
+      assert.equal(events.length, 1, name);
+      assert.equal(events[0].webhook.eventType, expected[name], name);
+      assert.equal(events[0].webhook.callId, '421f0c00-2c1f-4f2e-8a7d-5d1e8bd0ef29', name);
+    }
+  });
+
+  test('reads the participant from a leave', () => {
+    const [event] = adapter.normalize(request(teamsBody('participant-left')));
+    assert.deepEqual(event.webhook.participants, [{
+      id: 'b1f2e2a4-4c6d-4a9b-8c39-06c2f3a0d611',
+      name: 'Jordan Lee',
+      email: 'jordan.lee@example.edu',
+      role: 'proctored_user'
+    }]);
+  });
+
+  test('rejects notifications without the subscription\'s clientState', () => {
+    assert.throws(() => adapter.verify(request(teamsBody('call-started', 'another-state'))), isVerificationError);
+    // As recorded, before the fixture script fills it in
+    assert.throws(() => adapter.verify(request(loadFixture('teams', 'call-started').body)), isVerificationError);
+    assert.throws(() => adapter.verify(request({ value: [] })), isVerificationError);
+    assert.throws(() => adapter.verify(request('not a notification')), isVerificationError);
+  });
+});
+
+describe('SharedSecretWebhookAdapter', () => {
+  const adapter = new SharedSecretWebhookAdapter('other', SECRET, TOLERANCE_MS);
+
+  test('verifies and normalizes every recorded event', () => {
+    for (const name of fixtureNames('other')) {
+      const body = loadFixture('other', name).body as Record<string, unknown>;
+      const signed = sharedSecretRequest(body);
+      adapter.verify(signed);
+
+      const [event] = adapter.normalize(signed);
+      assert.equal(event.eventId, body.eventId, name);
+      assert.equal(event.webhook.platform, 'other', name);
+      assert.equal(event.webhook.eventType, body.eventType, name);
+      assert.deepEqual(event.webhook.participants, body.participants ?? [], name);
+    }
+  });
+
+  test('rejects a bad signature and a stale timestamp', () => {
+    const body = loadFixture('other', 'participant-joined').body;
+    assert.throws(() => adapter.verify(sharedSecretRequest(body, unixSeconds(), 'another-secret')), isVerificationError);
+    assert.throws(() => adapter.verify(sharedSecretRequest(body, unixSeconds(10 * 60 * 1000))), isVerificationError);
+    assert.throws(() => adapter.verify(sharedSecretRequest(body, 'yesterday')), isVerificationError);
+  });
+
+  test('refuses events claiming another platform', () => {
+    const body = { ...loadFixture('other', 'call-started').body, platform: 'zoom' };
+    assert.throws(() => adapter.normalize(sharedSecretRequest(body)), isPayloadError);
+  });
+
+  test('refuses malformed participants', () => {
+    const body = loadFixture('other', 'participant-joined').body;
+    for (const participants of ['candidate-1042', [null], [{ name: 'Jordan Lee', role: 'proctored_user' }],
+      [{ id: 'candidate-1042', name: 'Jordan Lee', role: 'examiner' }]]) {
+      assert.throws(() => adapter.normalize(sharedSecretRequest({ ...body, participants })), isPayloadError,
+        JSON.stringify(participants));
+    }
+  });
+
+  test('refuses events without a callId or a known eventType', () => {
+    const body = loadFixture('other', 'call-started').body;
+    assert.throws(() => adapter.normalize(sharedSecretRequest({ ...body, callId: undefined })), isPayloadError);
+    assert.throws(() => adapter.normalize(sharedSecretRequest({ ...body, eventType: 'call_paused' })), isPayloadError);
+  });
+});
+
+describe('WebhookVerificationService', () => {
+  const service = new WebhookVerificationService();
+  const seen = new Set<string>();
+
+  before(() => {
+    service.register('zoom', new ZoomWebhookAdapter(SECRET, TOLERANCE_MS));
+    service.register('other', new SharedSecretWebhookAdapter('other', SECRET, TOLERANCE_MS));
+    // Stands in for the unique index on platform and event ID
+    mock.method(WebhookEventModel, 'create', async (doc: { platform: string; eventId: string }) => {
+      const key = `${doc.platform}:${doc.eventId}`;
+      if (seen.has(key)) {
+        throw Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+      }
+      seen.add(key);
+      return doc;
+    });
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  test('processes a redelivered event only once', async () => {
+    for (const [platform, signed] of [
+      ['zoom', zoomRequest(loadFixture('zoom', 'participant-joined').body)],
+      ['other', sharedSecretRequest(loadFixture('other', 'participant-joined').body)]
+    ] as const) {
+      const first = await service.process(platform, signed);
+      assert.equal(first.events.length, 1, platform);
+      assert.equal(first.duplicates, 0, platform);
+
+      const again = await service.process(platform, signed);
+      assert.equal(again.events.length, 0, platform);
+      assert.equal(again.duplicates, 1, platform);
+    }
+  });
+
+  test('answers handshakes without recording an event', async () => {
+    const recorded = seen.size;
+    const outcome = await service.process('zoom', zoomRequest(loadFixture('zoom', 'url-validation').body));
+    assert.ok(outcome.challenge);
+    assert.equal(seen.size, recorded);
+  });
+
+  test('rejects unverified requests before recording their events', async () => {
+    const recorded = seen.size;
+    const body = loadFixture('other', 'call-ended').body;
+    await assert.rejects(service.process('other', sharedSecretRequest(body, unixSeconds(), 'another-secret')), isVerificationError);
+    assert.equal(seen.size, recorded);
+  });
+});
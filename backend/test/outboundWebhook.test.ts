@@ -0,0 +1,83 @@
+import { after, before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { OutboundWebhookService, WebhookSubscriptionValidationError } from '../src/services/outboundWebhook';
+import { WebhookSubscriptionModel } from '../src/models';
+import { NetworkUtil } from '../src/utils/network';
+
+const INTERNAL_URLS = [
+  'http://127.0.0.1/hook',
+  'http://localhost:8080/hook',
+  'http://10.1.2.3/hook',
+  'http://172.20.0.5/hook',
+  'http://192.168.1.10/hook',
+  'http://169.254.169.254/latest/meta-data/',
+  'http://0.0.0.0/hook',
+  'http://[::1]/hook',
+  'http://[fd00:ec2::254]/hook',
+  'http://[fe80::1]/hook',
+  'http://[::ffff:127.0.0.1]/hook',
+  // Other spellings of 127.0.0.1, which URL normalizes
+  'http://2130706433/hook',
+  'http://0x7f.1/hook'
+];
+
+describe('NetworkUtil', () => {
+  test('treats private, loopback, link-local and metadata addresses as internal', () => {
+    for (const address of ['127.0.0.1', '10.0.0.1', '172.31.255.255', '192.168.0.1', '169.254.169.254', '100.64.0.1',
+      '::1', 'fd00:ec2::254', 'fe80::1', '::ffff:10.0.0.1']) {
+      assert.equal(NetworkUtil.isInternalAddress(address), true, address);
+    }
+  });
+
+  test('treats public addresses as external', () => {
+    for (const address of ['8.8.8.8', '172.32.0.1', '93.184.216.34', '2606:4700::1111', '::ffff:8.8.8.8']) {
+      assert.equal(NetworkUtil.isInternalAddress(address), false, address);
+    }
+  });
+});
+
+describe('OutboundWebhookService subscriptions', () => {
+  let previousAllowed: string | undefined;
+
+  before(() => {
+    previousAllowed = process.env.OUTBOUND_WEBHOOK_ALLOWED_INTERNAL_HOSTS;
+    mock.method(WebhookSubscriptionModel.prototype, 'save', async function (this: unknown) {
+      return this;
+    });
+  });
+
+  after(() => {
+    if (previousAllowed === undefined) {
+      delete process.env.OUTBOUND_WEBHOOK_ALLOWED_INTERNAL_HOSTS;
+    } else {
+      process.env.OUTBOUND_WEBHOOK_ALLOWED_INTERNAL_HOSTS = previousAllowed;
+    }
+    mock.restoreAll();
+  });
+
+  test('refuses URLs that lead inside the network', async () => {
+    delete process.env.OUTBOUND_WEBHOOK_ALLOWED_INTERNAL_HOSTS;
+    const service = new OutboundWebhookService();
+
+    for (const url of INTERNAL_URLS) {
+      await assert.rejects(
+        service.createSubscription({ url, events: ['session.ended'] }),
+        (error: unknown) => error instanceof WebhookSubscriptionValidationError &&
+          error.errors.some(message => message.includes('private, loopback, link-local or metadata')),
+        url
+      );
+    }
+  });
+
+  test('allows internal hosts a deployment admin has listed', async () => {
+    process.env.OUTBOUND_WEBHOOK_ALLOWED_INTERNAL_HOSTS = 'lms.internal, 10.1.2.3';
+    const service = new OutboundWebhookService();
+
+    const { subscription } = await service.createSubscription({ url: 'http://10.1.2.3/hook', events: ['session.ended'] });
+    assert.equal(subscription.url, 'http://10.1.2.3/hook');
+    await assert.rejects(
+      service.createSubscription({ url: 'http://10.1.2.4/hook', events: ['session.ended'] }),
+      WebhookSubscriptionValidationError
+    );
+  });
+});
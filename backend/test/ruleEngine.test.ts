@@ -0,0 +1,37 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ruleEngineService, RuleValidationError } from '../src/services/ruleEngine';
+import { DetectionRule } from '../src/types';
+
+const gazeAway = (overrides: Record<string, unknown>): DetectionRule => ({
+  id: 'gaze_away_test',
+  name: 'Looking away',
+  enabled: true,
+  activityType: 'gaze_away',
+  conditions: [{ field: 'gaze.lookingAway', operator: 'eq', value: true }],
+  windowMs: 0,
+  cooldownMs: 0,
+  severity: 'medium',
+  ...overrides
+} as unknown as DetectionRule);
+
+const validate = (rule: DetectionRule) => ruleEngineService.validate({ name: 'Test rules', rules: [rule] });
+
+describe('rule validation', () => {
+  test('accepts confidences from 0 to 1, or none', () => {
+    for (const confidence of [0, 0.5, 1, undefined]) {
+      assert.doesNotThrow(() => validate(gazeAway({ confidence })), String(confidence));
+    }
+  });
+
+  test('refuses confidences that are not a number between 0 and 1', () => {
+    for (const confidence of [-0.1, 1.5, '0.9', 'high', null, true, [0.5]]) {
+      assert.throws(
+        () => validate(gazeAway({ confidence })),
+        (error: unknown) => error instanceof RuleValidationError &&
+          error.errors.includes('rules[0].confidence must be a number between 0 and 1'),
+        JSON.stringify(confidence)
+      );
+    }
+  });
+});
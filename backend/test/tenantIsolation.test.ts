@@ -0,0 +1,233 @@
+import { after, before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server as HttpServer } from 'http';
+import express from 'express';
+import { Server } from 'socket.io';
+import proctorSessionRoutes from '../src/routes/proctorSession';
+import reviewRoutes from '../src/routes/review';
+import ruleSetRoutes from '../src/routes/ruleSet';
+import examRoutes from '../src/routes/exam';
+import outboundWebhookRoutes from '../src/routes/outboundWebhook';
+import { checkSessionAccess, requireSessionAccess, requireTenantAccess } from '../src/middleware/auth';
+import { authService } from '../src/services/auth';
+import { examService } from '../src/services/exam';
+import { ruleEngineService } from '../src/services/ruleEngine';
+import { outboundWebhookService } from '../src/services/outboundWebhook';
+import { reviewService } from '../src/services/review';
+import { ProctorSessionModel } from '../src/models';
+import { TenantUtil } from '../src/utils/tenant';
+import { AuthContext } from '../src/types';
+
+// Every resource below belongs to tenant B; the callers belong to tenant A, but for
+// proctor-b and the deployment-wide admin
+const CALLERS: Record<string, AuthContext> = {
+  'admin-a': { userId: 'admin-a', role: 'admin', tenantId: 'tenant-a', tokenId: 't1' },
+  'proctor-a': { userId: 'proctor-a', role: 'proctor', tenantId: 'tenant-a', tokenId: 't2' },
+  'reviewer-a': { userId: 'reviewer-a', role: 'reviewer', tenantId: 'tenant-a', tokenId: 't3' },
+  'candidate-a': { userId: 'candidate-b', role: 'candidate', tenantId: 'tenant-a', tokenId: 't4' },
+  'proctor-b': { userId: 'proctor-b', role: 'proctor', tenantId: 'tenant-b', tokenId: 't5' },
+  'deployment-admin': { userId: 'deployment-admin', role: 'admin', tokenId: 't6' }
+};
+
+const SESSION_B = { sessionId: 'session-b', userId: 'candidate-b', tenantId: 'tenant-b' };
+
+let server: HttpServer;
+let baseUrl: string;
+
+before(async () => {
+  mock.method(authService, 'verifyAccessToken', async (token: string) => {
+    if (!CALLERS[token]) {
+      throw new Error(`Unknown test token ${token}`);
+    }
+    return CALLERS[token];
+  });
+  mock.method(ProctorSessionModel, 'findOne', (filter: { sessionId?: string }) => ({
+    lean: async () => (filter.sessionId === SESSION_B.sessionId ? SESSION_B : null)
+  }));
+  mock.method(examService, 'getExam', async (examId: string) => ({ id: examId, tenantId: 'tenant-b' }));
+  mock.method(ruleEngineService, 'getRuleSet', async (ruleSetId: string) => ({ id: ruleSetId, tenantId: 'tenant-b' }));
+  mock.method(outboundWebhookService, 'getSubscription', async (subscriptionId: string) => ({ id: subscriptionId, tenantId: 'tenant-b' }));
+  mock.method(outboundWebhookService, 'getDelivery', async (deliveryId: string) => ({ id: deliveryId, subscriptionId: 'subscription-b' }));
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/sessions', proctorSessionRoutes);
+  app.use('/api/reviews', reviewRoutes);
+  app.use('/api/rule-sets', ruleSetRoutes);
+  app.use('/api/exams', examRoutes);
+  app.use('/api/webhooks', outboundWebhookRoutes);
+
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+  mock.restoreAll();
+});
+
+const request = async (caller: string, method: string, path: string, body?: unknown) => {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { authorization: `Bearer ${caller}`, 'content-type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+describe('REST routes refuse another tenant\'s resources', () => {
+  const cases: Array<[string, string, string, unknown?]> = [
+    ['proctor-a', 'GET', '/api/sessions/session-b/status'],
+    ['admin-a', 'POST', '/api/sessions/session-b/end'],
+    ['proctor-a', 'GET', '/api/sessions/session-b/incidents'],
+    ['proctor-a', 'GET', '/api/sessions/session-b/risk-score'],
+    ['candidate-a', 'GET', '/api/sessions/session-b/status'],
+    ['proctor-a', 'GET', '/api/exams/exam-b'],
+    ['admin-a', 'PUT', '/api/exams/exam-b', { title: 'Taken over' }],
+    ['proctor-a', 'GET', '/api/exams/exam-b/sessions'],
+    ['proctor-a', 'GET', '/api/rule-sets/rules-b'],
+    ['admin-a', 'PUT', '/api/rule-sets/rules-b', { name: 'Taken over', rules: [] }],
+    ['admin-a', 'DELETE', '/api/rule-sets/rules-b'],
+    ['proctor-a', 'POST', '/api/rule-sets/dry-run', { sessionId: 'session-b', rules: [] }],
+    ['admin-a', 'GET', '/api/webhooks/subscriptions/subscription-b'],
+    ['admin-a', 'PUT', '/api/webhooks/subscriptions/subscription-b', { url: 'https://example.com/hook' }],
+    ['admin-a', 'DELETE', '/api/webhooks/subscriptions/subscription-b'],
+    ['admin-a', 'GET', '/api/webhooks/deliveries/delivery-b'],
+    ['admin-a', 'POST', '/api/webhooks/deliveries/delivery-b/redeliver'],
+    ['reviewer-a', 'GET', '/api/reviews/session-b'],
+    ['reviewer-a', 'POST', '/api/reviews/session-b/claim'],
+    ['reviewer-a', 'POST', '/api/reviews/session-b/verdict', { verdict: 'cleared' }]
+  ];
+
+  for (const [caller, method, path, body] of cases) {
+    test(`${caller} ${method} ${path}`, async () => {
+      const response = await request(caller, method, path, body);
+      // Reported as not found, so callers cannot even tell the resource exists
+      assert.equal(response.status, 404);
+    });
+  }
+
+  test('lists are limited to the caller\'s tenant whatever tenant they ask for', async () => {
+    const listExams = mock.method(examService, 'listExams', async () => []);
+    const listRuleSets = mock.method(ruleEngineService, 'listRuleSets', async () => []);
+    const listSubscriptions = mock.method(outboundWebhookService, 'listSubscriptions', async () => []);
+    const getQueue = mock.method(reviewService, 'getQueue', async () => []);
+
+    await request('proctor-a', 'GET', '/api/exams?tenantId=tenant-b');
+    await request('proctor-a', 'GET', '/api/rule-sets?tenantId=tenant-b');
+    await request('admin-a', 'GET', '/api/webhooks/subscriptions?tenantId=tenant-b');
+    await request('reviewer-a', 'GET', '/api/reviews/queue?tenantId=tenant-b');
+
+    for (const list of [listExams, listRuleSets, listSubscriptions, getQueue]) {
+      assert.equal(list.mock.callCount(), 1);
+      assert.equal((list.mock.calls[0].arguments[0] as { tenantId?: string }).tenantId, 'tenant-a');
+    }
+  });
+});
+
+describe('updates by deployment admins', () => {
+  // Each update echoes what it was given, under the response key named here
+  const updates: Array<[string, string, Record<string, unknown>]> = [
+    ['exam', '/api/exams/exam-b', { title: 'Renamed', durationMinutes: 60 }],
+    ['ruleSet', '/api/rule-sets/rules-b', { name: 'Renamed', rules: [] }],
+    ['subscription', '/api/webhooks/subscriptions/subscription-b', { url: 'https://example.com/hook', events: ['session.ended'] }]
+  ];
+
+  before(() => {
+    const echo = async (id: string, input: object) => ({ id, ...input });
+    mock.method(examService, 'updateExam', echo);
+    mock.method(ruleEngineService, 'updateRuleSet', echo);
+    mock.method(outboundWebhookService, 'updateSubscription', echo);
+  });
+
+  const tenantAfter = async (key: string, path: string, body: Record<string, unknown>) => {
+    const response = await request('deployment-admin', 'PUT', path, body);
+    assert.equal(response.status, 200, `${path}: ${JSON.stringify(response.body)}`);
+    return (response.body as Record<string, { tenantId?: string }>)[key].tenantId;
+  };
+
+  test('keep the resource\'s tenant when tenantId is left out', async () => {
+    for (const [key, path, body] of updates) {
+      assert.equal(await tenantAfter(key, path, body), 'tenant-b', path);
+    }
+  });
+
+  test('move the resource only when tenantId is given', async () => {
+    for (const [key, path, body] of updates) {
+      assert.equal(await tenantAfter(key, path, { ...body, tenantId: 'tenant-c' }), 'tenant-c', path);
+      assert.equal(await tenantAfter(key, path, { ...body, tenantId: null }), undefined, path);
+    }
+  });
+});
+
+describe('access middleware', () => {
+  const run = async (handler: express.RequestHandler, auth: AuthContext, params: Record<string, string> = {}) => {
+    let status = 0;
+    let passed = false;
+    const req = { auth, params, body: {} } as unknown as express.Request;
+    const res = {
+      status(code: number) {
+        status = code;
+        return this;
+      },
+      json() {
+        return this;
+      }
+    } as unknown as express.Response;
+    await handler(req, res, () => {
+      passed = true;
+    });
+    return { status, passed };
+  };
+
+  test('requireSessionAccess lets the session\'s own tenant through', async () => {
+    const result = await run(requireSessionAccess(), CALLERS['proctor-b'], { sessionId: 'session-b' });
+    assert.equal(result.passed, true);
+  });
+
+  test('requireSessionAccess reports another tenant\'s session as not found', async () => {
+    const result = await run(requireSessionAccess(), CALLERS['proctor-a'], { sessionId: 'session-b' });
+    assert.deepEqual(result, { status: 404, passed: false });
+  });
+
+  test('requireTenantAccess lets the resource\'s own tenant through', async () => {
+    const handler = requireTenantAccess('Exam', async () => ({ tenantId: 'tenant-b' }));
+    assert.equal((await run(handler, CALLERS['proctor-b'])).passed, true);
+  });
+
+  test('requireTenantAccess reports another tenant\'s resource as not found', async () => {
+    const handler = requireTenantAccess('Exam', async () => ({ tenantId: 'tenant-b' }));
+    assert.deepEqual(await run(handler, CALLERS['proctor-a']), { status: 404, passed: false });
+  });
+});
+
+describe('socket joins and broadcasts', () => {
+  test('checkSessionAccess refuses joins to another tenant\'s session', async () => {
+    for (const caller of ['admin-a', 'proctor-a', 'reviewer-a', 'candidate-a']) {
+      const access = await checkSessionAccess(CALLERS[caller], 'session-b');
+      assert.equal(access.allowed, false, caller);
+    }
+    assert.deepEqual(await checkSessionAccess(CALLERS['proctor-b'], 'session-b'), { allowed: true, tenantId: 'tenant-b' });
+  });
+
+  test('session and observer rooms do not reach another tenant\'s sockets', async () => {
+    const io = new Server();
+    const adapter = io.of('/').adapter;
+    // Two tenants whose sessions happen to share an ID
+    adapter.addAll('socket-a', new Set([
+      TenantUtil.sessionRoom('shared-id', 'tenant-a'),
+      TenantUtil.observerRoom('shared-id', 'tenant-a')
+    ]));
+    adapter.addAll('socket-b', new Set([
+      TenantUtil.sessionRoom('shared-id', 'tenant-b'),
+      TenantUtil.observerRoom('shared-id', 'tenant-b')
+    ]));
+
+    // Broadcasts go to exactly the sockets in the room they are sent to
+    for (const room of [TenantUtil.sessionRoom('shared-id', 'tenant-b'), TenantUtil.observerRoom('shared-id', 'tenant-b')]) {
+      assert.deepEqual([...(adapter.rooms.get(room) ?? [])], ['socket-b'], room);
+    }
+  });
+});
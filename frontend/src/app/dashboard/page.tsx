@@ -1,26 +1,57 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
 import { useProctorSession } from '../../hooks/useProctorSession';
 import { useWebSocket } from '../../hooks/useWebSocket';
+import { useBrowserTelemetry } from '../../hooks/useBrowserTelemetry';
+import { useHeartbeat } from '../../hooks/useHeartbeat';
+import { useInterventions } from '../../hooks/useInterventions';
 import { SessionStatus } from '../../components/SessionStatus';
 import { SessionControls } from '../../components/SessionControls';
-import { CallMonitoringData, ExternalCallWebhook } from '../../types';
-import { ProctorApiService } from '../../services/api';
+import { RiskScorePanel } from '../../components/RiskScorePanel';
+import { InterventionPanel } from '../../components/InterventionPanel';
+import { InterventionModal } from '../../components/InterventionModal';
+import { SessionChat } from '../../components/SessionChat';
+import { AuthContext, CallMonitoringData, CandidatePresence, ExternalCallWebhook, LtiLaunch, RiskScore } from '../../types';
+import { ProctorApiService, getAuthTokens } from '../../services/api';
 
 export default function Dashboard() {
-  const { session, loading, error, startSession, endSession } = useProctorSession();
+  const {
+    session,
+    loading,
+    error,
+    startSession,
+    endSession,
+    pauseSession,
+    resumeSession,
+    trackSession,
+    markSessionEnded,
+    syncSessionStatus
+  } = useProctorSession();
   const { 
+    reconnect,
     joinSession, 
     onMonitoringUpdate, 
+    onRiskScoreUpdate,
+    onPresenceUpdate,
     onExternalCallWebhook, 
     isConnected 
   } = useWebSocket();
   
+  // Report tab switches, focus loss and clipboard use while the session is live
+  useBrowserTelemetry(session && session.status !== 'ended' ? session.id : undefined);
+  
   const [monitoringData, setMonitoringData] = useState<CallMonitoringData[]>([]);
   const [externalCallEvents, setExternalCallEvents] = useState<ExternalCallWebhook[]>([]);
+  const [riskScore, setRiskScore] = useState<RiskScore | null>(null);
+  const [presence, setPresence] = useState<CandidatePresence | null>(null);
   const [connectionStatus, setConnectionStatus] = useState(false);
   const [apiStatus, setApiStatus] = useState<'checking' | 'connected' | 'disconnected'>('checking');
+  const [ltiLaunch, setLtiLaunch] = useState<LtiLaunch | null>(null);
+  const [ltiError, setLtiError] = useState<string | null>(null);
+  const [auth, setAuth] = useState<AuthContext | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
 
   useEffect(() => {
     setConnectionStatus(isConnected());
@@ -43,12 +74,123 @@ export default function Dashboard() {
     checkApiConnection();
   }, [isConnected]);
 
+  // Candidates launched from an LMS land here with ?lti=<ticket>, which signs them in
+  useEffect(() => {
+    const loadCurrentUser = () => {
+      if (!getAuthTokens()) {
+        setAuthChecked(true);
+        return;
+      }
+      ProctorApiService.getCurrentUser()
+        .then(response => setAuth(response.auth))
+        .catch(error => console.error('Failed to load current user:', error))
+        .finally(() => setAuthChecked(true));
+    };
+
+    const launchId = new URLSearchParams(window.location.search).get('lti');
+    if (!launchId) {
+      loadCurrentUser();
+      return;
+    }
+
+    ProctorApiService.getLtiLaunch(launchId)
+      .then(async response => {
+        setLtiLaunch(response.launch);
+        if (!response.launch.isInstructor) {
+          // The ticket only signs in once; a reload keeps the tokens from the first exchange
+          await ProctorApiService.exchangeLtiLaunch(launchId).catch(error => {
+            if (!getAuthTokens()) {
+              throw error;
+            }
+          });
+        }
+      })
+      .catch(() => setLtiError('Your course launch has expired. Please open the exam from your course again.'))
+      .finally(loadCurrentUser);
+  }, []);
+
+  // The socket is authenticated when it connects, so it reconnects once there are tokens
+  useEffect(() => {
+    if (auth && !isConnected()) {
+      reconnect();
+    }
+  }, [auth, isConnected, reconnect]);
+
+  const handleSignOut = async () => {
+    await ProctorApiService.logout();
+    setAuth(null);
+    reconnect();
+  };
+
+  const sessionPreset = useMemo(() => (
+    ltiLaunch && !ltiLaunch.isInstructor
+      ? {
+        userId: ltiLaunch.userId,
+        slotId: ltiLaunch.slotId,
+        externalCallId: ltiLaunch.externalCallId,
+        callPlatform: ltiLaunch.callPlatform,
+        examTitle: ltiLaunch.examTitle
+      }
+      : undefined
+  ), [ltiLaunch]);
+
   useEffect(() => {
     if (session) {
       joinSession(session.id);
     }
   }, [session, joinSession]);
 
+  // Risk scores are for staff; candidates don't see how they're being scored
+  const isStaff = !!auth && auth.role !== 'candidate';
+
+  // Only the candidate's own tab proves they are still there
+  useHeartbeat(session && session.status !== 'ended' && auth?.role === 'candidate' ? session.id : undefined);
+
+  useEffect(() => {
+    if (!session || !isStaff) {
+      setRiskScore(null);
+      return;
+    }
+
+    ProctorApiService.getRiskScore(session.id)
+      .then(response => setRiskScore(response.riskScore))
+      .catch(error => console.error('Failed to load risk score:', error));
+  }, [session, isStaff]);
+
+  useEffect(() => {
+    return onRiskScoreUpdate((data: RiskScore) => {
+      setRiskScore(prev => (!prev || prev.sessionId === data.sessionId ? data : prev));
+    });
+  }, [onRiskScoreUpdate]);
+
+  // Staff see whether the candidate is connected; only live sessions are tracked
+  const liveSessionId = session && session.status !== 'ended' ? session.id : undefined;
+  useEffect(() => {
+    if (!liveSessionId || !isStaff) {
+      setPresence(null);
+      return;
+    }
+
+    ProctorApiService.getPresence(liveSessionId)
+      .then(response => setPresence(response.presence))
+      .catch(error => console.error('Failed to load candidate presence:', error));
+  }, [liveSessionId, isStaff]);
+
+  useEffect(() => {
+    return onPresenceUpdate((data: CandidatePresence) => {
+      setPresence(prev => (!prev || prev.sessionId === data.sessionId ? data : prev));
+      // The backend pauses or ends the session when the candidate stays away too long
+      if (data.sessionStatus) {
+        syncSessionStatus(data.sessionId, data.sessionStatus);
+      }
+    });
+  }, [onPresenceUpdate, syncSessionStatus]);
+
+  // Warnings, chat and forced pauses or ends; the trail stays readable after the session ends
+  const interventions = useInterventions(session?.id, syncSessionStatus);
+  const canIntervene = auth?.role === 'proctor' || auth?.role === 'admin';
+  const isCandidate = auth?.role === 'candidate';
+
   useEffect(() => {
     const cleanupMonitoring = onMonitoringUpdate((data: CallMonitoringData) => {
       setMonitoringData(prev => [data, ...prev].slice(0, 50)); // Keep last 50 entries
@@ -56,18 +198,23 @@ export default function Dashboard() {
 
     const cleanupWebhook = onExternalCallWebhook((data: ExternalCallWebhook) => {
       setExternalCallEvents(prev => [data, ...prev].slice(0, 20)); // Keep last 20 events
+      
+      // Follow sessions the backend started or ended from the call itself
+      data.startedSessions?.forEach(trackSession);
+      data.endedSessionIds?.forEach(markSessionEnded);
     });
 
     return () => {
       cleanupMonitoring();
       cleanupWebhook();
     };
-  }, [onMonitoringUpdate, onExternalCallWebhook]);
+  }, [onMonitoringUpdate, onExternalCallWebhook, trackSession, markSessionEnded]);
 
   const handleStartSession = async (
     userId: string,
     externalCallId: string,
-    callPlatform: 'zoom' | 'meet' | 'teams' | 'other'
+    callPlatform: 'zoom' | 'meet' | 'teams' | 'other',
+    slotId: string
   ) => {
     const metadata = {
       userAgent: navigator.userAgent,
@@ -75,7 +222,7 @@ export default function Dashboard() {
       resolution: `${window.screen.width}x${window.screen.height}`
     };
 
-    await startSession(userId, externalCallId, callPlatform, metadata);
+    await startSession(userId, externalCallId, callPlatform, slotId, metadata);
   };
 
   return (
@@ -89,6 +236,26 @@ export default function Dashboard() {
           <p className="text-gray-600">
             Monitor external calls and track user behavior during examinations
           </p>
+          {isStaff && (
+            <Link href="/reviews" className="text-blue-600 hover:underline text-sm">
+              Review queue →
+            </Link>
+          )}
+          {authChecked && !auth && !ltiLaunch && (
+            <Link href="/login" className="text-blue-600 hover:underline text-sm">
+              Sign in →
+            </Link>
+          )}
+          {auth && !ltiLaunch && (
+            <button onClick={handleSignOut} className="ml-4 text-blue-600 hover:underline text-sm">
+              Sign out
+            </button>
+          )}
+          {ltiLaunch?.returnUrl && (
+            <a href={ltiLaunch.returnUrl} className="ml-4 text-blue-600 hover:underline text-sm">
+              ← Back to course
+            </a>
+          )}
           
           {/* Connection Status */}
           <div className="mt-4 space-y-2">
@@ -116,6 +283,12 @@ export default function Dashboard() {
           </div>
         </div>
 
+        {ltiError && (
+          <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800">
+            {ltiError}
+          </div>
+        )}
+
         {/* Error Display */}
         {error && (
           <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -134,13 +307,56 @@ export default function Dashboard() {
             session={session}
             onStartSession={handleStartSession}
             onEndSession={endSession}
+            onPauseSession={pauseSession}
+            onResumeSession={resumeSession}
             loading={loading}
+            preset={sessionPreset}
           />
 
           {/* Session Status */}
-          <SessionStatus session={session} loading={loading} />
+          <SessionStatus session={session} loading={loading} presence={isStaff ? presence : null} />
+
+          {/* Integrity Risk Score */}
+          {session && isStaff && <RiskScorePanel riskScore={riskScore} />}
+
+          {/* Proctor Interventions */}
+          {session && canIntervene && (
+            <InterventionPanel
+              events={interventions.events}
+              currentUserId={auth?.userId}
+              disabled={!liveSessionId}
+              error={interventions.error}
+              onSendWarning={interventions.sendWarning}
+              onSendMessage={interventions.sendMessage}
+              onForcePause={interventions.forcePause}
+              onForceEnd={interventions.forceEnd}
+            />
+          )}
+
+          {/* Chat with the proctor */}
+          {session && isCandidate && (
+            <div className="p-6 bg-white rounded-lg shadow-md border border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Messages from your proctor</h3>
+              {interventions.error && (
+                <p className="mb-4 text-sm text-red-600">{interventions.error}</p>
+              )}
+              <SessionChat
+                events={interventions.events}
+                currentUserId={auth?.userId}
+                onSendMessage={interventions.sendMessage}
+                disabled={!liveSessionId}
+              />
+            </div>
+          )}
         </div>
 
+        {isCandidate && (
+          <InterventionModal
+            event={interventions.pending[0] ?? null}
+            onAcknowledge={interventions.acknowledge}
+          />
+        )}
+
         {/* Monitoring Data */}
         {session && (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -0,0 +1,158 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { ProctorApiService } from '../../../services/api';
+import { Exam, ExamSlot, LtiLaunch } from '../../../types';
+
+// Instructors land here from the LMS to choose which exam an assignment proctors
+export default function LtiDeepLink() {
+  const [launchId, setLaunchId] = useState<string | null>(null);
+  const [launch, setLaunch] = useState<LtiLaunch | null>(null);
+  const [exams, setExams] = useState<Exam[]>([]);
+  const [slots, setSlots] = useState<ExamSlot[]>([]);
+  const [examId, setExamId] = useState('');
+  const [slotId, setSlotId] = useState('');
+  const [title, setTitle] = useState('');
+  const [response, setResponse] = useState<{ returnUrl: string; jwt: string } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const formRef = useRef<HTMLFormElement>(null);
+
+  useEffect(() => {
+    const ticket = new URLSearchParams(window.location.search).get('lti');
+    if (!ticket) {
+      setError('Open this page from your course to add a proctored exam.');
+      return;
+    }
+    setLaunchId(ticket);
+
+    ProctorApiService.getLtiLaunch(ticket)
+      .then(async launchResponse => {
+        setLaunch(launchResponse.launch);
+        if (launchResponse.launch.isInstructor) {
+          const options = await ProctorApiService.getDeepLinkOptions(ticket);
+          setExams(options.exams);
+          setSlots(options.slots);
+        }
+      })
+      .catch(() => setError('This request has expired. Please start again from your course.'));
+  }, []);
+
+  // The LMS expects the signed response as a form post from the browser
+  useEffect(() => {
+    if (response) {
+      formRef.current?.submit();
+    }
+  }, [response]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!launchId || !examId) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      setResponse(await ProctorApiService.createDeepLink(launchId, {
+        examId,
+        slotId: slotId || undefined,
+        title: title || undefined
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add the exam to your course');
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-xl mx-auto p-6 bg-white rounded-lg shadow-md border border-gray-200">
+        <h1 className="text-2xl font-bold text-gray-900 mb-4">Add a proctored exam</h1>
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+            {error}
+          </div>
+        )}
+
+        {launch && !launch.isInstructor && (
+          <p className="text-gray-600">Only instructors can add proctored exams to a course.</p>
+        )}
+
+        {launch?.isInstructor && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="examId" className="block text-sm font-medium text-gray-700 mb-1">
+                Exam *
+              </label>
+              <select
+                id="examId"
+                value={examId}
+                onChange={(e) => {
+                  setExamId(e.target.value);
+                  setSlotId('');
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 bg-white"
+                required
+              >
+                <option value="">Choose an exam</option>
+                {exams.map(exam => (
+                  <option key={exam.id} value={exam.id}>{exam.title}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="slotId" className="block text-sm font-medium text-gray-700 mb-1">
+                Slot
+              </label>
+              <select
+                id="slotId"
+                value={slotId}
+                onChange={(e) => setSlotId(e.target.value)}
+                disabled={!examId}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 bg-white"
+              >
+                <option value="">Whichever slot is open at launch</option>
+                {slots.filter(slot => slot.examId === examId).map(slot => (
+                  <option key={slot.id} value={slot.id}>
+                    {new Date(slot.windowStart).toLocaleString()} – {new Date(slot.windowEnd).toLocaleString()}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-1">
+                Assignment title
+              </label>
+              <input
+                type="text"
+                id="title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 bg-white placeholder-gray-500"
+                placeholder="Defaults to the exam title"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={loading || !examId}
+              className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200"
+            >
+              {loading ? 'Adding to course...' : 'Add to course'}
+            </button>
+          </form>
+        )}
+
+        {response && (
+          <form ref={formRef} method="POST" action={response.returnUrl}>
+            <input type="hidden" name="JWT" value={response.jwt} />
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
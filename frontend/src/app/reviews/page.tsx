@@ -0,0 +1,248 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ReviewPanel } from '../../components/ReviewPanel';
+import { ProctorApiService } from '../../services/api';
+import {
+  Incident,
+  IncidentVerdict,
+  ReviewAgreementReport,
+  ReviewEvent,
+  ReviewQueueItem,
+  ReviewStatus,
+  SessionReview,
+  SessionVerdict
+} from '../../types';
+
+export default function ReviewQueue() {
+  const [reviewerId, setReviewerId] = useState('');
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus | ''>('');
+  const [queue, setQueue] = useState<ReviewQueueItem[]>([]);
+  const [report, setReport] = useState<ReviewAgreementReport | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<{ review: SessionReview; events: ReviewEvent[]; incidents: Incident[] } | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Claims and verdicts are recorded against whoever is signed in
+  useEffect(() => {
+    ProctorApiService.getCurrentUser()
+      .then(response => setReviewerId(response.auth.userId))
+      .catch(() => setError('Sign in to review sessions'));
+  }, []);
+
+  // Keep the SLA countdowns moving
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      const [queueResponse, reportResponse] = await Promise.all([
+        ProctorApiService.getReviewQueue(statusFilter ? { status: statusFilter } : {}),
+        ProctorApiService.getAgreementReport()
+      ]);
+      setQueue(queueResponse.queue);
+      setReport(reportResponse.report);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load review queue');
+    }
+  }, [statusFilter]);
+
+  const loadSelected = useCallback(async (sessionId: string) => {
+    try {
+      const [reviewResponse, incidentResponse] = await Promise.all([
+        ProctorApiService.getReview(sessionId),
+        ProctorApiService.getIncidents(sessionId, { pageSize: 200 })
+      ]);
+      setSelected({
+        review: reviewResponse.review,
+        events: reviewResponse.events,
+        incidents: incidentResponse.incidents
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load review');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  useEffect(() => {
+    if (selectedId) {
+      loadSelected(selectedId);
+    } else {
+      setSelected(null);
+    }
+  }, [selectedId, loadSelected]);
+
+  // Runs a review action, then refreshes both the queue and the open case
+  const runAction = async (action: () => Promise<unknown>) => {
+    if (!selectedId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      await action();
+      await Promise.all([loadQueue(), loadSelected(selectedId)]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Review action failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatRemaining = (item: ReviewQueueItem) => {
+    const remainingMs = item.status === 'completed'
+      ? item.timeRemainingMs
+      : new Date(item.dueAt).getTime() - now;
+    const hours = Math.floor(Math.abs(remainingMs) / 3600000);
+    const minutes = Math.floor((Math.abs(remainingMs) % 3600000) / 60000);
+    return remainingMs < 0 ? `${hours}h ${minutes}m overdue` : `${hours}h ${minutes}m left`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">
+              Review Queue
+            </h1>
+            <p className="text-gray-600">
+              Review flagged sessions and record verdicts
+            </p>
+          </div>
+          <Link href="/dashboard" className="text-blue-600 hover:underline text-sm">
+            ← Dashboard
+          </Link>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 mb-6">
+          <label className="text-sm text-gray-700">
+            Status
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as ReviewStatus | '')}
+              className="ml-2 px-3 py-1 border border-gray-300 rounded-lg"
+            >
+              <option value="">Open</option>
+              <option value="pending">Pending</option>
+              <option value="in_review">In review</option>
+              <option value="awaiting_second_opinion">Awaiting second opinion</option>
+              <option value="completed">Completed</option>
+            </select>
+          </label>
+        </div>
+
+        {/* Error Display */}
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-700">{error}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-6">
+            {/* Queue */}
+            <div className="p-6 bg-white rounded-lg shadow-md border border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                Sessions ({queue.length})
+              </h3>
+              <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+                {queue.length === 0 ? (
+                  <p className="text-gray-500 text-center py-8">Nothing to review</p>
+                ) : (
+                  queue.map(item => (
+                    <button
+                      key={item.sessionId}
+                      onClick={() => setSelectedId(item.sessionId)}
+                      className={`w-full text-left p-3 rounded-lg text-sm border ${
+                        selectedId === item.sessionId ? 'border-blue-500 bg-blue-50' : 'border-gray-200 bg-gray-50 hover:bg-gray-100'
+                      }`}
+                    >
+                      <div className="flex justify-between">
+                        <span className="font-medium text-gray-900">
+                          {item.userId} · {item.sessionId.slice(-8)}
+                        </span>
+                        <span className="text-gray-700">Risk {Math.round(item.riskScore)}</span>
+                      </div>
+                      <div className="flex justify-between text-xs mt-1">
+                        <span className="text-gray-500 capitalize">
+                          {item.status.replace(/_/g, ' ')}
+                          {item.claimedBy && ` · ${item.claimedBy}`}
+                        </span>
+                        <span className={item.slaBreached || new Date(item.dueAt).getTime() < now ? 'text-red-600' : 'text-gray-500'}>
+                          {formatRemaining(item)}
+                        </span>
+                      </div>
+                    </button>
+                  ))
+                )}
+              </div>
+            </div>
+
+            {/* Agreement report */}
+            <div className="p-6 bg-white rounded-lg shadow-md border border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Reviewer Agreement</h3>
+              {!report || report.incidentsCompared === 0 ? (
+                <p className="text-gray-500 text-center py-4">No incidents reviewed by more than one reviewer yet</p>
+              ) : (
+                <div className="text-sm space-y-2">
+                  <div className="flex justify-between">
+                    <span className="text-gray-700">Incidents compared</span>
+                    <span className="font-medium">{report.incidentsCompared}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-700">Agreement</span>
+                    <span className="font-medium">{Math.round(report.agreement * 100)}%</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-700">Kappa</span>
+                    <span className="font-medium">{report.kappa === null ? '–' : report.kappa.toFixed(2)}</span>
+                  </div>
+                  {report.pairs.map(pair => (
+                    <div key={pair.reviewers.join('|')} className="flex justify-between text-xs text-gray-500">
+                      <span>{pair.reviewers.join(' / ')} ({pair.compared})</span>
+                      <span>
+                        {Math.round(pair.agreement * 100)}% · κ {pair.kappa === null ? '–' : pair.kappa.toFixed(2)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Selected session */}
+          {selectedId && selected ? (
+            <ReviewPanel
+              sessionId={selectedId}
+              review={selected.review}
+              events={selected.events}
+              incidents={selected.incidents}
+              reviewerId={reviewerId}
+              loading={loading}
+              onClaim={() => runAction(() => ProctorApiService.claimReview(selectedId))}
+              onRelease={() => runAction(() => ProctorApiService.releaseReview(selectedId))}
+              onIncidentVerdict={(incidentId: string, verdict: IncidentVerdict) =>
+                runAction(() => ProctorApiService.recordIncidentVerdict(selectedId, incidentId, verdict))}
+              onNote={(note: string, incidentId?: string) =>
+                runAction(() => ProctorApiService.addReviewNote(selectedId, note, incidentId))}
+              onFinalVerdict={(verdict: SessionVerdict, note?: string) =>
+                runAction(() => ProctorApiService.recordFinalVerdict(selectedId, verdict, note))}
+            />
+          ) : (
+            <div className="p-6 bg-white rounded-lg shadow-md border border-gray-200">
+              <p className="text-gray-500 text-center py-8">Select a session to review</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
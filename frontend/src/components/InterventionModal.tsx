@@ -0,0 +1,53 @@
+'use client';
+
+import { useState } from 'react';
+import { InterventionEvent } from '../types';
+
+interface InterventionModalProps {
+  // The oldest warning, pause or end the candidate has not acknowledged yet
+  event: InterventionEvent | null;
+  onAcknowledge: (eventId: string) => Promise<unknown>;
+}
+
+const TITLES: Partial<Record<InterventionEvent['type'], string>> = {
+  warning: '⚠️ Warning from your proctor',
+  paused: '⏸️ Your proctor has paused the exam',
+  ended: '⏹️ Your proctor has ended the exam'
+};
+
+export function InterventionModal({ event, onAcknowledge }: InterventionModalProps) {
+  const [acknowledging, setAcknowledging] = useState(false);
+
+  if (!event) {
+    return null;
+  }
+
+  const handleAcknowledge = async () => {
+    setAcknowledging(true);
+    await onAcknowledge(event.id);
+    setAcknowledging(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div role="alertdialog" aria-modal="true" className="w-full max-w-md p-6 bg-white rounded-lg shadow-xl">
+        <h3 className="text-lg font-semibold text-gray-900 mb-3">
+          {TITLES[event.type]}
+        </h3>
+        {event.text && (
+          <p className="text-gray-800 mb-2">{event.text}</p>
+        )}
+        <p className="text-xs text-gray-500 mb-6">
+          Sent at {new Date(event.createdAt).toLocaleTimeString()}. Your acknowledgement is recorded.
+        </p>
+        <button
+          onClick={handleAcknowledge}
+          disabled={acknowledging}
+          className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200"
+        >
+          I understand
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { InterventionEvent, WarningPreset, WarningPresetOption } from '../types';
+import { ProctorApiService } from '../services/api';
+import { SessionChat } from './SessionChat';
+
+interface InterventionPanelProps {
+  events: InterventionEvent[];
+  currentUserId?: string;
+  // Interventions only reach a session that is still live
+  disabled?: boolean;
+  error?: string | null;
+  onSendWarning: (warning: { preset: WarningPreset } | { text: string }) => Promise<unknown>;
+  onSendMessage: (text: string) => Promise<unknown>;
+  onForcePause: (reason?: string) => Promise<unknown>;
+  onForceEnd: (reason: string) => Promise<unknown>;
+}
+
+export function InterventionPanel({
+  events,
+  currentUserId,
+  disabled,
+  error,
+  onSendWarning,
+  onSendMessage,
+  onForcePause,
+  onForceEnd
+}: InterventionPanelProps) {
+  const [presets, setPresets] = useState<WarningPresetOption[]>([]);
+  const [preset, setPreset] = useState<WarningPreset | ''>('');
+  const [warningText, setWarningText] = useState('');
+  const [reason, setReason] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    ProctorApiService.getWarningPresets()
+      .then(response => setPresets(response.presets))
+      .catch(err => console.error('Failed to load warning presets:', err));
+  }, []);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    const result = await action();
+    setBusy(false);
+    return result;
+  };
+
+  const handleWarning = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const warning = preset ? { preset } : { text: warningText.trim() };
+    if (!preset && !warningText.trim()) {
+      return;
+    }
+
+    if (await run(() => onSendWarning(warning))) {
+      setPreset('');
+      setWarningText('');
+    }
+  };
+
+  const handlePause = async () => {
+    if (await run(() => onForcePause(reason.trim() || undefined))) {
+      setReason('');
+    }
+  };
+
+  const handleEnd = async () => {
+    if (!reason.trim()) {
+      alert('Please give a reason for ending the session');
+      return;
+    }
+    if (window.confirm('End this session now? The candidate will not be able to continue.')) {
+      if (await run(() => onForceEnd(reason.trim()))) {
+        setReason('');
+      }
+    }
+  };
+
+  const locked = disabled || busy;
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow-md border border-gray-200">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Interventions</h3>
+
+      {error && (
+        <p className="mb-4 text-sm text-red-600">{error}</p>
+      )}
+
+      <form onSubmit={handleWarning} className="space-y-2 mb-4">
+        <label className="block text-sm font-medium text-gray-700">Warn the candidate</label>
+        <select
+          value={preset}
+          onChange={(e) => setPreset(e.target.value as WarningPreset | '')}
+          disabled={locked}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">Write your own warning…</option>
+          {presets.map(option => (
+            <option key={option.id} value={option.id}>{option.text}</option>
+          ))}
+        </select>
+        {!preset && (
+          <input
+            type="text"
+            value={warningText}
+            onChange={(e) => setWarningText(e.target.value)}
+            maxLength={1000}
+            disabled={locked}
+            placeholder="Warning text"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        )}
+        <button
+          type="submit"
+          disabled={locked || (!preset && !warningText.trim())}
+          className="w-full bg-yellow-500 hover:bg-yellow-600 disabled:bg-yellow-300 text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200"
+        >
+          Send Warning
+        </button>
+      </form>
+
+      <div className="space-y-2 mb-6">
+        <label className="block text-sm font-medium text-gray-700">Pause or end the session</label>
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          maxLength={1000}
+          disabled={locked}
+          placeholder="Reason (required to end)"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <div className="flex space-x-2">
+          <button
+            onClick={handlePause}
+            disabled={locked}
+            className="flex-1 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200"
+          >
+            Force Pause
+          </button>
+          <button
+            onClick={handleEnd}
+            disabled={locked || !reason.trim()}
+            className="flex-1 bg-red-600 hover:bg-red-700 disabled:bg-red-400 text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200"
+          >
+            Force End
+          </button>
+        </div>
+      </div>
+
+      <h4 className="text-sm font-medium text-gray-700 mb-2">Chat and trail</h4>
+      <SessionChat
+        events={events}
+        currentUserId={currentUserId}
+        onSendMessage={onSendMessage}
+        disabled={disabled}
+      />
+    </div>
+  );
+}
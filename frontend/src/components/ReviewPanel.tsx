@@ -0,0 +1,184 @@
+'use client';
+
+import { useState } from 'react';
+import { Incident, IncidentVerdict, ReviewEvent, SessionReview, SessionVerdict } from '../types';
+
+interface ReviewPanelProps {
+  sessionId: string;
+  review: SessionReview;
+  events: ReviewEvent[];
+  incidents: Incident[];
+  reviewerId: string;
+  onClaim: () => Promise<void>;
+  onRelease: () => Promise<void>;
+  onIncidentVerdict: (incidentId: string, verdict: IncidentVerdict) => Promise<void>;
+  onNote: (note: string, incidentId?: string) => Promise<void>;
+  onFinalVerdict: (verdict: SessionVerdict, note?: string) => Promise<void>;
+  loading?: boolean;
+}
+
+const INCIDENT_VERDICT_LABELS: Record<IncidentVerdict, string> = {
+  confirmed: 'Confirm',
+  dismissed: 'Dismiss',
+  second_opinion: 'Second opinion'
+};
+
+const SESSION_VERDICT_LABELS: Record<SessionVerdict, string> = {
+  cleared: 'Cleared',
+  violation: 'Violation',
+  inconclusive: 'Inconclusive'
+};
+
+export function ReviewPanel({
+  sessionId,
+  review,
+  events,
+  incidents,
+  reviewerId,
+  onClaim,
+  onRelease,
+  onIncidentVerdict,
+  onNote,
+  onFinalVerdict,
+  loading
+}: ReviewPanelProps) {
+  const [note, setNote] = useState('');
+
+  const isMine = review.status === 'in_review' && review.claimedBy === reviewerId;
+  const canClaim = review.status === 'pending' ||
+    (review.status === 'awaiting_second_opinion' && !review.reviewers.includes(reviewerId));
+
+  // This reviewer's latest verdict on each incident
+  const myVerdicts = new Map<string, IncidentVerdict>();
+  events
+    .filter(event => event.type === 'incident_verdict' && event.reviewerId === reviewerId && event.incidentId)
+    .forEach(event => myVerdicts.set(event.incidentId as string, event.verdict as IncidentVerdict));
+
+  const handleNote = async () => {
+    if (!note.trim()) return;
+    await onNote(note.trim());
+    setNote('');
+  };
+
+  const handleFinalVerdict = async (verdict: SessionVerdict) => {
+    if (window.confirm(`Record "${SESSION_VERDICT_LABELS[verdict]}" as your verdict for this session?`)) {
+      await onFinalVerdict(verdict, note.trim() || undefined);
+      setNote('');
+    }
+  };
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow-md border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Session {sessionId.slice(-8)}</h3>
+          <p className="text-sm text-gray-500 capitalize">
+            {review.status.replace(/_/g, ' ')}
+            {review.claimedBy && ` · claimed by ${review.claimedBy}`}
+            {review.finalVerdict && ` · ${review.finalVerdict}`}
+          </p>
+        </div>
+        {canClaim && (
+          <button
+            onClick={onClaim}
+            disabled={loading || !reviewerId}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200"
+          >
+            Claim
+          </button>
+        )}
+        {isMine && (
+          <button
+            onClick={onRelease}
+            disabled={loading}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors duration-200"
+          >
+            Release
+          </button>
+        )}
+      </div>
+
+      {/* Incidents */}
+      <div className="space-y-3 max-h-96 overflow-y-auto mb-6">
+        {incidents.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">No incidents recorded for this session</p>
+        ) : (
+          incidents.map(incident => (
+            <div key={incident.id} className="p-3 bg-gray-50 rounded-lg text-sm">
+              <div className="flex justify-between items-start">
+                <span className="font-medium text-gray-900 capitalize">{incident.type.replace(/_/g, ' ')}</span>
+                <span className="text-xs text-gray-500">
+                  {new Date(incident.startTime).toLocaleTimeString()} – {new Date(incident.endTime).toLocaleTimeString()}
+                </span>
+              </div>
+              <div className="text-gray-700 mt-1">{incident.description} ({incident.severity})</div>
+              {isMine && (
+                <div className="flex space-x-2 mt-2">
+                  {(Object.keys(INCIDENT_VERDICT_LABELS) as IncidentVerdict[]).map(verdict => (
+                    <button
+                      key={verdict}
+                      onClick={() => onIncidentVerdict(incident.id, verdict)}
+                      disabled={loading}
+                      className={`text-xs py-1 px-2 rounded border ${
+                        myVerdicts.get(incident.id) === verdict
+                          ? 'bg-blue-600 text-white border-blue-600'
+                          : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'
+                      }`}
+                    >
+                      {INCIDENT_VERDICT_LABELS[verdict]}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Notes and final verdict */}
+      {isMine && (
+        <div className="space-y-3 mb-6">
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Add a note..."
+            rows={3}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handleNote}
+              disabled={loading || !note.trim()}
+              className="bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm font-medium py-2 px-3 rounded-lg"
+            >
+              Add Note
+            </button>
+            {(Object.keys(SESSION_VERDICT_LABELS) as SessionVerdict[]).map(verdict => (
+              <button
+                key={verdict}
+                onClick={() => handleFinalVerdict(verdict)}
+                disabled={loading}
+                className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium py-2 px-3 rounded-lg"
+              >
+                {SESSION_VERDICT_LABELS[verdict]}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Review history */}
+      <h4 className="text-sm font-semibold text-gray-900 mb-2">History</h4>
+      <div className="space-y-1 max-h-64 overflow-y-auto text-xs text-gray-600">
+        {events.map(event => (
+          <div key={event.id}>
+            <span className="text-gray-400">{new Date(event.createdAt).toLocaleString()}</span>
+            {' '}{event.reviewerId}: {event.type.replace(/_/g, ' ')}
+            {event.verdict && ` (${event.verdict.replace(/_/g, ' ')})`}
+            {event.note && ` – ${event.note}`}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
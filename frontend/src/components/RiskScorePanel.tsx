@@ -0,0 +1,59 @@
+'use client';
+
+import { RiskScore } from '../types';
+
+interface RiskScorePanelProps {
+  riskScore: RiskScore | null;
+}
+
+export function RiskScorePanel({ riskScore }: RiskScorePanelProps) {
+  const getScoreColor = (score: number) => {
+    if (score >= 70) return 'text-red-600';
+    if (score >= 40) return 'text-yellow-600';
+    return 'text-green-600';
+  };
+
+  const formatDuration = (ms: number) => {
+    const seconds = Math.round(ms / 1000);
+    return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+  };
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow-md border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Integrity Risk</h3>
+        <span className={`text-3xl font-bold ${riskScore ? getScoreColor(riskScore.score) : 'text-gray-400'}`}>
+          {riskScore ? Math.round(riskScore.score) : '–'}
+          <span className="text-sm font-normal text-gray-500"> / 100</span>
+        </span>
+      </div>
+
+      {!riskScore || riskScore.factors.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">
+          No incidents recorded yet...
+        </p>
+      ) : (
+        <div className="space-y-3 text-sm">
+          {riskScore.factors.map((factor) => (
+            <div key={factor.type}>
+              <div className="flex justify-between mb-1">
+                <span className="text-gray-700 capitalize">{factor.type.replace(/_/g, ' ')}</span>
+                <span className="text-gray-900 font-medium">+{factor.contribution.toFixed(1)}</span>
+              </div>
+              <div className="w-full h-2 bg-gray-100 rounded">
+                <div
+                  className="h-2 bg-red-400 rounded"
+                  style={{ width: `${Math.min(100, factor.contribution)}%` }}
+                ></div>
+              </div>
+              <div className="text-xs text-gray-500 mt-1">
+                {factor.incidentCount} incident{factor.incidentCount === 1 ? '' : 's'}
+                {factor.durationMs > 0 && ` · ${formatDuration(factor.durationMs)} total`}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import { InterventionEvent } from '../types';
+
+interface SessionChatProps {
+  events: InterventionEvent[];
+  currentUserId?: string;
+  onSendMessage: (text: string) => Promise<unknown>;
+  disabled?: boolean;
+}
+
+const EVENT_LABELS: Record<InterventionEvent['type'], string> = {
+  warning: '⚠️ Warning',
+  message: '💬 Message',
+  paused: '⏸️ Session paused',
+  ended: '⏹️ Session ended',
+  acknowledged: '✔️ Acknowledged'
+};
+
+export function SessionChat({ events, currentUserId, onSendMessage, disabled }: SessionChatProps) {
+  const [text, setText] = useState('');
+  const [sending, setSending] = useState(false);
+
+  // Acknowledgements are shown on the entry they acknowledge rather than on their own
+  const acknowledged = new Map(
+    events.filter(event => event.acknowledgesId).map(event => [event.acknowledgesId!, event])
+  );
+  const entries = events.filter(event => event.type !== 'acknowledged');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) {
+      return;
+    }
+
+    setSending(true);
+    const sent = await onSendMessage(text.trim());
+    setSending(false);
+    if (sent) {
+      setText('');
+    }
+  };
+
+  return (
+    <div>
+      <div className="space-y-2 max-h-64 overflow-y-auto mb-3">
+        {entries.length === 0 ? (
+          <p className="text-gray-500 text-center py-4 text-sm">
+            No messages yet...
+          </p>
+        ) : (
+          entries.map(event => {
+            const own = event.senderId === currentUserId;
+            const ack = acknowledged.get(event.id);
+            return (
+              <div
+                key={event.id}
+                className={`p-2 rounded-lg text-sm ${
+                  event.type === 'message'
+                    ? own ? 'bg-blue-50 ml-8' : 'bg-gray-50 mr-8'
+                    : 'bg-yellow-50 border border-yellow-200'
+                }`}
+              >
+                <div className="flex justify-between text-xs text-gray-500 mb-1">
+                  <span>
+                    {EVENT_LABELS[event.type]} · {own ? 'You' : event.senderRole}
+                  </span>
+                  <span>{new Date(event.createdAt).toLocaleTimeString()}</span>
+                </div>
+                {event.text && <p className="text-gray-900">{event.text}</p>}
+                {event.requiresAck && (
+                  <p className={`text-xs mt-1 ${ack ? 'text-green-600' : 'text-yellow-700'}`}>
+                    {ack
+                      ? `Acknowledged at ${new Date(ack.createdAt).toLocaleTimeString()}`
+                      : 'Waiting for acknowledgement'}
+                  </p>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex space-x-2">
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          maxLength={1000}
+          disabled={disabled || sending}
+          placeholder="Type a message"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={disabled || sending || !text.trim()}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-medium py-2 px-4 rounded-lg text-sm transition-colors duration-200"
+        >
+          Send
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { ProctorSession } from '../types';
 
 interface SessionControlsProps {
@@ -8,27 +8,53 @@ interface SessionControlsProps {
   onStartSession: (
     userId: string,
     externalCallId: string,
-    callPlatform: 'zoom' | 'meet' | 'teams' | 'other'
+    callPlatform: 'zoom' | 'meet' | 'teams' | 'other',
+    slotId: string
   ) => Promise<void>;
   onEndSession: () => Promise<void>;
+  onPauseSession?: () => Promise<void>;
+  onResumeSession?: () => Promise<void>;
   loading?: boolean;
+  // Fields fixed by an LMS launch; they are filled in and cannot be edited
+  preset?: {
+    userId: string;
+    slotId?: string;
+    externalCallId?: string;
+    callPlatform?: 'zoom' | 'meet' | 'teams' | 'other';
+    examTitle?: string;
+  };
 }
 
 export function SessionControls({ 
   session, 
   onStartSession, 
   onEndSession, 
-  loading 
+  onPauseSession,
+  onResumeSession,
+  loading,
+  preset
 }: SessionControlsProps) {
   const [formData, setFormData] = useState({
     userId: '',
     externalCallId: '',
+    slotId: '',
     callPlatform: 'meet' as 'zoom' | 'meet' | 'teams' | 'other'
   });
 
+  useEffect(() => {
+    if (preset) {
+      setFormData(prev => ({
+        userId: preset.userId,
+        slotId: preset.slotId ?? prev.slotId,
+        externalCallId: preset.externalCallId ?? prev.externalCallId,
+        callPlatform: preset.callPlatform ?? prev.callPlatform
+      }));
+    }
+  }, [preset]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.userId || !formData.externalCallId) {
+    if (!formData.userId || !formData.externalCallId || !formData.slotId) {
       alert('Please fill in all required fields');
       return;
     }
@@ -36,7 +62,8 @@ export function SessionControls({
     await onStartSession(
       formData.userId,
       formData.externalCallId,
-      formData.callPlatform
+      formData.callPlatform,
+      formData.slotId
     );
   };
 
@@ -64,6 +91,28 @@ export function SessionControls({
             </p>
           </div>
 
+          {session.status === 'paused' ? (
+            onResumeSession && (
+              <button
+                onClick={onResumeSession}
+                disabled={loading}
+                className="w-full bg-green-600 hover:bg-green-700 disabled:bg-green-400 text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200"
+              >
+                Resume Session
+              </button>
+            )
+          ) : (
+            onPauseSession && (
+              <button
+                onClick={onPauseSession}
+                disabled={loading}
+                className="w-full bg-yellow-500 hover:bg-yellow-600 disabled:bg-yellow-300 text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200"
+              >
+                Pause Session
+              </button>
+            )
+          )}
+
           <button
             onClick={handleEndSession}
             disabled={loading}
@@ -80,6 +129,13 @@ export function SessionControls({
     <div className="p-6 bg-white rounded-lg shadow-md border border-gray-200">
       <h3 className="text-lg font-semibold text-gray-900 mb-4">Start New Proctoring Session</h3>
       
+      {preset && (
+        <div className="mb-4 p-3 bg-purple-50 rounded-lg border border-purple-200 text-sm text-purple-800">
+          Launched from your course{preset.examTitle ? ` for ${preset.examTitle}` : ''}
+          {!preset.slotId && ' — no exam slot is open right now'}
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-4">
         <div>
           <label htmlFor="userId" className="block text-sm font-medium text-gray-700 mb-1">
@@ -90,12 +146,29 @@ export function SessionControls({
             id="userId"
             value={formData.userId}
             onChange={(e) => setFormData(prev => ({ ...prev, userId: e.target.value }))}
+            readOnly={preset !== undefined}
             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-500"
             placeholder="Enter user ID to monitor"
             required
           />
         </div>
 
+        <div>
+          <label htmlFor="slotId" className="block text-sm font-medium text-gray-700 mb-1">
+            Exam Slot ID *
+          </label>
+          <input
+            type="text"
+            id="slotId"
+            value={formData.slotId}
+            onChange={(e) => setFormData(prev => ({ ...prev, slotId: e.target.value }))}
+            readOnly={preset?.slotId !== undefined}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-500"
+            placeholder="Enter the exam slot the user is rostered for"
+            required
+          />
+        </div>
+
         <div>
           <label htmlFor="externalCallId" className="block text-sm font-medium text-gray-700 mb-1">
             External Call ID *
@@ -105,6 +178,7 @@ export function SessionControls({
             id="externalCallId"
             value={formData.externalCallId}
             onChange={(e) => setFormData(prev => ({ ...prev, externalCallId: e.target.value }))}
+            readOnly={preset?.externalCallId !== undefined}
             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white placeholder-gray-500"
             placeholder="Enter the call/meeting ID to monitor"
             required
@@ -122,6 +196,7 @@ export function SessionControls({
               ...prev, 
               callPlatform: e.target.value as 'zoom' | 'meet' | 'teams' | 'other'
             }))}
+            disabled={preset?.callPlatform !== undefined}
             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white"
           >
             <option value="meet">Google Meet</option>
@@ -147,9 +222,11 @@ export function SessionControls({
             <p className="font-medium mb-1">How it works:</p>
             <ul className="space-y-1 text-xs">
               <li>• Enter the user ID you want to monitor</li>
+              <li>• Provide the exam slot the user is rostered for</li>
               <li>• Provide the external call ID (meeting room ID)</li>
               <li>• Select the call platform being used</li>
               <li>• The system will monitor gaze, audio, and behavior</li>
+              <li>• Sessions on calls scheduled for an exam slot start and end automatically</li>
             </ul>
           </div>
         </div>
@@ -1,13 +1,14 @@
 'use client';
 
-import { ProctorSession } from '../types';
+import { CandidatePresence, ProctorSession } from '../types';
 
 interface SessionStatusProps {
   session: ProctorSession | null;
   loading?: boolean;
+  presence?: CandidatePresence | null; // staff only
 }
 
-export function SessionStatus({ session, loading }: SessionStatusProps) {
+export function SessionStatus({ session, loading, presence }: SessionStatusProps) {
   if (loading) {
     return (
       <div className="flex items-center space-x-2 p-4 bg-gray-100 rounded-lg">
@@ -75,6 +76,27 @@ export function SessionStatus({ session, loading }: SessionStatusProps) {
           <span className="text-gray-600">User ID:</span>
           <span className="font-mono text-gray-900">{session.userId}</span>
         </div>
+
+        {presence && session.status !== 'ended' && (
+          <div className="flex justify-between">
+            <span className="text-gray-600">Candidate:</span>
+            <span className="flex items-center space-x-2 text-gray-900">
+              <span className={`w-2 h-2 rounded-full ${presence.status === 'online' ? 'bg-green-500' : 'bg-red-500'}`}></span>
+              <span>
+                {presence.status === 'online' ? 'Online' : 'Offline'}
+                {presence.status === 'offline' && (presence.lastSeenAt
+                  ? ` · last seen ${new Date(presence.lastSeenAt).toLocaleTimeString()}`
+                  : ' · not connected yet')}
+              </span>
+            </span>
+          </div>
+        )}
+
+        {presence?.reconnectDeadline && session.status !== 'ended' && (
+          <div className="text-xs text-red-600 text-right">
+            {presence.disconnectAction === 'end' ? 'Ends' : 'Pauses'} at {new Date(presence.reconnectDeadline).toLocaleTimeString()} unless the candidate reconnects
+          </div>
+        )}
         
         <div className="flex justify-between">
           <span className="text-gray-600">Call Platform:</span>
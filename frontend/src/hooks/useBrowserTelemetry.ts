@@ -0,0 +1,53 @@
+import { useEffect } from 'react';
+import { webSocketService } from '../services/websocket';
+import { BrowserTelemetryEventType } from '../types';
+
+/**
+ * Reports when the candidate leaves the exam tab, the window loses focus,
+ * fullscreen is exited, or clipboard and print are used. The backend pairs
+ * leave/return events into incidents with durations.
+ */
+export function useBrowserTelemetry(sessionId?: string) {
+  useEffect(() => {
+    if (!sessionId) {
+      return;
+    }
+
+    const report = (type: BrowserTelemetryEventType) => {
+      webSocketService.sendTelemetryEvent({ sessionId, type, timestamp: new Date() });
+    };
+
+    const handleVisibilityChange = () => {
+      report(document.visibilityState === 'hidden' ? 'visibility_hidden' : 'visibility_visible');
+    };
+    const handleBlur = () => report('window_blur');
+    const handleFocus = () => report('window_focus');
+    const handleFullscreenChange = () => {
+      report(document.fullscreenElement ? 'fullscreen_enter' : 'fullscreen_exit');
+    };
+    const handleCopy = () => report('copy');
+    const handleCut = () => report('cut');
+    const handlePaste = () => report('paste');
+    const handleBeforePrint = () => report('print');
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('blur', handleBlur);
+    window.addEventListener('focus', handleFocus);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('cut', handleCut);
+    document.addEventListener('paste', handlePaste);
+    window.addEventListener('beforeprint', handleBeforePrint);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('blur', handleBlur);
+      window.removeEventListener('focus', handleFocus);
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('cut', handleCut);
+      document.removeEventListener('paste', handlePaste);
+      window.removeEventListener('beforeprint', handleBeforePrint);
+    };
+  }, [sessionId]);
+}
@@ -0,0 +1,20 @@
+import { useEffect } from 'react';
+import { webSocketService } from '../services/websocket';
+
+/**
+ * Sends heartbeats from the candidate's exam tab while the session is live.
+ * The backend marks the candidate offline when they stop, and pauses or ends
+ * the session if they do not come back in time.
+ */
+export function useHeartbeat(sessionId?: string) {
+  useEffect(() => {
+    if (!sessionId) {
+      return;
+    }
+
+    webSocketService.startHeartbeat(sessionId);
+    return () => {
+      webSocketService.stopHeartbeat();
+    };
+  }, [sessionId]);
+}
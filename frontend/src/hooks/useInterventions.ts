@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { webSocketService } from '../services/websocket';
+import { ProctorApiService } from '../services/api';
+import { InterventionEvent, SessionStatus, WarningPreset } from '../types';
+
+// Entries arrive both from the REST response and the socket broadcast
+const mergeEvents = (current: InterventionEvent[], incoming: InterventionEvent[]) => {
+  const byId = new Map(current.map(event => [event.id, event]));
+  incoming.forEach(event => byId.set(event.id, event));
+  return Array.from(byId.values())
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+};
+
+/**
+ * Keeps a session's intervention trail current: loaded once, then extended
+ * as proctors and the candidate act. `pending` holds the warnings, pauses
+ * and ends the candidate has not acknowledged yet.
+ */
+export function useInterventions(
+  sessionId?: string,
+  onSessionStatus?: (sessionId: string, status: SessionStatus) => void
+) {
+  const [events, setEvents] = useState<InterventionEvent[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setEvents([]);
+    if (!sessionId) {
+      return;
+    }
+
+    ProctorApiService.getInterventions(sessionId)
+      .then(response => setEvents(prev => mergeEvents(response.events, prev)))
+      .catch(err => console.error('Failed to load interventions:', err));
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!sessionId) {
+      return;
+    }
+
+    webSocketService.onIntervention((event: InterventionEvent) => {
+      if (event.sessionId !== sessionId) {
+        return;
+      }
+      setEvents(prev => mergeEvents(prev, [event]));
+      // Forced pauses and ends change the session under the candidate's feet
+      if (event.type === 'paused' || event.type === 'ended') {
+        onSessionStatus?.(event.sessionId, event.type);
+      }
+    });
+
+    return () => {
+      webSocketService.off('intervention');
+    };
+  }, [sessionId, onSessionStatus]);
+
+  const pending = useMemo(() => events.filter(event =>
+    event.requiresAck && !events.some(other => other.acknowledgesId === event.id)
+  ), [events]);
+
+  const record = useCallback(async (action: () => Promise<{ event: InterventionEvent }>) => {
+    setError(null);
+    try {
+      const response = await action();
+      setEvents(prev => mergeEvents(prev, [response.event]));
+      return response.event;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record intervention');
+      return null;
+    }
+  }, []);
+
+  const sendWarning = useCallback((warning: { preset: WarningPreset } | { text: string }) => {
+    return sessionId ? record(() => ProctorApiService.sendWarning(sessionId, warning)) : Promise.resolve(null);
+  }, [sessionId, record]);
+
+  const sendMessage = useCallback((text: string) => {
+    return sessionId ? record(() => ProctorApiService.sendChatMessage(sessionId, text)) : Promise.resolve(null);
+  }, [sessionId, record]);
+
+  const forcePause = useCallback(async (reason?: string) => {
+    const event = sessionId ? await record(() => ProctorApiService.forcePauseSession(sessionId, reason)) : null;
+    if (event) {
+      onSessionStatus?.(event.sessionId, 'paused');
+    }
+    return event;
+  }, [sessionId, record, onSessionStatus]);
+
+  const forceEnd = useCallback(async (reason: string) => {
+    const event = sessionId ? await record(() => ProctorApiService.forceEndSession(sessionId, reason)) : null;
+    if (event) {
+      onSessionStatus?.(event.sessionId, 'ended');
+    }
+    return event;
+  }, [sessionId, record, onSessionStatus]);
+
+  const acknowledge = useCallback((eventId: string) => {
+    return sessionId ? record(() => ProctorApiService.acknowledgeIntervention(sessionId, eventId)) : Promise.resolve(null);
+  }, [sessionId, record]);
+
+  return {
+    events,
+    pending,
+    error,
+    sendWarning,
+    sendMessage,
+    forcePause,
+    forceEnd,
+    acknowledge
+  };
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { ProctorSession } from '../types';
+import { ProctorSession, SessionStatus } from '../types';
 import { ProctorApiService } from '../services/api';
 
 export function useProctorSession(sessionId?: string) {
@@ -11,6 +11,7 @@ export function useProctorSession(sessionId?: string) {
     userId: string,
     externalCallId: string,
     callPlatform: 'zoom' | 'meet' | 'teams' | 'other',
+    slotId: string,
     metadata?: Record<string, string>
   ) => {
     setLoading(true);
@@ -19,6 +20,7 @@ export function useProctorSession(sessionId?: string) {
     try {
       const response = await ProctorApiService.startSession({
         userId,
+        slotId,
         externalCallId,
         callPlatform,
         metadata
@@ -50,6 +52,50 @@ export function useProctorSession(sessionId?: string) {
     }
   };
 
+  const pauseSession = async () => {
+    if (!session) return;
+    
+    setLoading(true);
+    try {
+      await ProctorApiService.pauseSession(session.id);
+      setSession(prev => prev ? { ...prev, status: 'paused' } : null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to pause session');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resumeSession = async () => {
+    if (!session) return;
+    
+    setLoading(true);
+    try {
+      await ProctorApiService.resumeSession(session.id);
+      setSession(prev => prev ? { ...prev, status: 'active' } : null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resume session');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Sessions started and ended by external call webhooks rather than by this dashboard
+  const trackSession = useCallback((started: ProctorSession) => {
+    setSession(prev => (!prev || prev.status === 'ended' ? started : prev));
+  }, []);
+
+  const markSessionEnded = useCallback((endedSessionId: string) => {
+    setSession(prev => (prev && prev.id === endedSessionId ? { ...prev, status: 'ended', endTime: new Date() } : prev));
+  }, []);
+
+  // Status changes the backend made itself, e.g. pausing a session whose candidate disconnected
+  const syncSessionStatus = useCallback((changedSessionId: string, status: SessionStatus) => {
+    setSession(prev => (prev && prev.id === changedSessionId && prev.status !== status
+      ? { ...prev, status, ...(status === 'ended' && { endTime: new Date() }) }
+      : prev));
+  }, []);
+
   const refreshSession = useCallback(async () => {
     if (!sessionId) return;
     
@@ -78,6 +124,11 @@ export function useProctorSession(sessionId?: string) {
     error,
     startSession,
     endSession,
-    refreshSession
+    pauseSession,
+    resumeSession,
+    refreshSession,
+    trackSession,
+    markSessionEnded,
+    syncSessionStatus
   };
 }
@@ -1,6 +1,6 @@
 import { useEffect, useCallback } from 'react';
 import { webSocketService } from '../services/websocket';
-import { CallMonitoringData, ExternalCallWebhook } from '../types';
+import { CallMonitoringData, CandidatePresence, ExternalCallWebhook, RiskScore } from '../types';
 
 export function useWebSocket() {
   useEffect(() => {
@@ -19,6 +19,10 @@ export function useWebSocket() {
     };
   }, []);
 
+  const reconnect = useCallback(() => {
+    webSocketService.reconnect();
+  }, []);
+
   const joinSession = useCallback((sessionId: string) => {
     webSocketService.joinSession(sessionId);
   }, []);
@@ -39,6 +43,22 @@ export function useWebSocket() {
     };
   }, []);
 
+  const onRiskScoreUpdate = useCallback((callback: (data: RiskScore) => void) => {
+    webSocketService.onRiskScoreUpdate(callback);
+    
+    return () => {
+      webSocketService.off('risk-score-update');
+    };
+  }, []);
+
+  const onPresenceUpdate = useCallback((callback: (data: CandidatePresence) => void) => {
+    webSocketService.onPresenceUpdate(callback);
+    
+    return () => {
+      webSocketService.off('presence-update');
+    };
+  }, []);
+
   const onCallEvent = useCallback((callback: (data: ExternalCallWebhook) => void) => {
     webSocketService.onCallEvent(callback);
     
@@ -60,10 +80,13 @@ export function useWebSocket() {
   }, []);
 
   return {
+    reconnect,
     joinSession,
     sendMonitoringData,
     sendExternalCallEvent,
     onMonitoringUpdate,
+    onRiskScoreUpdate,
+    onPresenceUpdate,
     onCallEvent,
     onExternalCallWebhook,
     isConnected
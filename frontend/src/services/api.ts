@@ -1,5 +1,30 @@
 import axios from 'axios';
-import { ProctorSession, ApiResponse, SessionStartRequest } from '../types';
+import {
+  ProctorSession,
+  ApiResponse,
+  SessionStartRequest,
+  RecordingSpeakerAnalysis,
+  SessionSpeechSegment,
+  RiskScore,
+  CandidatePresence,
+  InterventionEvent,
+  WarningPreset,
+  WarningPresetOption,
+  Incident,
+  IncidentVerdict,
+  SessionVerdict,
+  ReviewStatus,
+  SessionReview,
+  ReviewEvent,
+  ReviewQueueItem,
+  ReviewAgreementReport,
+  Exam,
+  ExamSlot,
+  LtiLaunch,
+  User,
+  AuthContext,
+  AuthTokens
+} from '../types';
 
 // Force HTTP for backend communication - safer for development
 // Use multiple fallback methods to ensure we always have a valid URL
@@ -16,26 +41,13 @@ const getApiBaseUrl = (): string => {
   return 'http://localhost:8081';
 };
 
-const getApiKey = (): string => {
-  if (typeof process !== 'undefined' && process.env?.NEXT_PUBLIC_API_KEY) {
-    const envKey = process.env.NEXT_PUBLIC_API_KEY;
-    if (envKey && envKey !== 'undefined' && envKey.trim() !== '') {
-      return envKey.trim();
-    }
-  }
-  
-  return 'exam-proctor-dev-key-2025';
-};
-
 const API_BASE_URL = getApiBaseUrl();
-const API_KEY = getApiKey();
+const TOKEN_STORAGE_KEY = 'authTokens';
 
 // Debug environment variables
 console.log('Environment debug:', {
   NEXT_PUBLIC_API_URL: typeof process !== 'undefined' ? process.env?.NEXT_PUBLIC_API_URL : 'process not available',
-  NEXT_PUBLIC_API_KEY: typeof process !== 'undefined' ? process.env?.NEXT_PUBLIC_API_KEY : 'process not available',
-  resolvedURL: API_BASE_URL,
-  resolvedKey: API_KEY
+  resolvedURL: API_BASE_URL
 });
 
 // Validate API_BASE_URL
@@ -62,8 +74,7 @@ try {
 const apiClient = axios.create({
   baseURL: API_BASE_URL,
   headers: {
-    'Content-Type': 'application/json',
-    'Authorization': `Bearer ${API_KEY}`
+    'Content-Type': 'application/json'
   },
   // Handle mixed content warnings and CORS
   withCredentials: false,
@@ -75,15 +86,65 @@ const apiClient = axios.create({
 
 // Debug logging
 console.log('API Configuration:', {
-  baseURL: API_BASE_URL,
-  apiKey: API_KEY,
-  authHeader: `Bearer ${API_KEY}`
+  baseURL: API_BASE_URL
 });
 
-// Add request interceptor for debugging
+// Access and refresh tokens from sign-in, an LTI launch or a started session.
+// Kept in localStorage so a reload does not sign the user out
+let authTokens: AuthTokens | null = null;
+let refreshing: Promise<AuthTokens | null> | null = null;
+
+export const getAuthTokens = (): AuthTokens | null => {
+  if (!authTokens && typeof window !== 'undefined') {
+    const stored = localStorage.getItem(TOKEN_STORAGE_KEY);
+    authTokens = stored ? JSON.parse(stored) : null;
+  }
+  return authTokens;
+};
+
+export const setAuthTokens = (tokens: AuthTokens | null): void => {
+  authTokens = tokens;
+  if (typeof window !== 'undefined') {
+    if (tokens) {
+      localStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(tokens));
+    } else {
+      localStorage.removeItem(TOKEN_STORAGE_KEY);
+    }
+  }
+};
+
+// One refresh at a time; concurrent 401s (and socket reconnects) wait for the same one
+export const refreshTokens = (): Promise<AuthTokens | null> => {
+  const refreshToken = getAuthTokens()?.refreshToken;
+  if (!refreshToken) {
+    return Promise.resolve(null);
+  }
+
+  if (!refreshing) {
+    refreshing = axios.post(`${API_BASE_URL}/api/auth/refresh`, { refreshToken })
+      .then(response => {
+        setAuthTokens(response.data.tokens);
+        return response.data.tokens as AuthTokens;
+      })
+      .catch(() => {
+        setAuthTokens(null);
+        return null;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+};
+
+// Add request interceptor for debugging and the access token
 apiClient.interceptors.request.use(
   (config) => {
     console.log(`Making ${config.method?.toUpperCase()} request to:`, config.url);
+    const accessToken = getAuthTokens()?.accessToken;
+    if (accessToken) {
+      config.headers.Authorization = `Bearer ${accessToken}`;
+    }
     return config;
   },
   (error) => {
@@ -98,9 +159,19 @@ apiClient.interceptors.response.use(
     console.log(`Response received:`, response.status, response.statusText);
     return response;
   },
-  (error) => {
+  async (error) => {
     console.error('Response interceptor error:', error);
     
+    // An expired access token is refreshed once and the request retried
+    const request = error.config;
+    if (error.response?.status === 401 && request && !request._retried && !request.url?.startsWith('/api/auth/')) {
+      request._retried = true;
+      const tokens = await refreshTokens();
+      if (tokens) {
+        return apiClient(request);
+      }
+    }
+    
     if (error.code === 'ERR_NETWORK') {
       console.error('Network error detected - backend may be unreachable');
     } else if (error.response) {
@@ -117,6 +188,10 @@ export class ProctorApiService {
     try {
       console.log('Starting session with API URL:', API_BASE_URL);
       const response = await apiClient.post('/api/sessions/start', request);
+      // Candidates get tokens limited to the new session
+      if (response.data.tokens) {
+        setAuthTokens(response.data.tokens);
+      }
       return response.data;
     } catch (error: unknown) {
       console.error('Error starting session:', error);
@@ -133,6 +208,39 @@ export class ProctorApiService {
     }
   }
   
+  static async login(email: string, password: string): Promise<{ success: boolean; user: User; tokens: AuthTokens }> {
+    try {
+      const response = await apiClient.post('/api/auth/login', { email, password });
+      setAuthTokens(response.data.tokens);
+      return response.data;
+    } catch (error) {
+      console.error('Error signing in:', error);
+      throw error;
+    }
+  }
+  
+  static async logout(): Promise<void> {
+    const refreshToken = getAuthTokens()?.refreshToken;
+    setAuthTokens(null);
+    try {
+      if (refreshToken) {
+        await apiClient.post('/api/auth/logout', { refreshToken });
+      }
+    } catch (error) {
+      console.error('Error signing out:', error);
+    }
+  }
+  
+  static async getCurrentUser(): Promise<{ success: boolean; auth: AuthContext; user: User | null }> {
+    try {
+      const response = await apiClient.get('/api/auth/me');
+      return response.data;
+    } catch (error) {
+      console.error('Error getting current user:', error);
+      throw error;
+    }
+  }
+  
   static async endSession(sessionId: string): Promise<ApiResponse> {
     try {
       const response = await apiClient.post(`/api/sessions/${sessionId}/end`);
@@ -143,6 +251,26 @@ export class ProctorApiService {
     }
   }
   
+  static async pauseSession(sessionId: string, reason?: string): Promise<ApiResponse> {
+    try {
+      const response = await apiClient.post(`/api/sessions/${sessionId}/pause`, { reason });
+      return response.data;
+    } catch (error) {
+      console.error('Error pausing session:', error);
+      throw error;
+    }
+  }
+  
+  static async resumeSession(sessionId: string): Promise<ApiResponse> {
+    try {
+      const response = await apiClient.post(`/api/sessions/${sessionId}/resume`);
+      return response.data;
+    } catch (error) {
+      console.error('Error resuming session:', error);
+      throw error;
+    }
+  }
+  
   static async getSessionStatus(sessionId: string): Promise<ApiResponse<ProctorSession>> {
     try {
       const response = await apiClient.get(`/api/sessions/${sessionId}/status`);
@@ -173,6 +301,297 @@ export class ProctorApiService {
     }
   }
   
+  static async getSpeechSegments(
+    sessionId: string,
+    source?: 'audio' | 'video'
+  ): Promise<{ success: boolean; segments: SessionSpeechSegment[]; count: number }> {
+    try {
+      const response = await apiClient.get(`/api/sessions/${sessionId}/speech-segments`, {
+        params: source ? { source } : undefined
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error getting speech segments:', error);
+      throw error;
+    }
+  }
+  
+  static async getSpeakers(
+    sessionId: string,
+    source?: 'audio' | 'video'
+  ): Promise<{ success: boolean; recordings: RecordingSpeakerAnalysis[]; count: number }> {
+    try {
+      const response = await apiClient.get(`/api/sessions/${sessionId}/speakers`, {
+        params: source ? { source } : undefined
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error getting speakers:', error);
+      throw error;
+    }
+  }
+  
+  static async getIncidents(
+    sessionId: string,
+    filters: {
+      type?: Incident['type'];
+      severity?: Incident['severity'];
+      status?: Incident['status'];
+      from?: string;
+      to?: string;
+      page?: number;
+      pageSize?: number;
+    } = {}
+  ): Promise<{ success: boolean; incidents: Incident[]; total: number; page: number; pageSize: number }> {
+    try {
+      const response = await apiClient.get(`/api/sessions/${sessionId}/incidents`, { params: filters });
+      return response.data;
+    } catch (error) {
+      console.error('Error getting incidents:', error);
+      throw error;
+    }
+  }
+  
+  static async getRiskScore(sessionId: string): Promise<{ success: boolean; riskScore: RiskScore }> {
+    try {
+      const response = await apiClient.get(`/api/sessions/${sessionId}/risk-score`);
+      return response.data;
+    } catch (error) {
+      console.error('Error getting risk score:', error);
+      throw error;
+    }
+  }
+  
+  static async getPresence(sessionId: string): Promise<{ success: boolean; presence: CandidatePresence }> {
+    try {
+      const response = await apiClient.get(`/api/sessions/${sessionId}/presence`);
+      return response.data;
+    } catch (error) {
+      console.error('Error getting candidate presence:', error);
+      throw error;
+    }
+  }
+  
+  static async getWarningPresets(): Promise<{ success: boolean; presets: WarningPresetOption[] }> {
+    try {
+      const response = await apiClient.get('/api/interventions/presets');
+      return response.data;
+    } catch (error) {
+      console.error('Error getting warning presets:', error);
+      throw error;
+    }
+  }
+  
+  static async getInterventions(sessionId: string): Promise<{ success: boolean; events: InterventionEvent[]; count: number }> {
+    try {
+      const response = await apiClient.get(`/api/interventions/${sessionId}`);
+      return response.data;
+    } catch (error) {
+      console.error('Error getting interventions:', error);
+      throw error;
+    }
+  }
+  
+  static async sendWarning(
+    sessionId: string,
+    warning: { preset: WarningPreset } | { text: string }
+  ): Promise<{ success: boolean; event: InterventionEvent }> {
+    try {
+      const response = await apiClient.post(`/api/interventions/${sessionId}/warnings`, warning);
+      return response.data;
+    } catch (error) {
+      console.error('Error sending warning:', error);
+      throw error;
+    }
+  }
+  
+  static async sendChatMessage(sessionId: string, text: string): Promise<{ success: boolean; event: InterventionEvent }> {
+    try {
+      const response = await apiClient.post(`/api/interventions/${sessionId}/messages`, { text });
+      return response.data;
+    } catch (error) {
+      console.error('Error sending chat message:', error);
+      throw error;
+    }
+  }
+  
+  static async forcePauseSession(sessionId: string, reason?: string): Promise<{ success: boolean; event: InterventionEvent }> {
+    try {
+      const response = await apiClient.post(`/api/interventions/${sessionId}/pause`, reason ? { reason } : {});
+      return response.data;
+    } catch (error) {
+      console.error('Error pausing session:', error);
+      throw error;
+    }
+  }
+  
+  static async forceEndSession(sessionId: string, reason: string): Promise<{ success: boolean; event: InterventionEvent }> {
+    try {
+      const response = await apiClient.post(`/api/interventions/${sessionId}/end`, { reason });
+      return response.data;
+    } catch (error) {
+      console.error('Error ending session:', error);
+      throw error;
+    }
+  }
+  
+  static async acknowledgeIntervention(sessionId: string, eventId: string): Promise<{ success: boolean; event: InterventionEvent }> {
+    try {
+      const response = await apiClient.post(`/api/interventions/${sessionId}/events/${eventId}/acknowledge`);
+      return response.data;
+    } catch (error) {
+      console.error('Error acknowledging intervention:', error);
+      throw error;
+    }
+  }
+  
+  static async getReviewQueue(
+    filters: { status?: ReviewStatus; claimedBy?: string; overdue?: boolean } = {}
+  ): Promise<{ success: boolean; queue: ReviewQueueItem[]; count: number }> {
+    try {
+      const response = await apiClient.get('/api/reviews/queue', { params: filters });
+      return response.data;
+    } catch (error) {
+      console.error('Error getting review queue:', error);
+      throw error;
+    }
+  }
+  
+  static async getReview(sessionId: string): Promise<{ success: boolean; review: SessionReview; events: ReviewEvent[] }> {
+    try {
+      const response = await apiClient.get(`/api/reviews/${sessionId}`);
+      return response.data;
+    } catch (error) {
+      console.error('Error getting review:', error);
+      throw error;
+    }
+  }
+  
+  static async claimReview(sessionId: string): Promise<{ success: boolean; review: SessionReview }> {
+    try {
+      const response = await apiClient.post(`/api/reviews/${sessionId}/claim`);
+      return response.data;
+    } catch (error) {
+      console.error('Error claiming review:', error);
+      throw error;
+    }
+  }
+  
+  static async releaseReview(
+    sessionId: string,
+    note?: string
+  ): Promise<{ success: boolean; review: SessionReview }> {
+    try {
+      const response = await apiClient.post(`/api/reviews/${sessionId}/release`, { note });
+      return response.data;
+    } catch (error) {
+      console.error('Error releasing review:', error);
+      throw error;
+    }
+  }
+  
+  static async addReviewNote(
+    sessionId: string,
+    note: string,
+    incidentId?: string
+  ): Promise<{ success: boolean; event: ReviewEvent }> {
+    try {
+      const response = await apiClient.post(`/api/reviews/${sessionId}/notes`, { note, incidentId });
+      return response.data;
+    } catch (error) {
+      console.error('Error adding review note:', error);
+      throw error;
+    }
+  }
+  
+  static async recordIncidentVerdict(
+    sessionId: string,
+    incidentId: string,
+    verdict: IncidentVerdict,
+    note?: string
+  ): Promise<{ success: boolean; event: ReviewEvent }> {
+    try {
+      const response = await apiClient.post(
+        `/api/reviews/${sessionId}/incidents/${incidentId}/verdict`,
+        { verdict, note }
+      );
+      return response.data;
+    } catch (error) {
+      console.error('Error recording incident verdict:', error);
+      throw error;
+    }
+  }
+  
+  static async recordFinalVerdict(
+    sessionId: string,
+    verdict: SessionVerdict,
+    note?: string
+  ): Promise<{ success: boolean; review: SessionReview }> {
+    try {
+      const response = await apiClient.post(`/api/reviews/${sessionId}/verdict`, { verdict, note });
+      return response.data;
+    } catch (error) {
+      console.error('Error recording final verdict:', error);
+      throw error;
+    }
+  }
+  
+  static async getAgreementReport(
+    range: { from?: string; to?: string } = {}
+  ): Promise<{ success: boolean; report: ReviewAgreementReport }> {
+    try {
+      const response = await apiClient.get('/api/reviews/reports/agreement', { params: range });
+      return response.data;
+    } catch (error) {
+      console.error('Error getting agreement report:', error);
+      throw error;
+    }
+  }
+  
+  static async getDeepLinkOptions(launchId: string): Promise<{ success: boolean; exams: Exam[]; slots: ExamSlot[] }> {
+    try {
+      const response = await apiClient.get(`/api/lti/launches/${launchId}/exams`);
+      return response.data;
+    } catch (error) {
+      console.error('Error getting exams for deep linking:', error);
+      throw error;
+    }
+  }
+  
+  static async getLtiLaunch(launchId: string): Promise<{ success: boolean; launch: LtiLaunch }> {
+    try {
+      const response = await apiClient.get(`/api/lti/launches/${launchId}`);
+      return response.data;
+    } catch (error) {
+      console.error('Error getting LTI launch:', error);
+      throw error;
+    }
+  }
+  
+  static async exchangeLtiLaunch(launchId: string): Promise<{ success: boolean; userId: string; tokens: AuthTokens }> {
+    try {
+      const response = await apiClient.post('/api/auth/lti', { launchId });
+      setAuthTokens(response.data.tokens);
+      return response.data;
+    } catch (error) {
+      console.error('Error exchanging LTI launch:', error);
+      throw error;
+    }
+  }
+  
+  static async createDeepLink(
+    launchId: string,
+    selection: { examId: string; slotId?: string; title?: string }
+  ): Promise<{ success: boolean; returnUrl: string; jwt: string }> {
+    try {
+      const response = await apiClient.post(`/api/lti/launches/${launchId}/deep-link`, selection);
+      return response.data;
+    } catch (error) {
+      console.error('Error creating LTI deep link:', error);
+      throw error;
+    }
+  }
+  
   static async uploadRecording(
     sessionId: string,
     recordingType: 'video' | 'audio' | 'screen',
@@ -233,7 +652,6 @@ export class ProctorApiService {
           url: healthUrl,
           headers: {
             'Content-Type': 'application/json',
-            'Authorization': `Bearer ${API_KEY}`,
             'Accept': 'application/json'
           },
           withCredentials: false,
@@ -0,0 +1,199 @@
+import { CallMonitoringData, MonitoringBatch, MonitoringBatchAck, MonitoringSample } from '../types';
+
+const DB_NAME = 'proctor-monitoring-outbox';
+const STORE_NAME = 'samples';
+const SEQ_STORAGE_PREFIX = 'proctor.monitoringSeq.';
+const BATCH_SIZE = 25;
+const FLUSH_INTERVAL_MS = 1000;
+// Wait before resending a batch the server never acknowledged
+const UNACKED_RETRY_MS = 2000;
+
+interface OutboxEntry extends MonitoringSample {
+  sessionId: string;
+}
+
+// Sends one batch and resolves with the server's acknowledgement; rejects when none arrives
+export type MonitoringBatchTransport = (batch: MonitoringBatch) => Promise<MonitoringBatchAck>;
+
+/**
+ * Holds monitoring samples until the server acknowledges them, so a flaky
+ * connection delays evidence instead of losing it. Samples are numbered per
+ * session, kept in IndexedDB (surviving reloads and offline spells) and sent
+ * in batches, oldest first. The server ignores sequence numbers it already
+ * has, so resending after a lost acknowledgement is safe, and it can ask the
+ * outbox to slow down with `retryAfterMs`.
+ */
+export class MonitoringOutbox {
+  private entries: OutboxEntry[] = [];
+  private db: Promise<IDBDatabase | null> | null = null;
+  private seqFallback = new Map<string, number>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private sending = false;
+  private pausedUntil = 0;
+  private restored = false;
+
+  constructor(
+    private transport: MonitoringBatchTransport,
+    private isOnline: () => boolean
+  ) {}
+
+  enqueue(data: CallMonitoringData): void {
+    const entry: OutboxEntry = {
+      sessionId: data.sessionId,
+      seq: this.nextSeq(data.sessionId),
+      timestamp: data.timestamp,
+      gazeData: data.gazeData,
+      audioData: data.audioData
+    };
+    this.entries.push(entry);
+    this.withStore('readwrite', store => store.put(entry));
+    this.schedule(this.entries.length >= BATCH_SIZE ? 0 : FLUSH_INTERVAL_MS);
+  }
+
+  // Picks up samples left by an earlier page load and sends everything waiting; called on every connect
+  async resume(): Promise<void> {
+    if (!this.restored) {
+      this.restored = true;
+      const stored = await this.loadStored();
+      const known = new Set(this.entries.map(entry => `${entry.sessionId}:${entry.seq}`));
+      this.entries.push(...stored.filter(entry => !known.has(`${entry.sessionId}:${entry.seq}`)));
+      this.entries.sort((a, b) => a.sessionId.localeCompare(b.sessionId) || a.seq - b.seq);
+    }
+    this.schedule(0);
+  }
+
+  get pending(): number {
+    return this.entries.length;
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.timer) {
+      if (delayMs > 0) {
+        return;
+      }
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, delayMs);
+  }
+
+  private async flush(): Promise<void> {
+    if (this.sending || this.entries.length === 0 || !this.isOnline()) {
+      return;
+    }
+    const waitMs = this.pausedUntil - Date.now();
+    if (waitMs > 0) {
+      this.schedule(waitMs);
+      return;
+    }
+
+    const sessionId = this.entries[0].sessionId;
+    const batch = this.entries.filter(entry => entry.sessionId === sessionId).slice(0, BATCH_SIZE);
+
+    this.sending = true;
+    try {
+      const ack = await this.transport({ sessionId, samples: batch.map(entry => this.toSample(entry)) });
+      if (ack.success) {
+        this.remove(sessionId, ack.acked ?? batch.map(entry => entry.seq));
+      } else if (ack.retryAfterMs === undefined) {
+        // Refused for good (e.g. the session has ended); keeping it would hold up everything behind it
+        console.warn('Monitoring batch refused, dropping it:', ack.error);
+        this.remove(sessionId, batch.map(entry => entry.seq));
+      }
+      if (ack.retryAfterMs) {
+        this.pausedUntil = Date.now() + ack.retryAfterMs;
+      }
+    } catch (error) {
+      console.warn('Monitoring batch not acknowledged, will resend:', error);
+      this.pausedUntil = Date.now() + UNACKED_RETRY_MS;
+    } finally {
+      this.sending = false;
+    }
+
+    if (this.entries.length > 0) {
+      this.schedule(this.entries.length >= BATCH_SIZE ? 0 : FLUSH_INTERVAL_MS);
+    }
+  }
+
+  private remove(sessionId: string, seqs: number[]): void {
+    const acked = new Set(seqs);
+    this.entries = this.entries.filter(entry => entry.sessionId !== sessionId || !acked.has(entry.seq));
+    this.withStore('readwrite', store => seqs.forEach(seq => store.delete([sessionId, seq])));
+  }
+
+  // Counts on from the last number used for the session, even across page loads
+  private nextSeq(sessionId: string): number {
+    const key = `${SEQ_STORAGE_PREFIX}${sessionId}`;
+    try {
+      const seq = parseInt(localStorage.getItem(key) || '0');
+      localStorage.setItem(key, String(seq + 1));
+      return seq;
+    } catch {
+      // Without storage, the clock keeps numbers from repeating after a reload
+      const seq = this.seqFallback.get(sessionId) ?? Date.now();
+      this.seqFallback.set(sessionId, seq + 1);
+      return seq;
+    }
+  }
+
+  private toSample(entry: OutboxEntry): MonitoringSample {
+    return {
+      seq: entry.seq,
+      timestamp: entry.timestamp,
+      gazeData: entry.gazeData,
+      audioData: entry.audioData
+    };
+  }
+
+  private async loadStored(): Promise<OutboxEntry[]> {
+    let stored: OutboxEntry[] = [];
+    await this.withStore('readonly', store => {
+      const request = store.getAll();
+      request.onsuccess = () => {
+        stored = request.result;
+      };
+    });
+    return stored;
+  }
+
+  // Samples only live in memory when IndexedDB is unavailable (e.g. some private windows)
+  private async withStore(mode: IDBTransactionMode, action: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await this.openDb();
+    if (!db) {
+      return;
+    }
+
+    await new Promise<void>(resolve => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => {
+        console.warn('Monitoring outbox storage failed:', transaction.error);
+        resolve();
+      };
+      action(transaction.objectStore(STORE_NAME));
+    });
+  }
+
+  private openDb(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: ['sessionId', 'seq'] });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('Monitoring outbox storage unavailable:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.db;
+  }
+}
@@ -1,9 +1,35 @@
 import { io, Socket } from 'socket.io-client';
-import { CallMonitoringData, ExternalCallWebhook } from '../types';
+import {
+  BrowserTelemetryEvent,
+  CallMonitoringData,
+  CandidatePresence,
+  ExternalCallWebhook,
+  HeartbeatAck,
+  InterventionEvent,
+  MonitoringBatch,
+  MonitoringBatchAck,
+  RiskScore,
+  SocketAck
+} from '../types';
+import { getAuthTokens, refreshTokens } from './api';
+import { MonitoringOutbox } from './monitoringOutbox';
+
+// How long to wait for the server to acknowledge a monitoring batch before resending it
+const MONITORING_ACK_TIMEOUT_MS = 10000;
+// Used until the server's first heartbeat acknowledgement says how often it wants them
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 5000;
 
 export class WebSocketService {
   private socket: Socket | null = null;
   private serverUrl: string;
+  // Rejoined after every reconnect, since the server forgets a socket's rooms
+  private sessionId: string | null = null;
+  private authRetried = false;
+  private heartbeatSessionId: string | null = null;
+  private heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatIntervalMs = DEFAULT_HEARTBEAT_INTERVAL_MS;
+  // Monitoring samples wait here until the server acknowledges them
+  private outbox = new MonitoringOutbox(batch => this.emitMonitoringBatch(batch), () => this.isConnected());
 
   constructor() {
     // Use environment variable or fallback to localhost
@@ -29,11 +55,22 @@ export class WebSocketService {
         // Add transport options for better compatibility
         transports: ['websocket', 'polling'],
         // Disable CORS for development
-        withCredentials: false
+        withCredentials: false,
+        // Read on every (re)connect so a refreshed access token is used
+        auth: (callback) => callback({ token: getAuthTokens()?.accessToken })
       });
 
       this.socket.on('connect', () => {
         console.log('Connected to WebSocket server');
+        this.authRetried = false;
+        if (this.sessionId) {
+          this.emitJoinSession(this.sessionId);
+        }
+        // Let proctors see the candidate is back without waiting for the next beat
+        if (this.heartbeatSessionId) {
+          this.startHeartbeat(this.heartbeatSessionId);
+        }
+        this.outbox.resume();
       });
 
       this.socket.on('disconnect', () => {
@@ -41,6 +78,19 @@ export class WebSocketService {
       });
 
       this.socket.on('connect_error', (error) => {
+        // The server refused the token; it is not retried automatically, so refresh it once and reconnect
+        if (error.message === 'Unauthorized') {
+          console.warn('WebSocket connection refused: not signed in or the access token expired');
+          if (!this.authRetried) {
+            this.authRetried = true;
+            refreshTokens().then(tokens => {
+              if (tokens) {
+                this.socket?.connect();
+              }
+            });
+          }
+          return;
+        }
         console.error('WebSocket connection error:', error);
         console.log('This is normal if the backend WebSocket is not running. The app will continue to function without real-time features.');
       });
@@ -64,6 +114,8 @@ export class WebSocketService {
 
   disconnect(): void {
     try {
+      this.sessionId = null;
+      this.stopHeartbeat();
       if (this.socket) {
         this.socket.disconnect();
         this.socket = null;
@@ -73,34 +125,71 @@ export class WebSocketService {
     }
   }
 
+  // Reconnects with the current access token, e.g. after signing in or out.
+  // The same socket is reused so event listeners stay attached
+  reconnect(): void {
+    if (!this.socket) {
+      this.connect();
+      return;
+    }
+    this.authRetried = false;
+    this.socket.disconnect();
+    this.socket.connect();
+  }
+
   joinSession(sessionId: string): void {
     try {
+      this.sessionId = sessionId;
       if (this.socket?.connected) {
-        this.socket.emit('join-session', sessionId);
+        this.emitJoinSession(sessionId);
       } else {
-        console.warn('WebSocket not connected, cannot join session:', sessionId);
+        console.warn('WebSocket not connected, will join session once connected:', sessionId);
       }
     } catch (error) {
       console.error('Error joining session:', error);
     }
   }
 
+  // Keeps the candidate marked online for the session until stopped
+  startHeartbeat(sessionId: string): void {
+    this.stopHeartbeat();
+    this.heartbeatSessionId = sessionId;
+    this.sendHeartbeat();
+  }
+
+  stopHeartbeat(): void {
+    this.heartbeatSessionId = null;
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  // Queued while disconnected and sent in acknowledged batches, so no sample is lost to a dropped connection
   sendMonitoringData(data: CallMonitoringData): void {
+    try {
+      this.outbox.enqueue(data);
+    } catch (error) {
+      console.error('Error sending monitoring data:', error);
+    }
+  }
+
+  sendTelemetryEvent(event: BrowserTelemetryEvent): void {
     try {
       if (this.socket?.connected) {
-        this.socket.emit('monitoring-data', data);
+        this.socket.emit('telemetry-event', event, this.logRefusal('telemetry-event'));
       } else {
-        console.warn('WebSocket not connected, cannot send monitoring data');
+        console.warn('WebSocket not connected, cannot send telemetry event');
       }
     } catch (error) {
-      console.error('Error sending monitoring data:', error);
+      console.error('Error sending telemetry event:', error);
     }
   }
 
   sendExternalCallEvent(eventData: ExternalCallWebhook): void {
     try {
       if (this.socket?.connected) {
-        this.socket.emit('external-call-event', eventData);
+        this.socket.emit('external-call-event', eventData, this.logRefusal('external-call-event'));
       } else {
         console.warn('WebSocket not connected, cannot send external call event');
       }
@@ -119,6 +208,24 @@ export class WebSocketService {
     }
   }
 
+  onRiskScoreUpdate(callback: (data: RiskScore) => void): void {
+    if (this.socket) {
+      this.socket.on('risk-score-update', callback);
+    }
+  }
+
+  onPresenceUpdate(callback: (data: CandidatePresence) => void): void {
+    if (this.socket) {
+      this.socket.on('presence-update', callback);
+    }
+  }
+
+  onIntervention(callback: (data: InterventionEvent) => void): void {
+    if (this.socket) {
+      this.socket.on('intervention', callback);
+    }
+  }
+
   onCallEvent(callback: (data: ExternalCallWebhook) => void): void {
     if (this.socket) {
       this.socket.on('call-event', callback);
@@ -140,6 +247,51 @@ export class WebSocketService {
   isConnected(): boolean {
     return this.socket?.connected || false;
   }
+
+  private emitJoinSession(sessionId: string): void {
+    this.socket?.emit('join-session', sessionId, this.logRefusal('join-session'));
+  }
+
+  private sendHeartbeat(): void {
+    if (!this.heartbeatSessionId) {
+      return;
+    }
+    if (this.socket?.connected) {
+      this.socket.emit('heartbeat', this.heartbeatSessionId, (response: HeartbeatAck) => {
+        if (!response?.success) {
+          console.warn('WebSocket heartbeat refused:', response?.error);
+        } else if (response.intervalMs) {
+          this.heartbeatIntervalMs = response.intervalMs;
+        }
+      });
+    }
+    this.heartbeatTimer = setTimeout(() => this.sendHeartbeat(), this.heartbeatIntervalMs);
+  }
+
+  private emitMonitoringBatch(batch: MonitoringBatch): Promise<MonitoringBatchAck> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket?.connected) {
+        reject(new Error('WebSocket not connected'));
+        return;
+      }
+      this.socket.timeout(MONITORING_ACK_TIMEOUT_MS).emit('monitoring-batch', batch, (error: Error | null, ack: MonitoringBatchAck) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(ack);
+        }
+      });
+    });
+  }
+
+  // The server acknowledges events it refuses with the reason
+  private logRefusal(event: string): (response: SocketAck) => void {
+    return (response) => {
+      if (!response?.success) {
+        console.warn(`WebSocket ${event} refused:`, response?.error);
+      }
+    };
+  }
 }
 
 export const webSocketService = new WebSocketService();
@@ -1,11 +1,28 @@
+export type SessionStatus = 'active' | 'paused' | 'ended' | 'recording';
+
+export interface SessionStatusChange {
+  from?: SessionStatus;
+  to: SessionStatus;
+  at: Date;
+  reason?: string;
+}
+
 export interface ProctorSession {
   id: string;
   userId: string;
   externalCallId: string;
   callPlatform: 'zoom' | 'meet' | 'teams' | 'other';
-  status: 'active' | 'paused' | 'ended' | 'recording';
+  examId?: string;
+  slotId?: string;
+  tenantId?: string;
+  status: SessionStatus;
+  statusHistory?: SessionStatusChange[];
+  pausedDurationMs?: number;
   startTime: Date;
   endTime?: Date;
+  riskScore?: RiskScore; // final score, stored when the session ends
+  participants?: SessionParticipant[]; // everyone seen on the external call
+  review?: SessionReview;
   recordingPaths: {
     video?: string;
     audio?: string;
@@ -15,6 +32,7 @@ export interface ProctorSession {
     userAgent: string;
     platform: string;
     resolution: string;
+    examId?: string; // selects a rule set for sessions started without an exam slot
   };
 }
 
@@ -32,21 +50,239 @@ export interface GazeTrackingData {
   confidence: number;
   lookingAway: boolean;
   duration: number;
+  timestamp?: number;
+  frameIndex?: number;
+  faceCount?: number;
 }
 
 export interface AudioAnalysisData {
   volume: number;
+  peak?: number;
   frequency: number[];
   multipleVoices: boolean;
+  multipleVoicesConfidence?: number;
+  speakerCount?: number;
   backgroundNoise: number;
 }
 
+// start and end are seconds from the start of the session; less
+// recordingOffset, they are the position within the recording
+export interface SessionSpeechSegment {
+  sessionId: string;
+  source: 'audio' | 'video';
+  recordingPath: string;
+  recordingOffset: number;
+  start: number;
+  end: number;
+  energy: number;
+  speaker?: number;
+}
+
+export interface SpeakerTimeline {
+  speaker: number;
+  ranges: { start: number; end: number }[];
+  speechSeconds: number;
+  meanPitchHz?: number;
+}
+
+// Who spoke when in one recording; ranges are seconds from the start of the session
+export interface RecordingSpeakerAnalysis {
+  sessionId: string;
+  source: 'audio' | 'video';
+  recordingPath: string;
+  recordingOffset: number;
+  speakerCount: number;
+  confidence: number;
+  speakers: SpeakerTimeline[];
+  analyzedAt: Date;
+}
+
 export interface SuspiciousActivity {
-  type: 'gaze_away' | 'multiple_voices' | 'window_switch' | 'face_not_detected';
+  type:
+    | 'gaze_away'
+    | 'multiple_voices'
+    | 'window_switch'
+    | 'focus_lost'
+    | 'fullscreen_exit'
+    | 'clipboard_use'
+    | 'print_attempt'
+    | 'face_not_detected'
+    | 'multiple_faces'
+    | 'environment_change'
+    | 'connection_lost';
   severity: 'low' | 'medium' | 'high';
   timestamp: Date;
+  startTime?: Date;
+  endTime?: Date;
   description: string;
   confidence: number;
+  ruleId?: string;
+}
+
+export type BrowserTelemetryEventType =
+  | 'visibility_hidden'
+  | 'visibility_visible'
+  | 'window_blur'
+  | 'window_focus'
+  | 'fullscreen_exit'
+  | 'fullscreen_enter'
+  | 'copy'
+  | 'cut'
+  | 'paste'
+  | 'print';
+
+export interface BrowserTelemetryEvent {
+  sessionId: string;
+  type: BrowserTelemetryEventType;
+  timestamp: Date; // client clock
+}
+
+// Consecutive suspicious activity of one type merged into a single episode
+export interface Incident {
+  id: string;
+  sessionId: string;
+  type: SuspiciousActivity['type'];
+  severity: SuspiciousActivity['severity']; // highest seen in the episode
+  status: 'open' | 'closed';
+  startTime: Date;
+  endTime: Date;
+  peakConfidence: number;
+  description: string; // from the most recent signal
+  ruleId?: string;
+  sampleIds: string[]; // CallMonitoringData documents that support the incident
+}
+
+export interface Exam {
+  id: string;
+  title: string;
+  description?: string;
+  tenantId?: string;
+  ruleSetId?: string; // detection rules for every session of this exam
+  durationMinutes: number; // allowed time per candidate
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A sitting of an exam: when it can be taken and by whom
+export interface ExamSlot {
+  id: string;
+  examId: string;
+  windowStart: Date;
+  windowEnd: Date;
+  candidateIds: string[];
+  // The scheduled meeting; its webhooks start and end candidates' sessions
+  externalCallId?: string;
+  callPlatform?: 'zoom' | 'meet' | 'teams' | 'other';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A validated launch from an LMS; the ID doubles as the ticket in ?lti=
+export interface LtiLaunch {
+  id: string;
+  platformId: string;
+  messageType: 'resource_link' | 'deep_linking';
+  userId: string;
+  name?: string;
+  roles: string[];
+  isInstructor: boolean;
+  examId?: string;
+  examTitle?: string;
+  slotId?: string;
+  externalCallId?: string;
+  callPlatform?: ExamSlot['callPlatform'];
+  returnUrl?: string; // back to the LMS
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export type IncidentVerdict = 'confirmed' | 'dismissed' | 'second_opinion';
+export type SessionVerdict = 'cleared' | 'violation' | 'inconclusive';
+export type ReviewStatus = 'pending' | 'in_review' | 'awaiting_second_opinion' | 'completed';
+
+export interface SessionReview {
+  status: ReviewStatus;
+  queuedAt: Date;
+  dueAt: Date; // SLA deadline
+  riskScore: number;
+  claimedBy?: string;
+  claimedAt?: Date;
+  reviewers: string[]; // everyone who has claimed the session
+  finalVerdict?: SessionVerdict;
+  completedAt?: Date;
+}
+
+// Append-only record of everything a reviewer did
+export interface ReviewEvent {
+  id: string;
+  sessionId: string;
+  reviewerId: string;
+  type: 'queued' | 'claimed' | 'released' | 'incident_verdict' | 'note' | 'second_opinion_requested' | 'final_verdict';
+  incidentId?: string;
+  verdict?: IncidentVerdict | SessionVerdict;
+  note?: string;
+  createdAt: Date;
+}
+
+export type WarningPreset = 'eyes_on_screen' | 'no_other_people' | 'no_devices' | 'stay_in_exam_tab' | 'keep_quiet';
+
+export interface WarningPresetOption {
+  id: WarningPreset;
+  text: string;
+}
+
+// Append-only record of warnings, chat, forced pauses and ends, and the candidate's acknowledgements
+export interface InterventionEvent {
+  id: string;
+  sessionId: string;
+  tenantId?: string;
+  type: 'warning' | 'message' | 'paused' | 'ended' | 'acknowledged';
+  senderId: string;
+  senderRole: UserRole;
+  preset?: WarningPreset;
+  text?: string; // the warning or message, or the reason for a pause or end
+  requiresAck: boolean;
+  acknowledgesId?: string;
+  createdAt: Date;
+}
+
+export interface ReviewQueueItem extends SessionReview {
+  sessionId: string;
+  userId: string;
+  slaBreached: boolean;
+  timeRemainingMs: number;
+}
+
+export interface ReviewerAgreement {
+  reviewers: string[];
+  compared: number; // incidents both reviewers gave a verdict on
+  agreement: number; // observed agreement, 0-1
+  kappa: number | null; // chance-corrected (Cohen's kappa); null when undefined
+}
+
+export interface ReviewAgreementReport {
+  incidentsCompared: number;
+  agreement: number;
+  kappa: number | null;
+  pairs: ReviewerAgreement[];
+  sessionVerdicts: { compared: number; agreement: number }; // first proposal vs final verdict
+}
+
+export interface RiskFactor {
+  type: SuspiciousActivity['type'];
+  incidentCount: number;
+  durationMs: number; // summed over incidents that span a period
+  points: number; // weighted evidence before scaling
+  contribution: number; // share of the score; contributions sum to the score
+}
+
+// 0 = no evidence of misconduct, 100 = overwhelming evidence
+export interface RiskScore {
+  sessionId: string;
+  score: number;
+  factors: RiskFactor[]; // largest contribution first
+  incidentCount: number;
+  calculatedAt: Date;
 }
 
 export interface ExternalCallWebhook {
@@ -55,6 +291,48 @@ export interface ExternalCallWebhook {
   eventType: 'call_started' | 'call_ended' | 'participant_joined' | 'participant_left';
   participants: CallParticipant[];
   timestamp: Date;
+  // Added by the server when the event started or ended sessions
+  startedSessions?: ProctorSession[];
+  endedSessionIds?: string[];
+}
+
+// The server's answer to a socket event sent with an acknowledgement
+export interface SocketAck {
+  success: boolean;
+  error?: string;
+  retryAfterMs?: number; // busy or a passing failure: send (again) after this long
+}
+
+// One monitoring sample queued in the outbox, numbered per session
+export interface MonitoringSample {
+  seq: number;
+  timestamp: Date;
+  gazeData?: GazeTrackingData;
+  audioData?: AudioAnalysisData;
+}
+
+export interface MonitoringBatch {
+  sessionId: string;
+  samples: MonitoringSample[];
+}
+
+export interface MonitoringBatchAck extends SocketAck {
+  acked?: number[]; // stored now or before; safe to drop from the outbox
+  duplicates?: number;
+}
+
+export interface HeartbeatAck extends SocketAck {
+  intervalMs?: number; // how often the server wants heartbeats
+}
+
+// Whether the candidate's exam tab is still connected
+export interface CandidatePresence {
+  sessionId: string;
+  status: 'online' | 'offline';
+  lastSeenAt?: Date;
+  reconnectDeadline?: Date; // while offline: when the session is paused or ended unless they return
+  disconnectAction?: 'pause' | 'end';
+  sessionStatus?: SessionStatus; // on socket updates, so automatic pauses and ends show up
 }
 
 export interface CallParticipant {
@@ -64,6 +342,41 @@ export interface CallParticipant {
   role: 'host' | 'participant' | 'proctored_user';
 }
 
+export interface SessionParticipant extends CallParticipant {
+  joinedAt?: Date;
+  leftAt?: Date;
+}
+
+export type UserRole = 'candidate' | 'proctor' | 'reviewer' | 'admin';
+
+export interface User {
+  id: string;
+  email: string;
+  name?: string;
+  role: Exclude<UserRole, 'candidate'>;
+  tenantId?: string;
+  disabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Who the current access token speaks for
+export interface AuthContext {
+  userId: string;
+  role: UserRole;
+  sessionId?: string;
+  tenantId?: string;
+  tokenId: string;
+}
+
+export interface AuthTokens {
+  tokenType: 'Bearer';
+  accessToken: string;
+  expiresIn: number; // seconds
+  refreshToken: string;
+  refreshExpiresAt: Date;
+}
+
 export interface ApiResponse<T = unknown> {
   success: boolean;
   data?: T;
@@ -73,6 +386,7 @@ export interface ApiResponse<T = unknown> {
 
 export interface SessionStartRequest {
   userId: string;
+  slotId: string;
   externalCallId: string;
   callPlatform: 'zoom' | 'meet' | 'teams' | 'other';
   metadata?: {